@@ -9,10 +9,12 @@ import Dashboard from "@/pages/Dashboard";
 import Projects from "@/pages/Projects";
 import ProjectDetails from "@/pages/ProjectDetails";
 import Tasks from "@/pages/Tasks";
+import Timesheet from "@/pages/Timesheet";
 import AIInsights from "@/pages/AIInsights";
 import Analytics from "@/pages/Analytics";
 import ProjectReports from "@/pages/ProjectReports";
 import ProjectDashboard from "@/pages/ProjectDashboard";
+import ProjectRegister from "@/pages/ProjectRegister";
 import Meetings from "@/pages/Meetings";
 import Calendar from "@/pages/Calendar";
 import Team from "@/pages/Team";
@@ -21,6 +23,7 @@ import Security from "@/pages/Security";
 import Sidebar from "@/components/layout/Sidebar";
 import MobileNav from "@/components/layout/MobileNav";
 import PWAInstallButton from "@/components/PWAInstallButton";
+import SearchPalette from "@/components/SearchPalette";
 import Login from "@/pages/Login";
 import AuthTest from "@/components/AuthTest";
 import UserProjects from "@/pages/UserProjects";
@@ -33,6 +36,7 @@ import { VoiceRecordingProvider } from "@/contexts/VoiceRecordingContext";
 import { VoiceAssistantProvider } from "@/contexts/VoiceAssistantContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import RecordingDiagnostics from "@/pages/RecordingDiagnostics";
+import SchedulerAdmin from "@/pages/SchedulerAdmin";
 import { useState, useEffect } from "react";
 import { Mic, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -167,6 +171,8 @@ function AppLayout({ children }: { children: React.ReactNode }) {
           onClose={() => setIsAssistantModalOpen(false)} 
         />
         
+        <SearchPalette />
+
         {/* PWA Install Button */}
         <PWAInstallButton />
       </div>
@@ -234,10 +240,12 @@ function Router() {
         <Route path="/projects" component={UserProjects} />
         <Route path="/projects/:id" component={ProjectDetails} />
         <Route path="/tasks" component={Tasks} />
+        <Route path="/timesheet" component={Timesheet} />
         <Route path="/ai-insights" component={AIInsights} />
         <Route path="/analytics" component={Analytics} />
         <Route path="/reports" component={ProjectReports} />
         <Route path="/projects/:id/dashboard" component={ProjectDashboard} />
+        <Route path="/projects/:id/register" component={ProjectRegister} />
         <Route path="/meetings" component={Meetings} />
         <Route path="/calendar" component={Calendar} />
         <Route path="/team" component={Team} />
@@ -247,6 +255,7 @@ function Router() {
         <Route path="/auth-test" component={AuthTest} />
         <Route path="/my-projects" component={UserProjects} />
         <Route path="/recording-diagnostics" component={RecordingDiagnostics} />
+        <Route path="/admin/scheduler" component={SchedulerAdmin} />
         <Route component={NotFound} />
       </Switch>
     </AppLayout>
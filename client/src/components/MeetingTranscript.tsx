@@ -0,0 +1,162 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { SpeakerMap, TranscriptSegment } from "@shared/schema";
+
+interface TranscriptSpeaker {
+  label: string;
+  userId: string | null;
+  name: string | null;
+  segmentCount: number;
+  talkTimeMs: number;
+}
+
+interface TranscriptResponse {
+  meetingId: string;
+  text: string | null;
+  provider: string | null;
+  segments: TranscriptSegment[];
+  speakerMap: SpeakerMap;
+  speakers: TranscriptSpeaker[];
+  candidates: { id: string; name: string }[];
+}
+
+// Text and accent colors per speaker, in order of first appearance
+const speakerColors = [
+  { text: "text-blue-700", border: "border-blue-400", dot: "bg-blue-500" },
+  { text: "text-emerald-700", border: "border-emerald-400", dot: "bg-emerald-500" },
+  { text: "text-amber-700", border: "border-amber-400", dot: "bg-amber-500" },
+  { text: "text-purple-700", border: "border-purple-400", dot: "bg-purple-500" },
+  { text: "text-rose-700", border: "border-rose-400", dot: "bg-rose-500" },
+  { text: "text-cyan-700", border: "border-cyan-400", dot: "bg-cyan-500" },
+];
+
+// 75000 -> "1:15", 3725000 -> "1:02:05"
+function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+interface MeetingTranscriptProps {
+  meetingId: string;
+  fallbackText?: string;
+  highlightMs?: number; // scroll to and mark the utterance at this point of the recording, e.g. from a citation
+}
+
+export default function MeetingTranscript({ meetingId, fallbackText, highlightMs }: MeetingTranscriptProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading } = useQuery<TranscriptResponse>({
+    queryKey: [`/api/meetings/${meetingId}/transcript`],
+    refetchOnMount: "always",
+  });
+
+  // The last utterance starting at or before the highlighted time
+  const highlightIndex = highlightMs === undefined || !data
+    ? -1
+    : data.segments.reduce((found, segment, index) => segment.start <= highlightMs ? index : found, -1);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: "center" });
+  }, [highlightIndex]);
+
+  const mapSpeakerMutation = useMutation({
+    mutationFn: async ({ label, userId }: { label: string; userId: string | null }) => {
+      const response = await apiRequest("PUT", `/api/meetings/${meetingId}/speakers`, { speakerMap: { [label]: userId } });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/meetings/${meetingId}/transcript`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update speaker",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading transcript...</p>;
+  }
+
+  // Transcripts from providers without speaker labels (and older meetings) only have plain text
+  if (!data || data.segments.length === 0) {
+    return (
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-gray-900 mb-2">Transcription</h4>
+        <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
+          {data?.text || fallbackText}
+        </p>
+      </div>
+    );
+  }
+
+  const colorFor = new Map(data.speakers.map((speaker, index) => [speaker.label, speakerColors[index % speakerColors.length]]));
+  const displayName = new Map(data.speakers.map(speaker => [speaker.label, speaker.name || speaker.label]));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+        <h4 className="font-semibold text-gray-900 flex items-center">
+          <Users className="w-4 h-4 mr-2" />
+          Speakers
+        </h4>
+        {data.speakers.map(speaker => (
+          <div key={speaker.label} className="flex items-center gap-3 text-sm">
+            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${colorFor.get(speaker.label)?.dot}`} />
+            <span className="w-24 shrink-0 text-gray-700">{speaker.label}</span>
+            <Select
+              value={speaker.userId || "unassigned"}
+              onValueChange={(value) => mapSpeakerMutation.mutate({ label: speaker.label, userId: value === "unassigned" ? null : value })}
+              disabled={mapSpeakerMutation.isPending}
+            >
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unassigned">Not matched</SelectItem>
+                {data.candidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="ml-auto text-xs text-gray-500">{formatTimestamp(speaker.talkTimeMs)} spoken</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="font-semibold text-gray-900">
+          Transcription
+          {data.provider && <span className="ml-2 text-xs font-normal text-gray-500">via {data.provider}</span>}
+        </h4>
+        {data.segments.map((segment, index) => {
+          const color = colorFor.get(segment.speaker);
+          return (
+            <div
+              key={index}
+              ref={index === highlightIndex ? highlightRef : undefined}
+              className={`border-l-2 pl-3 ${color?.border} ${index === highlightIndex ? "bg-yellow-50 rounded-r" : ""}`}
+            >
+              <div className="flex items-baseline gap-2 text-xs">
+                <span className={`font-semibold ${color?.text}`}>{displayName.get(segment.speaker)}</span>
+                <span className="text-gray-400">{formatTimestamp(segment.start)}</span>
+              </div>
+              <p className="text-sm text-gray-700 leading-relaxed">{segment.text}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
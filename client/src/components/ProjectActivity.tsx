@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+
+interface ActivityEvent {
+  id: string;
+  entityType: string;
+  entityTitle?: string | null;
+  action: string;
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+  };
+}
+
+interface ProjectActivityResponse {
+  events: ActivityEvent[];
+  total: number;
+  hasMore: boolean;
+}
+
+const PAGE_SIZE = 20;
+
+const actionLabels: Record<string, string> = {
+  created: "created",
+  updated: "updated",
+  completed: "completed",
+  deleted: "deleted",
+  commented: "commented on",
+  processed: "recorded",
+  linked: "linked",
+  invited: "invited a member to",
+  joined: "joined",
+  member_removed: "removed a member from",
+  dependency_added: "added a dependency to",
+  dependency_removed: "removed a dependency from",
+  timer_started: "started a timer on",
+  time_logged: "logged time on",
+  started: "started",
+  closed: "closed",
+  rejected: "rejected",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString();
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+interface ProjectActivityProps {
+  projectId: string;
+}
+
+export default function ProjectActivity({ projectId }: ProjectActivityProps) {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data, isLoading } = useQuery<ProjectActivityResponse>({
+    queryKey: [`/api/projects/${projectId}/activity?limit=${limit}`],
+    enabled: !!projectId,
+    refetchOnMount: "always",
+    refetchInterval: 60000, // Refresh every minute
+  });
+
+  const events = data?.events || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-sm font-medium text-gray-600">
+          <History className="w-4 h-4 mr-2" />
+          Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading activity...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity recorded yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map(event => (
+              <li key={event.id} className="text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-gray-900">
+                    <span className="font-medium">{event.actor.name}</span>{" "}
+                    {actionLabels[event.action] || event.action} {event.entityType.replace('_', ' ')}
+                    {event.entityTitle && <span className="font-medium"> "{event.entityTitle}"</span>}
+                  </p>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                </div>
+                {event.changes && Object.keys(event.changes).length > 0 && (
+                  <ul className="mt-1 ml-2 space-y-0.5">
+                    {Object.entries(event.changes).map(([field, change]) => (
+                      <li key={field} className="text-xs text-gray-500">
+                        {field}: <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {data?.hasMore && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setLimit(limit + PAGE_SIZE)}>
+            Show more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
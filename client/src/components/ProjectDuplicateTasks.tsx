@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Copy } from "lucide-react";
+import { getTaskCategory } from "@shared/schema";
+
+interface DuplicateTask {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory?: string | null;
+}
+
+interface DuplicateTasksResponse {
+  pairs: { task: DuplicateTask; duplicate: DuplicateTask; similarity: number }[];
+}
+
+const categoryColors: Record<string, string> = {
+  open: "bg-gray-100 text-gray-800",
+  active: "bg-blue-100 text-blue-800",
+  done: "bg-green-100 text-green-800",
+};
+
+function TaskLine({ task }: { task: DuplicateTask }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="truncate text-sm text-gray-900">{task.title}</span>
+      <Badge variant="secondary" className={`shrink-0 text-xs ${categoryColors[getTaskCategory(task)]}`}>
+        {task.status.replace(/_/g, " ")}
+      </Badge>
+    </div>
+  );
+}
+
+interface ProjectDuplicateTasksProps {
+  projectId: string;
+}
+
+// Report of tasks in the project that look like the same work, so they can be merged or closed
+export default function ProjectDuplicateTasks({ projectId }: ProjectDuplicateTasksProps) {
+  const { data, isLoading, error } = useQuery<DuplicateTasksResponse>({
+    queryKey: [`/api/projects/${projectId}/duplicate-tasks`],
+    enabled: !!projectId,
+    retry: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <Copy className="w-5 h-5 mr-2" />
+          Possible Duplicates
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Checking for duplicate tasks...</p>
+        ) : error ? (
+          <p className="text-sm text-gray-500">Duplicate detection is unavailable right now.</p>
+        ) : !data || data.pairs.length === 0 ? (
+          <p className="text-sm text-gray-500">No likely duplicate tasks in this project.</p>
+        ) : (
+          <div className="space-y-3">
+            {data.pairs.map(pair => (
+              <div key={`${pair.task.id}-${pair.duplicate.id}`} className="rounded-lg border p-3 space-y-1">
+                <TaskLine task={pair.task} />
+                <TaskLine task={pair.duplicate} />
+                <div className="text-xs text-gray-500">{Math.round(pair.similarity * 100)}% similar</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
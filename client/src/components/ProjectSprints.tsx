@@ -0,0 +1,473 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Play, Plus, Square, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getTaskCategory, isTaskDone, type StatusCategory } from "@shared/schema";
+
+interface Sprint {
+  id: string;
+  projectId: string;
+  name: string;
+  goal?: string | null;
+  startDate: string;
+  endDate: string;
+  state: "planned" | "active" | "closed";
+  closedAt?: string | null;
+}
+
+interface SprintTask {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory?: string | null;
+  estimate?: number | null;
+  sprintId?: string | null;
+  parentTaskId?: string | null;
+}
+
+interface SprintReport {
+  unit: "points" | "hours";
+  committedScope: number;
+  completedScope: number;
+  remainingScope: number;
+  totalTasks: number;
+  completedTasks: number;
+  rolledOverTasks: number;
+  daysTotal: number;
+  daysElapsed: number;
+  burndown: Array<{ date: string; remainingScope: number | null; idealScope: number }>;
+  tasks: SprintTask[];
+}
+
+const stateStyles: Record<Sprint["state"], string> = {
+  planned: "bg-gray-100 text-gray-700",
+  active: "bg-blue-100 text-blue-700",
+  closed: "bg-green-100 text-green-700",
+};
+
+// Sprint board columns group the project's workflow statuses by category
+const boardColumns: Array<{ category: StatusCategory; title: string }> = [
+  { category: "open", title: "To Do" },
+  { category: "active", title: "In Progress" },
+  { category: "done", title: "Done" },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+}
+
+interface ProjectSprintsProps {
+  projectId: string;
+}
+
+export default function ProjectSprints({ projectId }: ProjectSprintsProps) {
+  const [selectedSprintId, setSelectedSprintId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newSprint, setNewSprint] = useState({ name: "", goal: "", startDate: "", endDate: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sprints = [] } = useQuery<Sprint[]>({
+    queryKey: [`/api/projects/${projectId}/sprints`],
+    enabled: !!projectId,
+  });
+
+  const { data: tasks = [] } = useQuery<SprintTask[]>({
+    queryKey: [`/api/projects/${projectId}/tasks`],
+    enabled: !!projectId,
+  });
+
+  // Default to the active sprint, then the next planned one, then the latest closed one
+  const sprint = sprints.find(s => s.id === selectedSprintId)
+    || sprints.find(s => s.state === "active")
+    || sprints.find(s => s.state === "planned")
+    || sprints[sprints.length - 1];
+
+  const { data: report } = useQuery<SprintReport>({
+    queryKey: ["/api/sprints", sprint?.id, "report"],
+    enabled: !!sprint,
+    refetchOnMount: "always",
+  });
+
+  const invalidateSprints = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/sprints`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sprints"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createSprintMutation = useMutation({
+    mutationFn: async (data: typeof newSprint) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/sprints`, {
+        name: data.name,
+        goal: data.goal.trim() || null,
+        startDate: new Date(`${data.startDate}T00:00:00`).toISOString(),
+        endDate: new Date(`${data.endDate}T23:59:59`).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: (created: Sprint) => {
+      invalidateSprints();
+      setSelectedSprintId(created.id);
+      setIsCreateOpen(false);
+    },
+    onError: showError("Failed to create sprint"),
+  });
+
+  const startSprintMutation = useMutation({
+    mutationFn: async (sprintId: string) => {
+      const response = await apiRequest("POST", `/api/sprints/${sprintId}/start`);
+      return response.json();
+    },
+    onSuccess: invalidateSprints,
+    onError: showError("Failed to start sprint"),
+  });
+
+  const closeSprintMutation = useMutation({
+    mutationFn: async (sprintId: string) => {
+      const response = await apiRequest("POST", `/api/sprints/${sprintId}/close`);
+      return response.json();
+    },
+    onSuccess: (result: { nextSprint: Sprint | null; rolledOverTaskIds: string[] }) => {
+      invalidateSprints();
+      if (result.nextSprint) {
+        toast({
+          title: "Sprint closed",
+          description: `${result.rolledOverTaskIds.length} unfinished task${result.rolledOverTaskIds.length === 1 ? "" : "s"} moved to ${result.nextSprint.name}`,
+        });
+      }
+    },
+    onError: showError("Failed to close sprint"),
+  });
+
+  const deleteSprintMutation = useMutation({
+    mutationFn: async (sprintId: string) => {
+      const response = await apiRequest("DELETE", `/api/sprints/${sprintId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedSprintId(null);
+      invalidateSprints();
+    },
+    onError: showError("Failed to delete sprint"),
+  });
+
+  const assignTaskMutation = useMutation({
+    mutationFn: async ({ taskId, sprintId }: { taskId: string; sprintId: string | null }) => {
+      const response = await apiRequest("PUT", `/api/tasks/${taskId}`, { sprintId });
+      return response.json();
+    },
+    onSuccess: invalidateSprints,
+    onError: showError("Failed to update task"),
+  });
+
+  const openCreateDialog = () => {
+    const lastSprint = sprints[sprints.length - 1];
+    const start = lastSprint && new Date(lastSprint.endDate) > new Date() ? new Date(lastSprint.endDate) : new Date();
+    setNewSprint({
+      name: `Sprint ${sprints.length + 1}`,
+      goal: "",
+      startDate: addDays(start, 0),
+      endDate: addDays(start, 13),
+    });
+    setIsCreateOpen(true);
+  };
+
+  const sprintTasks = sprint ? tasks.filter(task => task.sprintId === sprint.id && !task.parentTaskId) : [];
+  const backlogTasks = tasks.filter(task => !task.sprintId && !task.parentTaskId && !isTaskDone(task));
+  const progress = report && report.committedScope > 0
+    ? Math.round((report.completedScope / report.committedScope) * 100)
+    : 0;
+  const burndownMax = Math.max(1, ...(report?.burndown.map(point => Math.max(point.idealScope, point.remainingScope ?? 0)) || []));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm font-medium text-gray-600">
+          <span className="flex items-center">
+            <Flag className="w-4 h-4 mr-2" />
+            Sprints
+          </span>
+          <div className="flex items-center gap-2">
+            {sprints.length > 0 && sprint && (
+              <Select value={sprint.id} onValueChange={setSelectedSprintId}>
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sprints.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name} ({s.state})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button size="sm" variant="outline" onClick={openCreateDialog}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Sprint
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!sprint ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No sprints yet. Create one to plan work in time-boxed iterations.
+          </p>
+        ) : (
+          <>
+            {/* Sprint header */}
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-gray-900">{sprint.name}</h3>
+                  <Badge className={stateStyles[sprint.state]}>{sprint.state}</Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDate(sprint.startDate)} – {formatDate(sprint.endDate)}
+                </p>
+                {sprint.goal && <p className="text-sm text-gray-700 mt-1">{sprint.goal}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                {sprint.state === "planned" && (
+                  <>
+                    <Button
+                      size="sm"
+                      onClick={() => startSprintMutation.mutate(sprint.id)}
+                      disabled={startSprintMutation.isPending}
+                    >
+                      <Play className="w-3 h-3 mr-1" />
+                      Start Sprint
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => deleteSprintMutation.mutate(sprint.id)}
+                      disabled={deleteSprintMutation.isPending}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </>
+                )}
+                {sprint.state === "active" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => closeSprintMutation.mutate(sprint.id)}
+                    disabled={closeSprintMutation.isPending}
+                  >
+                    <Square className="w-3 h-3 mr-1" />
+                    Close Sprint
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Report */}
+            {report && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Progress</span>
+                    <span className="font-medium">
+                      {report.completedScope} / {report.committedScope} {report.unit}
+                    </span>
+                  </div>
+                  <Progress value={progress} />
+                  <div className="grid grid-cols-3 gap-2 text-center pt-2">
+                    <div>
+                      <div className="text-lg font-semibold text-gray-900">{report.completedTasks}/{report.totalTasks}</div>
+                      <div className="text-xs text-gray-500">tasks done</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-gray-900">{report.daysElapsed}/{report.daysTotal}</div>
+                      <div className="text-xs text-gray-500">days elapsed</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {sprint.state === "closed" ? report.rolledOverTasks : report.remainingScope}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {sprint.state === "closed" ? "rolled over" : `${report.unit} left`}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">Burndown (bars: remaining, line marks: ideal)</div>
+                  <div className="flex items-end gap-0.5 h-24">
+                    {report.burndown.map(point => (
+                      <div key={point.date} className="relative flex-1 h-full flex items-end">
+                        {point.remainingScope !== null && (
+                          <div
+                            className="w-full bg-orange-400 rounded-t"
+                            style={{ height: `${(point.remainingScope / burndownMax) * 100}%` }}
+                            title={`${point.date}: ${point.remainingScope} ${report.unit} remaining (ideal ${point.idealScope})`}
+                          />
+                        )}
+                        <div
+                          className="absolute left-0 right-0 h-0.5 bg-gray-400"
+                          style={{ bottom: `${(point.idealScope / burndownMax) * 100}%` }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Board */}
+            {sprint.state === "closed" ? (
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="font-medium text-gray-700">Closed {sprint.closedAt && formatDate(sprint.closedAt)}</p>
+                {report?.tasks.map(task => (
+                  <div key={task.id} className="flex items-center justify-between border rounded px-2 py-1 text-xs">
+                    <span className="truncate">{task.title}</span>
+                    <Badge variant="outline">{task.sprintId === sprint.id ? "completed" : "rolled over"}</Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {boardColumns.map(column => {
+                    const columnTasks = sprintTasks.filter(task => getTaskCategory(task) === column.category);
+                    return (
+                      <div key={column.category} className="bg-gray-50 rounded-lg p-2">
+                        <div className="text-xs font-medium text-gray-600 mb-2">
+                          {column.title} ({columnTasks.length})
+                        </div>
+                        <div className="space-y-2">
+                          {columnTasks.map(task => (
+                            <div key={task.id} className="bg-white border rounded px-2 py-1.5 text-sm flex items-start justify-between gap-2">
+                              <span className="min-w-0 break-words">{task.title}</span>
+                              <div className="flex items-center gap-1 shrink-0">
+                                {task.estimate != null && (
+                                  <Badge variant="outline" className="text-xs">{task.estimate}</Badge>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-5 w-5 p-0"
+                                  title="Move back to backlog"
+                                  onClick={() => assignTaskMutation.mutate({ taskId: task.id, sprintId: null })}
+                                  disabled={assignTaskMutation.isPending}
+                                >
+                                  <X className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {backlogTasks.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(taskId) => assignTaskMutation.mutate({ taskId, sprintId: sprint.id })}
+                  >
+                    <SelectTrigger className="w-full sm:w-72">
+                      <SelectValue placeholder="Add a task from the backlog..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {backlogTasks.map(task => (
+                        <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Sprint</DialogTitle>
+            <DialogDescription>Plan a time-boxed iteration for this project.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprint-name">Name</Label>
+              <Input
+                id="sprint-name"
+                value={newSprint.name}
+                onChange={(e) => setNewSprint({ ...newSprint, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sprint-goal">Goal</Label>
+              <Textarea
+                id="sprint-goal"
+                placeholder="What should this sprint achieve?"
+                value={newSprint.goal}
+                onChange={(e) => setNewSprint({ ...newSprint, goal: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sprint-start">Start</Label>
+                <Input
+                  id="sprint-start"
+                  type="date"
+                  value={newSprint.startDate}
+                  onChange={(e) => setNewSprint({ ...newSprint, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sprint-end">End</Label>
+                <Input
+                  id="sprint-end"
+                  type="date"
+                  value={newSprint.endDate}
+                  onChange={(e) => setNewSprint({ ...newSprint, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createSprintMutation.mutate(newSprint)}
+                disabled={!newSprint.name.trim() || !newSprint.startDate || !newSprint.endDate || createSprintMutation.isPending}
+              >
+                {createSprintMutation.isPending ? "Creating..." : "Create Sprint"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, GitBranch, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { StatusCategory, WorkflowStatus } from "@shared/schema";
+
+// Rows are keyed locally so new statuses can be referenced in transitions before they have a key
+interface StatusRow {
+  rowId: string;
+  key?: string; // set for statuses that already exist
+  name: string;
+  category: StatusCategory;
+  transitions: string[]; // rowIds; empty = may move to any status
+}
+
+const categoryLabels: Record<StatusCategory, string> = {
+  open: "Open",
+  active: "Active",
+  done: "Done",
+};
+
+function slugify(name: string) {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "status";
+}
+
+function toRows(workflow: WorkflowStatus[]): StatusRow[] {
+  return workflow.map(status => ({
+    rowId: status.key,
+    key: status.key,
+    name: status.name,
+    category: status.category,
+    transitions: status.transitions || [],
+  }));
+}
+
+// Existing statuses keep their key when renamed; new ones get a unique key from their name
+function toWorkflow(rows: StatusRow[]): WorkflowStatus[] {
+  const used = new Set(rows.filter(row => row.key).map(row => row.key!));
+  const keys = new Map<string, string>();
+  for (const row of rows) {
+    if (row.key) {
+      keys.set(row.rowId, row.key);
+      continue;
+    }
+    let key = slugify(row.name);
+    for (let n = 2; used.has(key); n++) key = `${slugify(row.name)}_${n}`;
+    used.add(key);
+    keys.set(row.rowId, key);
+  }
+
+  return rows.map(row => ({
+    key: keys.get(row.rowId)!,
+    name: row.name.trim(),
+    category: row.category,
+    transitions: row.transitions.length > 0 ? row.transitions.map(rowId => keys.get(rowId)!).filter(Boolean) : null,
+  }));
+}
+
+interface ProjectWorkflowEditorProps {
+  projectId: string;
+  workflow: WorkflowStatus[];
+}
+
+export default function ProjectWorkflowEditor({ projectId, workflow }: ProjectWorkflowEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<StatusRow[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveWorkflowMutation = useMutation({
+    mutationFn: async (statuses: WorkflowStatus[]) => {
+      const response = await apiRequest("PUT", `/api/projects/${projectId}/workflow`, { statuses });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setIsOpen(false);
+      toast({
+        title: "Success",
+        description: "Workflow updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update workflow",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setRows(toRows(workflow));
+    setIsOpen(open);
+  };
+
+  const updateRow = (rowId: string, changes: Partial<StatusRow>) => {
+    setRows(rows.map(row => row.rowId === rowId ? { ...row, ...changes } : row));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    const next = [...rows];
+    const [row] = next.splice(index, 1);
+    next.splice(index + offset, 0, row);
+    setRows(next);
+  };
+
+  const removeRow = (rowId: string) => {
+    setRows(rows
+      .filter(row => row.rowId !== rowId)
+      .map(row => ({ ...row, transitions: row.transitions.filter(id => id !== rowId) })));
+  };
+
+  const addRow = () => {
+    setRows([...rows, { rowId: `new-${Date.now()}`, name: "", category: "active", transitions: [] }]);
+  };
+
+  const toggleTransition = (row: StatusRow, targetRowId: string) => {
+    updateRow(row.rowId, {
+      transitions: row.transitions.includes(targetRowId)
+        ? row.transitions.filter(id => id !== targetRowId)
+        : [...row.transitions, targetRowId],
+    });
+  };
+
+  const hasDoneStatus = rows.some(row => row.category === "done");
+  const isValid = rows.length > 0 && hasDoneStatus && rows.every(row => row.name.trim());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <GitBranch className="w-4 h-4 mr-2" />
+          Workflow
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Task Workflow</DialogTitle>
+          <DialogDescription>
+            Statuses appear as board columns in this order. Tasks in a removed status move to the first status of the same category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rows.map((row, index) => (
+            <div key={row.rowId} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Status name"
+                  value={row.name}
+                  onChange={(e) => updateRow(row.rowId, { name: e.target.value })}
+                />
+                <Select value={row.category} onValueChange={(category) => updateRow(row.rowId, { category: category as StatusCategory })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(categoryLabels).map(([category, label]) => (
+                      <SelectItem key={category} value={category}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveRow(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveRow(index, 1)} disabled={index === rows.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-red-600" onClick={() => removeRow(row.rowId)} disabled={rows.length === 1}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                <span className="mr-1">Can move to:</span>
+                {rows.filter(target => target.rowId !== row.rowId).map(target => (
+                  <Badge
+                    key={target.rowId}
+                    variant={row.transitions.includes(target.rowId) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleTransition(row, target.rowId)}
+                  >
+                    {target.name || "Untitled"}
+                  </Badge>
+                ))}
+                {row.transitions.length === 0 && <span className="ml-1 italic">any status</span>}
+              </div>
+            </div>
+          ))}
+
+          {!hasDoneStatus && (
+            <p className="text-sm text-red-600">Add at least one status in the Done category.</p>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="outline" size="sm" onClick={addRow} disabled={rows.length >= 20}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Status
+            </Button>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveWorkflowMutation.mutate(toWorkflow(rows))}
+                disabled={!isValid || saveWorkflowMutation.isPending}
+              >
+                {saveWorkflowMutation.isPending ? "Saving..." : "Save Workflow"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { CheckSquare, Folder, Mic } from "lucide-react";
+import { getTaskCategory } from "@shared/schema";
+
+interface SearchResponse {
+  query: string;
+  tasks: {
+    id: string;
+    title: string;
+    status: string;
+    statusCategory?: string | null;
+    priority: string;
+    projectId: string;
+    projectName: string;
+    dueDate?: string | null;
+  }[];
+  projects: {
+    id: string;
+    name: string;
+    description?: string | null;
+    status: string;
+  }[];
+  meetings: {
+    id: string;
+    title: string;
+    projectId?: string | null;
+    scheduledAt: string;
+    snippet: string;
+  }[];
+}
+
+const SEARCH_HINTS = [
+  { syntax: "status:in_progress", description: "status or open / active / done" },
+  { syntax: "priority:urgent,high", description: "any of several priorities" },
+  { syntax: "assignee:me", description: "me, none or part of a name" },
+  { syntax: "due:<7d", description: "<7d, >2w, today, overdue, none or a date" },
+  { syntax: "project:website label:bug", description: "by project or label name" },
+  { syntax: "type:meeting \"budget review\"", description: "only meetings, exact phrase" },
+];
+
+const categoryColors: Record<string, string> = {
+  open: "bg-gray-100 text-gray-800",
+  active: "bg-blue-100 text-blue-800",
+  done: "bg-green-100 text-green-800",
+};
+
+// ts_headline marks matches with <b>…</b>; render them as text rather than HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/(<b>.*?<\/b>)/g);
+  return (
+    <span className="text-xs text-gray-500 line-clamp-2">
+      {parts.map((part, index) =>
+        part.startsWith("<b>")
+          ? <mark key={index} className="bg-yellow-100 text-gray-900">{part.slice(3, -4)}</mark>
+          : part
+      )}
+    </span>
+  );
+}
+
+// "400: {"message":"..."}" from the default query function -> "..."
+function errorMessage(error: Error) {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  try {
+    return match ? JSON.parse(match[1]).message : error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Global search, opened with Ctrl/Cmd+K from anywhere in the app
+export default function SearchPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+    const handleOpenRequest = () => setIsOpen(true);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("openSearchPalette", handleOpenRequest);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("openSearchPalette", handleOpenRequest);
+    };
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching, error } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: isOpen && debouncedQuery.length > 0,
+    staleTime: 30 * 1000,
+  });
+
+  const openResult = (href: string) => {
+    setIsOpen(false);
+    setQuery("");
+    setLocation(href);
+  };
+
+  const hasResults = !!data && (data.tasks.length + data.projects.length + data.meetings.length) > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-2xl">
+        {/* Results are already ranked and filtered by the server */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            placeholder='Search tasks, projects and meetings, e.g. assignee:me due:<7d "api migration"'
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[420px]">
+            {!query.trim() ? (
+              <div className="p-3 space-y-1">
+                {SEARCH_HINTS.map(hint => (
+                  <div key={hint.syntax} className="flex items-center justify-between text-xs">
+                    <code className="cursor-pointer text-gray-900" onClick={() => setQuery(`${query}${hint.syntax} `)}>
+                      {hint.syntax}
+                    </code>
+                    <span className="text-gray-500">{hint.description}</span>
+                  </div>
+                ))}
+              </div>
+            ) : error ? (
+              <div className="py-6 text-center text-sm text-red-600">{errorMessage(error as Error)}</div>
+            ) : (
+              <>
+                {!hasResults && (
+                  <CommandEmpty>{isFetching || query.trim() !== debouncedQuery ? "Searching..." : "No results found."}</CommandEmpty>
+                )}
+
+                {data && data.tasks.length > 0 && (
+                  <CommandGroup heading="Tasks">
+                    {data.tasks.map(task => (
+                      <CommandItem
+                        key={task.id}
+                        value={`task-${task.id}`}
+                        onSelect={() => openResult(`/projects/${task.projectId}?task=${task.id}`)}
+                      >
+                        <CheckSquare className="w-4 h-4 mr-2 shrink-0 text-gray-500" />
+                        <div className="min-w-0 flex-1">
+                          <div className="truncate text-sm">{task.title}</div>
+                          <div className="text-xs text-gray-500">
+                            {task.projectName}
+                            {task.dueDate && ` · due ${new Date(task.dueDate).toLocaleDateString()}`}
+                          </div>
+                        </div>
+                        <Badge variant="secondary" className={`ml-2 text-xs ${categoryColors[getTaskCategory(task)]}`}>
+                          {task.status.replace(/_/g, " ")}
+                        </Badge>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+
+                {data && data.projects.length > 0 && (
+                  <CommandGroup heading="Projects">
+                    {data.projects.map(project => (
+                      <CommandItem
+                        key={project.id}
+                        value={`project-${project.id}`}
+                        onSelect={() => openResult(`/projects/${project.id}`)}
+                      >
+                        <Folder className="w-4 h-4 mr-2 shrink-0 text-gray-500" />
+                        <div className="min-w-0 flex-1">
+                          <div className="truncate text-sm">{project.name}</div>
+                          {project.description && (
+                            <div className="truncate text-xs text-gray-500">{project.description}</div>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+
+                {data && data.meetings.length > 0 && (
+                  <CommandGroup heading="Meetings">
+                    {data.meetings.map(meeting => (
+                      <CommandItem
+                        key={meeting.id}
+                        value={`meeting-${meeting.id}`}
+                        onSelect={() => openResult("/meetings")}
+                      >
+                        <Mic className="w-4 h-4 mr-2 shrink-0 text-gray-500" />
+                        <div className="min-w-0 flex-1">
+                          <div className="truncate text-sm">
+                            {meeting.title}
+                            <span className="text-xs text-gray-500"> · {new Date(meeting.scheduledAt).toLocaleDateString()}</span>
+                          </div>
+                          {meeting.snippet && <Snippet text={meeting.snippet} />}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+
+interface SimilarTask {
+  id: string;
+  title: string;
+  status: string;
+  similarity: number;
+}
+
+interface SimilarTasksWarningProps {
+  projectId?: string | null;
+  title: string;
+  description?: string | null;
+  excludeTaskId?: string;
+}
+
+// Shown under a task form while typing: existing tasks in the project that look like the same work
+export default function SimilarTasksWarning({ projectId, title, description, excludeTaskId }: SimilarTasksWarningProps) {
+  const [debounced, setDebounced] = useState({ title: "", description: "" });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced({ title: title.trim(), description: description?.trim() || "" }), 500);
+    return () => clearTimeout(timeout);
+  }, [title, description]);
+
+  const params = new URLSearchParams({ projectId: projectId || "", title: debounced.title, description: debounced.description });
+  if (excludeTaskId) params.set("excludeTaskId", excludeTaskId);
+
+  // Lookup failures (e.g. no embeddings backend configured) just mean no warning
+  const { data } = useQuery<{ tasks: SimilarTask[] }>({
+    queryKey: [`/api/tasks/similar?${params}`],
+    enabled: !!projectId && debounced.title.length >= 4,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+
+  if (!data || data.tasks.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm">
+      <div className="mb-1 flex items-center font-medium text-amber-800">
+        <AlertTriangle className="mr-2 h-4 w-4" />
+        Similar tasks already exist
+      </div>
+      <ul className="space-y-1 text-amber-900">
+        {data.tasks.map(task => (
+          <li key={task.id} className="flex justify-between gap-2">
+            <span className="truncate">{task.title}</span>
+            <span className="shrink-0 text-xs text-amber-700">
+              {task.status.replace(/_/g, " ")} · {Math.round(task.similarity * 100)}% match
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, GitMerge, X, AlertTriangle, Sparkles } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AcceptedTask, ProposedTask, SuggestedTaskStatus } from "@shared/schema";
+
+interface SuggestedTaskItem {
+  id: string;
+  meetingId: string;
+  meetingTitle?: string;
+  projectId: string | null;
+  status: SuggestedTaskStatus;
+  proposed: ProposedTask;
+  accepted: AcceptedTask | null;
+  possibleDuplicateOfTaskId: string | null;
+  taskId: string | null;
+  reviewedAt: string | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const priorities = ["low", "medium", "high", "urgent"];
+
+const statusColors: Record<SuggestedTaskStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  merged: "bg-blue-100 text-blue-800",
+  rejected: "bg-gray-100 text-gray-600",
+};
+
+// The AI gives a spoken name ("Sarah"); pick the project member it most likely means
+function matchAssignee(name: string | null | undefined, assignees: Option[]): string | null {
+  const spoken = name?.trim().toLowerCase();
+  if (!spoken) return null;
+  return assignees.find(a => a.name.toLowerCase() === spoken)?.id
+    || assignees.find(a => a.name.toLowerCase().split(/\s+/).includes(spoken))?.id
+    || null;
+}
+
+function SuggestedTaskCard({ suggestion, projects, onReviewed }: {
+  suggestion: SuggestedTaskItem;
+  projects: Option[];
+  onReviewed: () => void;
+}) {
+  const { toast } = useToast();
+  const proposed = suggestion.proposed;
+  const [title, setTitle] = useState(proposed.title);
+  const [description, setDescription] = useState(proposed.description || "");
+  const [priority, setPriority] = useState(priorities.includes(proposed.priority) ? proposed.priority : "medium");
+  const [projectId, setProjectId] = useState(suggestion.projectId || "");
+  const [assigneeId, setAssigneeId] = useState<string | null | undefined>(undefined); // undefined until the user picks one
+  const [dueDate, setDueDate] = useState(proposed.dueDate?.slice(0, 10) || "");
+  const [mergeTaskId, setMergeTaskId] = useState(suggestion.possibleDuplicateOfTaskId || "");
+  const [isMerging, setIsMerging] = useState(!!suggestion.possibleDuplicateOfTaskId);
+
+  const { data: assignees = [] } = useQuery<Option[]>({
+    queryKey: [`/api/projects/${projectId}/assignees`],
+    enabled: !!projectId,
+  });
+
+  const { data: projectTasks = [] } = useQuery<{ id: string; title: string }[]>({
+    queryKey: [`/api/tasks?projectId=${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const selectedAssignee = assigneeId === undefined ? matchAssignee(proposed.assignee, assignees) : assigneeId;
+  const duplicateOf = projectTasks.find(task => task.id === suggestion.possibleDuplicateOfTaskId);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: "accept" | "merge" | "reject") => {
+      const review = {
+        title,
+        description: description || null,
+        priority,
+        assigneeId: selectedAssignee,
+        dueDate: dueDate || null,
+      };
+      const body = action === "accept" ? { ...review, projectId }
+        : action === "merge" ? { ...review, taskId: mergeTaskId }
+        : undefined;
+      const response = await apiRequest("POST", `/api/suggested-tasks/${suggestion.id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      toast({
+        title: action === "accept" ? "Task created" : action === "merge" ? "Merged into existing task" : "Suggestion rejected",
+        description: title,
+      });
+      onReviewed();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review suggested task",
+        variant: "destructive",
+      });
+      // Someone else may have reviewed it already
+      onReviewed();
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 bg-white">
+      {suggestion.meetingTitle && (
+        <div className="text-xs text-gray-500">From {suggestion.meetingTitle}</div>
+      )}
+      <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Task title" />
+      <Textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description" rows={2} />
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={projectId} onValueChange={(value) => { setProjectId(value); setMergeTaskId(""); setAssigneeId(undefined); }}>
+          <SelectTrigger className="h-9"><SelectValue placeholder="Project" /></SelectTrigger>
+          <SelectContent>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priority} onValueChange={setPriority}>
+          <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {priorities.map(p => (
+              <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={selectedAssignee || "unassigned"} onValueChange={(value) => setAssigneeId(value === "unassigned" ? null : value)} disabled={!projectId}>
+          <SelectTrigger className="h-9"><SelectValue placeholder="Owner" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {assignees.map(assignee => (
+              <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="date" className="h-9" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+      </div>
+
+      {proposed.assignee && !selectedAssignee && (
+        <p className="text-xs text-gray-500">Mentioned owner: {proposed.assignee}</p>
+      )}
+      {duplicateOf && (
+        <p className="text-xs text-amber-700 flex items-center">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          Looks like the existing task "{duplicateOf.title}"
+        </p>
+      )}
+
+      {isMerging ? (
+        <div className="flex items-center gap-2">
+          <Select value={mergeTaskId} onValueChange={setMergeTaskId} disabled={!projectId}>
+            <SelectTrigger className="h-9 flex-1"><SelectValue placeholder="Task to merge into" /></SelectTrigger>
+            <SelectContent>
+              {projectTasks.map(task => (
+                <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => reviewMutation.mutate("merge")} disabled={!mergeTaskId || reviewMutation.isPending}>
+            <GitMerge className="w-4 h-4 mr-1" />
+            Merge
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setIsMerging(false)}>Cancel</Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => reviewMutation.mutate("accept")} disabled={!title.trim() || !projectId || reviewMutation.isPending}>
+            <Check className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsMerging(true)} disabled={!projectId}>
+            <GitMerge className="w-4 h-4 mr-1" />
+            Merge…
+          </Button>
+          <Button size="sm" variant="ghost" className="text-red-600" onClick={() => reviewMutation.mutate("reject")} disabled={reviewMutation.isPending}>
+            <X className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// What the AI proposed next to what was accepted, for suggestions already reviewed
+function ReviewedSuggestion({ suggestion }: { suggestion: SuggestedTaskItem }) {
+  const { proposed, accepted } = suggestion;
+  const edited = accepted && (accepted.title !== proposed.title || (accepted.description || "") !== (proposed.description || ""));
+
+  return (
+    <div className="text-sm border-l-2 border-gray-200 pl-3">
+      <div className="flex items-center gap-2">
+        <span className={suggestion.status === "rejected" ? "line-through text-gray-500" : "font-medium text-gray-900"}>
+          {accepted?.title || proposed.title}
+        </span>
+        <Badge variant="secondary" className={`text-xs ${statusColors[suggestion.status]}`}>{suggestion.status}</Badge>
+      </div>
+      {edited && (
+        <div className="text-xs text-gray-500">AI proposed: {proposed.title}</div>
+      )}
+    </div>
+  );
+}
+
+interface SuggestedTasksReviewProps {
+  meetingId?: string; // One meeting's suggestions, reviewed ones included; otherwise everything pending for the user
+}
+
+export default function SuggestedTasksReview({ meetingId }: SuggestedTasksReviewProps) {
+  const queryClient = useQueryClient();
+  const queryKey = meetingId ? [`/api/meetings/${meetingId}/suggested-tasks`] : ["/api/suggested-tasks"];
+
+  const { data: suggestions = [], isLoading } = useQuery<SuggestedTaskItem[]>({ queryKey });
+  const { data: projects = [] } = useQuery<Option[]>({ queryKey: ["/api/projects"] });
+
+  const handleReviewed = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/suggested-tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading suggested tasks...</p>;
+  }
+
+  const pending = suggestions.filter(s => s.status === "pending");
+  const reviewed = suggestions.filter(s => s.status !== "pending");
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-gray-500">No suggested tasks waiting for review.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {pending.length > 0 && (
+        <div className="flex items-center text-sm text-gray-700">
+          <Sparkles className="w-4 h-4 mr-2 text-purple-600" />
+          {pending.length} suggested {pending.length === 1 ? "task" : "tasks"} to review
+        </div>
+      )}
+      {pending.map(suggestion => (
+        <SuggestedTaskCard key={suggestion.id} suggestion={suggestion} projects={projects} onReviewed={handleReviewed} />
+      ))}
+      {reviewed.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <h5 className="text-xs font-semibold uppercase text-gray-500">Reviewed</h5>
+          {reviewed.map(suggestion => (
+            <ReviewedSuggestion key={suggestion.id} suggestion={suggestion} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
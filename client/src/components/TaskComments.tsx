@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { MessageSquare, Reply, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  parentCommentId?: string | null;
+  body: string;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string;
+    username: string;
+    avatar?: string | null;
+  };
+}
+
+// Render @username tokens highlighted inside the comment text
+function CommentBody({ body }: { body: string }) {
+  const parts = body.split(/(@[\w.-]+)/g);
+  return (
+    <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        part.startsWith("@") ? (
+          <span key={index} className="text-blue-600 font-medium">{part}</span>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+export default function TaskComments({ taskId }: TaskCommentsProps) {
+  const [newComment, setNewComment] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: comments = [], isLoading } = useQuery<TaskComment[]>({
+    queryKey: ["/api/tasks", taskId, "comments"],
+    enabled: !!taskId,
+  });
+
+  const createCommentMutation = useMutation({
+    mutationFn: async (data: { body: string; parentCommentId?: string }) => {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/comments`, data);
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "comments"] });
+      if (variables.parentCommentId) {
+        setReplyingTo(null);
+        setReplyText("");
+      } else {
+        setNewComment("");
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const response = await apiRequest("DELETE", `/api/tasks/${taskId}/comments/${commentId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "comments"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const topLevelComments = comments.filter(comment => !comment.parentCommentId);
+  const repliesFor = (commentId: string) => comments.filter(comment => comment.parentCommentId === commentId);
+
+  const renderComment = (comment: TaskComment, isReply = false) => (
+    <div key={comment.id} className={`flex items-start space-x-2 ${isReply ? "ml-8 mt-2" : ""}`}>
+      <Avatar className="h-7 w-7">
+        <AvatarFallback className="text-xs">
+          {comment.author.name.split(" ").map(n => n[0]).join("").slice(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="bg-gray-50 border rounded-lg px-3 py-2">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-gray-700">{comment.author.name}</span>
+            <span className="text-xs text-gray-400">
+              {new Date(comment.createdAt).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </span>
+          </div>
+          <CommentBody body={comment.body} />
+        </div>
+        <div className="flex items-center space-x-2 mt-1">
+          {!isReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+            >
+              <Reply className="w-3 h-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {comment.authorId === user?.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-red-600"
+              onClick={() => deleteCommentMutation.mutate(comment.id)}
+              disabled={deleteCommentMutation.isPending}
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-700 flex items-center">
+        <MessageSquare className="w-4 h-4 mr-2" />
+        Comments ({comments.length})
+      </h4>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading comments...</p>
+      ) : topLevelComments.length === 0 ? (
+        <p className="text-xs text-gray-500">No comments yet - start the discussion below.</p>
+      ) : (
+        <div className="space-y-3">
+          {topLevelComments.map(comment => (
+            <div key={comment.id}>
+              {renderComment(comment)}
+              {repliesFor(comment.id).map(reply => renderComment(reply, true))}
+              {replyingTo === comment.id && (
+                <div className="ml-8 mt-2 space-y-2">
+                  <Textarea
+                    placeholder={`Reply to ${comment.author.name}...`}
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => createCommentMutation.mutate({ body: replyText, parentCommentId: comment.id })}
+                      disabled={!replyText.trim() || createCommentMutation.isPending}
+                    >
+                      Reply
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Write a comment... use @username to mention a teammate"
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => createCommentMutation.mutate({ body: newComment })}
+            disabled={!newComment.trim() || createCommentMutation.isPending}
+          >
+            {createCommentMutation.isPending ? "Posting..." : "Comment"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Lock, Link2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isTaskDone } from "@shared/schema";
+
+interface DependencyTask {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory?: string | null;
+  projectId: string;
+}
+
+interface TaskDependencyLink {
+  id: string;
+  taskId: string;
+  dependsOnTaskId: string;
+}
+
+interface TaskDependenciesResponse {
+  taskId: string;
+  blockedBy: DependencyTask[];
+  blocking: DependencyTask[];
+  isBlocked: boolean;
+}
+
+// Map of taskId -> unfinished tasks it is still waiting on, for rendering blocked badges on boards
+export function useTaskBlockers<T extends DependencyTask>(tasks: T[] | undefined) {
+  const { data: links = [] } = useQuery<TaskDependencyLink[]>({
+    queryKey: ["/api/task-dependencies"],
+  });
+
+  const tasksById = new Map((tasks || []).map(task => [task.id, task]));
+  const blockers = new Map<string, T[]>();
+
+  for (const link of links) {
+    const dependsOn = tasksById.get(link.dependsOnTaskId);
+    if (!dependsOn || isTaskDone(dependsOn)) continue;
+    const existing = blockers.get(link.taskId) || [];
+    existing.push(dependsOn);
+    blockers.set(link.taskId, existing);
+  }
+
+  return blockers;
+}
+
+export function BlockedBadge({ blockers }: { blockers?: DependencyTask[] }) {
+  if (!blockers || blockers.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <Badge className="bg-red-100 text-red-800" variant="secondary">
+        <Lock className="w-3 h-3 mr-1" />
+        Blocked
+      </Badge>
+      <p className="text-xs text-gray-500">
+        Waiting on: {blockers.map(t => t.title).join(", ")}
+      </p>
+    </div>
+  );
+}
+
+interface TaskDependenciesProps {
+  task: DependencyTask;
+  projectTasks: DependencyTask[];
+}
+
+export default function TaskDependencies({ task, projectTasks }: TaskDependenciesProps) {
+  const [newDependencyId, setNewDependencyId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<TaskDependenciesResponse>({
+    queryKey: ["/api/tasks", task.id, "dependencies"],
+    enabled: !!task.id,
+  });
+
+  const invalidateDependencies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks", task.id, "dependencies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies"] });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (dependsOnTaskId: string) => {
+      const response = await apiRequest("POST", `/api/tasks/${task.id}/dependencies`, { dependsOnTaskId });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateDependencies();
+      setNewDependencyId("");
+      toast({
+        title: "Dependency added",
+        description: "This task now waits on the selected task",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add dependency",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependsOnTaskId: string) => {
+      const response = await apiRequest("DELETE", `/api/tasks/${task.id}/dependencies/${dependsOnTaskId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateDependencies();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove dependency",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const blockedBy = data?.blockedBy || [];
+  const blocking = data?.blocking || [];
+  const candidates = projectTasks.filter(t =>
+    t.id !== task.id &&
+    t.projectId === task.projectId &&
+    !blockedBy.some(b => b.id === t.id)
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-700 flex items-center">
+        <Link2 className="w-4 h-4 mr-2" />
+        Dependencies
+      </h4>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading dependencies...</p>
+      ) : (
+        <>
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1">Waiting on</p>
+            {blockedBy.length === 0 ? (
+              <p className="text-xs text-gray-500">Nothing - this task can start any time</p>
+            ) : (
+              <ul className="space-y-1">
+                {blockedBy.map(dep => (
+                  <li key={dep.id} className="flex items-center justify-between text-sm bg-gray-50 border rounded px-2 py-1">
+                    <span className={isTaskDone(dep) ? 'line-through text-gray-500' : 'text-gray-900'}>
+                      {dep.title}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => removeDependencyMutation.mutate(dep.id)}
+                      disabled={removeDependencyMutation.isPending}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {blocking.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">Blocking</p>
+              <p className="text-xs text-gray-500">{blocking.map(t => t.title).join(", ")}</p>
+            </div>
+          )}
+
+          {candidates.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select value={newDependencyId} onValueChange={setNewDependencyId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Add a task this one waits on" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                onClick={() => newDependencyId && addDependencyMutation.mutate(newDependencyId)}
+                disabled={!newDependencyId || addDependencyMutation.isPending}
+              >
+                Add
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
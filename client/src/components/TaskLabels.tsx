@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Tag, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface TaskLabel {
+  id: string;
+  projectId: string;
+  name: string;
+  color: string;
+}
+
+interface LabelledTask {
+  id: string;
+  projectId: string;
+  labels?: TaskLabel[];
+}
+
+export function LabelBadge({ label, onRemove }: { label: TaskLabel; onRemove?: () => void }) {
+  return (
+    <Badge
+      variant="secondary"
+      className="text-xs"
+      style={{ backgroundColor: `${label.color}20`, color: label.color, borderColor: label.color }}
+    >
+      {label.name}
+      {onRemove && (
+        <button type="button" className="ml-1" onClick={onRemove}>
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
+
+export function LabelBadges({ labels }: { labels?: TaskLabel[] }) {
+  if (!labels || labels.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {labels.map(label => <LabelBadge key={label.id} label={label} />)}
+    </div>
+  );
+}
+
+interface TaskLabelsProps {
+  task: LabelledTask;
+}
+
+export default function TaskLabels({ task }: TaskLabelsProps) {
+  const [labels, setLabels] = useState<TaskLabel[]>(task.labels || []);
+  const [newLabelName, setNewLabelName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The selected task is a snapshot, so keep our own copy in step when a different task is opened
+  useEffect(() => {
+    setLabels(task.labels || []);
+  }, [task.id]);
+
+  const { data: projectLabels = [] } = useQuery<TaskLabel[]>({
+    queryKey: [`/api/projects/${task.projectId}/labels`],
+    enabled: !!task.projectId,
+  });
+
+  const setLabelsMutation = useMutation({
+    mutationFn: async (labelIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/tasks/${task.id}/labels`, { labelIds });
+      return response.json();
+    },
+    onSuccess: (updated: TaskLabel[]) => {
+      setLabels(updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${task.projectId}/tasks`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update labels",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createLabelMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", `/api/projects/${task.projectId}/labels`, { name });
+      return response.json();
+    },
+    onSuccess: (label: TaskLabel) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${task.projectId}/labels`] });
+      setNewLabelName("");
+      setLabelsMutation.mutate([...labels.map(l => l.id), label.id]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create label",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const appliedIds = new Set(labels.map(label => label.id));
+  const availableLabels = projectLabels.filter(label => !appliedIds.has(label.id));
+
+  const handleCreateLabel = () => {
+    const name = newLabelName.trim();
+    if (!name) return;
+    const existing = projectLabels.find(label => label.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      setNewLabelName("");
+      if (!appliedIds.has(existing.id)) setLabelsMutation.mutate([...labels.map(l => l.id), existing.id]);
+      return;
+    }
+    createLabelMutation.mutate(name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-700 flex items-center">
+        <Tag className="w-4 h-4 mr-2" />
+        Labels
+      </h4>
+
+      {labels.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {labels.map(label => (
+            <LabelBadge
+              key={label.id}
+              label={label}
+              onRemove={() => setLabelsMutation.mutate(labels.filter(l => l.id !== label.id).map(l => l.id))}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No labels yet.</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        {availableLabels.length > 0 && (
+          <Select value="" onValueChange={(labelId) => setLabelsMutation.mutate([...labels.map(l => l.id), labelId])}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Add label" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableLabels.map(label => (
+                <SelectItem key={label.id} value={label.id}>{label.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          placeholder="New label"
+          value={newLabelName}
+          maxLength={50}
+          onChange={(e) => setNewLabelName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleCreateLabel()}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCreateLabel}
+          disabled={!newLabelName.trim() || createLabelMutation.isPending || setLabelsMutation.isPending}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
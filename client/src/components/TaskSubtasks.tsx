@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ListChecks, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isTaskDone } from "@shared/schema";
+
+interface Subtask {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory?: string | null;
+  projectId: string;
+  parentTaskId?: string | null;
+}
+
+// "2/5 subtasks" line for parent task cards, computed from an already-loaded task list
+export function SubtaskCount({ tasks, parentTaskId }: { tasks?: Subtask[]; parentTaskId: string }) {
+  const subtasks = (tasks || []).filter(task => task.parentTaskId === parentTaskId);
+  if (subtasks.length === 0) return null;
+
+  const completed = subtasks.filter(task => isTaskDone(task)).length;
+  return (
+    <div className="mt-2 flex items-center text-xs text-gray-500">
+      <ListChecks className="w-3 h-3 mr-1" />
+      {completed}/{subtasks.length} subtasks
+    </div>
+  );
+}
+
+interface TaskSubtasksProps {
+  task: { id: string; projectId: string };
+}
+
+export default function TaskSubtasks({ task }: TaskSubtasksProps) {
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: subtasks = [], isLoading } = useQuery<Subtask[]>({
+    queryKey: ["/api/tasks", task.id, "subtasks"],
+    enabled: !!task.id,
+  });
+
+  const invalidateSubtasks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks", task.id, "subtasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${task.projectId}/tasks`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${task.projectId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const createSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiRequest("POST", `/api/tasks/${task.id}/subtasks`, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubtasks();
+      setNewSubtaskTitle("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add subtask",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSubtaskMutation = useMutation({
+    mutationFn: async (subtask: Subtask) => {
+      const status = isTaskDone(subtask) ? 'todo' : 'completed'; // Resolved to the project's first open/done status
+      const response = await apiRequest("PUT", `/api/tasks/${subtask.id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubtasks();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update subtask",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSubtaskMutation = useMutation({
+    mutationFn: async (subtaskId: string) => {
+      const response = await apiRequest("DELETE", `/api/tasks/${subtaskId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubtasks();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete subtask",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddSubtask = () => {
+    if (!newSubtaskTitle.trim()) return;
+    createSubtaskMutation.mutate(newSubtaskTitle.trim());
+  };
+
+  const completedCount = subtasks.filter(subtask => isTaskDone(subtask)).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <ListChecks className="w-4 h-4 mr-2" />
+          Subtasks
+        </h4>
+        {subtasks.length > 0 && (
+          <span className="text-xs text-gray-500">{completedCount}/{subtasks.length} done</span>
+        )}
+      </div>
+
+      {subtasks.length > 0 && (
+        <Progress value={Math.round((completedCount / subtasks.length) * 100)} className="h-1.5" />
+      )}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading subtasks...</p>
+      ) : (
+        <ul className="space-y-1">
+          {subtasks.map(subtask => (
+            <li key={subtask.id} className="flex items-center justify-between bg-gray-50 border rounded px-2 py-1">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  checked={isTaskDone(subtask)}
+                  onCheckedChange={() => toggleSubtaskMutation.mutate(subtask)}
+                />
+                <span className={`text-sm ${isTaskDone(subtask) ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                  {subtask.title}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => deleteSubtaskMutation.mutate(subtask.id)}
+                disabled={deleteSubtaskMutation.isPending}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Add a subtask"
+          value={newSubtaskTitle}
+          onChange={(e) => setNewSubtaskTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddSubtask();
+            }
+          }}
+        />
+        <Button
+          size="sm"
+          onClick={handleAddSubtask}
+          disabled={!newSubtaskTitle.trim() || createSubtaskMutation.isPending}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Clock, Play, Square, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: string;
+  endedAt?: string | null;
+  durationMinutes?: number | null;
+  note?: string | null;
+  source: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+interface RunningTimer {
+  id: string;
+  taskId: string;
+  startedAt: string;
+  task: { id: string; title: string } | null;
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+// Re-render every second while a timer is running so the elapsed time ticks
+function useElapsed(startedAt?: string) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!startedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  if (!startedAt) return "";
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+}
+
+interface TaskTimeTrackingProps {
+  taskId: string;
+}
+
+export default function TaskTimeTracking({ taskId }: TaskTimeTrackingProps) {
+  const [manualDate, setManualDate] = useState(() => new Date().toLocaleDateString('en-CA')); // YYYY-MM-DD in local time
+  const [manualHours, setManualHours] = useState("");
+  const [manualNote, setManualNote] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: entries = [], isLoading } = useQuery<TimeEntry[]>({
+    queryKey: ["/api/tasks", taskId, "time-entries"],
+    enabled: !!taskId,
+  });
+
+  const { data: runningTimer } = useQuery<RunningTimer | null>({
+    queryKey: ["/api/timer"],
+  });
+
+  const isRunningHere = runningTimer?.taskId === taskId;
+  const elapsed = useElapsed(isRunningHere ? runningTimer?.startedAt : undefined);
+
+  const invalidateTime = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "time-entries"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timer"] });
+  };
+
+  const startTimerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/timer/start`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+      // Starting here stops a timer running on another task, which logs time there too
+      if (runningTimer && runningTimer.taskId !== taskId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", runningTimer.taskId, "time-entries"] });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start timer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopTimerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/timer/stop");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to stop timer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logTimeMutation = useMutation({
+    mutationFn: async (data: { startedAt: string; durationMinutes: number; note?: string }) => {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/time-entries`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+      setManualHours("");
+      setManualNote("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log time",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("DELETE", `/api/time-entries/${entryId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete time entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogTime = () => {
+    const hours = parseFloat(manualHours);
+    if (!hours || hours <= 0) return;
+    logTimeMutation.mutate({
+      startedAt: new Date(`${manualDate}T09:00:00`).toISOString(),
+      durationMinutes: Math.round(hours * 60),
+      note: manualNote.trim() || undefined,
+    });
+  };
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + (entry.durationMinutes || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <Clock className="w-4 h-4 mr-2" />
+          Time Tracking
+        </h4>
+        <span className="text-xs text-gray-500">{formatMinutes(totalMinutes)} logged</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {isRunningHere ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => stopTimerMutation.mutate()}
+            disabled={stopTimerMutation.isPending}
+          >
+            <Square className="w-3 h-3 mr-1" />
+            Stop {elapsed}
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => startTimerMutation.mutate()}
+            disabled={startTimerMutation.isPending}
+          >
+            <Play className="w-3 h-3 mr-1" />
+            Start timer
+          </Button>
+        )}
+        {runningTimer && !isRunningHere && runningTimer.task && (
+          <span className="text-xs text-gray-500 truncate">Running on "{runningTimer.task.title}"</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Input type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} />
+        <Input
+          type="number"
+          min="0.25"
+          step="0.25"
+          placeholder="Hours"
+          value={manualHours}
+          onChange={(e) => setManualHours(e.target.value)}
+        />
+        <Button
+          size="sm"
+          onClick={handleLogTime}
+          disabled={!parseFloat(manualHours) || logTimeMutation.isPending}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Log
+        </Button>
+      </div>
+      <Input
+        placeholder="Note (optional)"
+        value={manualNote}
+        onChange={(e) => setManualNote(e.target.value)}
+      />
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading time entries...</p>
+      ) : entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.filter(entry => entry.durationMinutes).map(entry => (
+            <li key={entry.id} className="flex items-center justify-between text-xs bg-gray-50 border rounded px-2 py-1">
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900">{formatMinutes(entry.durationMinutes!)}</span>
+                <span className="text-gray-500">
+                  {" "}· {entry.user.name} · {new Date(entry.startedAt).toLocaleDateString()}
+                  {entry.note && ` · ${entry.note}`}
+                </span>
+              </div>
+              {entry.userId === user?.id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                  disabled={deleteEntryMutation.isPending}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Brain, ChartLine, Folder, CheckSquare, Lightbulb, Mic, Calendar, Users, Settings, Shield, User, Smartphone, LogOut, BarChart3, FileText } from "lucide-react";
+import { Brain, ChartLine, Folder, CheckSquare, Lightbulb, Mic, Calendar, Users, Settings, Shield, User, Smartphone, LogOut, BarChart3, FileText, Clock, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
@@ -24,6 +24,7 @@ export default function Sidebar({ onStartRecording }: SidebarProps) {
     { name: "Dashboard", href: "/dashboard", icon: ChartLine },
     { name: "My Projects", href: "/my-projects", icon: Folder },
     { name: "Tasks", href: "/tasks", icon: CheckSquare },
+    { name: "Timesheet", href: "/timesheet", icon: Clock },
     { name: "AI Insights", href: "/ai-insights", icon: Lightbulb, badge: "AI" },
     { name: "Analytics", href: "/analytics", icon: BarChart3, badge: "🧠" },
     { name: "Reports", href: "/reports", icon: FileText, badge: "📈" },
@@ -49,6 +50,19 @@ export default function Sidebar({ onStartRecording }: SidebarProps) {
         </div>
       </div>
 
+      {/* Search - the palette itself is mounted in the app layout */}
+      <div className="px-4 pt-4">
+        <button
+          type="button"
+          onClick={() => window.dispatchEvent(new Event('openSearchPalette'))}
+          className="flex items-center w-full px-3 py-2 text-sm text-gray-500 border border-gray-200 rounded-lg hover:bg-gray-50"
+        >
+          <Search className="w-4 h-4 mr-2" />
+          Search
+          <kbd className="ml-auto text-xs text-gray-400">Ctrl K</kbd>
+        </button>
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 px-4 py-6 space-y-2">
         {navigation.map((item) => {
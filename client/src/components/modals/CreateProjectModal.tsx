@@ -23,13 +23,14 @@ export default function CreateProjectModal({ isOpen, onClose }: CreateProjectMod
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [status, setStatus] = useState("active");
+  const [estimateUnit, setEstimateUnit] = useState("points");
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const createProjectMutation = useMutation({
-    mutationFn: async (projectData: { name: string; description: string; status: string; dueDate?: string }) => {
+    mutationFn: async (projectData: { name: string; description: string; status: string; estimateUnit: string; dueDate?: string }) => {
       const response = await apiRequest("POST", "/api/projects", projectData);
       return response.json();
     },
@@ -47,6 +48,7 @@ export default function CreateProjectModal({ isOpen, onClose }: CreateProjectMod
       setName("");
       setDescription("");
       setStatus("active");
+      setEstimateUnit("points");
       setDueDate(undefined);
       onClose();
     },
@@ -76,6 +78,7 @@ export default function CreateProjectModal({ isOpen, onClose }: CreateProjectMod
       name: name.trim(),
       description: description.trim(),
       status,
+      estimateUnit,
       dueDate: dueDate ? dueDate.toISOString() : undefined,
     });
   };
@@ -85,6 +88,7 @@ export default function CreateProjectModal({ isOpen, onClose }: CreateProjectMod
       setName("");
       setDescription("");
       setStatus("active");
+      setEstimateUnit("points");
       setDueDate(undefined);
       onClose();
     }
@@ -137,6 +141,19 @@ export default function CreateProjectModal({ isOpen, onClose }: CreateProjectMod
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="estimateUnit">Estimate tasks in</Label>
+            <Select value={estimateUnit} onValueChange={setEstimateUnit} disabled={createProjectMutation.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="points">Story points</SelectItem>
+                <SelectItem value="hours">Hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-2">
             <Label>Due Date (Optional)</Label>
             <Popover>
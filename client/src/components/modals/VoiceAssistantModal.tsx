@@ -1,11 +1,238 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
-import { Mic, MicOff, Volume2, VolumeX, Brain, Zap, Type, Send } from "lucide-react";
-import { useVoiceAssistant } from "@/contexts/VoiceAssistantContext";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mic, MicOff, Volume2, VolumeX, Brain, Zap, Type, Send, FileSearch, Check, X, Undo2, Plus, Pencil } from "lucide-react";
+import { Link } from "wouter";
+import {
+  useVoiceAssistant,
+  type AssistantAction,
+  type AssistantActionOperation,
+  type AssistantToolProgress,
+  type MeetingCitation,
+} from "@/contexts/VoiceAssistantContext";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConversationEntry {
+  user: string;
+  ai: string;
+  citations?: MeetingCitation[];
+  action?: AssistantAction;
+  progress?: AssistantToolProgress[];
+  pending?: boolean; // follows the reply as it streams in, until processing finishes
+}
+
+interface SavedConversation {
+  id: string;
+  title: string;
+  updatedAt: string;
+}
+
+interface SavedMessage {
+  role: "user" | "assistant";
+  content: string;
+  citations: MeetingCitation[] | null;
+  action: AssistantAction | null;
+}
+
+// Rebuilds the modal's exchanges from a saved conversation's messages
+function toConversationEntries(messages: SavedMessage[]): ConversationEntry[] {
+  const entries: ConversationEntry[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      entries.push({ user: message.content, ai: "" });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1] = {
+        ...entries[entries.length - 1],
+        ai: message.content,
+        citations: message.citations || undefined,
+        action: message.action || undefined,
+      };
+    }
+  }
+  return entries;
+}
+
+// Pick up a past conversation, start a new one, or rename the current one
+function ConversationBar({ conversationId, disabled, onSelect }: {
+  conversationId: string | null;
+  disabled: boolean;
+  onSelect: (conversationId: string | null) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState("");
+
+  const { data } = useQuery<{ conversations: SavedConversation[] }>({
+    queryKey: ["/api/ai/conversations"],
+  });
+  const conversations = data?.conversations || [];
+  const current = conversations.find(conversation => conversation.id === conversationId);
+
+  const saveTitle = async () => {
+    setRenaming(false);
+    if (!conversationId || !title.trim() || title.trim() === current?.title) return;
+    try {
+      await apiRequest("PUT", `/api/ai/conversations/${conversationId}`, { title: title.trim() });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/conversations"] });
+    } catch (error) {
+      toast({ title: "Couldn't rename conversation", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  if (renaming) {
+    return (
+      <div className="flex gap-2">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") saveTitle();
+            if (e.key === "Escape") setRenaming(false);
+          }}
+          onBlur={saveTitle}
+          autoFocus
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Select value={conversationId ?? ""} onValueChange={onSelect} disabled={disabled || conversations.length === 0}>
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder={conversations.length > 0 ? "Resume a conversation" : "No saved conversations"} />
+        </SelectTrigger>
+        <SelectContent>
+          {conversations.map(conversation => (
+            <SelectItem key={conversation.id} value={conversation.id}>
+              {conversation.title} · {new Date(conversation.updatedAt).toLocaleDateString()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {current && (
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => {
+            setTitle(current.title);
+            setRenaming(true);
+          }}
+          disabled={disabled}
+          title="Rename conversation"
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+      )}
+      <Button variant="outline" size="icon" onClick={() => onSelect(null)} disabled={disabled || !conversationId} title="New conversation">
+        <Plus className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+const toolStatusMarks: Record<AssistantToolProgress["status"], string> = {
+  planned: "•",
+  running: "…",
+  done: "✓",
+  failed: "✗",
+};
+
+// What the assistant is doing while a command runs
+function ToolProgressList({ steps }: { steps: AssistantToolProgress[] }) {
+  return (
+    <ul className="mt-2 space-y-1 border-t border-green-200 pt-2 text-xs text-green-900">
+      {steps.map((step, index) => (
+        <li key={index} className="flex gap-1">
+          <span>{toolStatusMarks[step.status]}</span>
+          <span>{step.status === "done" && step.summary ? step.summary : step.description}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const actionStatusLabels: Partial<Record<AssistantAction["status"], string>> = {
+  running: "Working on it...",
+  failed: "Nothing was changed.",
+  cancelled: "Cancelled.",
+  undone: "Undone.",
+};
+
+// The steps behind a reply that changes data: confirm or cancel them while pending, undo them once run
+function ActionPanel({ action, busy, onResolve }: {
+  action: AssistantAction;
+  busy: boolean;
+  onResolve: (operation: AssistantActionOperation) => void;
+}) {
+  return (
+    <div className="mt-2 space-y-2 border-t border-green-200 pt-2">
+      <ul className="space-y-1 text-xs text-green-900">
+        {action.steps.map((step, index) => (
+          <li key={index} className="flex gap-1">
+            <span>{action.status === "executed" ? "✓" : "•"}</span>
+            <span className={action.status === "cancelled" || action.status === "undone" ? "line-through text-green-700" : ""}>
+              {action.status === "executed" && step.summary ? step.summary : step.description}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {action.status === "pending" ? (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onResolve("confirm")} disabled={busy}>
+            <Check className="w-3 h-3 mr-1" />
+            Confirm
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onResolve("cancel")} disabled={busy}>
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      ) : action.status === "executed" ? (
+        <Button size="sm" variant="outline" onClick={() => onResolve("undo")} disabled={busy}>
+          <Undo2 className="w-3 h-3 mr-1" />
+          Undo
+        </Button>
+      ) : (
+        <div className="text-xs text-green-700">{actionStatusLabels[action.status]}</div>
+      )}
+    </div>
+  );
+}
+
+function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
+// Numbered sources under an answer about meetings; each opens the transcript at the cited moment
+function CitationList({ citations, onOpen }: { citations: MeetingCitation[]; onOpen: () => void }) {
+  return (
+    <div className="mt-2 space-y-1 border-t border-green-200 pt-2">
+      {citations.map((citation, index) => (
+        <Link
+          key={index}
+          href={`/meetings?meeting=${citation.meetingId}${citation.startMs !== null ? `&t=${citation.startMs}` : ""}`}
+          onClick={onOpen}
+          className="block rounded px-2 py-1 text-xs hover:bg-green-100"
+        >
+          <div className="font-medium text-green-900">
+            [{index + 1}] {citation.meetingTitle} · {new Date(citation.scheduledAt).toLocaleDateString()}
+            {citation.startMs !== null ? ` · ${formatTimestamp(citation.startMs)}` : citation.source === "summary" ? " · summary" : ""}
+          </div>
+          <div className="text-green-700 line-clamp-2">{citation.excerpt}</div>
+        </Link>
+      ))}
+    </div>
+  );
+}
 
 interface VoiceAssistantModalProps {
   isOpen: boolean;
@@ -19,9 +246,16 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
     isSpeaking,
     lastCommand,
     lastResponse,
+    lastCitations,
+    lastAction,
+    lastToolProgress,
+    conversationId,
+    selectConversation,
     startListening,
     stopListening,
     executeVoiceCommand,
+    askMeetings,
+    resolveAction,
     processingProgress,
     supportsSpeechRecognition,
     supportsSpeechSynthesis
@@ -30,7 +264,15 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
   const [showExamples, setShowExamples] = useState(false);
   const [textCommand, setTextCommand] = useState("");
   const [useTextMode, setUseTextMode] = useState(true); // Default to text mode since voice fails in Replit
-  const [conversationHistory, setConversationHistory] = useState<Array<{user: string, ai: string}>>([]);
+  const [askMeetingsMode, setAskMeetingsMode] = useState(false); // typed questions search meeting transcripts instead
+  const [conversationHistory, setConversationHistory] = useState<ConversationEntry[]>([]);
+  const [resolvingActionId, setResolvingActionId] = useState<string | null>(null);
+  const historyEndRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    historyEndRef.current?.scrollIntoView({ block: "nearest" });
+  }, [conversationHistory]);
 
   // Auto-switch to text mode when voice fails
   useEffect(() => {
@@ -49,15 +291,38 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
     onClose();
   };
 
+  const handleSelectConversation = async (id: string | null) => {
+    selectConversation(id);
+    if (!id) {
+      setConversationHistory([]);
+      return;
+    }
+
+    try {
+      const response = await apiRequest("GET", `/api/ai/conversations/${id}`);
+      const result = await response.json();
+      setConversationHistory(toConversationEntries(result.messages));
+    } catch (error) {
+      console.error("Failed to load conversation:", error);
+      selectConversation(null);
+      setConversationHistory([]);
+      toast({ title: "Couldn't open conversation", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
   const handleCommand = async (command: string) => {
     console.log('🎯 handleCommand called with:', command);
     
     // Add to conversation history
-    setConversationHistory(prev => [...prev, { user: command, ai: "..." }]);
+    setConversationHistory(prev => [...prev, { user: command, ai: "...", pending: true }]);
     
     try {
-      // Execute command with conversation context
-      await executeVoiceCommand(command, conversationHistory);
+      if (askMeetingsMode) {
+        await askMeetings(command);
+      } else {
+        // The server keeps the conversation's history and adds it as context
+        await executeVoiceCommand(command);
+      }
       setTextCommand("");
     } catch (error) {
       console.error('❌ handleCommand error:', error);
@@ -72,22 +337,39 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
     }
   };
 
-  // Update conversation history when AI responds
+  // Update conversation history as the AI responds: the reply streams in, then tool progress and the final result
   useEffect(() => {
-    if (lastResponse && conversationHistory.length > 0) {
-      const lastEntry = conversationHistory[conversationHistory.length - 1];
-      if (lastEntry && lastEntry.ai === "...") {
-        setConversationHistory(prev => {
-          const newHistory = [...prev];
-          newHistory[newHistory.length - 1] = {
-            ...newHistory[newHistory.length - 1],
-            ai: lastResponse
-          };
-          return newHistory;
-        });
-      }
-    }
-  }, [lastResponse, conversationHistory]);
+    const lastEntry = conversationHistory[conversationHistory.length - 1];
+    if (!lastEntry?.pending) return;
+
+    const ai = lastResponse || "...";
+    const action = lastAction ?? undefined;
+    if (
+      lastEntry.ai === ai &&
+      lastEntry.citations === lastCitations &&
+      lastEntry.action === action &&
+      lastEntry.progress === lastToolProgress &&
+      lastEntry.pending === isProcessing
+    ) return;
+
+    setConversationHistory(prev => [
+      ...prev.slice(0, -1),
+      { ...lastEntry, ai, citations: lastCitations, action, progress: lastToolProgress, pending: isProcessing },
+    ]);
+  }, [lastResponse, lastCitations, lastAction, lastToolProgress, isProcessing, conversationHistory]);
+
+  const handleResolveAction = async (action: AssistantAction, operation: AssistantActionOperation) => {
+    setResolvingActionId(action.id);
+    const result = await resolveAction(action.id, operation);
+    setResolvingActionId(null);
+    if (!result) return;
+
+    setConversationHistory(prev => prev.map(entry =>
+      entry.action?.id === action.id
+        ? { ...entry, ai: result.response, action: result.action ?? entry.action }
+        : entry
+    ));
+  };
 
   const voiceCommands = [
     {
@@ -104,8 +386,17 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
       examples: [
         "Create a task: Review marketing proposal",
         "Mark task completed: Fix login bug",
-        "Set priority urgent for user authentication",
-        "Schedule meeting for tomorrow at 2 PM"
+        "Reassign the onboarding docs task to Sam",
+        "Schedule meeting for tomorrow at 2 PM",
+        "Link my design review to the Website project"
+      ]
+    },
+    {
+      category: "Ask Your Meetings",
+      examples: [
+        "What did we decide about the billing migration?",
+        "Who agreed to update the API docs?",
+        "When is the launch date we discussed?"
       ]
     },
     {
@@ -230,11 +521,13 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
             </div>
           </div>
 
+          <ConversationBar conversationId={conversationId} disabled={isProcessing} onSelect={handleSelectConversation} />
+
           {/* Conversation History */}
           {conversationHistory.length > 0 && (
             <div className="space-y-3 max-h-64 overflow-y-auto">
               <div className="text-sm font-medium text-gray-900 mb-2">Conversation History</div>
-              {conversationHistory.slice(-3).map((exchange, index) => (
+              {conversationHistory.map((exchange, index) => (
                 <div key={index} className="space-y-2">
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                     <div className="text-sm font-medium text-blue-900 mb-1">You:</div>
@@ -247,9 +540,23 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
                       AI Assistant:
                     </div>
                     <div className="text-green-800">{exchange.ai}</div>
+                    {exchange.citations && exchange.citations.length > 0 && (
+                      <CitationList citations={exchange.citations} onOpen={handleClose} />
+                    )}
+                    {exchange.pending && !exchange.action && exchange.progress && exchange.progress.length > 0 && (
+                      <ToolProgressList steps={exchange.progress} />
+                    )}
+                    {exchange.action && (
+                      <ActionPanel
+                        action={exchange.action}
+                        busy={resolvingActionId === exchange.action.id}
+                        onResolve={(operation) => handleResolveAction(exchange.action!, operation)}
+                      />
+                    )}
                   </div>
                 </div>
               ))}
+              <div ref={historyEndRef} />
             </div>
           )}
 
@@ -311,9 +618,29 @@ export default function VoiceAssistantModal({ isOpen, onClose }: VoiceAssistantM
             )}
             
             {/* Text Input (always available) */}
+            <div className="flex gap-2 justify-center">
+              <Button
+                variant={askMeetingsMode ? "outline" : "secondary"}
+                size="sm"
+                onClick={() => setAskMeetingsMode(false)}
+                disabled={isProcessing}
+              >
+                <Brain className="w-3 h-3 mr-1" />
+                Assistant
+              </Button>
+              <Button
+                variant={askMeetingsMode ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setAskMeetingsMode(true)}
+                disabled={isProcessing}
+              >
+                <FileSearch className="w-3 h-3 mr-1" />
+                Ask meetings
+              </Button>
+            </div>
             <div className="flex gap-2">
               <Input
-                placeholder="Ask me anything about your projects..."
+                placeholder={askMeetingsMode ? "What did we decide about...?" : "Ask me anything about your projects..."}
                 value={textCommand}
                 onChange={(e) => setTextCommand(e.target.value)}
                 onKeyDown={(e) => {
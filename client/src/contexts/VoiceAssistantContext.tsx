@@ -1,7 +1,7 @@
 import { createContext, useContext, useState, useRef, useCallback, useEffect, ReactNode } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiEventStream } from "@/lib/queryClient";
 
 // TypeScript declarations for browser APIs
 declare global {
@@ -11,21 +11,63 @@ declare global {
   }
 }
 
+// A transcript or summary passage an answer about meetings was based on
+export interface MeetingCitation {
+  meetingId: string;
+  meetingTitle: string;
+  scheduledAt: string;
+  source: "transcript" | "summary";
+  startMs: number | null;
+  endMs: number | null;
+  excerpt: string;
+}
+
+export type AssistantActionStatus = "pending" | "running" | "executed" | "failed" | "cancelled" | "undone";
+
+// Changes the assistant planned from a command: pending ones wait for confirmation, executed ones can be undone
+export interface AssistantAction {
+  id: string;
+  command: string;
+  status: AssistantActionStatus;
+  steps: { tool: string; description: string; summary?: string }[];
+  error: string | null;
+}
+
+// A tool step reported while a streamed command runs
+export interface AssistantToolProgress {
+  tool: string;
+  status: "planned" | "running" | "done" | "failed";
+  description: string;
+  summary?: string;
+}
+
+export type AssistantActionOperation = "confirm" | "cancel" | "undo";
+
 interface VoiceAssistantContextType {
   isListening: boolean;
   isProcessing: boolean;
   isSpeaking: boolean;
   lastCommand: string | null;
   lastResponse: string | null;
+  lastCitations: MeetingCitation[];
+  lastAction: AssistantAction | null;
+  lastToolProgress: AssistantToolProgress[];
+  conversationId: string | null;
+  selectConversation: (conversationId: string | null) => void;
   startListening: () => Promise<void>;
   stopListening: () => void;
   speakResponse: (text: string) => Promise<void>;
-  executeVoiceCommand: (command: string, conversationHistory?: Array<{user: string, ai: string}>) => Promise<void>;
+  executeVoiceCommand: (command: string) => Promise<void>;
+  askMeetings: (question: string) => Promise<void>;
+  resolveAction: (actionId: string, operation: AssistantActionOperation) => Promise<{ response: string; action: AssistantAction | null } | null>;
   processingProgress: number;
   supportsSpeechRecognition: boolean;
   supportsSpeechSynthesis: boolean;
 }
 
+// A sentence ending followed by space; the text after it is kept until its own sentence is complete
+const SENTENCE_END = /[.!?]+["')\]]*\s+/;
+
 export const VoiceAssistantContext = createContext<VoiceAssistantContextType | null>(null);
 
 export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
@@ -34,11 +76,17 @@ export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [lastCommand, setLastCommand] = useState<string | null>(null);
   const [lastResponse, setLastResponse] = useState<string | null>(null);
+  const [lastCitations, setLastCitations] = useState<MeetingCitation[]>([]);
+  const [lastAction, setLastAction] = useState<AssistantAction | null>(null);
+  const [lastToolProgress, setLastToolProgress] = useState<AssistantToolProgress[]>([]);
+  // The saved conversation new messages go to; null starts a new one with the next message
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
   const [processingProgress, setProcessingProgress] = useState(0);
   
   const recognitionRef = useRef<any>(null);
   const synthesisRef = useRef<SpeechSynthesis | null>(null);
-  const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const pendingUtterancesRef = useRef(0);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -146,92 +194,164 @@ export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
     setIsListening(false);
   }, []);
 
-  const speakResponse = useCallback(async (text: string): Promise<void> => {
-    if (!supportsSpeechSynthesis || !synthesisRef.current) {
-      console.log('Speech synthesis not supported, showing text only');
-      return;
-    }
-
+  // Queues one utterance behind whatever is already being said; resolves when it has been spoken
+  const enqueueUtterance = useCallback((text: string): Promise<void> => {
     return new Promise((resolve) => {
-      // Stop any current speech
-      if (currentUtteranceRef.current) {
-        synthesisRef.current?.cancel();
-      }
-
       const utterance = new SpeechSynthesisUtterance(text);
       utterance.rate = 0.9; // Slightly slower for clarity
       utterance.pitch = 1;
       utterance.volume = 0.8;
 
-      utterance.onstart = () => {
-        setIsSpeaking(true);
-        console.log('🔊 AI Assistant speaking...');
-      };
-
-      utterance.onend = () => {
-        setIsSpeaking(false);
-        currentUtteranceRef.current = null;
-        console.log('🔊 AI Assistant finished speaking');
+      const finish = () => {
+        pendingUtterancesRef.current -= 1;
+        if (pendingUtterancesRef.current === 0) {
+          setIsSpeaking(false);
+          console.log('🔊 AI Assistant finished speaking');
+        }
         resolve();
       };
 
+      utterance.onstart = () => {
+        setIsSpeaking(true);
+      };
+      utterance.onend = finish;
       utterance.onerror = (event) => {
         console.error('Speech synthesis error:', event);
-        setIsSpeaking(false);
-        currentUtteranceRef.current = null;
-        resolve();
+        finish();
       };
 
-      currentUtteranceRef.current = utterance;
+      pendingUtterancesRef.current += 1;
       synthesisRef.current?.speak(utterance);
     });
-  }, [supportsSpeechSynthesis]);
+  }, []);
+
+  // Speaks text that may still be arriving: each sentence is spoken as soon as it is complete, and
+  // finish() speaks whatever is left and resolves once everything has been said
+  const startSpeaking = useCallback(() => {
+    const spoken: Promise<void>[] = [];
+    let buffer = "";
+
+    if (supportsSpeechSynthesis && synthesisRef.current) {
+      // Stop any current speech
+      synthesisRef.current.cancel();
+      pendingUtterancesRef.current = 0;
+      console.log('🔊 AI Assistant speaking...');
+    }
 
-  const executeVoiceCommand = useCallback(async (command: string, conversationHistory: Array<{user: string, ai: string}> = []) => {
+    const say = (text: string) => {
+      if (supportsSpeechSynthesis && synthesisRef.current && text.trim()) {
+        spoken.push(enqueueUtterance(text.trim()));
+      }
+    };
+
+    return {
+      push(text: string) {
+        buffer += text;
+        let match;
+        while ((match = buffer.match(SENTENCE_END))) {
+          const end = (match.index ?? 0) + match[0].length;
+          say(buffer.slice(0, end));
+          buffer = buffer.slice(end);
+        }
+      },
+      async finish() {
+        say(buffer);
+        buffer = "";
+        await Promise.all(spoken);
+      },
+    };
+  }, [supportsSpeechSynthesis, enqueueUtterance]);
+
+  const speakResponse = useCallback(async (text: string): Promise<void> => {
+    if (!supportsSpeechSynthesis || !synthesisRef.current) {
+      console.log('Speech synthesis not supported, showing text only');
+      return;
+    }
+
+    const speaker = startSpeaking();
+    speaker.push(text);
+    await speaker.finish();
+  }, [supportsSpeechSynthesis, startSpeaking]);
+
+  const selectConversation = useCallback((id: string | null) => {
+    conversationIdRef.current = id;
+    setConversationId(id);
+  }, []);
+
+  // The server starts a conversation with the first message; later messages continue it
+  const continueConversation = useCallback((id: string | undefined) => {
+    if (id) selectConversation(id);
+    queryClient.invalidateQueries({ queryKey: ["/api/ai/conversations"] });
+  }, [queryClient, selectConversation]);
+
+  const invalidateAssistantData = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/meetings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/external-meetings"] });
+  }, [queryClient]);
+
+  const executeVoiceCommand = useCallback(async (command: string) => {
     setIsProcessing(true);
     setProcessingProgress(0);
+    setLastResponse(null); // so the modal doesn't show the previous answer while this one loads
+    setLastCitations([]);
+    setLastAction(null);
+    setLastToolProgress([]);
 
     try {
       console.log(`🧠 Processing voice command: "${command}"`);
-      console.log('📤 Sending API request to /api/ai/voice-command');
       setProcessingProgress(25);
 
-      // Send command to AI service for processing
-      const response = await apiRequest("POST", "/api/ai/voice-command", {
-        command: command.toLowerCase(),
+      // The reply streams in: show it and start speaking while the rest arrives
+      const speaker = startSpeaking();
+      let streamedText = "";
+      let result: any = null;
+
+      await apiEventStream("/api/ai/voice-command/stream", {
+        command,
         timestamp: new Date().toISOString(),
-        conversationHistory: conversationHistory
+        conversationId: conversationIdRef.current
+      }, (event, data) => {
+        if (event === "token") {
+          streamedText += data.text;
+          setLastResponse(streamedText);
+          speaker.push(data.text);
+          setProcessingProgress(50);
+        } else if (event === "tool") {
+          // Each step is reported as planned, then running, then done or failed; keep its latest state
+          setLastToolProgress(prev => {
+            const index = prev.findIndex(step => step.description === data.description);
+            return index === -1 ? [...prev, data] : prev.map((step, i) => i === index ? data : step);
+          });
+          setProcessingProgress(75);
+        } else if (event === "done") {
+          result = data;
+        } else if (event === "error") {
+          throw new Error(data.error || "Command processing failed");
+        }
       });
 
-      console.log('📥 API response received:', response.status);
-      setProcessingProgress(50);
-      const result = await response.json();
-      console.log('🧠 AI result:', result);
-      setProcessingProgress(75);
-
-      if (result.success) {
-        setLastResponse(result.response);
-        
-        // Invalidate relevant queries if data was modified
-        if (result.dataModified) {
-          queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-          queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        }
+      if (!result?.success) {
+        throw new Error("Command processing failed");
+      }
 
-        // Speak the response
-        if (result.response) {
-          await speakResponse(result.response);
-        }
+      continueConversation(result.conversationId);
+      setLastAction(result.action || null);
+      setLastResponse(result.response);
 
-        setProcessingProgress(100);
-        
-        // Return the result so modal can access it
-        return result;
+      // Invalidate relevant queries if data was modified
+      if (result.dataModified) {
+        invalidateAssistantData();
+      }
 
-      } else {
-        throw new Error(result.error || "Command processing failed");
+      // Tool results and confirmation prompts come after the streamed acknowledgement; say them too
+      if (result.response && result.response !== streamedText.trim()) {
+        speaker.push(` ${result.response}`);
       }
+      setProcessingProgress(100);
+      await speaker.finish();
 
     } catch (error: any) {
       console.error("Voice command processing error:", error);
@@ -248,7 +368,71 @@ export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
       setIsProcessing(false);
       setProcessingProgress(0);
     }
-  }, [toast, queryClient, speakResponse]);
+  }, [toast, invalidateAssistantData, continueConversation, speakResponse, startSpeaking]);
+
+  // Confirm or cancel a planned action, or undo one that ran; returns what to show in place of the old reply
+  const resolveAction = useCallback(async (actionId: string, operation: AssistantActionOperation) => {
+    try {
+      const response = await apiRequest("POST", `/api/ai/actions/${actionId}/${operation}`);
+      const result = await response.json();
+
+      if (result.dataModified) {
+        invalidateAssistantData();
+      }
+      await speakResponse(result.response);
+      return { response: result.response as string, action: result.action as AssistantAction | null };
+
+    } catch (error: any) {
+      console.error(`Assistant action ${operation} error:`, error);
+      toast({
+        title: operation === "undo" ? "Couldn't undo" : "Couldn't update action",
+        description: error.message?.includes('409')
+          ? "This action has already been handled."
+          : "Please try again.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  }, [invalidateAssistantData, speakResponse, toast]);
+
+  // Answer a question from meeting transcripts and summaries, with citations to the passages used
+  const askMeetings = useCallback(async (question: string) => {
+    setIsProcessing(true);
+    setProcessingProgress(25);
+    setLastResponse(null); // so the modal doesn't show the previous answer while this one loads
+    setLastCitations([]);
+    setLastAction(null);
+    setLastToolProgress([]);
+
+    try {
+      const response = await apiRequest("POST", "/api/ai/meetings/ask", { question, conversationId: conversationIdRef.current });
+      setProcessingProgress(75);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Question processing failed");
+      }
+
+      continueConversation(result.conversationId);
+      setLastCitations(result.citations || []);
+      setLastResponse(result.answer);
+      setProcessingProgress(100);
+      await speakResponse(result.spokenAnswer || result.answer);
+
+    } catch (error: any) {
+      console.error("Meeting question error:", error);
+
+      const errorMessage = error.message?.includes('401')
+        ? "Please log in to ask about your meetings"
+        : "Sorry, I couldn't search your meetings. Please try again.";
+
+      setLastResponse(errorMessage);
+      await speakResponse(errorMessage);
+    } finally {
+      setIsProcessing(false);
+      setProcessingProgress(0);
+    }
+  }, [continueConversation, speakResponse]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -256,7 +440,7 @@ export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
       if (recognitionRef.current) {
         recognitionRef.current.stop();
       }
-      if (synthesisRef.current && currentUtteranceRef.current) {
+      if (synthesisRef.current && pendingUtterancesRef.current > 0) {
         synthesisRef.current.cancel();
       }
     };
@@ -268,10 +452,17 @@ export function VoiceAssistantProvider({ children }: { children: ReactNode }) {
     isSpeaking,
     lastCommand,
     lastResponse,
+    lastCitations,
+    lastAction,
+    lastToolProgress,
+    conversationId,
+    selectConversation,
     startListening,
     stopListening,
     speakResponse,
     executeVoiceCommand,
+    askMeetings,
+    resolveAction,
     processingProgress,
     supportsSpeechRecognition,
     supportsSpeechSynthesis,
@@ -819,11 +819,12 @@ export function VoiceRecordingProvider({ children }: { children: ReactNode }) {
         if (progress.status === 'completed') {
           queryClient.invalidateQueries({ queryKey: ["/api/meetings"] });
           queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/suggested-tasks"] });
           queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
           
           toast({
             title: "🎉 Recording Processed Successfully!",
-            description: "Meeting transcribed, summarized, and tasks created automatically.",
+            description: "Meeting transcribed and summarized. Suggested tasks are ready to review on the Meetings page.",
             duration: 5000,
           });
           
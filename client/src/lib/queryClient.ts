@@ -31,6 +31,42 @@ export async function apiRequest(
   return res;
 }
 
+// POSTs to a Server-Sent Events endpoint and calls onEvent for each event as it arrives.
+// (EventSource can't send a body, so the stream is read from fetch.)
+export async function apiEventStream(
+  url: string,
+  data: unknown,
+  onEvent: (event: string, data: any) => void,
+): Promise<void> {
+  const res = await apiRequest("POST", url, data);
+  if (!res.body) throw new Error("Streaming is not supported in this browser");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length > 0) onEvent(event, JSON.parse(dataLines.join("\n")));
+    }
+
+    if (done) break;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
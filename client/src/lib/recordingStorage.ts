@@ -16,6 +16,8 @@ interface StoredRecording {
   };
   retryCount: number;
   lastError?: string;
+  uploadId?: string; // Chunked upload in progress, so an interrupted upload can resume
+  jobId?: string; // Server-side processing job, once the audio has been accepted
 }
 
 class RecordingStorageManager {
@@ -146,6 +148,22 @@ class RecordingStorageManager {
     await this.saveRecording(recording);
   }
 
+  async setRecordingUpload(id: string, uploadId: string | undefined): Promise<void> {
+    const recording = await this.getRecording(id);
+    if (!recording) throw new Error(`Recording ${id} not found`);
+
+    recording.uploadId = uploadId;
+    await this.saveRecording(recording);
+  }
+
+  async setRecordingJob(id: string, jobId: string | undefined): Promise<void> {
+    const recording = await this.getRecording(id);
+    if (!recording) throw new Error(`Recording ${id} not found`);
+
+    recording.jobId = jobId;
+    await this.saveRecording(recording);
+  }
+
   async deleteRecording(id: string): Promise<void> {
     if (!this.db) await this.init();
     
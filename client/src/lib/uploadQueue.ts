@@ -6,15 +6,49 @@ interface UploadProgress {
   recordingId: string;
   progress: number;
   status: 'queued' | 'uploading' | 'processing' | 'completed' | 'failed';
+  jobState?: ProcessingJobStatus['state'];
   error?: string;
 }
 
+// GET /api/jobs/:id
+interface ProcessingJobStatus {
+  id: string;
+  state: 'queued' | 'transcribing' | 'extracting' | 'done' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  result?: { meetingId: string; suggestedTaskCount: number; extractedTaskCount: number } | null;
+}
+
+// GET /api/recording-uploads/:id
+interface RecordingUploadStatus {
+  id: string;
+  meetingId: string;
+  size: number;
+  receivedBytes: number;
+  maxChunkBytes: number;
+  jobId?: string | null;
+}
+
+// Overall progress shown while the server works through a job
+const jobProgress: Record<ProcessingJobStatus['state'], number> = {
+  queued: 55,
+  transcribing: 65,
+  extracting: 85,
+  done: 100,
+  failed: 0,
+};
+
 class UploadQueueManager {
   private queue: string[] = [];
   private activeUploads = new Set<string>();
   private maxConcurrentUploads = 2;
   private progressCallbacks = new Map<string, (progress: UploadProgress) => void>();
   private retryDelays = [1000, 5000, 15000, 60000]; // Progressive retry delays
+  private uploadChunkBytes = 1024 * 1024;
+  private chunkRetryDelays = [1000, 3000, 10000]; // before giving up until the next queue retry
+  private jobPollInterval = 5000;
+  private maxJobPollErrors = 12; // about a minute of failed polls before giving up until the next retry
 
   async addToQueue(recordingId: string, progressCallback?: (progress: UploadProgress) => void): Promise<void> {
     // Check if recording exists and hasn't been uploaded already
@@ -63,44 +97,86 @@ class UploadQueueManager {
     
     try {
       await recordingStorage.updateRecordingStatus(recordingId, 'processing');
-      progressCallback?.({ recordingId, progress: 0, status: 'uploading' });
-
-      // Enhanced validation - try to recover even if audioBlob is missing
-      if (!recording.audioBlob || recording.audioBlob.size === 0) {
-        // Try to recover from chunks if available
-        if (recording.chunks && recording.chunks.length > 0) {
-          console.log(`🔄 Recovering audio blob from ${recording.chunks.length} chunks`);
-          const validChunks = recording.chunks.filter(chunk => chunk && chunk.size > 0);
-          if (validChunks.length > 0) {
-            recording.audioBlob = new Blob(validChunks, { type: recording.metadata.mimeType });
-            await recordingStorage.saveRecording(recording);
-            console.log(`✅ Recovered audio blob: ${recording.audioBlob.size} bytes`);
-          } else {
-            throw new Error('No valid audio chunks found for recovery');
-          }
-        } else {
-          throw new Error('Recording audio blob is empty and no chunks available');
-        }
+
+      // The server already has this audio (e.g. the app was closed while it processed) - just wait for the job
+      let jobId = recording.jobId;
+      if (!jobId) {
+        jobId = await this.submitRecording(recording, progressCallback);
+        await recordingStorage.setRecordingJob(recordingId, jobId);
       }
 
-      console.log(`Converting audio blob: ${recording.audioBlob.size} bytes, type: ${recording.audioBlob.type}`);
-      
-      // Convert to base64 in chunks to avoid memory issues
-      const base64Audio = await this.blobToBase64(recording.audioBlob);
+      const job = await this.waitForJob(jobId, recordingId, progressCallback);
+      if (job.state === 'failed') {
+        // The server gave up after its own retries; upload the audio again on the next attempt
+        await recordingStorage.setRecordingUpload(recordingId, undefined);
+        await recordingStorage.setRecordingJob(recordingId, undefined);
+        throw new Error(job.lastError || 'Recording processing failed');
+      }
+
+      await this.finishRecording(recordingId, progressCallback);
+    } catch (error: any) {
+      // Don't redirect to login for background recording processing
+      const errorMessage = error?.message || 'Upload failed';
       
-      // Validate base64 conversion
-      if (!base64Audio || !base64Audio.includes(',')) {
-        throw new Error('Failed to convert audio to base64 format');
+      // If it's an auth error during background processing, just log it
+      if (error?.message?.includes('Session expired') || error?.message?.includes('401')) {
+        console.log(`Authentication expired during background recording processing for ${recordingId}`);
+        await recordingStorage.updateRecordingStatus(recordingId, 'failed', 'Authentication expired - please manually retry when logged in');
+      } else {
+        await recordingStorage.updateRecordingStatus(recordingId, 'failed', errorMessage);
       }
       
-      const base64Data = base64Audio.split(',')[1];
-      if (!base64Data || base64Data.length === 0) {
-        throw new Error('Base64 audio data is empty after split');
+      progressCallback?.({ recordingId, progress: 0, status: 'failed', error: errorMessage });
+      
+      // Schedule retry if under retry limit
+      if (recording.retryCount < this.retryDelays.length) {
+        const delay = this.retryDelays[recording.retryCount];
+        setTimeout(() => {
+          this.addToQueue(recordingId, progressCallback);
+        }, delay);
       }
       
-      console.log(`Base64 conversion successful: ${base64Data.length} characters`);
-      progressCallback?.({ recordingId, progress: 25, status: 'uploading' });
+      throw error;
+    }
+  }
+
+  // Create the meeting and upload the audio in chunks; processing continues on the server as a job.
+  // A recording that already has an upload in progress picks up from the last chunk the server acknowledged.
+  private async submitRecording(
+    recording: StoredRecording,
+    progressCallback?: (progress: UploadProgress) => void
+  ): Promise<string> {
+    const recordingId = recording.id;
+    progressCallback?.({ recordingId, progress: 0, status: 'uploading' });
+
+    // Enhanced validation - try to recover even if audioBlob is missing
+    if (!recording.audioBlob || recording.audioBlob.size === 0) {
+      // Try to recover from chunks if available
+      if (recording.chunks && recording.chunks.length > 0) {
+        console.log(`🔄 Recovering audio blob from ${recording.chunks.length} chunks`);
+        const validChunks = recording.chunks.filter(chunk => chunk && chunk.size > 0);
+        if (validChunks.length > 0) {
+          recording.audioBlob = new Blob(validChunks, { type: recording.metadata.mimeType });
+          await recordingStorage.saveRecording(recording);
+          console.log(`✅ Recovered audio blob: ${recording.audioBlob.size} bytes`);
+        } else {
+          throw new Error('No valid audio chunks found for recovery');
+        }
+      } else {
+        throw new Error('Recording audio blob is empty and no chunks available');
+      }
+    }
 
+    const audioBlob = recording.audioBlob;
+    let upload = recording.uploadId ? await this.getUploadStatus(recording.uploadId) : null;
+    if (upload && upload.size !== audioBlob.size) {
+      // The local audio changed (e.g. rebuilt from chunks) since the upload started, so its bytes no longer line up
+      upload = null;
+    }
+
+    if (upload) {
+      console.log(`Resuming upload ${upload.id} at ${upload.receivedBytes}/${upload.size} bytes`);
+    } else {
       // Create meeting record with accurate duration and unique identifier
       const durationInSeconds = recording.duration;
       const durationInMinutes = Math.max(1, Math.round(durationInSeconds / 60));
@@ -118,69 +194,139 @@ class UploadQueueManager {
         projectId: recording.metadata.projectId || null,
         recordingId: recordingId, // Include recording ID for duplicate checking
       });
-      
       const meeting = await meetingResponse.json();
-      progressCallback?.({ recordingId, progress: 50, status: 'processing' });
 
-      console.log(`Uploading audio data for meeting ${meeting.id}: ${base64Data.length} characters`);
-      
-      // Process recording with enhanced error handling
-      const processResponse = await apiRequest("POST", `/api/meetings/${meeting.id}/process-recording`, {
-        audioData: base64Data,
+      const uploadResponse = await apiRequest("POST", "/api/recording-uploads", {
+        meetingId: meeting.id,
         projectId: recording.metadata.projectId || null,
+        size: audioBlob.size,
+        mimeType: audioBlob.type || recording.metadata.mimeType,
       });
+      upload = await uploadResponse.json() as RecordingUploadStatus;
+      await recordingStorage.setRecordingUpload(recordingId, upload.id);
+      console.log(`Uploading ${audioBlob.size} bytes for meeting ${meeting.id} as upload ${upload.id}`);
+    }
 
-      progressCallback?.({ recordingId, progress: 100, status: 'completed' });
-      await recordingStorage.updateRecordingStatus(recordingId, 'uploaded');
-      
-      // Successfully processed - remove from local storage so it won't show in recovery
-      console.log(`✅ Recording ${recordingId} successfully processed, removing from local storage`);
-      await recordingStorage.deleteRecording(recordingId);
-      
-      // Also remove from any queues to prevent re-processing
-      const index = this.queue.indexOf(recordingId);
-      if (index > -1) {
-        this.queue.splice(index, 1);
-      }
-      this.activeUploads.delete(recordingId);
-      
-      // Clean up progress callback
-      this.progressCallbacks.delete(recordingId);
-      
-      return processResponse.json();
+    await this.sendChunks(upload, audioBlob, recordingId, progressCallback);
+
+    // Returns as soon as the server has queued the work (202 with a jobId); completing again returns the same job
+    const completeResponse = await apiRequest("POST", `/api/recording-uploads/${upload.id}/complete`);
+    const { jobId } = await completeResponse.json();
+    return jobId;
+  }
+
+  // null when the server no longer has the upload (e.g. it was abandoned for too long), so a new one is started
+  private async getUploadStatus(uploadId: string): Promise<RecordingUploadStatus | null> {
+    try {
+      const response = await apiRequest("GET", `/api/recording-uploads/${uploadId}`);
+      return await response.json();
     } catch (error: any) {
-      // Don't redirect to login for background recording processing
-      const errorMessage = error?.message || 'Upload failed';
-      
-      // If it's an auth error during background processing, just log it
-      if (error?.message?.includes('Session expired') || error?.message?.includes('401')) {
-        console.log(`Authentication expired during background recording processing for ${recordingId}`);
-        await recordingStorage.updateRecordingStatus(recordingId, 'failed', 'Authentication expired - please manually retry when logged in');
-      } else {
-        await recordingStorage.updateRecordingStatus(recordingId, 'failed', errorMessage);
-      }
-      
-      progressCallback?.({ recordingId, progress: 0, status: 'failed', error: errorMessage });
-      
-      // Schedule retry if under retry limit
-      if (recording.retryCount < this.retryDelays.length) {
-        const delay = this.retryDelays[recording.retryCount];
-        setTimeout(() => {
-          this.addToQueue(recordingId, progressCallback);
-        }, delay);
-      }
-      
+      if (error?.message?.startsWith('404')) return null;
       throw error;
     }
   }
 
-  private async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
+  // Send the rest of the audio from the server's offset. A failed chunk is retried after re-reading the
+  // offset, since the server may have stored it even though the response never arrived.
+  private async sendChunks(
+    upload: RecordingUploadStatus,
+    audioBlob: Blob,
+    recordingId: string,
+    progressCallback?: (progress: UploadProgress) => void
+  ): Promise<void> {
+    const chunkBytes = Math.min(this.uploadChunkBytes, upload.maxChunkBytes);
+    let offset = upload.receivedBytes;
+    let failures = 0;
+
+    while (offset < upload.size) {
+      progressCallback?.({ recordingId, progress: Math.round(5 + 45 * offset / upload.size), status: 'uploading' });
+
+      try {
+        offset = await this.putChunk(upload.id, offset, audioBlob.slice(offset, offset + chunkBytes));
+        failures = 0;
+      } catch (error) {
+        if (failures >= this.chunkRetryDelays.length) throw error;
+        console.warn(`Chunk at byte ${offset} of upload ${upload.id} failed, retrying:`, error);
+        await new Promise(resolve => setTimeout(resolve, this.chunkRetryDelays[failures++]));
+
+        const current = await this.getUploadStatus(upload.id).catch(() => null);
+        if (current) offset = current.receivedBytes;
+      }
+    }
+
+    progressCallback?.({ recordingId, progress: 50, status: 'uploading' });
+  }
+
+  // Returns the server's offset after the chunk. A 409 means the server is at a different offset
+  // (usually this chunk was already stored), so we continue from wherever it says.
+  private async putChunk(uploadId: string, offset: number, chunk: Blob): Promise<number> {
+    const response = await fetch(`/api/recording-uploads/${uploadId}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Upload-Offset": String(offset),
+      },
+      body: chunk,
+      credentials: "include",
     });
+
+    if (!response.ok && response.status !== 409) {
+      const text = (await response.text()) || response.statusText;
+      throw new Error(`${response.status}: ${text}`);
+    }
+
+    const status: RecordingUploadStatus = await response.json();
+    return status.receivedBytes;
+  }
+
+  // Poll the job until it finishes. Brief network drops are tolerated; if polling keeps failing the
+  // recording is marked failed but keeps its jobId, so the next retry resumes polling the same job.
+  private async waitForJob(
+    jobId: string,
+    recordingId: string,
+    progressCallback?: (progress: UploadProgress) => void
+  ): Promise<ProcessingJobStatus> {
+    let consecutiveErrors = 0;
+
+    while (true) {
+      try {
+        const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+        const job: ProcessingJobStatus = await response.json();
+        consecutiveErrors = 0;
+
+        if (job.state === 'done' || job.state === 'failed') return job;
+        progressCallback?.({ recordingId, progress: jobProgress[job.state], status: 'processing', jobState: job.state });
+      } catch (error: any) {
+        // The job no longer exists, so the audio has to be uploaded again
+        if (error?.message?.startsWith('404')) {
+          await recordingStorage.setRecordingUpload(recordingId, undefined);
+          await recordingStorage.setRecordingJob(recordingId, undefined);
+          throw error;
+        }
+        if (++consecutiveErrors >= this.maxJobPollErrors) throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.jobPollInterval));
+    }
+  }
+
+  private async finishRecording(recordingId: string, progressCallback?: (progress: UploadProgress) => void): Promise<void> {
+    progressCallback?.({ recordingId, progress: 100, status: 'completed', jobState: 'done' });
+    await recordingStorage.updateRecordingStatus(recordingId, 'uploaded');
+    
+    // Successfully processed - remove from local storage so it won't show in recovery
+    console.log(`✅ Recording ${recordingId} successfully processed, removing from local storage`);
+    await recordingStorage.deleteRecording(recordingId);
+    
+    // Also remove from any queues to prevent re-processing
+    const index = this.queue.indexOf(recordingId);
+    if (index > -1) {
+      this.queue.splice(index, 1);
+    }
+    this.activeUploads.delete(recordingId);
+    
+    // Clean up progress callback
+    this.progressCallbacks.delete(recordingId);
   }
 
   async retryFailed(): Promise<void> {
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -38,6 +39,8 @@ import { useToast } from "@/hooks/use-toast";
 import VoiceRecordingModal from "@/components/modals/VoiceRecordingModal";
 import { useVoiceRecording } from "@/contexts/VoiceRecordingContext";
 import { recordingStorage, type StoredRecording } from "@/lib/recordingStorage";
+import MeetingTranscript from "@/components/MeetingTranscript";
+import SuggestedTasksReview from "@/components/SuggestedTasksReview";
 
 type MeetingFormData = z.infer<typeof insertMeetingSchema>;
 
@@ -61,11 +64,13 @@ interface Project {
 }
 
 export default function Meetings() {
+  const search = useSearch();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isVoiceModalOpen, setIsVoiceModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isTranscriptModalOpen, setIsTranscriptModalOpen] = useState(false);
   const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
+  const [highlightMs, setHighlightMs] = useState<number | undefined>(undefined);
   const [selectedMeetings, setSelectedMeetings] = useState<Set<string>>(new Set());
   const [isSelectAll, setIsSelectAll] = useState(false);
   const [showPendingRecordings, setShowPendingRecordings] = useState(false);
@@ -218,11 +223,23 @@ export default function Meetings() {
     setIsEditModalOpen(true);
   };
 
-  const openTranscriptModal = (meeting: Meeting) => {
+  const openTranscriptModal = (meeting: Meeting, atMs?: number) => {
     setSelectedMeeting(meeting);
+    setHighlightMs(atMs);
     setIsTranscriptModalOpen(true);
   };
 
+  // Assistant citations link to /meetings?meeting=<id>&t=<ms>; open that transcript once, then drop the parameters
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const meetingId = params.get("meeting");
+    const linkedMeeting = meetingId ? meetings?.find(meeting => meeting.id === meetingId) : undefined;
+    if (!linkedMeeting) return;
+    const atMs = Number(params.get("t"));
+    openTranscriptModal(linkedMeeting, params.has("t") && !isNaN(atMs) ? atMs : undefined);
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [meetings, search]);
+
 
   // Batch selection handlers
   const handleSelectMeeting = (meetingId: string, checked: boolean) => {
@@ -962,7 +979,7 @@ export default function Meetings() {
                             <div className="flex items-center space-x-2 mb-2">
                               <CheckSquare className="w-4 h-4 text-green-600" />
                               <span className="font-medium text-green-900">
-                                Tasks Created ({meeting.extractedTasks.length})
+                                Suggested Tasks ({meeting.extractedTasks.length})
                               </span>
                             </div>
                             <div className="space-y-1">
@@ -976,6 +993,13 @@ export default function Meetings() {
                                   +{meeting.extractedTasks.length - 3} more tasks...
                                 </div>
                               )}
+                              <button
+                                type="button"
+                                className="text-sm font-medium text-green-700 hover:underline"
+                                onClick={() => openTranscriptModal(meeting)}
+                              >
+                                Review suggested tasks
+                              </button>
                             </div>
                           </div>
                         )}
@@ -1160,12 +1184,7 @@ export default function Meetings() {
           </DialogHeader>
           {selectedMeeting?.transcription ? (
             <div className="space-y-4">
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <h4 className="font-semibold text-gray-900 mb-2">Transcription</h4>
-                <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-                  {selectedMeeting.transcription}
-                </p>
-              </div>
+              <MeetingTranscript meetingId={selectedMeeting.id} fallbackText={selectedMeeting.transcription} highlightMs={highlightMs} />
               
               {selectedMeeting.aiSummary && (
                 <div className="bg-blue-50 p-4 rounded-lg">
@@ -1181,18 +1200,9 @@ export default function Meetings() {
                 <div className="bg-green-50 p-4 rounded-lg">
                   <h4 className="font-semibold text-green-900 mb-2 flex items-center">
                     <CheckSquare className="w-4 h-4 mr-2" />
-                    Extracted Tasks ({selectedMeeting.extractedTasks.length})
+                    Suggested Tasks
                   </h4>
-                  <div className="space-y-2">
-                    {selectedMeeting.extractedTasks.map((task: any, index: number) => (
-                      <div key={index} className="text-green-800">
-                        <div className="font-medium">• {task.title}</div>
-                        {task.description && (
-                          <div className="text-sm text-green-700 ml-4">{task.description}</div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                  <SuggestedTasksReview meetingId={selectedMeeting.id} />
                 </div>
               )}
             </div>
@@ -2,9 +2,9 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import SuggestedTasksReview from "@/components/SuggestedTasksReview";
 import { 
   Smartphone, 
-  Mic, 
   Users, 
   CheckCircle,
   Clock,
@@ -18,12 +18,7 @@ export default function MobileRecordingResults() {
     queryKey: ["/api/meetings"]
   });
 
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"]
-  });
-
   const recentMeeting = meetings?.[0];
-  const recentTasks = tasks?.slice(0, 5) || [];
 
   return (
     <div className="space-y-8 p-6">
@@ -172,39 +167,14 @@ export default function MobileRecordingResults() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <CheckCircle className="h-5 w-5 text-green-600" />
-            AI-Extracted Tasks
+            Suggested Tasks
           </CardTitle>
           <CardDescription>
-            Tasks automatically created from mobile meeting recordings
+            Review what the AI picked up from your recordings before it becomes a task
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {recentTasks.length > 0 ? (
-              recentTasks.map((task: any, index: number) => (
-                <div key={task.id || index} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div>
-                    <h4 className="font-medium">{task.title}</h4>
-                    <p className="text-sm text-gray-600">{task.description}</p>
-                  </div>
-                  <Badge 
-                    variant={
-                      task.priority === 'urgent' ? 'destructive' : 
-                      task.priority === 'high' ? 'default' : 
-                      'secondary'
-                    }
-                  >
-                    {task.priority}
-                  </Badge>
-                </div>
-              ))
-            ) : (
-              <div className="text-center py-8">
-                <Mic className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <p className="text-gray-600">No tasks extracted yet. Try recording a meeting!</p>
-              </div>
-            )}
-          </div>
+          <SuggestedTasksReview />
         </CardContent>
       </Card>
 
@@ -22,11 +22,13 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { Link } from "wouter";
+import { getTaskCategory, isTaskDone, type StatusCategory } from "@shared/schema";
 
 interface Task {
   id: string;
   title: string;
-  status: 'todo' | 'in_progress' | 'completed';
+  status: string;
+  statusCategory?: string | null;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   createdAt: string;
   dueDate: string;
@@ -34,6 +36,27 @@ interface Task {
   progress: number;
 }
 
+interface ProjectAnalytics {
+  kpis: {
+    velocityTrend: number;
+  };
+  trends: {
+    burndown: Array<{ date: string; remainingTasks: number; remainingScope: number }>;
+  };
+  forecast: {
+    unit: 'points' | 'hours';
+    totalScope: number;
+    completedScope: number;
+    remainingScope: number;
+    unestimatedTasks: number;
+    velocityPerWeek: number;
+    weeklyVelocity: Array<{ weekStart: string; completed: number; tasksCompleted: number }>;
+    projectedCompletion: string | null;
+    onTrack: boolean | null;
+  };
+  insights: string[];
+}
+
 function CircularProgressChart({ value, size = 160, label }: { value: number; size?: number; label: string }) {
   const radius = (size - 16) / 2;
   const circumference = radius * 2 * Math.PI;
@@ -168,11 +191,10 @@ function PieChart({ data }: { data: Array<{ label: string; value: number; color:
   );
 }
 
-function getStatusColor(status: string) {
-  switch (status) {
-    case 'completed': return 'bg-green-500';
-    case 'in_progress': return 'bg-blue-500';
-    case 'todo': return 'bg-gray-400';
+function getStatusColor(category: StatusCategory) {
+  switch (category) {
+    case 'done': return 'bg-green-500';
+    case 'active': return 'bg-blue-500';
     default: return 'bg-gray-400';
   }
 }
@@ -201,6 +223,11 @@ export default function ProjectDashboard() {
     enabled: !!projectId,
   });
 
+  const { data: analytics } = useQuery<ProjectAnalytics>({
+    queryKey: ["/api/analytics/project", projectId],
+    enabled: !!projectId,
+  });
+
   const isLoading = projectLoading || tasksLoading;
 
   if (isLoading) {
@@ -231,7 +258,7 @@ export default function ProjectDashboard() {
   }
 
   // Calculate metrics
-  const completedTasks = tasks.filter((t: Task) => t.status === 'completed').length;
+  const completedTasks = tasks.filter((t: Task) => isTaskDone(t)).length;
   const totalTasks = tasks.length;
   const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
   
@@ -245,14 +272,14 @@ export default function ProjectDashboard() {
 
   // Task status distribution for pie chart
   const statusData = [
-    { label: 'Completed', value: tasks.filter((t: Task) => t.status === 'completed').length, color: '#10b981' },
-    { label: 'In Progress', value: tasks.filter((t: Task) => t.status === 'in_progress').length, color: '#3b82f6' },
-    { label: 'Todo', value: tasks.filter((t: Task) => t.status === 'todo').length, color: '#6b7280' },
+    { label: 'Completed', value: tasks.filter((t: Task) => isTaskDone(t)).length, color: '#10b981' },
+    { label: 'In Progress', value: tasks.filter((t: Task) => getTaskCategory(t) === 'active').length, color: '#3b82f6' },
+    { label: 'Todo', value: tasks.filter((t: Task) => getTaskCategory(t) === 'open').length, color: '#6b7280' },
   ].filter(item => item.value > 0);
 
   // Calculate milestone progress based on overdue vs completed tasks
   const overdueTasks = tasks.filter((t: Task) => 
-    t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed'
+    t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)
   ).length;
   const milestoneProgress = totalTasks > 0 
     ? Math.max(0, Math.round(((completedTasks - overdueTasks) / totalTasks) * 100))
@@ -422,6 +449,91 @@ export default function ProjectDashboard() {
                 </Card>
               </div>
 
+              {/* Velocity & Forecast - computed from task completion history */}
+              {analytics && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm font-medium flex items-center">
+                        <TrendingUp className="h-4 w-4 mr-2" />
+                        Velocity & Forecast
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Velocity</span>
+                        <span className="font-medium">
+                          {analytics.forecast.velocityPerWeek} {analytics.forecast.unit}/week
+                          <span className={`ml-2 text-xs ${analytics.kpis.velocityTrend >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {analytics.kpis.velocityTrend >= 0 ? '+' : ''}{analytics.kpis.velocityTrend}%
+                          </span>
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Remaining</span>
+                        <span className="font-medium">
+                          {analytics.forecast.remainingScope} of {analytics.forecast.totalScope} {analytics.forecast.unit}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Projected completion</span>
+                        <span className={`font-medium ${analytics.forecast.onTrack === false ? 'text-red-600' : ''}`}>
+                          {analytics.forecast.projectedCompletion
+                            ? format(new Date(analytics.forecast.projectedCompletion), 'dd MMM yyyy')
+                            : 'Not enough history'}
+                        </span>
+                      </div>
+                      {analytics.forecast.unestimatedTasks > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {analytics.forecast.unestimatedTasks} unestimated tasks are counted at the average estimate
+                        </p>
+                      )}
+                      <div className="flex items-end gap-1 h-16 pt-2">
+                        {analytics.forecast.weeklyVelocity.map(week => {
+                          const max = Math.max(1, ...analytics.forecast.weeklyVelocity.map(w => w.completed));
+                          return (
+                            <div
+                              key={week.weekStart}
+                              className="flex-1 bg-blue-500 rounded-t"
+                              style={{ height: `${(week.completed / max) * 100}%`, minHeight: week.completed > 0 ? 2 : 0 }}
+                              title={`Week of ${week.weekStart}: ${week.completed} ${analytics.forecast.unit}`}
+                            />
+                          );
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm font-medium">Burndown (30 days)</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-end gap-0.5 h-32">
+                        {analytics.trends.burndown.map(point => {
+                          const max = Math.max(1, ...analytics.trends.burndown.map(p => p.remainingScope));
+                          return (
+                            <div
+                              key={point.date}
+                              className="flex-1 bg-orange-400 rounded-t"
+                              style={{ height: `${(point.remainingScope / max) * 100}%` }}
+                              title={`${point.date}: ${point.remainingScope} ${analytics.forecast.unit} remaining`}
+                            />
+                          );
+                        })}
+                      </div>
+                      {analytics.insights.length > 0 && (
+                        <ul className="mt-4 space-y-1 text-xs text-gray-600 list-disc pl-4">
+                          {analytics.insights.map((insight, index) => (
+                            <li key={index}>{insight}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+
               {/* Bottom Section - Task Details Table */}
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between">
@@ -458,7 +570,7 @@ export default function ProjectDashboard() {
                             </td>
                             <td className="p-4">
                               <div className="flex items-center gap-2">
-                                <div className={`w-2 h-2 rounded-full ${getStatusColor(task.status)}`}></div>
+                                <div className={`w-2 h-2 rounded-full ${getStatusColor(getTaskCategory(task))}`}></div>
                                 <span className="text-sm capitalize">{task.status.replace('_', ' ')}</span>
                               </div>
                             </td>
@@ -475,11 +587,11 @@ export default function ProjectDashboard() {
                                 <div className="flex-1 bg-gray-200 rounded-full h-2">
                                   <div 
                                     className="h-2 bg-green-500 rounded-full"
-                                    style={{ width: `${task.status === 'completed' ? 100 : task.status === 'in_progress' ? 60 : 0}%` }}
+                                    style={{ width: `${isTaskDone(task) ? 100 : getTaskCategory(task) === 'active' ? 60 : 0}%` }}
                                   ></div>
                                 </div>
                                 <span className="text-xs text-gray-500 w-8">
-                                  {task.status === 'completed' ? 100 : task.status === 'in_progress' ? 60 : 0}%
+                                  {isTaskDone(task) ? 100 : getTaskCategory(task) === 'active' ? 60 : 0}%
                                 </span>
                               </div>
                             </td>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useParams } from "wouter";
+import { useEffect, useState } from "react";
+import { useParams, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,17 +12,27 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { ArrowLeft, Calendar, Users, CheckCircle, Clock, AlertCircle, Plus, MoreVertical, Edit, Trash2, CalendarIcon, Eye, UserPlus, FileText, Lightbulb, MessageSquare } from "lucide-react";
+import { ArrowLeft, Calendar, Users, CheckCircle, Clock, AlertCircle, Plus, MoreVertical, Edit, Trash2, CalendarIcon, Eye, UserPlus, FileText, Lightbulb, MessageSquare, ScrollText } from "lucide-react";
 import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertTaskSchema } from "@shared/schema";
+import { insertTaskSchema, getWorkflow, type WorkflowStatus, type StatusCategory } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import ProjectMembers from "@/components/ProjectMembers";
 import { Label } from "@/components/ui/label";
+import TaskDependencies, { BlockedBadge, useTaskBlockers } from "@/components/TaskDependencies";
+import TaskSubtasks, { SubtaskCount } from "@/components/TaskSubtasks";
+import TaskComments from "@/components/TaskComments";
+import TaskTimeTracking from "@/components/TaskTimeTracking";
+import TaskLabels, { LabelBadges, type TaskLabel } from "@/components/TaskLabels";
+import ProjectActivity from "@/components/ProjectActivity";
+import ProjectSprints from "@/components/ProjectSprints";
+import ProjectWorkflowEditor from "@/components/ProjectWorkflowEditor";
+import ProjectDuplicateTasks from "@/components/ProjectDuplicateTasks";
+import SimilarTasksWarning from "@/components/SimilarTasksWarning";
 
 interface Project {
   id: string;
@@ -30,6 +40,8 @@ interface Project {
   description?: string;
   status: string;
   progress: number;
+  estimateUnit?: string;
+  workflow?: WorkflowStatus[] | null;
   ownerId: string;
   dueDate?: string;
   createdAt: string;
@@ -41,17 +53,28 @@ interface Task {
   title: string;
   description?: string;
   status: string;
+  statusCategory?: string | null;
   priority: string;
   projectId: string;
+  parentTaskId?: string | null;
   dueDate?: string;
+  estimate?: number | null;
+  labels?: TaskLabel[];
   createdAt: string;
   assigneeId?: string;
 }
 
 type TaskFormData = z.infer<typeof insertTaskSchema>;
 
+const categoryStyles: Record<StatusCategory, { icon: typeof AlertCircle; title: string; card: string; empty: string }> = {
+  open: { icon: AlertCircle, title: "text-gray-600", card: "bg-white border-gray-200", empty: "Drop tasks here or create new ones" },
+  active: { icon: Clock, title: "text-blue-600", card: "bg-blue-50 border-blue-200", empty: "Drop tasks here" },
+  done: { icon: CheckCircle, title: "text-green-600", card: "bg-green-50 border-green-200", empty: "Drop completed tasks here" },
+};
+
 export default function ProjectDetails() {
   const { id } = useParams<{ id: string }>();
+  const search = useSearch();
   const [isCreateTaskModalOpen, setIsCreateTaskModalOpen] = useState(false);
   const [isEditTaskModalOpen, setIsEditTaskModalOpen] = useState(false);
   const [isViewTaskModalOpen, setIsViewTaskModalOpen] = useState(false);
@@ -110,6 +133,13 @@ export default function ProjectDetails() {
     queryKey: [`/api/projects/${id}/tasks`],
   });
 
+  const workflow = getWorkflow(project);
+
+  // Subtasks are rendered inside their parent task, not as board cards
+  const topLevelTasks = tasks?.filter(task => !task.parentTaskId);
+
+  const taskBlockers = useTaskBlockers(tasks);
+
   const createTaskMutation = useMutation({
     mutationFn: async (data: TaskFormData) => {
       const response = await apiRequest("POST", "/api/tasks", data);
@@ -117,6 +147,8 @@ export default function ProjectDetails() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sprints"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setIsCreateTaskModalOpen(false);
@@ -142,6 +174,8 @@ export default function ProjectDetails() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sprints"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setIsEditTaskModalOpen(false);
@@ -152,10 +186,10 @@ export default function ProjectDetails() {
         description: "Task updated successfully",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update task",
+        description: error.message || "Failed to update task",
         variant: "destructive",
       });
     },
@@ -168,6 +202,8 @@ export default function ProjectDetails() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sprints"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setIsDeleteTaskModalOpen(false);
@@ -193,6 +229,8 @@ export default function ProjectDetails() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sprints"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setSelectedTasksForBatch(new Set());
@@ -291,6 +329,15 @@ export default function ProjectDetails() {
     setIsViewTaskModalOpen(true);
   };
 
+  // Search results link to /projects/:id?task=<taskId>; open that task once, then drop the parameter
+  useEffect(() => {
+    const taskId = new URLSearchParams(search).get("task");
+    const linkedTask = taskId ? tasks?.find(task => task.id === taskId) : undefined;
+    if (!linkedTask) return;
+    handleViewTask(linkedTask);
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [tasks, search]);
+
   const handleEditTask = (task: Task) => {
     setSelectedTask(task);
     editForm.reset({
@@ -300,6 +347,7 @@ export default function ProjectDetails() {
       priority: task.priority,
       projectId: task.projectId,
       dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+      estimate: task.estimate ?? null,
     });
     setIsEditTaskModalOpen(true);
   };
@@ -327,8 +375,8 @@ export default function ProjectDetails() {
   };
 
   const handleSelectAllTasks = (checked: boolean) => {
-    if (checked && tasks) {
-      setSelectedTasksForBatch(new Set(tasks.map(task => task.id)));
+    if (checked && topLevelTasks) {
+      setSelectedTasksForBatch(new Set(topLevelTasks.map(task => task.id)));
     } else {
       setSelectedTasksForBatch(new Set());
     }
@@ -393,12 +441,8 @@ export default function ProjectDetails() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const taskStats = tasks ? {
-    total: tasks.length,
-    completed: tasks.filter(task => task.status === 'completed').length,
-    inProgress: tasks.filter(task => task.status === 'in_progress').length,
-    todo: tasks.filter(task => task.status === 'todo').length,
-  } : { total: 0, completed: 0, inProgress: 0, todo: 0 };
+  const tasksInStatus = (statusKey: string) => topLevelTasks?.filter(task => task.status === statusKey) || [];
+  const statusName = (statusKey: string) => workflow.find(status => status.key === statusKey)?.name || statusKey.replace('_', ' ');
 
   if (isLoading) {
     return (
@@ -469,6 +513,13 @@ export default function ProjectDetails() {
             </div>
             
             <div className="flex items-center gap-3">
+              <ProjectWorkflowEditor projectId={project.id} workflow={workflow} />
+              <Link href={`/projects/${project.id}/register`}>
+                <Button variant="outline">
+                  <ScrollText className="w-4 h-4 mr-2" />
+                  Register
+                </Button>
+              </Link>
               <Dialog open={isCreateTaskModalOpen} onOpenChange={setIsCreateTaskModalOpen}>
                 <DialogTrigger asChild>
                   <Button>
@@ -580,6 +631,12 @@ export default function ProjectDetails() {
                         )}
                       />
 
+                      <SimilarTasksWarning
+                        projectId={form.watch("projectId")}
+                        title={form.watch("title") || ""}
+                        description={form.watch("description")}
+                      />
+
                       <FormField
                         control={form.control}
                         name="priority"
@@ -622,6 +679,27 @@ export default function ProjectDetails() {
                         )}
                       />
 
+                      <FormField
+                        control={form.control}
+                        name="estimate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Estimate</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                placeholder={project?.estimateUnit === "hours" ? "Hours" : "Story points"}
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <div className="flex space-x-3 pt-4">
                         <Button
                           type="button"
@@ -651,13 +729,13 @@ export default function ProjectDetails() {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-600">Progress</p>
-                    <p className="text-2xl font-bold text-gray-900">{taskStats.total > 0 ? Math.round((taskStats.completed / taskStats.total) * 100) : 0}%</p>
+                    <p className="text-2xl font-bold text-gray-900">{project.progress}%</p>
                   </div>
                   <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
                     <CheckCircle className="w-6 h-6 text-blue-600" />
                   </div>
                 </div>
-                <Progress value={taskStats.total > 0 ? Math.round((taskStats.completed / taskStats.total) * 100) : 0} className="mt-3" />
+                <Progress value={project.progress} className="mt-3" />
               </CardContent>
             </Card>
 
@@ -666,7 +744,7 @@ export default function ProjectDetails() {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-600">Total Tasks</p>
-                    <p className="text-2xl font-bold text-gray-900">{taskStats.total}</p>
+                    <p className="text-2xl font-bold text-gray-900">{topLevelTasks?.length || 0}</p>
                   </div>
                   <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center">
                     <CheckCircle className="w-6 h-6 text-purple-600" />
@@ -721,151 +799,71 @@ export default function ProjectDetails() {
 
         {/* Tasks Overview - Mobile optimized */}
         <div className="space-y-4 md:hidden">
-          {/* Mobile: Stack vertically */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center text-sm font-medium text-gray-600">
-                <AlertCircle className="w-4 h-4 mr-2" />
-                To Do ({taskStats.todo})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2 px-4 pb-4">
-              {tasks?.filter(task => task.status === 'todo').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-white border border-gray-200 rounded-lg"
-                  onClick={() => handleViewTask(task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <p className="text-sm font-medium text-gray-900 flex-1 pr-2">{task.title}</p>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-6 w-6 p-0 flex-shrink-0"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleEditTask(task);
-                      }}
+          {/* Mobile: Stack vertically, one card per workflow status */}
+          {workflow.map((status) => {
+            const style = categoryStyles[status.category];
+            const StatusIcon = style.icon;
+            const statusTasks = tasksInStatus(status.key);
+            return (
+              <Card key={status.key}>
+                <CardHeader className="pb-3">
+                  <CardTitle className={`flex items-center text-sm font-medium ${style.title}`}>
+                    <StatusIcon className="w-4 h-4 mr-2" />
+                    {status.name} ({statusTasks.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 px-4 pb-4">
+                  {statusTasks.map((task) => (
+                    <div 
+                      key={task.id} 
+                      className={`p-3 border rounded-lg ${style.card}`}
+                      onClick={() => handleViewTask(task)}
                     >
-                      <Edit className="h-3 w-3" />
-                    </Button>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.todo === 0 && (
-                <p className="text-sm text-gray-500 text-center py-4">No tasks yet</p>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center text-sm font-medium text-blue-600">
-                <Clock className="w-4 h-4 mr-2" />
-                In Progress ({taskStats.inProgress})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2 px-4 pb-4">
-              {tasks?.filter(task => task.status === 'in_progress').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-blue-50 border border-blue-200 rounded-lg"
-                  onClick={() => handleViewTask(task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <p className="text-sm font-medium text-gray-900 flex-1 pr-2">{task.title}</p>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-6 w-6 p-0 flex-shrink-0"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleEditTask(task);
-                      }}
-                    >
-                      <Edit className="h-3 w-3" />
-                    </Button>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.inProgress === 0 && (
-                <p className="text-sm text-gray-500 text-center py-4">No active tasks</p>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center text-sm font-medium text-green-600">
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Completed ({taskStats.completed})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2 px-4 pb-4">
-              {tasks?.filter(task => task.status === 'completed').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-green-50 border border-green-200 rounded-lg"
-                  onClick={() => handleViewTask(task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <p className="text-sm font-medium text-gray-900 flex-1 pr-2">{task.title}</p>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-6 w-6 p-0 flex-shrink-0"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleViewTask(task);
-                      }}
-                    >
-                      <Eye className="h-3 w-3" />
-                    </Button>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.completed === 0 && (
-                <p className="text-sm text-gray-500 text-center py-4">No completed tasks</p>
-              )}
-            </CardContent>
-          </Card>
+                      <div className="flex items-start justify-between mb-1">
+                        <p className="text-sm font-medium text-gray-900 flex-1 pr-2">{task.title}</p>
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="h-6 w-6 p-0 flex-shrink-0"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            status.category === 'done' ? handleViewTask(task) : handleEditTask(task);
+                          }}
+                        >
+                          {status.category === 'done' ? <Eye className="h-3 w-3" /> : <Edit className="h-3 w-3" />}
+                        </Button>
+                      </div>
+                      <div className="flex items-center justify-between text-xs">
+                        <Badge className={getPriorityColor(task.priority)} variant="secondary">
+                          {task.priority}
+                        </Badge>
+                        {task.dueDate && (
+                          <span className="text-gray-500 flex items-center">
+                            <Clock className="w-3 h-3 mr-1" />
+                            {new Date(task.dueDate).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {status.category !== 'done' && (
+                        <>
+                          <BlockedBadge blockers={taskBlockers.get(task.id)} />
+                          <LabelBadges labels={task.labels} />
+                          <SubtaskCount tasks={tasks} parentTaskId={task.id} />
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {statusTasks.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-4">No tasks</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         {/* Batch Operations Toolbar */}
-        {tasks && tasks.length > 0 && (
+        {topLevelTasks && topLevelTasks.length > 0 && (
           <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
               <div className="flex items-center space-x-4">
@@ -873,11 +871,11 @@ export default function ProjectDetails() {
                   <input
                     type="checkbox"
                     className="rounded border-gray-300"
-                    checked={selectedTasksForBatch.size === tasks.length && tasks.length > 0}
+                    checked={selectedTasksForBatch.size === topLevelTasks.length && topLevelTasks.length > 0}
                     onChange={(e) => handleSelectAllTasks(e.target.checked)}
                   />
                   <span className="text-sm text-gray-600">
-                    Select All ({selectedTasksForBatch.size} of {tasks.length} selected)
+                    Select All ({selectedTasksForBatch.size} of {topLevelTasks.length} selected)
                   </span>
                 </label>
               </div>
@@ -906,236 +904,135 @@ export default function ProjectDetails() {
           </div>
         )}
 
-        <div className="hidden md:grid lg:grid-cols-3 gap-6">
-          {/* To Do Tasks */}
-          <Card 
-            onDragOver={handleDragOver}
-            onDrop={(e) => handleDrop(e, 'todo')}
-          >
-            <CardHeader>
-              <CardTitle className="flex items-center text-sm font-medium text-gray-600">
-                <AlertCircle className="w-4 h-4 mr-2" />
-                To Do ({taskStats.todo})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3 min-h-[200px]">
-              {tasks?.filter(task => task.status === 'todo').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-white border border-gray-200 rounded-lg cursor-move hover:shadow-md transition-shadow"
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <div className="flex items-start space-x-2 flex-1">
-                      <input
-                        type="checkbox"
-                        className="mt-0.5 rounded border-gray-300"
-                        checked={selectedTasksForBatch.has(task.id)}
-                        onChange={(e) => {
-                          e.stopPropagation();
-                          handleTaskCheckboxChange(task.id, e.target.checked);
-                        }}
-                        onClick={(e) => e.stopPropagation()}
-                      />
-                      <p className="text-sm font-medium text-gray-900 flex-1">{task.title}</p>
+        {/* Kanban board: one column per workflow status, scrolling sideways when there are many */}
+        <div className="hidden md:flex gap-6 overflow-x-auto pb-2 mb-6">
+          {workflow.map((status) => {
+            const style = categoryStyles[status.category];
+            const StatusIcon = style.icon;
+            const statusTasks = tasksInStatus(status.key);
+            return (
+              <Card 
+                key={status.key}
+                className="flex-1 min-w-[280px]"
+                onDragOver={handleDragOver}
+                onDrop={(e) => handleDrop(e, status.key)}
+              >
+                <CardHeader>
+                  <CardTitle className={`flex items-center text-sm font-medium ${style.title}`}>
+                    <StatusIcon className="w-4 h-4 mr-2" />
+                    {status.name} ({statusTasks.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 min-h-[200px]">
+                  {statusTasks.map((task) => (
+                    <div 
+                      key={task.id} 
+                      className={`p-3 border rounded-lg cursor-move hover:shadow-md transition-shadow ${style.card}`}
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, task)}
+                    >
+                      <div className="flex items-start justify-between mb-1">
+                        <div className="flex items-start space-x-2 flex-1">
+                          {status.category === 'open' && (
+                            <input
+                              type="checkbox"
+                              className="mt-0.5 rounded border-gray-300"
+                              checked={selectedTasksForBatch.has(task.id)}
+                              onChange={(e) => {
+                                e.stopPropagation();
+                                handleTaskCheckboxChange(task.id, e.target.checked);
+                              }}
+                              onClick={(e) => e.stopPropagation()}
+                            />
+                          )}
+                          <p className="text-sm font-medium text-gray-900 flex-1">{task.title}</p>
+                        </div>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <MoreVertical className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleViewTask(task)}>
+                              <Eye className="mr-2 h-4 w-4" />
+                              View
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleEditTask(task)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => handleDeleteTask(task)}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                      {task.description && (
+                        <p className="text-xs text-gray-500 mb-2">{task.description}</p>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <Badge className={getPriorityColor(task.priority)} variant="secondary">
+                          {task.priority}
+                        </Badge>
+                        {task.dueDate && (
+                          <span className="text-xs text-gray-500 flex items-center">
+                            <Clock className="w-3 h-3 mr-1" />
+                            Due {new Date(task.dueDate).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {status.category !== 'done' && (
+                        <>
+                          <BlockedBadge blockers={taskBlockers.get(task.id)} />
+                          <LabelBadges labels={task.labels} />
+                          <SubtaskCount tasks={tasks} parentTaskId={task.id} />
+                        </>
+                      )}
                     </div>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => handleViewTask(task)}>
-                          <Eye className="mr-2 h-4 w-4" />
-                          View
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleEditTask(task)}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => handleDeleteTask(task)}
-                          className="text-red-600"
-                        >
-                          <Trash2 className="mr-2 h-4 w-4" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                  {task.description && (
-                    <p className="text-xs text-gray-500 mb-2">{task.description}</p>
-                  )}
-                  <div className="flex items-center justify-between">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-xs text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        Due {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.todo === 0 && (
-                <p className="text-sm text-gray-500 text-center py-8">Drop tasks here or create new ones</p>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* In Progress Tasks */}
-          <Card 
-            onDragOver={handleDragOver}
-            onDrop={(e) => handleDrop(e, 'in_progress')}
-          >
-            <CardHeader>
-              <CardTitle className="flex items-center text-sm font-medium text-blue-600">
-                <Clock className="w-4 h-4 mr-2" />
-                In Progress ({taskStats.inProgress})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3 min-h-[200px]">
-              {tasks?.filter(task => task.status === 'in_progress').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-blue-50 border border-blue-200 rounded-lg cursor-move hover:shadow-md transition-shadow"
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <p className="text-sm font-medium text-gray-900 flex-1">{task.title}</p>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => handleViewTask(task)}>
-                          <Eye className="mr-2 h-4 w-4" />
-                          View
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleEditTask(task)}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => handleDeleteTask(task)}
-                          className="text-red-600"
-                        >
-                          <Trash2 className="mr-2 h-4 w-4" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                  {task.description && (
-                    <p className="text-xs text-gray-500 mb-2">{task.description}</p>
+                  ))}
+                  {statusTasks.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-8">{style.empty}</p>
                   )}
-                  <div className="flex items-center justify-between">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-xs text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        Due {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.inProgress === 0 && (
-                <p className="text-sm text-gray-500 text-center py-8">Drop tasks here</p>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Completed Tasks */}
-          <Card 
-            onDragOver={handleDragOver}
-            onDrop={(e) => handleDrop(e, 'completed')}
-          >
-            <CardHeader>
-              <CardTitle className="flex items-center text-sm font-medium text-green-600">
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Completed ({taskStats.completed})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3 min-h-[200px]">
-              {tasks?.filter(task => task.status === 'completed').map((task) => (
-                <div 
-                  key={task.id} 
-                  className="p-3 bg-green-50 border border-green-200 rounded-lg cursor-move hover:shadow-md transition-shadow"
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, task)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <p className="text-sm font-medium text-gray-900 flex-1">{task.title}</p>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => handleViewTask(task)}>
-                          <Eye className="mr-2 h-4 w-4" />
-                          View
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleEditTask(task)}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => handleDeleteTask(task)}
-                          className="text-red-600"
-                        >
-                          <Trash2 className="mr-2 h-4 w-4" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                  {task.description && (
-                    <p className="text-xs text-gray-500 mb-2">{task.description}</p>
-                  )}
-                  <div className="flex items-center justify-between">
-                    <Badge className={getPriorityColor(task.priority)} variant="secondary">
-                      {task.priority}
-                    </Badge>
-                    {task.dueDate && (
-                      <span className="text-xs text-gray-500 flex items-center">
-                        <Clock className="w-3 h-3 mr-1" />
-                        Due {new Date(task.dueDate).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                </div>
-              ))}
-              {taskStats.completed === 0 && (
-                <p className="text-sm text-gray-500 text-center py-8">Drop completed tasks here</p>
-              )}
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <div className="hidden md:grid gap-6">
+          {/* Sprint Board and Report */}
+          <div>
+            <ProjectSprints projectId={id || ''} />
+          </div>
 
           {/* Team Members Section */}
-          <div className="lg:col-span-3">
+          <div>
             <ProjectMembers 
               projectId={id || ''} 
               isOwner={project.ownerId === user?.id} 
             />
           </div>
+
+          {/* Tasks that look like the same work */}
+          <div>
+            <ProjectDuplicateTasks projectId={id || ''} />
+          </div>
+
+          {/* Project Activity Log */}
+          <div>
+            <ProjectActivity projectId={id || ''} />
+          </div>
         </div>
       </div>
 
       {/* View Task Modal */}
       <Dialog open={isViewTaskModalOpen} onOpenChange={setIsViewTaskModalOpen}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Task Details</DialogTitle>
           </DialogHeader>
@@ -1154,7 +1051,7 @@ export default function ProjectDetails() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="text-sm font-medium text-gray-700">Status</label>
-                  <p className="text-sm text-gray-900 mt-1 capitalize">{selectedTask.status.replace('_', ' ')}</p>
+                  <p className="text-sm text-gray-900 mt-1 capitalize">{statusName(selectedTask.status)}</p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-700">Priority</label>
@@ -1163,12 +1060,25 @@ export default function ProjectDetails() {
                   </Badge>
                 </div>
               </div>
+              {selectedTask.estimate != null && (
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Estimate</label>
+                  <p className="text-sm text-gray-900 mt-1">
+                    {selectedTask.estimate} {project?.estimateUnit === 'hours' ? 'hours' : 'points'}
+                  </p>
+                </div>
+              )}
               {selectedTask.dueDate && (
                 <div>
                   <label className="text-sm font-medium text-gray-700">Due Date</label>
                   <p className="text-sm text-gray-900 mt-1">{formatDate(selectedTask.dueDate)}</p>
                 </div>
               )}
+              <TaskLabels task={selectedTask} />
+              <TaskSubtasks task={selectedTask} />
+              <TaskDependencies task={selectedTask} projectTasks={topLevelTasks || []} />
+              <TaskTimeTracking taskId={selectedTask.id} />
+              <TaskComments taskId={selectedTask.id} />
             </div>
           )}
         </DialogContent>
@@ -1228,9 +1138,9 @@ export default function ProjectDetails() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="todo">To Do</SelectItem>
-                          <SelectItem value="in_progress">In Progress</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
+                          {workflow.map(status => (
+                            <SelectItem key={status.key} value={status.key}>{status.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -1281,6 +1191,27 @@ export default function ProjectDetails() {
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="estimate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimate</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder={project?.estimateUnit === "hours" ? "Hours" : "Story points"}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="flex space-x-3 pt-4">
                 <Button
                   type="button"
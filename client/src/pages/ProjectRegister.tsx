@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CheckCircle, AlertTriangle, HelpCircle, Search, Calendar } from "lucide-react";
+import { getTaskCategory, type RegisterEntryKind } from "@shared/schema";
+
+interface RegisterEntry {
+  kind: RegisterEntryKind;
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  meetingScheduledAt: string;
+  text: string;
+  detail: string | null;
+  owner: string | null;
+  impact: string | null;
+  tasks: { id: string; title: string; status: string; statusCategory?: string | null }[];
+}
+
+const kindStyles: Record<RegisterEntryKind, { label: string; icon: typeof CheckCircle; badge: string }> = {
+  decision: { label: "Decision", icon: CheckCircle, badge: "bg-green-100 text-green-800" },
+  risk: { label: "Risk", icon: AlertTriangle, badge: "bg-red-100 text-red-800" },
+  open_question: { label: "Open question", icon: HelpCircle, badge: "bg-amber-100 text-amber-800" },
+};
+
+const impactColors: Record<string, string> = {
+  low: "bg-gray-100 text-gray-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+const categoryColors: Record<string, string> = {
+  open: "bg-gray-100 text-gray-800",
+  active: "bg-blue-100 text-blue-800",
+  done: "bg-green-100 text-green-800",
+};
+
+// Decisions, risks and open questions across all of a project's meetings
+export default function ProjectRegister() {
+  const { id } = useParams<{ id: string }>();
+  const [kind, setKind] = useState<RegisterEntryKind | "all">("all");
+  const [meetingId, setMeetingId] = useState("all");
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: project } = useQuery<{ id: string; name: string }>({
+    queryKey: ["/api/projects", id],
+    enabled: !!id,
+  });
+
+  const { data: meetings = [] } = useQuery<{ id: string; title: string; scheduledAt: string }[]>({
+    queryKey: [`/api/meetings?projectId=${id}`],
+    enabled: !!id,
+  });
+
+  const params = new URLSearchParams();
+  if (kind !== "all") params.set("kind", kind);
+  if (meetingId !== "all") params.set("meetingId", meetingId);
+  if (debouncedSearch) params.set("q", debouncedSearch);
+
+  const { data: entries = [], isLoading } = useQuery<RegisterEntry[]>({
+    queryKey: [`/api/projects/${id}/register?${params}`],
+    enabled: !!id,
+  });
+
+  const counts = entries.reduce<Record<string, number>>((totals, entry) => {
+    totals[entry.kind] = (totals[entry.kind] || 0) + 1;
+    return totals;
+  }, {});
+
+  return (
+    <div className="p-4 lg:p-8 pb-20 lg:pb-8 space-y-6">
+      <div>
+        <Link href={`/projects/${id}`}>
+          <Button variant="ghost" size="sm" className="mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Project
+          </Button>
+        </Link>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">Decision Register</h1>
+        <p className="text-gray-600">
+          Decisions, risks and open questions from {project?.name || "this project"}'s meetings
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            placeholder="Search decisions, risks and questions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={kind} onValueChange={(value) => setKind(value as RegisterEntryKind | "all")}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everything</SelectItem>
+            <SelectItem value="decision">Decisions</SelectItem>
+            <SelectItem value="risk">Risks</SelectItem>
+            <SelectItem value="open_question">Open questions</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={meetingId} onValueChange={setMeetingId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="All meetings" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All meetings</SelectItem>
+            {meetings.map(meeting => (
+              <SelectItem key={meeting.id} value={meeting.id}>{meeting.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="flex gap-3 text-sm text-gray-600">
+          {(Object.keys(kindStyles) as RegisterEntryKind[]).map(key => (
+            <span key={key}>{counts[key] || 0} {kindStyles[key].label.toLowerCase()}{counts[key] === 1 ? "" : "s"}</span>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading register...</p>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-gray-500">
+            {debouncedSearch || kind !== "all" || meetingId !== "all"
+              ? "Nothing in the register matches these filters."
+              : "Nothing recorded yet. Decisions, risks and open questions appear here once a meeting recording is processed."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => {
+            const style = kindStyles[entry.kind];
+            const Icon = style.icon;
+            return (
+              <Card key={`${entry.kind}-${entry.id}`}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start gap-3">
+                    <Icon className="w-5 h-5 mt-0.5 shrink-0 text-gray-500" />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary" className={`text-xs ${style.badge}`}>{style.label}</Badge>
+                        {entry.impact && (
+                          <Badge variant="secondary" className={`text-xs capitalize ${impactColors[entry.impact]}`}>{entry.impact} impact</Badge>
+                        )}
+                        {entry.owner && <span className="text-xs text-gray-500">{entry.owner}</span>}
+                      </div>
+                      <p className="font-medium text-gray-900">{entry.text}</p>
+                      {entry.detail && (
+                        <p className="text-sm text-gray-600">
+                          {entry.kind === "risk" ? "Mitigation: " : "Why: "}{entry.detail}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 pl-8 text-xs">
+                    <Link href={`/meetings?meeting=${entry.meetingId}`} className="flex items-center text-blue-600 hover:underline">
+                      <Calendar className="w-3 h-3 mr-1" />
+                      {entry.meetingTitle} · {new Date(entry.meetingScheduledAt).toLocaleDateString()}
+                    </Link>
+                    {entry.tasks.map(task => (
+                      <Link key={task.id} href={`/projects/${id}?task=${task.id}`}>
+                        <Badge variant="secondary" className={`cursor-pointer ${categoryColors[getTaskCategory(task)]}`}>
+                          {task.title}
+                        </Badge>
+                      </Link>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
   Download
 } from "lucide-react";
 import { format } from "date-fns";
+import { isTaskDone } from "@shared/schema";
 
 interface ProjectReport {
   id: string;
@@ -129,7 +130,7 @@ export default function ProjectReports() {
     
     // Calculate real completion rate from tasks
     const totalTasks = projectTasks.length;
-    const completedTasks = projectTasks.filter((task: any) => task.status === 'completed').length;
+    const completedTasks = projectTasks.filter((task: any) => isTaskDone(task)).length;
     const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
     
     // Calculate realistic budget based on project complexity
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +9,49 @@ import { useVoiceRecording } from "@/hooks/useVoiceRecording";
 import { recordingStorage, type StoredRecording } from "@/lib/recordingStorage";
 import { useToast } from "@/hooks/use-toast";
 
+interface ProcessingJobStatus {
+  id: string;
+  state: 'queued' | 'transcribing' | 'extracting' | 'done' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  result?: { suggestedTaskCount: number } | null;
+}
+
+const jobStateProgress: Record<ProcessingJobStatus['state'], { value: number; label: string }> = {
+  queued: { value: 55, label: "Waiting for the server..." },
+  transcribing: { value: 65, label: "Transcribing audio..." },
+  extracting: { value: 85, label: "Extracting tasks and summary..." },
+  done: { value: 100, label: "Processed" },
+  failed: { value: 100, label: "Processing failed" },
+};
+
+// Server-side progress for a recording whose audio has been handed off to a processing job
+function JobProgress({ jobId }: { jobId: string }) {
+  const { data: job } = useQuery<ProcessingJobStatus>({
+    queryKey: [`/api/jobs/${jobId}`],
+    refetchOnMount: "always",
+    refetchInterval: (query) => {
+      const state = query.state.data?.state;
+      return state === 'done' || state === 'failed' ? false : 5000;
+    },
+  });
+
+  const progress = jobStateProgress[job?.state || 'queued'];
+  return (
+    <div className="mt-4">
+      <Progress value={progress.value} className="w-full" />
+      <p className="text-xs text-muted-foreground mt-1">
+        {progress.label}
+        {job && job.attempts > 1 && job.state !== 'done' && ` (attempt ${job.attempts}/${job.maxAttempts})`}
+      </p>
+      {job?.lastError && job.state !== 'done' && (
+        <p className="text-xs text-red-600 dark:text-red-300 mt-1">Last error: {job.lastError}</p>
+      )}
+    </div>
+  );
+}
+
 export default function RecordingQueue() {
   const [recordings, setRecordings] = useState<StoredRecording[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -215,10 +259,12 @@ export default function RecordingQueue() {
                     </div>
                   </div>
                   
-                  {recording.status === 'processing' && (
+                  {recording.jobId ? (
+                    <JobProgress jobId={recording.jobId} />
+                  ) : recording.status === 'processing' && (
                     <div className="mt-4">
                       <Progress value={50} className="w-full" />
-                      <p className="text-xs text-muted-foreground mt-1">Processing recording...</p>
+                      <p className="text-xs text-muted-foreground mt-1">Uploading recording...</p>
                     </div>
                   )}
                   
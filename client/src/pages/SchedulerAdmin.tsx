@@ -0,0 +1,210 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+import type { ScheduledJobState, NotificationDeliveryState } from "@shared/schema";
+
+interface SchedulerJob {
+  id: string;
+  key: string;
+  type: string;
+  userName: string | null;
+  state: ScheduledJobState;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lastError: string | null;
+  result: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+interface SchedulerDelivery {
+  id: string;
+  key: string;
+  type: string;
+  userName: string | null;
+  state: NotificationDeliveryState;
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+interface SchedulerOverview {
+  upcoming: SchedulerJob[];
+  recent: SchedulerJob[];
+  deliveries: SchedulerDelivery[];
+}
+
+const stateColors: Record<string, string> = {
+  scheduled: "bg-gray-100 text-gray-800",
+  running: "bg-blue-100 text-blue-800",
+  sending: "bg-blue-100 text-blue-800",
+  done: "bg-green-100 text-green-800",
+  sent: "bg-green-100 text-green-800",
+  skipped: "bg-yellow-100 text-yellow-800",
+  cancelled: "bg-gray-100 text-gray-500",
+  failed: "bg-red-100 text-red-800",
+};
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), "MMM d, h:mm a") : "—";
+}
+
+function StateBadge({ state }: { state: string }) {
+  return <Badge variant="secondary" className={`text-xs capitalize ${stateColors[state] || ""}`}>{state}</Badge>;
+}
+
+function JobTable({ jobs, empty, past }: { jobs: SchedulerJob[]; empty: string; past?: boolean }) {
+  if (jobs.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-gray-500">{empty}</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Job</TableHead>
+            <TableHead>User</TableHead>
+            <TableHead>{past ? "Finished" : "Runs"}</TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>{past ? "Outcome" : "Worker"}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {jobs.map(job => (
+            <TableRow key={job.id}>
+              <TableCell>
+                <p className="font-medium text-gray-900">{job.type}</p>
+                <p className="text-xs text-gray-500 break-all">{job.key}</p>
+              </TableCell>
+              <TableCell>{job.userName || "Everyone"}</TableCell>
+              <TableCell>
+                {past ? formatTime(job.completedAt || job.updatedAt) : formatTime(job.runAt)}
+                {!past && (
+                  <p className="text-xs text-gray-500">{formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}</p>
+                )}
+              </TableCell>
+              <TableCell><StateBadge state={job.state} /></TableCell>
+              <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+              <TableCell className="text-sm">
+                {past ? (
+                  <>
+                    {job.result && <p className="text-gray-700">{job.result}</p>}
+                    {job.lastError && <p className="text-red-600">{job.lastError}</p>}
+                  </>
+                ) : (
+                  <>
+                    <span className="text-gray-500">{job.lockedBy || "—"}</span>
+                    {job.lastError && <p className="text-red-600">Last attempt: {job.lastError}</p>}
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
+
+// Admin view of the notification scheduler's persisted jobs and the emails they sent
+export default function SchedulerAdmin() {
+  const { data, isLoading, error } = useQuery<SchedulerOverview>({
+    queryKey: ["/api/admin/scheduler"],
+    refetchInterval: 30 * 1000,
+    retry: false,
+  });
+
+  if (error) {
+    const forbidden = error.message.startsWith("403");
+    return (
+      <div className="p-4 lg:p-8">
+        <Card>
+          <CardContent className="py-8 text-center text-gray-600">
+            <ShieldAlert className="w-8 h-8 mx-auto mb-3 text-gray-400" />
+            {forbidden ? "Only admins can view the notification scheduler." : "Failed to load the notification scheduler."}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:p-8 pb-20 lg:pb-8 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">Notification Scheduler</h1>
+        <p className="text-gray-600">
+          Briefings and checks planned across all instances, and every scheduled email they sent
+        </p>
+      </div>
+
+      {isLoading || !data ? (
+        <p className="text-sm text-gray-500">Loading scheduler...</p>
+      ) : (
+        <Tabs defaultValue="upcoming">
+          <TabsList>
+            <TabsTrigger value="upcoming">Upcoming ({data.upcoming.length})</TabsTrigger>
+            <TabsTrigger value="recent">Past runs</TabsTrigger>
+            <TabsTrigger value="deliveries">Deliveries</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="upcoming">
+            <JobTable jobs={data.upcoming} empty="Nothing is scheduled yet. Jobs appear once the scheduler has started." />
+          </TabsContent>
+
+          <TabsContent value="recent">
+            <JobTable jobs={data.recent} empty="No jobs have run yet." past />
+          </TabsContent>
+
+          <TabsContent value="deliveries">
+            {data.deliveries.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-500">No scheduled emails have been sent yet.</CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>State</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.deliveries.map(delivery => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>
+                          <p className="font-medium text-gray-900">{delivery.type}</p>
+                          <p className="text-xs text-gray-500 break-all">{delivery.key}</p>
+                        </TableCell>
+                        <TableCell>{delivery.userName || "—"}</TableCell>
+                        <TableCell>{formatTime(delivery.sentAt || delivery.createdAt)}</TableCell>
+                        <TableCell>
+                          <StateBadge state={delivery.state} />
+                          {delivery.error && <p className="text-xs text-red-600 mt-1">{delivery.error}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Brain, 
   Mail, 
@@ -34,7 +35,7 @@ import {
 } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSettingsSchema } from "@shared/schema";
+import { insertUserSettingsSchema, getBriefingTimes, DEFAULT_TIMEZONE } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -56,10 +57,26 @@ interface UserSettings {
   aiInsights: boolean;
   workingHoursStart: string;
   workingHoursEnd: string;
+  timezone: string;
   urgentOnly: boolean;
   updatedAt: string;
 }
 
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Every IANA zone where the browser can list them, otherwise just the common choices
+const timeZones: string[] = (() => {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as ((key: string) => string[]) | undefined;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : ['America/Los_Angeles', 'America/Chicago', 'America/New_York', 'Europe/London', 'Europe/Berlin', 'Asia/Kolkata', 'Asia/Tokyo', 'Australia/Sydney'];
+  return Array.from(new Set([...zones, DEFAULT_TIMEZONE, browserTimeZone])).sort();
+})();
+
+// "13:30" -> "1:30 PM"
+function formatTimeOfDay(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
 // Profile form schema
 const profileFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -240,6 +257,8 @@ export default function Settings() {
     updateSettingsMutation.mutate({ [key]: value });
   };
 
+  const briefingTimes = getBriefingTimes(settings || {});
+
   // Biometric registration mutation
   const biometricRegisterMutation = useMutation({
     mutationFn: async () => {
@@ -456,11 +475,14 @@ export default function Settings() {
 
                   {/* Daily Digests */}
                   <div className="py-6 border-b border-gray-200">
-                    <h3 className="font-medium text-gray-900 mb-4">Daily Digests</h3>
+                    <h3 className="font-medium text-gray-900 mb-1">Daily Digests</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Sent at the start, middle and end of your working hours ({settings?.timezone || DEFAULT_TIMEZONE} time)
+                    </p>
                     <div className="space-y-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-medium text-gray-900">Morning Briefing (7:00 AM)</p>
+                          <p className="font-medium text-gray-900">Morning Briefing ({formatTimeOfDay(briefingTimes.morning)})</p>
                           <p className="text-sm text-gray-600">
                             Start your day with AI insights, priorities, and schedule overview
                           </p>
@@ -493,7 +515,7 @@ export default function Settings() {
 
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-medium text-gray-900">Lunch Break Reminder (12:00 PM)</p>
+                          <p className="font-medium text-gray-900">Lunch Break Reminder ({formatTimeOfDay(briefingTimes.lunch)})</p>
                           <p className="text-sm text-gray-600">
                             Gentle reminder to take a break with afternoon preview
                           </p>
@@ -506,7 +528,7 @@ export default function Settings() {
 
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="font-medium text-gray-900">End of Day Summary (5:00 PM)</p>
+                          <p className="font-medium text-gray-900">End of Day Summary ({formatTimeOfDay(briefingTimes.endOfDay)})</p>
                           <p className="text-sm text-gray-600">
                             Review accomplishments and prepare for tomorrow
                           </p>
@@ -575,7 +597,7 @@ export default function Settings() {
                         <Input
                           type="time"
                           value={settings?.workingHoursStart || "09:00"}
-                          onChange={(e) => handleSettingChange('workingHoursStart', e.target.value)}
+                          onChange={(e) => e.target.value && handleSettingChange('workingHoursStart', e.target.value)}
                         />
                       </div>
                       <div>
@@ -585,9 +607,39 @@ export default function Settings() {
                         <Input
                           type="time"
                           value={settings?.workingHoursEnd || "18:00"}
-                          onChange={(e) => handleSettingChange('workingHoursEnd', e.target.value)}
+                          onChange={(e) => e.target.value && handleSettingChange('workingHoursEnd', e.target.value)}
                         />
                       </div>
+                      <div className="sm:col-span-2">
+                        <Label className="block text-sm font-medium text-gray-700 mb-2">
+                          Timezone
+                        </Label>
+                        <Select
+                          value={settings?.timezone || DEFAULT_TIMEZONE}
+                          onValueChange={(value) => handleSettingChange('timezone', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {timeZones.map((zone) => (
+                              <SelectItem key={zone} value={zone}>
+                                {zone.replace(/_/g, ' ')}{zone === browserTimeZone ? ' (this device)' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {settings && settings.timezone !== browserTimeZone && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="px-0"
+                            onClick={() => handleSettingChange('timezone', browserTimeZone)}
+                          >
+                            Use this device's timezone ({browserTimeZone.replace(/_/g, ' ')})
+                          </Button>
+                        )}
+                      </div>
                     </div>
 
                     <div className="flex items-center space-x-2">
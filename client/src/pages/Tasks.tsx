@@ -13,10 +13,16 @@ import { Plus, Filter, CheckCircle, Clock, AlertCircle, User, Edit3, Trash2, Mor
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertTaskSchema } from "@shared/schema";
+import { insertTaskSchema, getWorkflow, getTaskCategory, isTaskDone, type WorkflowStatus } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import TaskDependencies, { BlockedBadge, useTaskBlockers } from "@/components/TaskDependencies";
+import TaskSubtasks, { SubtaskCount } from "@/components/TaskSubtasks";
+import TaskComments from "@/components/TaskComments";
+import TaskTimeTracking from "@/components/TaskTimeTracking";
+import SimilarTasksWarning from "@/components/SimilarTasksWarning";
+import TaskLabels, { LabelBadges, type TaskLabel } from "@/components/TaskLabels";
 
 // Create a form schema that keeps dueDate as string for form inputs
 const taskFormSchema = insertTaskSchema.extend({
@@ -30,15 +36,20 @@ interface Task {
   title: string;
   description?: string;
   status: string;
+  statusCategory?: string | null;
   priority: string;
   projectId: string;
+  parentTaskId?: string | null;
   dueDate?: string;
+  estimate?: number | null;
+  labels?: TaskLabel[];
   createdAt: string;
 }
 
 interface Project {
   id: string;
   name: string;
+  workflow?: WorkflowStatus[] | null;
 }
 
 export default function Tasks() {
@@ -49,6 +60,7 @@ export default function Tasks() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [projectFilter, setProjectFilter] = useState<string>("all");
+  const [labelFilter, setLabelFilter] = useState<string>("all");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -60,6 +72,8 @@ export default function Tasks() {
     queryKey: ["/api/projects"],
   });
 
+  const taskBlockers = useTaskBlockers(tasks);
+
   const createTaskMutation = useMutation({
     mutationFn: async (data: TaskFormData) => {
       const response = await apiRequest("POST", "/api/tasks", data);
@@ -98,10 +112,10 @@ export default function Tasks() {
         description: "Task updated successfully",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update task",
+        description: error.message || "Failed to update task",
         variant: "destructive",
       });
     },
@@ -138,6 +152,7 @@ export default function Tasks() {
       priority: "medium",
       projectId: "",
       dueDate: "",
+      estimate: null,
     },
   });
 
@@ -164,6 +179,7 @@ export default function Tasks() {
       priority: task.priority,
       projectId: task.projectId,
       dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : "",
+      estimate: task.estimate ?? null,
     });
     setIsEditModalOpen(true);
   };
@@ -178,11 +194,13 @@ export default function Tasks() {
       priority: "medium",
       projectId: "",
       dueDate: "",
+      estimate: null,
     });
   };
 
   const toggleTaskComplete = (task: Task) => {
-    const newStatus = task.status === 'completed' ? 'todo' : 'completed';
+    // The server resolves these to the first open/done status of the task's project workflow
+    const newStatus = isTaskDone(task) ? 'todo' : 'completed';
     updateTaskMutation.mutate({
       id: task.id,
       updates: { status: newStatus },
@@ -261,13 +279,23 @@ export default function Tasks() {
     }
   };
 
-  // Filter and sort tasks based on status, priority, and project with automated prioritization
+  // Labels belong to a project, so same-named labels from different projects filter together
+  const labelNames = Array.from(new Set(
+    (tasks || [])
+      .filter(task => projectFilter === "all" || task.projectId === projectFilter)
+      .flatMap(task => (task.labels || []).map(label => label.name))
+  )).sort((a, b) => a.localeCompare(b));
+
+  // Filter and sort tasks based on status, priority, project and label with automated prioritization
+  // Subtasks are shown inside their parent task rather than as cards of their own
   const filteredTasks = tasks?.filter(task => {
+    if (task.parentTaskId) return false;
     const automaticPriority = getAutomaticPriority(task);
-    const statusMatch = statusFilter === "all" || task.status === statusFilter;
+    const statusMatch = statusFilter === "all" || getTaskCategory(task) === statusFilter;
     const priorityMatch = priorityFilter === "all" || automaticPriority === priorityFilter;
     const projectMatch = projectFilter === "all" || task.projectId === projectFilter;
-    return statusMatch && priorityMatch && projectMatch;
+    const labelMatch = labelFilter === "all" || (task.labels || []).some(label => label.name === labelFilter);
+    return statusMatch && priorityMatch && projectMatch && labelMatch;
   }) || [];
   
   // Helper function to get project name
@@ -278,12 +306,15 @@ export default function Tasks() {
 
   const sortedFilteredTasks = sortTasksByPriority(filteredTasks);
 
+  // Tasks from every project, so columns follow workflow categories rather than project-specific statuses
   const tasksByStatus = {
-    todo: sortedFilteredTasks.filter(t => t.status === 'todo'),
-    in_progress: sortedFilteredTasks.filter(t => t.status === 'in_progress'),
-    completed: sortedFilteredTasks.filter(t => t.status === 'completed'),
+    todo: sortedFilteredTasks.filter(t => getTaskCategory(t) === 'open'),
+    in_progress: sortedFilteredTasks.filter(t => getTaskCategory(t) === 'active'),
+    completed: sortedFilteredTasks.filter(t => getTaskCategory(t) === 'done'),
   };
 
+  const getTaskWorkflow = (task: Task | null) => getWorkflow(projects?.find(p => p.id === task?.projectId));
+
   if (isLoading) {
     return (
       <div className="p-4 lg:p-8 pb-20 lg:pb-8">
@@ -356,6 +387,12 @@ export default function Tasks() {
                   )}
                 />
 
+                <SimilarTasksWarning
+                  projectId={form.watch("projectId")}
+                  title={form.watch("title") || ""}
+                  description={form.watch("description")}
+                />
+
                 <FormField
                   control={form.control}
                   name="projectId"
@@ -423,6 +460,27 @@ export default function Tasks() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="estimate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Estimate</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          placeholder="Points or hours"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex space-x-3 pt-4">
                   <Button
                     type="button"
@@ -526,9 +584,9 @@ export default function Tasks() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="todo">To Do</SelectItem>
-                            <SelectItem value="in_progress">In Progress</SelectItem>
-                            <SelectItem value="completed">Completed</SelectItem>
+                            {getTaskWorkflow(selectedTask).map(status => (
+                              <SelectItem key={status.key} value={status.key}>{status.name}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -579,6 +637,27 @@ export default function Tasks() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="estimate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Estimate</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          placeholder="Points or hours"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex flex-col sm:flex-row justify-end gap-2 sm:space-x-2 sm:gap-0 pt-4">
                   <Button type="button" variant="outline" onClick={closeEditModal} className="w-full sm:w-auto">
                     Cancel
@@ -605,9 +684,9 @@ export default function Tasks() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="todo">To Do</SelectItem>
-            <SelectItem value="in_progress">In Progress</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
+            <SelectItem value="open">To Do</SelectItem>
+            <SelectItem value="active">In Progress</SelectItem>
+            <SelectItem value="done">Completed</SelectItem>
           </SelectContent>
         </Select>
 
@@ -638,6 +717,20 @@ export default function Tasks() {
           </SelectContent>
         </Select>
 
+        <Select value={labelFilter} onValueChange={setLabelFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Labels</SelectItem>
+            {labelNames.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Task Summary */}
         <div className="flex items-center space-x-4 text-sm text-gray-600 ml-auto">
           <span>{sortedFilteredTasks.length} tasks shown</span>
@@ -722,6 +815,9 @@ export default function Tasks() {
                         Due {new Date(task.dueDate).toLocaleDateString()}
                       </div>
                     )}
+                    <SubtaskCount tasks={tasks} parentTaskId={task.id} />
+                    <BlockedBadge blockers={taskBlockers.get(task.id)} />
+                    <LabelBadges labels={task.labels} />
                   </div>
                 </div>
               </div>
@@ -806,6 +902,9 @@ export default function Tasks() {
                         Due {new Date(task.dueDate).toLocaleDateString()}
                       </div>
                     )}
+                    <SubtaskCount tasks={tasks} parentTaskId={task.id} />
+                    <BlockedBadge blockers={taskBlockers.get(task.id)} />
+                    <LabelBadges labels={task.labels} />
                   </div>
                 </div>
               </div>
@@ -890,6 +989,7 @@ export default function Tasks() {
                         Due {new Date(task.dueDate).toLocaleDateString()}
                       </div>
                     )}
+                    <SubtaskCount tasks={tasks} parentTaskId={task.id} />
                   </div>
                 </div>
               </div>
@@ -958,16 +1058,14 @@ export default function Tasks() {
                   <Badge 
                     variant="secondary"
                     className={
-                      selectedTask.status === 'completed' 
+                      getTaskCategory(selectedTask) === 'done' 
                         ? 'bg-green-100 text-green-800' 
-                        : selectedTask.status === 'in_progress'
+                        : getTaskCategory(selectedTask) === 'active'
                         ? 'bg-blue-100 text-blue-800'
                         : 'bg-gray-100 text-gray-800'
                     }
                   >
-                    {selectedTask.status === 'todo' ? 'To Do' : 
-                     selectedTask.status === 'in_progress' ? 'In Progress' : 
-                     'Completed'}
+                    {getTaskWorkflow(selectedTask).find(status => status.key === selectedTask.status)?.name || selectedTask.status}
                   </Badge>
                 </div>
 
@@ -984,6 +1082,13 @@ export default function Tasks() {
                 </div>
               </div>
 
+              {selectedTask.estimate != null && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Estimate</h4>
+                  <p className="text-sm text-gray-900">{selectedTask.estimate}</p>
+                </div>
+              )}
+
               {/* Due Date and Project */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -1024,6 +1129,24 @@ export default function Tasks() {
                 </div>
               </div>
 
+              {/* Labels */}
+              <TaskLabels task={selectedTask} />
+
+              {/* Subtasks */}
+              <TaskSubtasks task={selectedTask} />
+
+              {/* Dependencies */}
+              <TaskDependencies
+                task={selectedTask}
+                projectTasks={tasks?.filter(t => t.projectId === selectedTask.projectId && !t.parentTaskId) || []}
+              />
+
+              {/* Time Tracking */}
+              <TaskTimeTracking taskId={selectedTask.id} />
+
+              {/* Comments */}
+              <TaskComments taskId={selectedTask.id} />
+
               {/* Creation Date */}
               <div>
                 <h4 className="text-sm font-medium text-gray-700 mb-1">Created</h4>
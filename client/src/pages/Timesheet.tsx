@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Clock } from "lucide-react";
+import { formatMinutes } from "@/components/TaskTimeTracking";
+
+interface TimesheetRow {
+  userId: string;
+  userName: string;
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  minutesByDay: number[];
+  totalMinutes: number;
+}
+
+interface TimesheetResponse {
+  weekStart: string;
+  days: string[];
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalMinutes: number;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+// Monday of the week containing the date, as YYYY-MM-DD in local time
+function mondayOf(date: Date): string {
+  const monday = new Date(date);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday.toLocaleDateString('en-CA');
+}
+
+function shiftWeek(weekStart: string, weeks: number): string {
+  const date = new Date(`${weekStart}T00:00:00`);
+  date.setDate(date.getDate() + weeks * 7);
+  return mondayOf(date);
+}
+
+export default function Timesheet() {
+  const [weekStart, setWeekStart] = useState(() => mondayOf(new Date()));
+  const [scope, setScope] = useState<string>("me");
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const timesheetUrl = scope === "me"
+    ? `/api/timesheets/me?weekStart=${weekStart}`
+    : `/api/projects/${scope}/timesheet?weekStart=${weekStart}`;
+
+  const { data: timesheet, isLoading } = useQuery<TimesheetResponse>({
+    queryKey: [timesheetUrl],
+    refetchOnMount: "always",
+  });
+
+  const projectNames = new Map(projects.map(project => [project.id, project.name]));
+  const days = timesheet?.days || [];
+  const weekStartDate = new Date(`${weekStart}T00:00:00`);
+  const weekEndDate = new Date(weekStartDate);
+  weekEndDate.setDate(weekEndDate.getDate() + 6);
+  const weekLabel = `${weekStartDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekEndDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="p-4 lg:p-8 pb-20 lg:pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8 gap-4">
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">
+          Timesheet
+        </h1>
+
+        <div className="flex items-center gap-2">
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="me">My time</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(shiftWeek(weekStart, -1))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-700 whitespace-nowrap">{weekLabel}</span>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(shiftWeek(weekStart, 1))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-base">
+            <span className="flex items-center">
+              <Clock className="w-4 h-4 mr-2" />
+              {scope === "me" ? "My week" : projectNames.get(scope) || "Project"}
+            </span>
+            <span className="text-sm font-normal text-gray-500">
+              {formatMinutes(timesheet?.totalMinutes || 0)} total
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading timesheet...</p>
+          ) : !timesheet || timesheet.rows.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              No time logged this week. Start a timer or log time from a task's details.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="text-left font-medium py-2 pr-4">Task</th>
+                    {days.map(day => (
+                      <th key={day} className="text-right font-medium py-2 px-2 whitespace-nowrap">
+                        {new Date(day).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                      </th>
+                    ))}
+                    <th className="text-right font-medium py-2 pl-2">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timesheet.rows.map(row => (
+                    <tr key={`${row.userId}-${row.taskId}`} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{row.taskTitle}</div>
+                        <div className="text-xs text-gray-500">
+                          {scope === "me" ? projectNames.get(row.projectId) : row.userName}
+                        </div>
+                      </td>
+                      {row.minutesByDay.map((minutes, index) => (
+                        <td key={index} className={`text-right py-2 px-2 ${minutes ? 'text-gray-900' : 'text-gray-300'}`}>
+                          {minutes ? formatMinutes(minutes) : '–'}
+                        </td>
+                      ))}
+                      <td className="text-right py-2 pl-2 font-medium">{formatMinutes(row.totalMinutes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t text-gray-700">
+                    <td className="py-2 pr-4 font-medium">Daily total</td>
+                    {timesheet.dailyTotals.map((minutes, index) => (
+                      <td key={index} className="text-right py-2 px-2 font-medium">
+                        {minutes ? formatMinutes(minutes) : '–'}
+                      </td>
+                    ))}
+                    <td className="text-right py-2 pl-2 font-bold">{formatMinutes(timesheet.totalMinutes)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { storage } from "./storage";
+import type { InsertActivityEvent } from "@shared/schema";
+
+// Write an audit log entry; a logging failure should never fail the request that triggered it
+export async function recordActivity(event: InsertActivityEvent): Promise<void> {
+  try {
+    await storage.createActivityEvent(event);
+  } catch (error) {
+    console.error(`Failed to record ${event.action} activity for ${event.entityType} ${event.entityId}:`, error);
+  }
+}
+
+// Before/after values for the fields a request actually changed, in the shape stored in activity_events.changes
+export function diffFields(before: Record<string, any>, updates: Record<string, any>): Record<string, { from: any; to: any }> | null {
+  const normalize = (value: any) => value instanceof Date ? value.toISOString() : value ?? null;
+  const changes: Record<string, { from: any; to: any }> = {};
+
+  for (const key of Object.keys(updates)) {
+    const from = normalize(before[key]);
+    const to = normalize(updates[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
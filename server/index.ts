@@ -4,7 +4,7 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-// Increase payload limit for voice recordings (up to 50MB)
+// Large limit for older clients that still post recordings as one base64 body; current ones use chunked /api/recording-uploads
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
@@ -60,6 +60,10 @@ app.use((req, res, next) => {
   const { scheduler } = await import("./scheduler");
   scheduler.start();
 
+  // Start the background worker for recording-processing jobs
+  const { jobWorker } = await import("./jobs");
+  jobWorker.start();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -87,6 +91,8 @@ app.use((req, res, next) => {
     log('Shutting down gracefully...');
     const { scheduler } = await import("./scheduler");
     scheduler.stop();
+    const { jobWorker } = await import("./jobs");
+    jobWorker.stop();
     process.exit(0);
   });
 
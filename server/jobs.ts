@@ -0,0 +1,347 @@
+import { storage } from './storage';
+import { aiService } from './services/ai';
+import { emailService } from './services/email';
+import { transcriptionService } from './services/transcription';
+import { taskSimilarityService, DUPLICATE_TASK_THRESHOLD } from './services/similarity';
+import { meetingSearchService } from './services/meetingSearch';
+import { recordActivity } from './activity';
+import type { Meeting, ProcessingJob, ProcessRecordingResult, ProposedTask, SuggestedTask } from '@shared/schema';
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000]; // after the 1st, 2nd, 3rd+ failed attempt
+const TRANSCRIPTION_TIMEOUT_MS = 15 * 60 * 1000; // long enough for 45+ minute recordings
+const STALE_LOCK_MS = 30 * 60 * 1000; // a running job this old belongs to a worker that died
+const ABANDONED_UPLOAD_MS = 7 * 24 * 60 * 60 * 1000; // chunked uploads untouched this long are never coming back
+const MEETING_INDEX_INTERVAL_MS = 60 * 1000;
+const MEETING_INDEX_BATCH_SIZE = 10; // meetings chunked and embedded per catch-up pass
+
+// Thrown for failures that retrying cannot fix, e.g. the meeting was deleted
+class PermanentJobError extends Error {}
+
+// Helper function to calculate string similarity using Levenshtein distance
+function calculateStringSimilarity(str1: string, str2: string): number {
+  const len1 = str1.length;
+  const len2 = str2.length;
+
+  if (len1 === 0) return len2 === 0 ? 1 : 0;
+  if (len2 === 0) return 0;
+
+  // Create a matrix to store distances
+  const matrix: number[][] = Array(len1 + 1).fill(null).map(() => Array(len2 + 1).fill(0));
+
+  // Initialize first row and column
+  for (let i = 0; i <= len1; i++) matrix[i][0] = i;
+  for (let j = 0; j <= len2; j++) matrix[0][j] = j;
+
+  // Fill the matrix
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j] + 1,     // deletion
+          matrix[i][j - 1] + 1,     // insertion
+          matrix[i - 1][j - 1] + 1  // substitution
+        );
+      }
+    }
+  }
+
+  // Calculate similarity as a percentage
+  const maxLen = Math.max(len1, len2);
+  const distance = matrix[len1][len2];
+  return (maxLen - distance) / maxLen;
+}
+
+// Runs queued processing_jobs rows one at a time. Jobs survive restarts: anything left
+// mid-run by a dead worker is picked up again once its lock goes stale.
+class JobWorker {
+  private interval: NodeJS.Timeout | null = null;
+  private isDraining = false;
+  private lastMeetingIndexAt = 0;
+
+  start() {
+    if (this.interval) return;
+    console.log('Starting processing job worker...');
+    this.interval = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.drain();
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    console.log('Stopped processing job worker');
+  }
+
+  // Start on a newly queued job now rather than at the next poll
+  wake() {
+    this.drain();
+  }
+
+  private async drain() {
+    if (this.isDraining) return;
+    this.isDraining = true;
+
+    try {
+      await storage.requeueStaleProcessingJobs(new Date(Date.now() - STALE_LOCK_MS));
+      await storage.deleteAbandonedRecordingUploads(new Date(Date.now() - ABANDONED_UPLOAD_MS));
+
+      let job = await storage.claimNextProcessingJob();
+      while (job) {
+        await this.runJob(job);
+        job = await storage.claimNextProcessingJob();
+      }
+
+      await this.indexMeetingBacklog();
+    } catch (error) {
+      console.error('Processing job worker error:', error);
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  // Meetings from before questions were indexed, or edited since, are indexed a few at a time here
+  // rather than while someone waits for an answer
+  private async indexMeetingBacklog() {
+    if (Date.now() - this.lastMeetingIndexAt < MEETING_INDEX_INTERVAL_MS) return;
+    this.lastMeetingIndexAt = Date.now();
+
+    try {
+      const indexed = await meetingSearchService.indexPendingMeetings(MEETING_INDEX_BATCH_SIZE);
+      if (indexed > 0) {
+        console.log(`🔎 Indexed ${indexed} meetings for questions`);
+      }
+    } catch (error) {
+      console.warn('Meeting indexing skipped:', (error as Error).message);
+    }
+  }
+
+  private async runJob(job: ProcessingJob) {
+    console.log(`⚙️ Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      if (job.type !== 'process-recording') {
+        throw new PermanentJobError(`Unknown job type "${job.type}"`);
+      }
+      const result = await this.processRecording(job);
+
+      await storage.updateProcessingJob(job.id, {
+        state: 'done',
+        result,
+        lastError: null,
+        audioData: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      await this.deleteAudio(job);
+      console.log(`✅ Job ${job.id} done: ${result.suggestedTaskCount} tasks suggested`);
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+      const canRetry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+      console.error(`❌ Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+      if (canRetry) {
+        const delay = RETRY_DELAYS_MS[Math.min(job.attempts, RETRY_DELAYS_MS.length) - 1];
+        await storage.updateProcessingJob(job.id, {
+          state: 'queued',
+          lastError: message,
+          lockedAt: null,
+          runAt: new Date(Date.now() + delay),
+        });
+      } else {
+        await storage.updateProcessingJob(job.id, {
+          state: 'failed',
+          lastError: message,
+          audioData: null,
+          lockedAt: null,
+          completedAt: new Date(),
+        });
+        await this.deleteAudio(job);
+      }
+    }
+  }
+
+  // A finished job's recording is not needed again; audioData is cleared with the job update
+  private async deleteAudio(job: ProcessingJob) {
+    if (job.uploadId) {
+      await storage.deleteRecordingUploadAudio(job.uploadId);
+    }
+  }
+
+  private async processRecording(job: ProcessingJob): Promise<ProcessRecordingResult> {
+    const meeting = job.meetingId ? await storage.getMeeting(job.meetingId) : undefined;
+    if (!meeting) {
+      throw new PermanentJobError('Meeting was deleted before its recording was processed');
+    }
+
+    // A retry after transcription succeeded reuses the saved transcript instead of transcribing again
+    let transcription = meeting.transcription;
+    if (!transcription?.trim()) {
+      const audio = job.uploadId ? await storage.readRecordingUploadAudio(job.uploadId) : job.audioData;
+      if (!audio) {
+        throw new PermanentJobError('Recording audio is no longer available');
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Recording processing timeout - file may be too large')), TRANSCRIPTION_TIMEOUT_MS);
+      });
+      let transcriptionResult;
+      try {
+        transcriptionResult = await Promise.race([transcriptionService.transcribeAudio(audio, job.mimeType || undefined), timeout]);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!transcriptionResult.text?.trim()) {
+        throw new PermanentJobError('No transcription generated from audio');
+      }
+
+      transcription = transcriptionResult.text;
+      const segments = transcriptionResult.speakers || [];
+      await storage.updateMeeting(meeting.id, { transcription });
+      await storage.updateMeetingTranscript(meeting.id, {
+        transcriptionProvider: transcriptionResult.provider,
+        transcriptSegments: segments.length > 0 ? segments : null,
+      });
+    }
+
+    await storage.updateProcessingJob(job.id, { state: 'extracting' });
+    const extractedTasks = await aiService.extractTasksFromText(transcription);
+    const summary = await aiService.generateMeetingSummary(transcription);
+
+    const updatedMeeting = await storage.updateMeeting(meeting.id, {
+      aiSummary: summary,
+      extractedTasks: extractedTasks,
+    });
+    const projectId = job.projectId || meeting.projectId;
+    await recordActivity({
+      projectId,
+      actorId: job.userId,
+      entityType: "meeting",
+      entityId: meeting.id,
+      entityTitle: meeting.title,
+      action: "processed",
+    });
+
+    const suggestions = await this.suggestExtractedTasks(meeting, projectId, job.userId, extractedTasks);
+    await this.recordMeetingOutcomes(meeting, projectId, transcription, suggestions);
+    await this.notifyMeetingProcessed(updatedMeeting, projectId, job.userId, suggestions.length, summary);
+
+    // Index the transcript for questions now; if this fails the next question about meetings catches up
+    try {
+      await meetingSearchService.indexMeetings([meeting.id]);
+    } catch (error) {
+      console.warn('Meeting indexing skipped:', (error as Error).message);
+    }
+
+    return {
+      meetingId: meeting.id,
+      suggestedTaskCount: suggestions.length,
+      extractedTaskCount: extractedTasks.length,
+    };
+  }
+
+  // Extracted tasks wait for review instead of becoming tasks straight away. Ones that look like an
+  // existing task are flagged so the reviewer can merge them rather than create a duplicate.
+  private async suggestExtractedTasks(meeting: Meeting, projectId: string | null, userId: string, extractedTasks: ProposedTask[]) {
+    const duplicateIds = projectId ? await this.findDuplicateTaskIds(projectId, extractedTasks) : [];
+
+    const suggestions = extractedTasks.map((taskData, index) => ({
+      meetingId: meeting.id,
+      projectId,
+      userId,
+      proposed: taskData,
+      possibleDuplicateOfTaskId: duplicateIds[index] || null,
+    }));
+
+    const created = await storage.replacePendingSuggestedTasks(meeting.id, suggestions);
+    console.log(`📝 ${created.length} suggested tasks waiting for review on meeting ${meeting.id}`);
+    return created;
+  }
+
+  // Decisions, risks and open questions for the project register. Decisions keep the suggested tasks that
+  // carry them out, so the register can link to the tasks once they are accepted.
+  private async recordMeetingOutcomes(meeting: Meeting, projectId: string | null, transcription: string, suggestions: SuggestedTask[]) {
+    const actionItems = suggestions.map(suggestion => suggestion.proposed as ProposedTask);
+    const outcomes = await aiService.extractMeetingOutcomes(transcription, actionItems);
+
+    await storage.replaceMeetingOutcomes(meeting.id, {
+      decisions: outcomes.decisions.map(({ actionItems: numbers, ...decision }) => ({
+        ...decision,
+        meetingId: meeting.id,
+        projectId,
+        suggestedTaskIds: numbers.map(number => suggestions[number - 1]?.id).filter(Boolean),
+      })),
+      risks: outcomes.risks.map(risk => ({ ...risk, meetingId: meeting.id, projectId })),
+      openQuestions: outcomes.openQuestions.map(question => ({ ...question, meetingId: meeting.id, projectId })),
+    });
+    console.log(`🧭 Recorded ${outcomes.decisions.length} decisions, ${outcomes.risks.length} risks and ${outcomes.openQuestions.length} open questions for meeting ${meeting.id}`);
+  }
+
+  // The most similar existing task for each extracted one, by meaning. Without an embeddings backend
+  // this falls back to comparing spelling.
+  private async findDuplicateTaskIds(projectId: string, extractedTasks: ProposedTask[]): Promise<(string | null)[]> {
+    try {
+      const matches = await taskSimilarityService.findSimilarForEach(projectId, extractedTasks, {
+        minSimilarity: DUPLICATE_TASK_THRESHOLD,
+        limit: 1,
+      });
+      return matches.map(similar => similar[0]?.id || null);
+    } catch (error) {
+      console.warn('Semantic duplicate check unavailable, comparing titles instead:', (error as Error).message);
+    }
+
+    const existingTasks = await storage.getTasks(projectId);
+    return extractedTasks.map(taskData => existingTasks.find(existingTask => {
+      // Exact title match (case insensitive)
+      if (existingTask.title.toLowerCase().trim() === taskData.title.toLowerCase().trim()) {
+        return true;
+      }
+
+      // High similarity check (80% similarity threshold)
+      const similarity = calculateStringSimilarity(
+        existingTask.title.toLowerCase(),
+        taskData.title.toLowerCase()
+      );
+
+      if (similarity > 0.8) {
+        return true;
+      }
+
+      // Check description similarity if both exist
+      if (existingTask.description && taskData.description) {
+        const descSimilarity = calculateStringSimilarity(
+          existingTask.description.toLowerCase(),
+          taskData.description.toLowerCase()
+        );
+        if (descSimilarity > 0.85) {
+          return true;
+        }
+      }
+
+      return false;
+    })?.id || null);
+  }
+
+  // Email the user that the meeting is processed and its suggested tasks are ready to review
+  private async notifyMeetingProcessed(meeting: Meeting, projectId: string | null, userId: string, suggestedCount: number, summary: string) {
+    const project = projectId ? await storage.getProject(projectId) : undefined;
+    const user = await storage.getUser(userId);
+    if (!user?.email) return;
+
+    try {
+      await emailService.sendMeetingProcessedNotification(
+        user.email,
+        meeting.title || "Meeting",
+        project?.name || "No project",
+        suggestedCount,
+        summary.substring(0, 200) + "..."
+      );
+    } catch (emailError) {
+      console.log("Meeting notification email failed:", emailError);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
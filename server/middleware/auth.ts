@@ -1,4 +1,5 @@
 import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -14,6 +15,23 @@ export function requireAuth(req: AuthenticatedRequest, res: Response, next: Next
   next();
 }
 
+// Middleware for routes only admins (users with role "admin") may use; goes after requireAuth
+export async function requireAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const user = req.session?.userId ? await storage.getUser(req.session.userId) : undefined;
+    if (!user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (user.role !== "admin") {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+    next();
+  } catch (error) {
+    console.error("Admin check error:", error);
+    res.status(500).json({ error: "Failed to check admin access" });
+  }
+}
+
 // Middleware to add user ID to request if available (optional auth)
 export function optionalAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   if (req.session && req.session.userId) {
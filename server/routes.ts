@@ -1,15 +1,19 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { randomBytes } from "crypto";
-import { storage } from "./storage";
+import { storage, TaskBlockedError, WorkflowTransitionError, calculateWeightedProgress, buildWeeklyTimesheet, startOfWeek } from "./storage";
 import { aiService } from "./services/ai";
-import { insertProjectSchema, insertTaskSchema, insertMeetingSchema, insertUserSettingsSchema, insertInvitationSchema, insertExternalMeetingSchema } from "@shared/schema";
+import { insertProjectSchema, insertTaskSchema, insertTaskCommentSchema, insertTimeEntrySchema, insertSprintSchema, insertLabelSchema, insertMeetingSchema, insertUserSettingsSchema, insertInvitationSchema, insertExternalMeetingSchema, suggestedTaskReviewSchema, suggestedTaskMergeSchema, type Task, type TaskComment, type Label, type Meeting, type TranscriptSegment, type SpeakerMap, type User, type SprintSummary, type RecordingUpload, type SuggestedTask, type AcceptedTask, type ProposedTask, type RegisterEntryKind, MAX_RECORDING_UPLOAD_BYTES, MAX_UPLOAD_CHUNK_BYTES, workflowSchema, getWorkflow, isTaskDone } from "@shared/schema";
 import { emailService } from "./services/email";
 import { transcriptionService } from "./services/transcription";
 import { analyticsService } from "./services/analytics";
+import { searchService, SearchQueryError } from "./services/search";
+import { taskSimilarityService } from "./services/similarity";
+import { recordActivity, diffFields } from "./activity";
+import { jobWorker } from "./jobs";
 import { authService } from "./auth";
 import { registerProjectRoutes } from "./routes/projects";
-import { getUserId, requireAuth } from "./middleware/auth";
+import { getUserId, requireAuth, requireAdmin } from "./middleware/auth";
 import { OutlookService } from "./services/outlook";
 import { 
   generateRegistrationOptions, 
@@ -19,40 +23,141 @@ import {
 } from "@simplewebauthn/server";
 import crypto from "crypto";
 
-// Helper function to calculate string similarity using Levenshtein distance
-function calculateStringSimilarity(str1: string, str2: string): number {
-  const len1 = str1.length;
-  const len2 = str2.length;
-  
-  if (len1 === 0) return len2 === 0 ? 1 : 0;
-  if (len2 === 0) return 0;
-  
-  // Create a matrix to store distances
-  const matrix: number[][] = Array(len1 + 1).fill(null).map(() => Array(len2 + 1).fill(0));
-  
-  // Initialize first row and column
-  for (let i = 0; i <= len1; i++) matrix[i][0] = i;
-  for (let j = 0; j <= len2; j++) matrix[0][j] = j;
-  
-  // Fill the matrix
-  for (let i = 1; i <= len1; i++) {
-    for (let j = 1; j <= len2; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,     // deletion
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j - 1] + 1  // substitution
+// Resolve @username mentions in a comment against the people on the task's project
+function extractMentionedUsers(body: string, candidates: User[]): User[] {
+  const usernames = new Set(
+    Array.from(body.matchAll(/@([\w.-]+)/g)).map(match => match[1].toLowerCase())
+  );
+  return candidates.filter(user => usernames.has(user.username.toLowerCase()));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Project owner plus everyone in project_members - the people who can be @mentioned on its tasks
+async function getMentionableUsers(projectId: string): Promise<User[]> {
+  const project = await storage.getProject(projectId);
+  const members = await storage.getProjectMembers(projectId);
+  const owner = project ? await storage.getUser(project.ownerId) : undefined;
+
+  const usersById = new Map<string, User>();
+  if (owner) usersById.set(owner.id, owner);
+  for (const member of members) {
+    if (member.user) usersById.set(member.user.id, member.user);
+  }
+  return Array.from(usersById.values());
+}
+
+// In-app notification for every mentioned user, plus an email when they have email notifications on
+async function notifyMentionedUsers(mentioned: User[], author: User, task: Task, comment: TaskComment): Promise<void> {
+  for (const user of mentioned) {
+    if (user.id === author.id) continue;
+
+    try {
+      await storage.createNotification({
+        userId: user.id,
+        title: "You were mentioned",
+        message: `${author.name} mentioned you on "${task.title}"`,
+        type: "task",
+        data: {
+          taskId: task.id,
+          projectId: task.projectId,
+          commentId: comment.id,
+          authorName: author.name,
+        }
+      });
+
+      const settings = await storage.getUserSettings(user.id);
+      if (settings?.emailNotifications ?? true) {
+        await emailService.sendNotificationEmail(
+          user.email,
+          `${author.name} mentioned you on "${task.title}"`,
+          `<p><strong>${escapeHtml(author.name)}</strong> wrote:</p><blockquote>${escapeHtml(comment.body).replace(/\n/g, "<br>")}</blockquote>`
         );
       }
+    } catch (error) {
+      console.error(`Failed to notify mentioned user ${user.id}:`, error);
     }
   }
-  
-  // Calculate similarity as a percentage
-  const maxLen = Math.max(len1, len2);
-  const distance = matrix[len1][len2];
-  return (maxLen - distance) / maxLen;
+}
+
+// Attach each task's labels so lists can show and filter them without a request per task
+async function withLabels<T extends { id: string }>(taskList: T[]): Promise<(T & { labels: Label[] })[]> {
+  const labelsByTask = await storage.getLabelsForTasks(taskList.map(task => task.id));
+  return taskList.map(task => ({ ...task, labels: labelsByTask.get(task.id) || [] }));
+}
+
+// Organizer, or anyone with access to the meeting's project
+async function canAccessMeeting(meeting: Meeting, userId: string): Promise<boolean> {
+  if (meeting.createdById === userId) return true;
+  if (!meeting.projectId) return false;
+  const userProjects = await storage.getProjects(userId);
+  return userProjects.some(p => p.id === meeting.projectId);
+}
+
+// People a transcript's speaker labels can be mapped to: the project's owner and members, or just the organizer
+async function getSpeakerCandidates(meeting: Meeting): Promise<{ id: string; name: string }[]> {
+  const candidates = new Map<string, string>();
+  const organizer = await storage.getUser(meeting.createdById);
+  if (organizer) candidates.set(organizer.id, organizer.name);
+
+  const project = meeting.projectId ? await storage.getProject(meeting.projectId) : undefined;
+  if (project) {
+    const owner = await storage.getUser(project.ownerId);
+    if (owner) candidates.set(owner.id, owner.name);
+    for (const member of await storage.getProjectMembers(project.id)) {
+      candidates.set(member.user.id, member.user.name);
+    }
+  }
+
+  return Array.from(candidates, ([id, name]) => ({ id, name }));
+}
+
+// A suggested task the user can review: pending, and from a meeting they can access
+async function getReviewableSuggestion(id: string, userId: string): Promise<{ suggestion: SuggestedTask; meeting: Meeting } | { status: number; message: string }> {
+  const suggestion = await storage.getSuggestedTask(id);
+  const meeting = suggestion && await storage.getMeeting(suggestion.meetingId);
+  if (!suggestion || !meeting) {
+    return { status: 404, message: "Suggested task not found" };
+  }
+  if (!(await canAccessMeeting(meeting, userId))) {
+    return { status: 403, message: "Not authorized to review this suggested task" };
+  }
+  if (suggestion.status !== "pending") {
+    return { status: 409, message: `This suggested task was already ${suggestion.status}` };
+  }
+  return { suggestion, meeting };
+}
+
+// Tasks can only go into the user's own projects and be assigned to people on that project
+async function checkReviewTarget(projectId: string, assigneeId: string | null | undefined, userId: string): Promise<string | null> {
+  const userProjects = await storage.getProjects(userId);
+  if (!userProjects.some(p => p.id === projectId)) {
+    return "Project not found";
+  }
+  if (assigneeId && !(await getMentionableUsers(projectId)).some(user => user.id === assigneeId)) {
+    return "Tasks can only be assigned to members of the project";
+  }
+  return null;
+}
+
+// ?weekStart=YYYY-MM-DD (any day in the week) -> Monday of that week; defaults to the current week
+function parseWeekStart(value: unknown): Date {
+  const date = typeof value === "string" && value ? new Date(`${value}T00:00:00`) : new Date();
+  return startOfWeek(isNaN(date.getTime()) ? new Date() : date);
+}
+
+// Hours the user actually logged over the last 7 days, or undefined when they haven't tracked any time
+async function getLoggedWeeklyHours(userId: string): Promise<number | undefined> {
+  const to = new Date();
+  const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const minutes = await storage.getLoggedMinutes(userId, from, to);
+  return minutes > 0 ? Math.round((minutes / 60) * 10) / 10 : undefined;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -545,7 +650,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/settings", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req as any, mockUserId);
-      const updatedSettings = await storage.updateUserSettings(userId, req.body);
+      const parsed = insertUserSettingsSchema.omit({ userId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const updatedSettings = await storage.updateUserSettings(userId, parsed.data);
+
+      // Working hours and timezone decide when this user's briefings go out
+      const { scheduler } = await import("./scheduler");
+      await scheduler.scheduleBriefings(userId);
+
       res.json(updatedSettings);
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -630,12 +744,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         projects.map(async (project) => {
           const allTasks = await storage.getTasks(project.id);
           const myTasks = allTasks.filter(task => task.assigneeId === userId);
-          const completedTasks = allTasks.filter(task => task.status === 'completed').length;
-          const actualProgress = allTasks.length > 0 ? Math.round((completedTasks / allTasks.length) * 100) : 0;
+          const topLevelTasks = allTasks.filter(task => !task.parentTaskId);
+          const completedTasks = topLevelTasks.filter(task => isTaskDone(task)).length;
+          const actualProgress = calculateWeightedProgress(allTasks);
           
           return {
             ...project,
-            totalTasks: allTasks.length,
+            totalTasks: topLevelTasks.length,
             completedTasks,
             myTasks: myTasks.length,
             actualProgress,
@@ -656,6 +771,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getUserId(req as any, mockUserId);
       const projectData = insertProjectSchema.parse({ ...req.body, ownerId: userId });
       const project = await storage.createProject(projectData);
+      await recordActivity({
+        projectId: project.id,
+        actorId: userId,
+        entityType: "project",
+        entityId: project.id,
+        entityTitle: project.name,
+        action: "created",
+      });
       res.json(project);
     } catch (error: any) {
       console.error("Project creation error:", error);
@@ -688,16 +811,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:id/tasks", requireAuth, async (req, res) => {
     try {
       const tasks = await storage.getTasksByProject(req.params.id);
-      res.json(tasks);
+      res.json(await withLabels(tasks));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch project tasks" });
     }
   });
 
+  // Audit log for a project, newest first
+  app.get("/api/projects/:id/activity", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const { events, total } = await storage.getProjectActivity(req.params.id, limit, offset);
+
+      res.json({
+        events,
+        total,
+        limit,
+        offset,
+        hasMore: offset + events.length < total,
+      });
+    } catch (error: any) {
+      console.error("Project activity fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch project activity", error: error.message });
+    }
+  });
+
   app.put("/api/projects/:id", requireAuth, async (req, res) => {
     try {
+      const userId = getUserId(req as any, mockUserId);
       const updates = insertProjectSchema.partial().parse(req.body);
+      const before = await storage.getProject(req.params.id);
       const project = await storage.updateProject(req.params.id, updates);
+      await recordActivity({
+        projectId: project.id,
+        actorId: userId,
+        entityType: "project",
+        entityId: project.id,
+        entityTitle: project.name,
+        action: updates.status === "completed" && before?.status !== "completed" ? "completed" : "updated",
+        changes: before ? diffFields(before, updates) : null,
+      });
       res.json(project);
     } catch (error: any) {
       console.error("Project update error:", error);
@@ -705,6 +865,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Replace the project's ordered status list; tasks in removed statuses move to the same category
+  app.put("/api/projects/:id/workflow", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      const before = userProjects.find(p => p.id === req.params.id);
+      if (!before) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const workflow = workflowSchema.parse(req.body.statuses);
+      const project = await storage.updateProjectWorkflow(req.params.id, workflow);
+      await recordActivity({
+        projectId: project.id,
+        actorId: userId,
+        entityType: "project",
+        entityId: project.id,
+        entityTitle: project.name,
+        action: "updated",
+        changes: diffFields(
+          { workflow: getWorkflow(before).map(status => status.name).join(" → ") },
+          { workflow: workflow.map(status => status.name).join(" → ") }
+        ),
+      });
+      res.json(project);
+    } catch (error: any) {
+      console.error("Project workflow update error:", error);
+      res.status(400).json({ message: "Invalid workflow", error: error.message });
+    }
+  });
+
   app.delete("/api/projects/:id", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req as any, mockUserId);
@@ -722,6 +913,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Delete project and all associated data (tasks, meetings, members, invitations)
       await storage.deleteProject(projectId);
+      await recordActivity({
+        projectId,
+        actorId: userId,
+        entityType: "project",
+        entityId: projectId,
+        entityTitle: project.name,
+        action: "deleted",
+      });
       res.json({ message: "Project and all associated data deleted successfully" });
     } catch (error: any) {
       console.error("Project deletion error:", error);
@@ -780,6 +979,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pairs of tasks in the project that look like the same work, most similar first
+  app.get("/api/projects/:id/duplicate-tasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json({ pairs: await taskSimilarityService.findDuplicates(req.params.id) });
+    } catch (error: any) {
+      console.error("Duplicate tasks report error:", error);
+      res.status(503).json({ message: "Duplicate detection is unavailable", error: error.message });
+    }
+  });
+
+  // Decisions, risks and open questions from the project's meetings; ?kind=decision,risk&q=billing&meetingId=
+  app.get("/api/projects/:id/register", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const kinds = typeof req.query.kind === "string" && req.query.kind
+        ? req.query.kind.split(",").filter((kind): kind is RegisterEntryKind => ["decision", "risk", "open_question"].includes(kind))
+        : undefined;
+      const entries = await storage.getProjectRegister(req.params.id, {
+        kinds,
+        meetingId: typeof req.query.meetingId === "string" && req.query.meetingId ? req.query.meetingId : undefined,
+        search: typeof req.query.q === "string" && req.query.q.trim() ? req.query.q.trim() : undefined,
+      });
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch project register", error: error.message });
+    }
+  });
+
+  // Owner and members - the people a task in the project can be assigned to
+  app.get("/api/projects/:id/assignees", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const assignees = await getMentionableUsers(req.params.id);
+      res.json(assignees.map(user => ({ id: user.id, name: user.name })));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch project assignees", error: error.message });
+    }
+  });
+
   app.post("/api/projects/:id/invite", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req as any, mockUserId);
@@ -850,6 +1102,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiresAt
       });
 
+      await recordActivity({
+        projectId: project.id,
+        actorId: userId,
+        entityType: "project",
+        entityId: project.id,
+        entityTitle: project.name,
+        action: "invited",
+        changes: { inviteeEmail: { from: null, to: email }, role: { from: null, to: role } },
+      });
+
       // Create in-app notification for existing users
       if (existingUser) {
         await storage.createNotification({
@@ -910,6 +1172,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.removeProjectMember(req.params.id, req.params.userId);
+      await recordActivity({
+        projectId: project.id,
+        actorId: currentUserId,
+        entityType: "project",
+        entityId: project.id,
+        entityTitle: project.name,
+        action: "member_removed",
+        changes: { memberId: { from: req.params.userId, to: null } },
+      });
       res.json({ message: "Member removed successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to remove member" });
@@ -1086,16 +1357,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Full-text search over tasks, projects and meetings, e.g. ?q=status:in_progress assignee:me "api migration"
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+      if (!q) {
+        return res.json({ query: q, tasks: [], projects: [], meetings: [] });
+      }
+
+      const filters = searchService.parse(q, userId);
+      const projectIds = (await storage.getProjects(userId)).map(p => p.id);
+      const [tasks, projects, meetings] = await Promise.all([
+        filters.types.includes("task") ? storage.searchTasks(projectIds, filters, limit) : [],
+        filters.types.includes("project") ? storage.searchProjects(projectIds, filters, limit) : [],
+        filters.types.includes("meeting") ? storage.searchMeetings(userId, filters, limit) : [],
+      ]);
+
+      res.json({ query: q, filters, tasks, projects, meetings });
+    } catch (error: any) {
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Search error:", error);
+      res.status(500).json({ message: "Search failed", error: error.message });
+    }
+  });
+
   // Tasks
+  // ?labelIds=a,b keeps tasks carrying any of those labels; ?label=name matches by name across projects
   app.get("/api/tasks", requireAuth, async (req, res) => {
     try {
       const { projectId } = req.query;
       const userId = getUserId(req as any, "");
+      const labelIds = typeof req.query.labelIds === "string" ? req.query.labelIds.split(",").filter(Boolean) : [];
+      const labelName = typeof req.query.label === "string" ? req.query.label.trim().toLowerCase() : "";
+
+      const filterByLabels = async (taskList: Task[]) => {
+        const labelled = await withLabels(taskList);
+        return labelled.filter(task =>
+          (labelIds.length === 0 || task.labels.some(label => labelIds.includes(label.id))) &&
+          (!labelName || task.labels.some(label => label.name.toLowerCase() === labelName))
+        );
+      };
       
       if (projectId) {
         // Get tasks for a specific project
         const tasks = await storage.getTasks(projectId as string, userId);
-        res.json(tasks);
+        res.json(await filterByLabels(tasks));
       } else {
         // Get all tasks for the user across all their projects
         const userProjects = await storage.getProjects(userId);
@@ -1112,7 +1422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
           return dateB - dateA;
         });
-        res.json(allTasks);
+        res.json(await filterByLabels(allTasks));
       }
     } catch (error) {
       console.error('Error fetching tasks:', error);
@@ -1120,59 +1430,1000 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks", requireAuth, async (req, res) => {
+  // ?projectId=&title=&description=&excludeTaskId= - existing tasks that mean roughly the same, for duplicate warnings
+  app.get("/api/tasks/similar", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const projectId = typeof req.query.projectId === "string" ? req.query.projectId : "";
+      const title = typeof req.query.title === "string" ? req.query.title.trim() : "";
+      const description = typeof req.query.description === "string" ? req.query.description : null;
+      const excludeTaskId = typeof req.query.excludeTaskId === "string" ? req.query.excludeTaskId : undefined;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 5, 1), 20);
+
+      if (!projectId || !title) {
+        return res.status(400).json({ message: "projectId and title are required" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === projectId)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const similar = await taskSimilarityService.findSimilar(projectId, { title, description }, { excludeTaskId, limit });
+      res.json({ tasks: similar });
+    } catch (error: any) {
+      console.error("Similar tasks error:", error);
+      res.status(503).json({ message: "Similar task lookup is unavailable", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const taskData = insertTaskSchema.parse(req.body);
+      const task = await storage.createTask(taskData);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "created",
+      });
+      res.json(task);
+    } catch (error: any) {
+      console.error("Task creation error:", error);
+      res.status(400).json({ message: "Invalid task data", error: error.message });
+    }
+  });
+
+  app.put("/api/tasks/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const updates = insertTaskSchema.partial().parse(req.body);
+      const before = await storage.getTask(req.params.id);
+      const task = await storage.updateTask(req.params.id, updates, userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: isTaskDone(task) && before && !isTaskDone(before) ? "completed" : "updated",
+        changes: before ? diffFields(before, updates) : null,
+      });
+      res.json(task);
+    } catch (error) {
+      if (error instanceof TaskBlockedError) {
+        return res.status(409).json({ message: error.message, blockedBy: error.blockers });
+      }
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid task data", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/tasks/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      await storage.deleteTask(req.params.id);
+      if (task) {
+        await recordActivity({
+          projectId: task.projectId,
+          actorId: userId,
+          entityType: "task",
+          entityId: task.id,
+          entityTitle: task.title,
+          action: "deleted",
+        });
+      }
+      res.json({ message: "Task deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // Batch delete tasks endpoint
+  app.post("/api/tasks/batch-delete", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const { taskIds } = req.body;
+      
+      if (!Array.isArray(taskIds) || taskIds.length === 0) {
+        return res.status(400).json({ message: "Task IDs array is required" });
+      }
+
+      const deletedTasks = await Promise.all(taskIds.map((id: string) => storage.getTask(id)));
+        await storage.deleteTasks(taskIds);
+
+      for (const task of deletedTasks) {
+        if (!task) continue;
+        await recordActivity({
+          projectId: task.projectId,
+          actorId: userId,
+          entityType: "task",
+          entityId: task.id,
+          entityTitle: task.title,
+          action: "deleted",
+        });
+      }
+      
+      res.json({ 
+        message: `${taskIds.length} tasks deleted successfully`,
+        deletedCount: taskIds.length,
+        taskIds: taskIds
+      });
+    } catch (error: any) {
+      console.error("Batch delete tasks error:", error);
+      res.status(500).json({ 
+        message: "Failed to delete tasks", 
+        error: error.message 
+      });
+    }
+  });
+
+  // Subtasks / checklist items for a task
+  app.get("/api/tasks/:id/subtasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const subtasks = await storage.getSubtasks(task.id);
+      res.json(subtasks);
+    } catch (error: any) {
+      console.error("Subtasks fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch subtasks", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/subtasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const parent = await storage.getTask(req.params.id);
+      if (!parent) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === parent.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const subtaskData = insertTaskSchema.parse({
+        priority: parent.priority,
+        ...req.body,
+        projectId: parent.projectId,
+        parentTaskId: parent.id,
+      });
+      const subtask = await storage.createTask(subtaskData);
+      await recordActivity({
+        projectId: subtask.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: subtask.id,
+        entityTitle: subtask.title,
+        action: "created",
+        changes: { parentTaskId: { from: null, to: parent.id } },
+      });
+      res.json(subtask);
+    } catch (error: any) {
+      console.error("Subtask creation error:", error);
+      res.status(400).json({ message: "Invalid subtask data", error: error.message });
+    }
+  });
+
+  // Task comments with @mentions
+  app.get("/api/tasks/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const comments = await storage.getTaskComments(task.id);
+      res.json(comments);
+    } catch (error: any) {
+      console.error("Task comments fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch comments", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const author = await storage.getUser(userId);
+      if (!author) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { body, parentCommentId } = req.body;
+      const mentioned = extractMentionedUsers(body || "", await getMentionableUsers(task.projectId));
+      const commentData = insertTaskCommentSchema.parse({
+        taskId: task.id,
+        authorId: userId,
+        parentCommentId: parentCommentId || null,
+        body,
+        mentionedUserIds: mentioned.map(user => user.id),
+      });
+
+      const comment = await storage.createTaskComment(commentData);
+      await notifyMentionedUsers(mentioned, author, task, comment);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "commented",
+      });
+
+      res.json(comment);
+    } catch (error: any) {
+      console.error("Task comment creation error:", error);
+      res.status(400).json({ message: "Invalid comment", error: error.message });
+    }
+  });
+
+  app.put("/api/tasks/:id/comments/:commentId", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const comment = await storage.getTaskComment(req.params.commentId);
+      if (!comment || comment.taskId !== req.params.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== userId) {
+        return res.status(403).json({ message: "Only the author can edit this comment" });
+      }
+
+      const task = await storage.getTask(comment.taskId);
+      const author = await storage.getUser(userId);
+      if (!task || !author) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const { body } = insertTaskCommentSchema.pick({ body: true }).parse(req.body);
+      const mentioned = extractMentionedUsers(body, await getMentionableUsers(task.projectId));
+      const updated = await storage.updateTaskComment(comment.id, body, mentioned.map(user => user.id));
+
+      // Only people newly mentioned by the edit get notified
+      const previouslyMentioned = new Set((comment.mentionedUserIds as string[] | null) || []);
+      await notifyMentionedUsers(mentioned.filter(user => !previouslyMentioned.has(user.id)), author, task, updated);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "comment",
+        entityId: comment.id,
+        entityTitle: task.title,
+        action: "updated",
+        changes: diffFields(comment, { body }),
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Task comment update error:", error);
+      res.status(400).json({ message: "Invalid comment", error: error.message });
+    }
+  });
+
+  app.delete("/api/tasks/:id/comments/:commentId", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const comment = await storage.getTaskComment(req.params.commentId);
+      if (!comment || comment.taskId !== req.params.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== userId) {
+        return res.status(403).json({ message: "Only the author can delete this comment" });
+      }
+
+      const task = await storage.getTask(comment.taskId);
+      await storage.deleteTaskComment(comment.id);
+      await recordActivity({
+        projectId: task?.projectId ?? null,
+        actorId: userId,
+        entityType: "comment",
+        entityId: comment.id,
+        entityTitle: task?.title ?? null,
+        action: "deleted",
+      });
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error: any) {
+      console.error("Task comment deletion error:", error);
+      res.status(500).json({ message: "Failed to delete comment", error: error.message });
+    }
+  });
+
+  // Task dependencies - what a task waits on and what waits on it
+  app.get("/api/tasks/:id/dependencies", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [dependencies, dependents] = await Promise.all([
+        storage.getTaskDependencies(task.id),
+        storage.getTaskDependents(task.id),
+      ]);
+
+      res.json({
+        taskId: task.id,
+        blockedBy: dependencies.map(d => d.dependsOn),
+        blocking: dependents.map(d => d.task),
+        isBlocked: dependencies.some(d => !isTaskDone(d.dependsOn)),
+      });
+    } catch (error: any) {
+      console.error("Task dependencies fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch task dependencies", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/dependencies", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const { dependsOnTaskId } = req.body;
+
+      if (!dependsOnTaskId || typeof dependsOnTaskId !== 'string') {
+        return res.status(400).json({ message: "dependsOnTaskId is required" });
+      }
+
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const dependency = await storage.addTaskDependency(task.id, dependsOnTaskId, userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "dependency_added",
+        changes: { dependsOnTaskId: { from: null, to: dependsOnTaskId } },
+      });
+      res.json(dependency);
+    } catch (error: any) {
+      console.error("Task dependency creation error:", error);
+      res.status(400).json({ message: error.message || "Invalid dependency" });
+    }
+  });
+
+  app.delete("/api/tasks/:id/dependencies/:dependsOnTaskId", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.removeTaskDependency(task.id, req.params.dependsOnTaskId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "dependency_removed",
+        changes: { dependsOnTaskId: { from: req.params.dependsOnTaskId, to: null } },
+      });
+      res.json({ message: "Dependency removed successfully" });
+    } catch (error: any) {
+      console.error("Task dependency removal error:", error);
+      res.status(500).json({ message: "Failed to remove dependency", error: error.message });
+    }
+  });
+
+  // All dependency links between the user's tasks (used by the task boards for blocked badges)
+  app.get("/api/task-dependencies", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+
+      const taskIds: string[] = [];
+      for (const project of userProjects) {
+        const projectTasks = await storage.getTasksByProject(project.id);
+        taskIds.push(...projectTasks.map(t => t.id));
+      }
+
+      const dependencies = await storage.getDependenciesForTasks(taskIds);
+      res.json(dependencies);
+    } catch (error: any) {
+      console.error("Task dependencies list error:", error);
+      res.status(500).json({ message: "Failed to fetch task dependencies", error: error.message });
+    }
+  });
+
+  // Time tracking - timers and manual entries per task
+  app.get("/api/tasks/:id/time-entries", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entries = await storage.getTimeEntries({ taskId: task.id });
+      res.json(entries);
+    } catch (error: any) {
+      console.error("Time entries fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch time entries", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/time-entries", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entryData = insertTimeEntrySchema.parse({
+        ...req.body,
+        taskId: task.id,
+        projectId: task.projectId,
+        userId,
+      });
+      const entry = await storage.createTimeEntry(entryData);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "time_logged",
+        changes: { durationMinutes: { from: null, to: entry.durationMinutes } },
+      });
+      res.json(entry);
+    } catch (error: any) {
+      console.error("Time entry creation error:", error);
+      res.status(400).json({ message: "Invalid time entry", error: error.message });
+    }
+  });
+
+  app.post("/api/tasks/:id/timer/start", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entry = await storage.startTimer(task.id, userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "timer_started",
+      });
+      res.json(entry);
+    } catch (error: any) {
+      console.error("Timer start error:", error);
+      res.status(500).json({ message: "Failed to start timer", error: error.message });
+    }
+  });
+
+  // The current user's running timer, if any
+  app.get("/api/timer", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const running = await storage.getRunningTimer(userId);
+      if (!running) {
+        return res.json(null);
+      }
+
+      const task = await storage.getTask(running.taskId);
+      res.json({ ...running, task: task ? { id: task.id, title: task.title } : null });
+    } catch (error: any) {
+      console.error("Timer fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch timer", error: error.message });
+    }
+  });
+
+  app.post("/api/timer/stop", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const entry = await storage.stopTimer(userId);
+      if (!entry) {
+        return res.status(404).json({ message: "No timer is running" });
+      }
+
+      const task = await storage.getTask(entry.taskId);
+      await recordActivity({
+        projectId: entry.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: entry.taskId,
+        entityTitle: task?.title ?? null,
+        action: "time_logged",
+        changes: { durationMinutes: { from: null, to: entry.durationMinutes } },
+      });
+      res.json(entry);
+    } catch (error: any) {
+      console.error("Timer stop error:", error);
+      res.status(500).json({ message: "Failed to stop timer", error: error.message });
+    }
+  });
+
+  app.put("/api/time-entries/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const existing = await storage.getTimeEntry(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ message: "Only the person who logged this time can edit it" });
+      }
+
+      const updates = insertTimeEntrySchema.pick({ startedAt: true, endedAt: true, durationMinutes: true, note: true }).partial().parse(req.body);
+      const entry = await storage.updateTimeEntry(existing.id, updates);
+      await recordActivity({
+        projectId: entry.projectId,
+        actorId: userId,
+        entityType: "time_entry",
+        entityId: entry.id,
+        entityTitle: null,
+        action: "updated",
+        changes: diffFields(existing, updates),
+      });
+      res.json(entry);
+    } catch (error: any) {
+      console.error("Time entry update error:", error);
+      res.status(400).json({ message: "Invalid time entry", error: error.message });
+    }
+  });
+
+  app.delete("/api/time-entries/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const existing = await storage.getTimeEntry(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ message: "Only the person who logged this time can delete it" });
+      }
+
+      await storage.deleteTimeEntry(existing.id);
+      await recordActivity({
+        projectId: existing.projectId,
+        actorId: userId,
+        entityType: "time_entry",
+        entityId: existing.id,
+        entityTitle: null,
+        action: "deleted",
+        changes: { durationMinutes: { from: existing.durationMinutes, to: null } },
+      });
+      res.json({ message: "Time entry deleted successfully" });
+    } catch (error: any) {
+      console.error("Time entry deletion error:", error);
+      res.status(500).json({ message: "Failed to delete time entry", error: error.message });
+    }
+  });
+
+  // Weekly timesheets
+  app.get("/api/timesheets/me", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const weekStart = parseWeekStart(req.query.weekStart);
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekEnd.getDate() + 7);
+
+      const entries = await storage.getTimeEntries({ userId, from: weekStart, to: weekEnd });
+      res.json({ ...buildWeeklyTimesheet(entries, weekStart), entries });
+    } catch (error: any) {
+      console.error("Timesheet fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch timesheet", error: error.message });
+    }
+  });
+
+  app.get("/api/projects/:id/timesheet", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const weekStart = parseWeekStart(req.query.weekStart);
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekEnd.getDate() + 7);
+
+      const entries = await storage.getTimeEntries({
+        projectId: req.params.id,
+        userId: typeof req.query.userId === "string" ? req.query.userId : undefined,
+        from: weekStart,
+        to: weekEnd,
+      });
+      res.json({ ...buildWeeklyTimesheet(entries, weekStart), entries });
+    } catch (error: any) {
+      console.error("Project timesheet fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch project timesheet", error: error.message });
+    }
+  });
+
+  // Sprints
+  app.get("/api/projects/:id/sprints", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const sprints = await storage.getSprints(req.params.id);
+      res.json(sprints);
+    } catch (error: any) {
+      console.error("Sprints fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch sprints", error: error.message });
+    }
+  });
+
+  app.post("/api/projects/:id/sprints", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const sprintData = insertSprintSchema.parse({ ...req.body, projectId: req.params.id });
+      const sprint = await storage.createSprint(sprintData);
+      await recordActivity({
+        projectId: sprint.projectId,
+        actorId: userId,
+        entityType: "sprint",
+        entityId: sprint.id,
+        entityTitle: sprint.name,
+        action: "created",
+      });
+      res.json(sprint);
+    } catch (error: any) {
+      console.error("Sprint creation error:", error);
+      res.status(400).json({ message: "Invalid sprint data", error: error.message });
+    }
+  });
+
+  app.put("/api/sprints/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const before = await storage.getSprint(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Sprint not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === before.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updates = insertSprintSchema.partial().parse(req.body);
+      const sprint = await storage.updateSprint(req.params.id, updates);
+      await recordActivity({
+        projectId: sprint.projectId,
+        actorId: userId,
+        entityType: "sprint",
+        entityId: sprint.id,
+        entityTitle: sprint.name,
+        action: "updated",
+        changes: diffFields(before, updates),
+      });
+      res.json(sprint);
+    } catch (error: any) {
+      console.error("Sprint update error:", error);
+      res.status(400).json({ message: "Invalid sprint data", error: error.message });
+    }
+  });
+
+  app.post("/api/sprints/:id/start", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const existing = await storage.getSprint(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Sprint not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === existing.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const sprint = await storage.startSprint(req.params.id);
+      await recordActivity({
+        projectId: sprint.projectId,
+        actorId: userId,
+        entityType: "sprint",
+        entityId: sprint.id,
+        entityTitle: sprint.name,
+        action: "started",
+      });
+      res.json(sprint);
+    } catch (error: any) {
+      console.error("Sprint start error:", error);
+      res.status(409).json({ message: error.message });
+    }
+  });
+
+  // Closing moves unfinished tasks into the next planned sprint (created if there is none)
+  app.post("/api/sprints/:id/close", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const existing = await storage.getSprint(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Sprint not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === existing.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await storage.closeSprint(req.params.id);
+      await recordActivity({
+        projectId: result.sprint.projectId,
+        actorId: userId,
+        entityType: "sprint",
+        entityId: result.sprint.id,
+        entityTitle: result.sprint.name,
+        action: "closed",
+        changes: result.nextSprint
+          ? { rolledOverTo: { from: null, to: `${result.nextSprint.name} (${result.rolledOverTaskIds.length} tasks)` } }
+          : null,
+      });
+      res.json(result);
+    } catch (error: any) {
+      console.error("Sprint close error:", error);
+      res.status(409).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/sprints/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const sprint = await storage.getSprint(req.params.id);
+      if (!sprint) {
+        return res.status(404).json({ message: "Sprint not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === sprint.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteSprint(req.params.id);
+      await recordActivity({
+        projectId: sprint.projectId,
+        actorId: userId,
+        entityType: "sprint",
+        entityId: sprint.id,
+        entityTitle: sprint.name,
+        action: "deleted",
+      });
+      res.json({ message: "Sprint deleted successfully" });
+    } catch (error: any) {
+      console.error("Sprint deletion error:", error);
+      res.status(409).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/sprints/:id/report", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const sprint = await storage.getSprint(req.params.id);
+      if (!sprint) {
+        return res.status(404).json({ message: "Sprint not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      const project = userProjects.find(p => p.id === sprint.projectId);
+      if (!project) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // A closed sprint's rolled-over tasks now live in the next sprint but still count as committed here
+      const summary = sprint.summary as SprintSummary | null;
+      const sprintTasks = await storage.getSprintTasks(sprint.id);
+      const rolledOver = summary?.rolledOverTaskIds.length
+        ? (await storage.getTasksByProject(sprint.projectId)).filter(t => summary.rolledOverTaskIds.includes(t.id))
+        : [];
+
+      const tasks = [...sprintTasks, ...rolledOver];
+      res.json({
+        ...analyticsService.generateSprintReport(project, sprint, tasks),
+        tasks,
+      });
+    } catch (error: any) {
+      console.error("Sprint report error:", error);
+      res.status(500).json({ message: "Failed to generate sprint report", error: error.message });
+    }
+  });
+
+  // Labels
+  app.get("/api/projects/:id/labels", requireAuth, async (req, res) => {
     try {
-      const taskData = insertTaskSchema.parse(req.body);
-      const task = await storage.createTask(taskData);
-      res.json(task);
+      const userId = getUserId(req as any, mockUserId);
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const labels = await storage.getLabels(req.params.id);
+      res.json(labels);
     } catch (error: any) {
-      console.error("Task creation error:", error);
-      res.status(400).json({ message: "Invalid task data", error: error.message });
+      console.error("Labels fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch labels", error: error.message });
     }
   });
 
-  app.put("/api/tasks/:id", requireAuth, async (req, res) => {
+  app.post("/api/projects/:id/labels", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req as any, mockUserId);
-      const updates = insertTaskSchema.partial().parse(req.body);
-      const task = await storage.updateTask(req.params.id, updates, userId);
-      res.json(task);
-    } catch (error) {
-      res.status(400).json({ message: "Invalid task data" });
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === req.params.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const labelData = insertLabelSchema.parse({ ...req.body, projectId: req.params.id });
+      const label = await storage.createLabel(labelData);
+      await recordActivity({
+        projectId: label.projectId,
+        actorId: userId,
+        entityType: "label",
+        entityId: label.id,
+        entityTitle: label.name,
+        action: "created",
+      });
+      res.json(label);
+    } catch (error: any) {
+      console.error("Label creation error:", error);
+      res.status(400).json({ message: "Invalid label data", error: error.message });
     }
   });
 
-  app.delete("/api/tasks/:id", requireAuth, async (req, res) => {
+  app.put("/api/labels/:id", requireAuth, async (req, res) => {
     try {
-      await storage.deleteTask(req.params.id);
-      res.json({ message: "Task deleted successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete task" });
+      const userId = getUserId(req as any, mockUserId);
+      const label = await storage.getLabel(req.params.id);
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === label.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updates = insertLabelSchema.partial().omit({ projectId: true }).parse(req.body);
+      const updated = await storage.updateLabel(req.params.id, updates);
+      await recordActivity({
+        projectId: label.projectId,
+        actorId: userId,
+        entityType: "label",
+        entityId: label.id,
+        entityTitle: updated.name,
+        action: "updated",
+        changes: diffFields(label, updates),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Label update error:", error);
+      res.status(400).json({ message: "Invalid label data", error: error.message });
     }
   });
 
-  // Batch delete tasks endpoint
-  app.post("/api/tasks/batch-delete", requireAuth, async (req, res) => {
+  app.delete("/api/labels/:id", requireAuth, async (req, res) => {
     try {
-      const { taskIds } = req.body;
-      
-      if (!Array.isArray(taskIds) || taskIds.length === 0) {
-        return res.status(400).json({ message: "Task IDs array is required" });
+      const userId = getUserId(req as any, mockUserId);
+      const label = await storage.getLabel(req.params.id);
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === label.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-        await storage.deleteTasks(taskIds);
-      
-      res.json({ 
-        message: `${taskIds.length} tasks deleted successfully`,
-        deletedCount: taskIds.length,
-        taskIds: taskIds
+      await storage.deleteLabel(req.params.id);
+      await recordActivity({
+        projectId: label.projectId,
+        actorId: userId,
+        entityType: "label",
+        entityId: label.id,
+        entityTitle: label.name,
+        action: "deleted",
       });
+      res.json({ message: "Label deleted successfully" });
     } catch (error: any) {
-      console.error("Batch delete tasks error:", error);
-      res.status(500).json({ 
-        message: "Failed to delete tasks", 
-        error: error.message 
+      console.error("Label deletion error:", error);
+      res.status(500).json({ message: "Failed to delete label", error: error.message });
+    }
+  });
+
+  app.put("/api/tasks/:id/labels", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const userProjects = await storage.getProjects(userId);
+      if (!userProjects.some(p => p.id === task.projectId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { labelIds } = req.body;
+      if (!Array.isArray(labelIds) || !labelIds.every(id => typeof id === "string")) {
+        return res.status(400).json({ message: "labelIds must be an array of label ids" });
+      }
+      const before = (await storage.getLabelsForTasks([task.id])).get(task.id) || [];
+      const labels = await storage.setTaskLabels(task.id, labelIds);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "updated",
+        changes: diffFields({ labels: before.map(l => l.name) }, { labels: labels.map(l => l.name) }),
       });
+      res.json(labels);
+    } catch (error: any) {
+      console.error("Task labels update error:", error);
+      res.status(400).json({ message: "Failed to update task labels", error: error.message });
     }
   });
 
@@ -1270,6 +2521,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       delete meetingData.recordingId;
       
       const meeting = await storage.createMeeting(meetingData);
+      await recordActivity({
+        projectId: meeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: meeting.id,
+        entityTitle: meeting.title,
+        action: "created",
+      });
       res.json(meeting);
     } catch (error: any) {
       console.error("Meeting creation error:", error);
@@ -1312,6 +2571,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const meeting = await storage.createExternalMeeting(meetingData);
+      await recordActivity({
+        projectId: meeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: meeting.id,
+        entityTitle: meeting.title,
+        action: "created",
+      });
       res.json(meeting);
     } catch (error: any) {
       console.error("External meeting creation error:", error);
@@ -1381,6 +2648,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedMeeting = await storage.linkExternalMeetingToProject(meeting.id, projectId);
+      await recordActivity({
+        projectId: updatedMeeting.projectId ?? meeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: updatedMeeting.id,
+        entityTitle: updatedMeeting.title,
+        action: "linked",
+        changes: diffFields(meeting, { projectId: updatedMeeting.projectId }),
+      });
       
       // 🔄 CRITICAL: Update the cache with the new project link AND project name
       const cacheKey = `${userId}-`;
@@ -1462,6 +2738,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteExternalMeeting(meetingId);
+      await recordActivity({
+        projectId: meeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: meeting.id,
+        entityTitle: meeting.title,
+        action: "deleted",
+      });
       res.json({ message: "External meeting deleted successfully" });
     } catch (error: any) {
       console.error("Failed to delete external meeting:", error);
@@ -1492,6 +2776,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const updatedMeeting = await storage.updateMeeting(meetingId, updateData);
+      await recordActivity({
+        projectId: updatedMeeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: updatedMeeting.id,
+        entityTitle: updatedMeeting.title,
+        action: "updated",
+        changes: diffFields(meeting, req.body.scheduledAt ? updateData : req.body),
+      });
       res.json(updatedMeeting);
     } catch (error: any) {
       console.error("Failed to update meeting:", error);
@@ -1532,6 +2825,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await Promise.all(
         validMeetings.map(meeting => meeting && storage.deleteMeeting(meeting.id))
       );
+
+      for (const meeting of validMeetings) {
+        if (!meeting) continue;
+        await recordActivity({
+          projectId: meeting.projectId,
+          actorId: userId,
+          entityType: "meeting",
+          entityId: meeting.id,
+          entityTitle: meeting.title,
+          action: "deleted",
+        });
+      }
       
       res.json({ 
         message: `Successfully deleted ${validMeetings.length} meeting(s)`,
@@ -1564,6 +2869,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteMeeting(meetingId);
+      await recordActivity({
+        projectId: meeting.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: meeting.id,
+        entityTitle: meeting.title,
+        action: "deleted",
+      });
       res.json({ message: "Meeting deleted successfully" });
     } catch (error) {
       console.error("Failed to delete meeting:", error);
@@ -1571,9 +2884,299 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Speaker-attributed transcript with who each "Speaker X" label has been matched to
+  app.get("/api/meetings/:id/transcript", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!(await canAccessMeeting(meeting, userId))) {
+        return res.status(403).json({ message: "Not authorized to access this meeting" });
+      }
+
+      const segments = (meeting.transcriptSegments as TranscriptSegment[] | null) || [];
+      const speakerMap = (meeting.speakerMap as SpeakerMap | null) || {};
+      const candidates = await getSpeakerCandidates(meeting);
+      const names = new Map(candidates.map(c => [c.id, c.name]));
+
+      // One entry per label in order of first appearance, with how much they spoke
+      const speakers = new Map<string, { label: string; userId: string | null; name: string | null; segmentCount: number; talkTimeMs: number }>();
+      for (const segment of segments) {
+        const mappedUserId = speakerMap[segment.speaker] || null;
+        const speaker = speakers.get(segment.speaker) || {
+          label: segment.speaker,
+          userId: mappedUserId,
+          name: mappedUserId ? names.get(mappedUserId) || null : null,
+          segmentCount: 0,
+          talkTimeMs: 0,
+        };
+        speaker.segmentCount++;
+        speaker.talkTimeMs += Math.max(0, segment.end - segment.start);
+        speakers.set(segment.speaker, speaker);
+      }
+
+      res.json({
+        meetingId: meeting.id,
+        text: meeting.transcription,
+        provider: meeting.transcriptionProvider,
+        segments,
+        speakerMap,
+        speakers: Array.from(speakers.values()),
+        candidates,
+      });
+    } catch (error: any) {
+      console.error("Meeting transcript fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch meeting transcript", error: error.message });
+    }
+  });
+
+  // Body: { speakerMap: { "Speaker A": userId | null } }; null clears that label's mapping
+  app.put("/api/meetings/:id/speakers", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!(await canAccessMeeting(meeting, userId))) {
+        return res.status(403).json({ message: "Not authorized to update this meeting" });
+      }
+
+      const updates = req.body.speakerMap;
+      if (!updates || typeof updates !== "object" || Array.isArray(updates)) {
+        return res.status(400).json({ message: "speakerMap must be an object of speaker label to user id" });
+      }
+
+      const segments = (meeting.transcriptSegments as TranscriptSegment[] | null) || [];
+      const labels = new Set(segments.map(segment => segment.speaker));
+      const candidateIds = new Set((await getSpeakerCandidates(meeting)).map(c => c.id));
+      const before = (meeting.speakerMap as SpeakerMap | null) || {};
+      const speakerMap: SpeakerMap = { ...before };
+
+      for (const [label, mappedUserId] of Object.entries(updates)) {
+        if (!labels.has(label)) {
+          return res.status(400).json({ message: `"${label}" is not a speaker in this transcript` });
+        }
+        if (mappedUserId === null || mappedUserId === "") {
+          delete speakerMap[label];
+        } else if (typeof mappedUserId === "string" && candidateIds.has(mappedUserId)) {
+          speakerMap[label] = mappedUserId;
+        } else {
+          return res.status(400).json({ message: `Speakers can only be matched to members of the meeting's project` });
+        }
+      }
+
+      const updated = await storage.updateMeetingTranscript(meeting.id, { speakerMap });
+      await recordActivity({
+        projectId: updated.projectId,
+        actorId: userId,
+        entityType: "meeting",
+        entityId: updated.id,
+        entityTitle: updated.title,
+        action: "updated",
+        changes: diffFields({ speakerMap: before }, { speakerMap }),
+      });
+      res.json({ speakerMap });
+    } catch (error: any) {
+      console.error("Meeting speaker mapping error:", error);
+      res.status(500).json({ message: "Failed to update speakers", error: error.message });
+    }
+  });
+
+  // Tasks suggested from recordings; nothing becomes a real task until someone accepts or merges it
+  app.get("/api/suggested-tasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      res.json(await storage.getPendingSuggestedTasks(userId));
+    } catch (error: any) {
+      console.error("Suggested tasks fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch suggested tasks", error: error.message });
+    }
+  });
+
+  // Every suggestion for the meeting, reviewed ones included, so what the AI proposed can be compared with what was accepted
+  app.get("/api/meetings/:id/suggested-tasks", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!(await canAccessMeeting(meeting, userId))) {
+        return res.status(403).json({ message: "Not authorized to access this meeting" });
+      }
+      res.json(await storage.getSuggestedTasksForMeeting(meeting.id));
+    } catch (error: any) {
+      console.error("Meeting suggested tasks fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch suggested tasks", error: error.message });
+    }
+  });
+
+  // Body: the reviewer's version of the task (suggestedTaskReviewSchema); creates the task
+  app.post("/api/suggested-tasks/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const found = await getReviewableSuggestion(req.params.id, userId);
+      if ("message" in found) {
+        return res.status(found.status).json({ message: found.message });
+      }
+      const parsed = suggestedTaskReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const review = parsed.data;
+      const invalid = await checkReviewTarget(review.projectId, review.assigneeId, userId);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const { suggestion, meeting } = found;
+      const task = await storage.createTask({
+        title: review.title,
+        description: review.description || null,
+        projectId: review.projectId,
+        priority: review.priority,
+        assigneeId: review.assigneeId || null,
+        dueDate: review.dueDate ? new Date(review.dueDate) : null,
+      });
+
+      const accepted: AcceptedTask = {
+        ...review,
+        description: review.description || null,
+        assigneeId: review.assigneeId || null,
+        dueDate: review.dueDate || null,
+      };
+      const reviewed = await storage.reviewSuggestedTask(suggestion.id, { status: "accepted", accepted, taskId: task.id, reviewedById: userId });
+      if (!reviewed) {
+        // Someone else reviewed it while this task was being created
+        await storage.deleteTask(task.id);
+        return res.status(409).json({ message: "This suggested task was already reviewed" });
+      }
+
+      // "other" is the extractor's catch-all, so it isn't worth a label
+      const category = (suggestion.proposed as ProposedTask).category;
+      if (category && category.toLowerCase() !== "other") {
+        try {
+          const label = await storage.findOrCreateLabel(task.projectId, category);
+          await storage.setTaskLabels(task.id, [label.id]);
+        } catch (labelError) {
+          console.error(`Failed to label task "${task.title}" as ${category}:`, labelError);
+        }
+      }
+
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "created",
+        changes: { meetingId: { from: null, to: meeting.id } },
+      });
+      res.json({ suggestion: reviewed, task });
+    } catch (error: any) {
+      console.error("Suggested task accept error:", error);
+      res.status(500).json({ message: "Failed to accept suggested task", error: error.message });
+    }
+  });
+
+  // Body: suggestedTaskMergeSchema. The suggestion is noted on the existing task, and fills in its
+  // assignee and due date if it has none, instead of creating a duplicate
+  app.post("/api/suggested-tasks/:id/merge", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const found = await getReviewableSuggestion(req.params.id, userId);
+      if ("message" in found) {
+        return res.status(found.status).json({ message: found.message });
+      }
+      const parsed = suggestedTaskMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { taskId, ...review } = parsed.data;
+      const target = await storage.getTask(taskId);
+      if (!target) {
+        return res.status(404).json({ message: "Task to merge into not found" });
+      }
+      const invalid = await checkReviewTarget(target.projectId, review.assigneeId, userId);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const { suggestion, meeting } = found;
+      const note = `From meeting "${meeting.title}": ${review.title}${review.description ? ` - ${review.description}` : ""}`;
+      const updates = {
+        description: target.description ? `${target.description}\n\n${note}` : note,
+        ...(!target.assigneeId && review.assigneeId ? { assigneeId: review.assigneeId } : {}),
+        ...(!target.dueDate && review.dueDate ? { dueDate: new Date(review.dueDate) } : {}),
+      };
+
+      const accepted: AcceptedTask = {
+        ...review,
+        projectId: target.projectId,
+        description: review.description || null,
+        assigneeId: review.assigneeId || null,
+        dueDate: review.dueDate || null,
+      };
+      // The task is updated first so a failed update leaves the suggestion pending to try again
+      const task = await storage.updateTask(target.id, updates, userId);
+      const reviewed = await storage.reviewSuggestedTask(suggestion.id, { status: "merged", accepted, taskId: target.id, reviewedById: userId });
+      if (!reviewed) {
+        // Someone else reviewed it while the task was being updated
+        const restore = Object.fromEntries(Object.keys(updates).map(key => [key, target[key as keyof Task]]));
+        await storage.updateTask(target.id, restore, userId);
+        return res.status(409).json({ message: "This suggested task was already reviewed" });
+      }
+
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "updated",
+        changes: diffFields(target, updates),
+      });
+      res.json({ suggestion: reviewed, task });
+    } catch (error: any) {
+      console.error("Suggested task merge error:", error);
+      res.status(500).json({ message: "Failed to merge suggested task", error: error.message });
+    }
+  });
+
+  app.post("/api/suggested-tasks/:id/reject", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const found = await getReviewableSuggestion(req.params.id, userId);
+      if ("message" in found) {
+        return res.status(found.status).json({ message: found.message });
+      }
+
+      const reviewed = await storage.reviewSuggestedTask(found.suggestion.id, { status: "rejected", accepted: null, taskId: null, reviewedById: userId });
+      if (!reviewed) {
+        return res.status(409).json({ message: "This suggested task was already reviewed" });
+      }
+      await recordActivity({
+        projectId: reviewed.projectId,
+        actorId: userId,
+        entityType: "suggested_task",
+        entityId: reviewed.id,
+        entityTitle: (reviewed.proposed as ProposedTask).title,
+        action: "rejected",
+        changes: { meetingId: { from: null, to: found.meeting.id } },
+      });
+      res.json({ suggestion: reviewed });
+    } catch (error: any) {
+      console.error("Suggested task reject error:", error);
+      res.status(500).json({ message: "Failed to reject suggested task", error: error.message });
+    }
+  });
+
   app.post("/api/meetings/:id/process-recording", requireAuth, async (req, res) => {
     try {
-      const { audioData, projectId } = req.body;
+      const { audioData, projectId, mimeType } = req.body;
       const meetingId = req.params.id;
       const userId = getUserId(req as any, mockUserId);
 
@@ -1609,9 +3212,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Re-sent uploads (e.g. a mobile client retrying after a dropped connection) get the job already running
+      const activeJob = await storage.getActiveJobForMeeting(meetingId);
+      if (activeJob) {
+        return res.status(202).json({ success: true, jobId: activeJob.id, state: activeJob.state });
+      }
+
       // 🚫 DUPLICATE PROCESSING PROTECTION - Check if meeting already processed
       const existingMeeting = await storage.getMeeting(meetingId);
-      if (existingMeeting && existingMeeting.transcription && existingMeeting.transcription.trim().length > 0) {
+      if (!existingMeeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (existingMeeting.transcription && existingMeeting.transcription.trim().length > 0) {
         console.log(`⏭️ Meeting ${meetingId} already processed - returning existing data without reprocessing`);
         console.log(`✅ Preventing duplicate email notification for meeting "${existingMeeting.title}"`);
         
@@ -1619,142 +3231,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({
           success: true,
           meeting: existingMeeting,
-          tasksCreated: Array.isArray(existingMeeting.extractedTasks) ? existingMeeting.extractedTasks.length : 0,
+          suggestedTaskCount: Array.isArray(existingMeeting.extractedTasks) ? existingMeeting.extractedTasks.length : 0,
           extractedTasks: existingMeeting.extractedTasks || [],
           transcription: existingMeeting.transcription,
           aiSummary: existingMeeting.aiSummary,
           alreadyProcessed: true // Flag to indicate this was already processed
         });
       }
-      
-      // Add timeout for processing large files (extended for 45+ minute recordings)
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Recording processing timeout - file may be too large')), 900000); // 15 minute timeout for long recordings
+
+      // Transcription and task extraction run in the background; clients poll GET /api/jobs/:id
+      const job = await storage.createProcessingJob({
+        type: "process-recording",
+        userId,
+        meetingId,
+        projectId: projectId || null,
+        mimeType: typeof mimeType === 'string' && mimeType ? mimeType : null,
+        audioData,
       });
+      jobWorker.wake();
 
-      // Get high-quality transcription with AssemblyAI (mobile-optimized) with timeout
-      console.log("Using AssemblyAI for professional mobile transcription...");
-      const { transcriptionService: ts } = await import("./services/transcription");
-      const transcriptionResult = await Promise.race([
-        ts.transcribeAudio(audioData),
-        timeoutPromise
-      ]) as any;
-      const transcription = transcriptionResult.text;
-      
-      if (!transcription || transcription.trim().length === 0) {
-        return res.status(400).json({ message: "No transcription generated from audio" });
+      res.status(202).json({ success: true, jobId: job.id, state: job.state });
+    } catch (error: any) {
+      console.error('Processing recording error:', error);
+      res.status(500).json({ 
+        message: "Failed to queue recording for processing", 
+        error: error.message || "Unknown error"
+      });
+    }
+  });
+
+  // Progress of a background job; the queued audio is never sent back
+  app.get("/api/jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const job = await storage.getProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to view this job" });
+      }
+
+      const { audioData, ...status } = job;
+      res.json(status);
+    } catch (error: any) {
+      console.error("Job status error:", error);
+      res.status(500).json({ message: "Failed to fetch job status", error: error.message });
+    }
+  });
+
+  // Resumable recording uploads (tus-style): create the upload, PUT raw byte-range chunks with an
+  // Upload-Offset header, check how far it got after a dropped connection, then complete it to queue processing
+  const uploadStatus = (upload: RecordingUpload) => ({
+    id: upload.id,
+    meetingId: upload.meetingId,
+    size: upload.size,
+    receivedBytes: upload.receivedBytes,
+    maxChunkBytes: MAX_UPLOAD_CHUNK_BYTES,
+    jobId: upload.jobId,
+  });
+
+  app.post("/api/recording-uploads", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const { meetingId, projectId, size, mimeType } = req.body;
+
+      if (!Number.isInteger(size) || size <= 0) {
+        return res.status(400).json({ message: "size must be a positive number of bytes" });
+      }
+      if (size > MAX_RECORDING_UPLOAD_BYTES) {
+        return res.status(413).json({ message: `Recording is too large; the limit is ${MAX_RECORDING_UPLOAD_BYTES / 1024 / 1024}MB` });
       }
-      
-      // Extract tasks using AI
-      const extractedTasks = await aiService.extractTasksFromText(transcription);
-      
-      // Generate meeting summary
-      const summary = await aiService.generateMeetingSummary(transcription);
 
-      // Update meeting with results
-      const meeting = await storage.updateMeeting(meetingId, {
-        transcription,
-        aiSummary: summary,
-        extractedTasks: extractedTasks,
+      const meeting = meetingId ? await storage.getMeeting(meetingId) : undefined;
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      const upload = await storage.createRecordingUpload({
+        userId,
+        meetingId,
+        projectId: projectId || null,
+        mimeType: typeof mimeType === 'string' && mimeType ? mimeType : 'audio/webm',
+        size,
       });
+      res.status(201).json(uploadStatus(upload));
+    } catch (error: any) {
+      console.error("Create recording upload error:", error);
+      res.status(500).json({ message: "Failed to start upload", error: error.message });
+    }
+  });
 
-      // Create tasks with enhanced logic and duplicate prevention
-      let createdTasks = [];
-      if (projectId && extractedTasks && extractedTasks.length > 0) {
-        // Get existing tasks for this project to check for duplicates
-        const existingTasks = await storage.getTasks(projectId);
-        
-        for (const taskData of extractedTasks) {
-          // Check for duplicate tasks using similarity matching
-          const isDuplicate = existingTasks.some(existingTask => {
-            // Exact title match (case insensitive)
-            if (existingTask.title.toLowerCase().trim() === taskData.title.toLowerCase().trim()) {
-              return true;
-            }
-            
-            // High similarity check (80% similarity threshold)
-            const similarity = calculateStringSimilarity(
-              existingTask.title.toLowerCase(), 
-              taskData.title.toLowerCase()
-            );
-            
-            if (similarity > 0.8) {
-              return true;
-            }
-            
-            // Check description similarity if both exist
-            if (existingTask.description && taskData.description) {
-              const descSimilarity = calculateStringSimilarity(
-                existingTask.description.toLowerCase(),
-                taskData.description.toLowerCase()
-              );
-              if (descSimilarity > 0.85) {
-                return true;
-              }
-            }
-            
-            return false;
-          });
-          
-          if (isDuplicate) {
-            console.log(`⏭️ Skipping duplicate task: "${taskData.title}"`);
-            continue;
-          }
-          
-          // Set due date: use AI-extracted date if available, otherwise default to 7 days from creation
-          let dueDate = null;
-          if (taskData.dueDate && !isNaN(Date.parse(taskData.dueDate))) {
-            dueDate = new Date(taskData.dueDate);
-          } else {
-            // Auto-set 7-day due date for tasks generated from voice recordings
-            dueDate = new Date();
-            dueDate.setDate(dueDate.getDate() + 7);
-          }
+  app.get("/api/recording-uploads/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const upload = await storage.getRecordingUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (upload.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to view this upload" });
+      }
 
-          const task = await storage.createTask({
-            title: taskData.title,
-            description: taskData.description || taskData.title,
-            projectId,
-            priority: taskData.priority || 'medium',
-            assigneeId: userId,
-            dueDate: dueDate,
-          });
-          createdTasks.push(task);
-          console.log(`✅ Created new task: "${taskData.title}"`);
+      res.json(uploadStatus(upload));
+    } catch (error: any) {
+      console.error("Recording upload status error:", error);
+      res.status(500).json({ message: "Failed to fetch upload status", error: error.message });
+    }
+  });
+
+  app.put(
+    "/api/recording-uploads/:id",
+    requireAuth,
+    express.raw({ type: "application/octet-stream", limit: MAX_UPLOAD_CHUNK_BYTES }),
+    async (req, res) => {
+      try {
+        const userId = getUserId(req as any, mockUserId);
+        const startByte = Number(req.get("Upload-Offset"));
+        const chunk = req.body;
+
+        if (!Number.isInteger(startByte) || startByte < 0) {
+          return res.status(400).json({ message: "Upload-Offset header must be the byte offset of this chunk" });
+        }
+        if (!Buffer.isBuffer(chunk) || chunk.length === 0) {
+          return res.status(400).json({ message: "Chunk must be a non-empty application/octet-stream body" });
         }
 
-        // Send intelligent email notification about the meeting
-        const project = await storage.getProject(projectId);
-        const user = await storage.getUser(userId);
-        if (project && user?.email) {
-          try {
-            await (emailService as any).sendMeetingProcessedNotification(
-              user.email,
-              meeting.title || "Meeting",
-              project.name,
-              createdTasks.length,
-              summary.substring(0, 200) + "..."
-            );
-          } catch (emailError) {
-            console.log("Meeting notification email failed:", emailError);
-          }
+        const upload = await storage.getRecordingUpload(req.params.id);
+        if (!upload) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        if (upload.userId !== userId) {
+          return res.status(403).json({ message: "Not authorized to modify this upload" });
+        }
+
+        const updated = await storage.appendRecordingUploadChunk(upload.id, startByte, chunk);
+        if (!updated) {
+          // Usually a chunk resent after its acknowledgement was lost; the client continues from receivedBytes
+          const current = await storage.getRecordingUpload(upload.id);
+          return res.status(409).json({
+            message: "Chunk does not start at the current upload offset",
+            ...uploadStatus(current || upload),
+          });
         }
+
+        res.json(uploadStatus(updated));
+      } catch (error: any) {
+        console.error("Recording upload chunk error:", error);
+        res.status(500).json({ message: "Failed to store chunk", error: error.message });
       }
+    }
+  );
 
-      res.json({ 
-        success: true,
-        meeting, 
-        tasksCreated: createdTasks.length,
-        extractedTasks: extractedTasks,
-        transcription: transcription,
-        aiSummary: summary
-      });
+  app.post("/api/recording-uploads/:id/complete", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req as any, mockUserId);
+      const upload = await storage.getRecordingUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (upload.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to modify this upload" });
+      }
+      if (!upload.jobId && upload.receivedBytes < upload.size) {
+        return res.status(409).json({ message: "Upload is not finished", ...uploadStatus(upload) });
+      }
+
+      const job = await storage.completeRecordingUpload(upload.id);
+      jobWorker.wake();
+
+      res.status(202).json({ success: true, jobId: job.id, state: job.state });
     } catch (error: any) {
-      console.error('Processing recording error:', error);
-      res.status(500).json({ 
-        message: "Failed to process recording", 
-        error: error.message || "Unknown error"
-      });
+      console.error("Complete recording upload error:", error);
+      res.status(500).json({ message: "Failed to complete upload", error: error.message });
     }
   });
 
@@ -2061,7 +3710,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         allTasks.push(...projectTasks);
       }
       
-      const completedTasks = allTasks.filter(t => t.status === 'completed').length;
+      const completedTasks = allTasks.filter(t => isTaskDone(t)).length;
       const totalTasks = allTasks.length;
       const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
       
@@ -2310,7 +3959,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const workloadAnalysis = await analyticsService.analyzeWorkload(
         userId,
         allTasks,
-        projects
+        projects,
+        await getLoggedWeeklyHours(userId)
       );
       
       res.json(workloadAnalysis);
@@ -2434,14 +4084,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const workloadAnalysis = await analyticsService.analyzeWorkload(
         userId,
         allTasks,
-        projects
+        projects,
+        await getLoggedWeeklyHours(userId)
       );
       
       // Calculate overall metrics
       const totalTasks = allTasks.length;
-      const completedTasks = allTasks.filter(t => t.status === 'completed').length;
+      const completedTasks = allTasks.filter(t => isTaskDone(t)).length;
       const overdueTasks = allTasks.filter(t => 
-        t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed'
+        t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)
       ).length;
       
       const avgSuccessProbability = projectPredictions.length > 0 
@@ -2510,7 +4161,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const workloadAnalysis = await analyticsService.analyzeWorkload(
         targetUserId,
         allTasks,
-        projects
+        projects,
+        await getLoggedWeeklyHours(targetUserId)
       );
       
       const burnoutAssessment = {
@@ -3177,6 +4829,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           userId: userId,
           role: invitation.role
         });
+        await recordActivity({
+          projectId: invitation.project.id,
+          actorId: userId,
+          entityType: "project",
+          entityId: invitation.project.id,
+          entityTitle: invitation.project.name,
+          action: "joined",
+          changes: { role: { from: null, to: invitation.role } },
+        });
       }
 
       // Mark invitation as accepted
@@ -3317,6 +4978,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin view of the notification scheduler: upcoming and recent job runs, and the emails they sent
+  app.get("/api/admin/scheduler", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const overview = await storage.getSchedulerOverview(100);
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching scheduler overview:", error);
+      res.status(500).json({ message: "Failed to fetch scheduler overview" });
+    }
+  });
+
   // Test endpoints to trigger automated emails manually  
   app.post("/api/test/morning-briefing", requireAuth, async (req, res) => {
     try {
@@ -1,12 +1,55 @@
 import { Request, Response } from "express";
 import { aiService } from "../services/ai";
+import { LLMOutputError } from "../services/llm";
+import { meetingSearchService } from "../services/meetingSearch";
+import { assistantService, AssistantActionError } from "../services/assistant";
+import { assistantConversationService } from "../services/assistantConversations";
 import { storage } from "../storage";
 // No need to import requireAuth here as it's applied in routes.ts
 
+// The model's reply couldn't be used even after asking it to correct itself
+function sendInvalidAIResponse(res: Response, error: LLMOutputError) {
+  res.status(502).json({
+    success: false,
+    error: "The AI assistant returned an unusable response. Please try again.",
+    code: "invalid_ai_response",
+    issues: error.issues,
+  });
+}
+
+// Server-Sent Events for the streaming endpoints. Writes stop if the client goes away, but the work
+// carries on so actions and messages are still saved.
+function openEventStream(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  return {
+    send(event: string, data: unknown) {
+      if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    fail(error: any) {
+      this.send("error", error instanceof LLMOutputError
+        ? { error: "The AI assistant returned an unusable response. Please try again.", code: "invalid_ai_response" }
+        : { error: error.message || "Request failed" });
+    },
+    end() {
+      if (!closed) res.end();
+    },
+  };
+}
+
 // Voice command processing endpoint
 export async function handleVoiceCommand(req: Request, res: Response) {
   try {
-    const { command, timestamp, conversationHistory } = req.body;
+    const { command, conversationId } = req.body;
     const userId = req.session?.userId;
 
     if (!command || typeof command !== 'string') {
@@ -16,29 +59,30 @@ export async function handleVoiceCommand(req: Request, res: Response) {
       });
     }
 
-    // Get user's projects and tasks for context
-    const projects = await storage.getProjects(userId!);
-    const tasks = await storage.getTasks(undefined, userId!);
+    const conversation = await assistantConversationService.resolve(userId!, conversationId, command);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: "Conversation not found" });
+    }
 
-    // Process the voice command through AI
-    const result = await aiService.processVoiceCommand(command, {
-      userId: userId!,
-      projects,
-      tasks,
-      timestamp: new Date(timestamp || Date.now()),
-      conversationHistory: conversationHistory || []
+    const context = await assistantConversationService.context(conversation);
+    const result = await assistantService.handleCommand(userId!, command, context);
+    await assistantConversationService.record(conversation.id, command, {
+      content: result.response,
+      actionId: result.action?.id ?? null,
     });
 
     res.json({
       success: true,
+      conversationId: conversation.id,
       response: result.response,
       action: result.action,
-      dataModified: result.dataModified,
-      data: result.data
+      needsConfirmation: result.needsConfirmation,
+      dataModified: result.dataModified
     });
 
   } catch (error: any) {
     console.error("Voice command processing error:", error);
+    if (error instanceof LLMOutputError) return sendInvalidAIResponse(res, error);
     res.status(500).json({ 
       success: false, 
       error: error.message || "Failed to process voice command" 
@@ -46,6 +90,82 @@ export async function handleVoiceCommand(req: Request, res: Response) {
   }
 }
 
+// Streaming voice command: "token" events carry the reply as it is written, "tool" events each step's
+// progress, and "done" the same result the non-streaming endpoint returns
+export async function handleVoiceCommandStream(req: Request, res: Response) {
+  const { command, conversationId } = req.body;
+  const userId = req.session?.userId;
+
+  if (!command || typeof command !== 'string') {
+    return res.status(400).json({ success: false, error: "Voice command is required" });
+  }
+
+  let conversation;
+  try {
+    conversation = await assistantConversationService.resolve(userId!, conversationId, command);
+  } catch (error: any) {
+    console.error("Streaming voice command error:", error);
+    return res.status(500).json({ success: false, error: error.message || "Failed to process voice command" });
+  }
+  if (!conversation) {
+    return res.status(404).json({ success: false, error: "Conversation not found" });
+  }
+
+  const stream = openEventStream(res);
+  try {
+    const context = await assistantConversationService.context(conversation);
+    const result = await assistantService.handleCommand(userId!, command, context, {
+      onText: (text) => stream.send("token", { text }),
+      onTool: (event) => stream.send("tool", event),
+    });
+    await assistantConversationService.record(conversation.id, command, {
+      content: result.response,
+      actionId: result.action?.id ?? null,
+    });
+
+    stream.send("done", {
+      success: true,
+      conversationId: conversation.id,
+      response: result.response,
+      action: result.action,
+      needsConfirmation: result.needsConfirmation,
+      dataModified: result.dataModified
+    });
+  } catch (error: any) {
+    console.error("Streaming voice command error:", error);
+    stream.fail(error);
+  }
+  stream.end();
+}
+
+// Confirm, cancel or undo an action the assistant planned from a voice command
+function handleAssistantAction(operation: 'confirm' | 'cancel' | 'undo') {
+  return async (req: Request, res: Response) => {
+    try {
+      const userId = req.session?.userId;
+      const result = await assistantService[operation](userId!, req.params.id);
+      await storage.updateAssistantActionMessage(req.params.id, result.response);
+
+      res.json({
+        success: true,
+        response: result.response,
+        action: result.action,
+        dataModified: result.dataModified
+      });
+
+    } catch (error: any) {
+      console.error(`Assistant action ${operation} error:`, error);
+      if (error instanceof AssistantActionError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      res.status(500).json({
+        success: false,
+        error: error.message || `Failed to ${operation} action`
+      });
+    }
+  };
+}
+
 // Enhanced daily briefing with voice-friendly format
 export async function handleVoiceBriefing(req: Request, res: Response) {
   try {
@@ -110,6 +230,7 @@ export async function handleSmartQuery(req: Request, res: Response) {
 
   } catch (error: any) {
     console.error("Smart query processing error:", error);
+    if (error instanceof LLMOutputError) return sendInvalidAIResponse(res, error);
     res.status(500).json({ 
       success: false, 
       error: error.message || "Failed to process query" 
@@ -117,9 +238,172 @@ export async function handleSmartQuery(req: Request, res: Response) {
   }
 }
 
+// Streaming smart query: "token" events carry the written answer as it arrives, then "done" the full result
+export async function handleSmartQueryStream(req: Request, res: Response) {
+  const { query, context } = req.body;
+  const userId = req.session?.userId;
+
+  if (!query || typeof query !== 'string') {
+    return res.status(400).json({ success: false, error: "Query is required" });
+  }
+
+  const stream = openEventStream(res);
+  try {
+    const projects = await storage.getProjects(userId!);
+    const tasks = await storage.getTasks(undefined, userId!);
+    const result = await aiService.processSmartQuery(query, {
+      userId: userId!,
+      projects,
+      tasks,
+      context: context || {}
+    }, (text) => stream.send("token", { text }));
+
+    stream.send("done", {
+      success: true,
+      answer: result.answer,
+      spokenAnswer: result.spokenAnswer,
+      data: result.data,
+      suggestions: result.suggestions
+    });
+  } catch (error: any) {
+    console.error("Streaming smart query error:", error);
+    stream.fail(error);
+  }
+  stream.end();
+}
+
+export async function handleMeetingQuestion(req: Request, res: Response) {
+  try {
+    const { question, projectId, conversationId } = req.body;
+    const userId = req.session?.userId;
+
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "Question is required"
+      });
+    }
+
+    const conversation = await assistantConversationService.resolve(userId!, conversationId, question);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: "Conversation not found" });
+    }
+
+    const result = await meetingSearchService.ask(userId!, question.trim(), {
+      projectId: typeof projectId === 'string' && projectId ? projectId : undefined
+    });
+    await assistantConversationService.record(conversation.id, question.trim(), {
+      mode: 'meetings',
+      content: result.answer,
+      citations: result.citations,
+    });
+
+    res.json({
+      success: true,
+      conversationId: conversation.id,
+      answer: result.answer,
+      spokenAnswer: result.spokenAnswer,
+      citations: result.citations
+    });
+
+  } catch (error: any) {
+    console.error("Meeting question error:", error);
+    if (error instanceof LLMOutputError) return sendInvalidAIResponse(res, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to answer question"
+    });
+  }
+}
+
+// Saved assistant conversations, newest first
+export async function handleListConversations(req: Request, res: Response) {
+  try {
+    const userId = req.session?.userId;
+    const conversations = await assistantConversationService.list(userId!);
+    res.json({ success: true, conversations });
+  } catch (error: any) {
+    console.error("List conversations error:", error);
+    res.status(500).json({ success: false, error: error.message || "Failed to load conversations" });
+  }
+}
+
+export async function handleCreateConversation(req: Request, res: Response) {
+  try {
+    const { title } = req.body;
+    const userId = req.session?.userId;
+    const conversation = await storage.createAssistantConversation({
+      userId: userId!,
+      title: typeof title === 'string' && title.trim() ? title.trim().slice(0, 200) : "New conversation",
+    });
+    res.status(201).json({ success: true, conversation });
+  } catch (error: any) {
+    console.error("Create conversation error:", error);
+    res.status(500).json({ success: false, error: error.message || "Failed to create conversation" });
+  }
+}
+
+export async function handleGetConversation(req: Request, res: Response) {
+  try {
+    const userId = req.session?.userId;
+    const result = await assistantConversationService.getWithMessages(userId!, req.params.id);
+    if (!result) {
+      return res.status(404).json({ success: false, error: "Conversation not found" });
+    }
+    res.json({ success: true, conversation: result.conversation, messages: result.messages });
+  } catch (error: any) {
+    console.error("Get conversation error:", error);
+    res.status(500).json({ success: false, error: error.message || "Failed to load conversation" });
+  }
+}
+
+export async function handleRenameConversation(req: Request, res: Response) {
+  try {
+    const { title } = req.body;
+    const userId = req.session?.userId;
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      return res.status(400).json({ success: false, error: "Title is required" });
+    }
+
+    const conversation = await assistantConversationService.rename(userId!, req.params.id, title);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: "Conversation not found" });
+    }
+    res.json({ success: true, conversation });
+  } catch (error: any) {
+    console.error("Rename conversation error:", error);
+    res.status(500).json({ success: false, error: error.message || "Failed to rename conversation" });
+  }
+}
+
+export async function handleDeleteConversation(req: Request, res: Response) {
+  try {
+    const userId = req.session?.userId;
+    const deleted = await assistantConversationService.delete(userId!, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: "Conversation not found" });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete conversation error:", error);
+    res.status(500).json({ success: false, error: error.message || "Failed to delete conversation" });
+  }
+}
+
 // Export routes without middleware applied (will be applied in routes.ts)
 export const aiRoutes = [
   { path: "/voice-command", method: "POST", handler: handleVoiceCommand },
+  { path: "/voice-command/stream", method: "POST", handler: handleVoiceCommandStream },
+  { path: "/actions/:id/confirm", method: "POST", handler: handleAssistantAction('confirm') },
+  { path: "/actions/:id/cancel", method: "POST", handler: handleAssistantAction('cancel') },
+  { path: "/actions/:id/undo", method: "POST", handler: handleAssistantAction('undo') },
   { path: "/voice-briefing", method: "GET", handler: handleVoiceBriefing },
-  { path: "/smart-query", method: "POST", handler: handleSmartQuery }
+  { path: "/smart-query", method: "POST", handler: handleSmartQuery },
+  { path: "/smart-query/stream", method: "POST", handler: handleSmartQueryStream },
+  { path: "/meetings/ask", method: "POST", handler: handleMeetingQuestion },
+  { path: "/conversations", method: "GET", handler: handleListConversations },
+  { path: "/conversations", method: "POST", handler: handleCreateConversation },
+  { path: "/conversations/:id", method: "GET", handler: handleGetConversation },
+  { path: "/conversations/:id", method: "PUT", handler: handleRenameConversation },
+  { path: "/conversations/:id", method: "DELETE", handler: handleDeleteConversation }
 ];
\ No newline at end of file
@@ -1,15 +1,99 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { storage } from './storage';
 import { aiService } from './services/ai';
 import { emailService } from './services/email';
+import { isTaskDone, isValidTimeZone, getBriefingTimes, DEFAULT_TIMEZONE, type BriefingKind, type UserSettings, type ScheduledJob, type ScheduledJobType } from '@shared/schema';
 
+const BRIEFING_KINDS: BriefingKind[] = ['morning', 'lunch', 'endOfDay'];
+
+// Wall-clock date and time of an instant in a timezone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+}
+
+// The user's calendar date (YYYY-MM-DD) at an instant
+export function zonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// The instant a wall-clock time happens on a date in a timezone. Times skipped by a DST change
+// come out an hour later.
+function zonedTimeToDate(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(instant / 1000) * 1000;
+  };
+  const before = offsetAt(wallClock);
+  const after = offsetAt(wallClock - before);
+  // Whichever offset maps back to the wall-clock time; in a skipped hour neither does, and the
+  // offset from before the change moves it forward
+  return new Date(wallClock - (offsetAt(wallClock - after) === after ? after : before));
+}
+
+// The next time after `after` that the clock in timeZone reads `time` ("HH:MM")
+export function nextZonedTime(time: string, timeZone: string, after: Date): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const today = zonedParts(after, timeZone);
+  for (let dayOffset = 0; dayOffset <= 2; dayOffset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset));
+    const candidate = zonedTimeToDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hours * 60 + minutes, timeZone);
+    if (candidate > after) return candidate;
+  }
+  throw new Error(`No upcoming ${time} in ${timeZone}`);
+}
+
+function userTimeZone(settings?: Pick<UserSettings, 'timezone'> | null): string {
+  return settings?.timezone && isValidTimeZone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+}
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const LEASE_MS = 5 * 60 * 1000; // renewed while the job runs; a lease that runs out means its worker died
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000]; // after the 1st and 2nd failed attempt
+const MISSED_BRIEFING_MS = 2 * 60 * 60 * 1000; // a briefing no worker got to this long after its time is dropped
+const HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Recurring checks. Every instance plans the next slot boundary, so they all land on the same job row
+const RECURRING_JOBS: { type: ScheduledJobType; everyMs: number }[] = [
+  { type: 'deadline-check', everyMs: 5 * 60 * 1000 },
+  { type: 'project-health-check', everyMs: 60 * 60 * 1000 },
+  { type: 'briefing-sync', everyMs: 60 * 60 * 1000 }, // picks up new users and settings changed outside the settings page
+  { type: 'history-cleanup', everyMs: 24 * 60 * 60 * 1000 },
+];
+
+const BRIEFINGS: Record<BriefingKind, { type: ScheduledJobType; enabled: (settings?: UserSettings) => boolean }> = {
+  // Users without settings get the morning briefing; it creates their default settings
+  morning: { type: 'morning-briefing', enabled: settings => !settings || (settings.emailNotifications && settings.morningBriefing) },
+  lunch: { type: 'lunch-reminder', enabled: settings => !!settings?.emailNotifications && !!settings.lunchReminder },
+  endOfDay: { type: 'end-of-day-summary', enabled: settings => !!settings?.emailNotifications && !!settings.endOfDaySummary },
+};
+
+// Identifies a scheduled email so it is sent at most once
+interface DeliveryRef {
+  key: string;
+  jobId: string | null;
+}
+
+// Sends notification emails from jobs persisted in scheduled_jobs. Every instance runs a worker, but a
+// job is leased to one worker at a time and each email is recorded in notification_deliveries before it
+// goes out, so restarts, redeploys and extra instances never send duplicates.
 class NotificationScheduler {
-  private intervals: NodeJS.Timeout[] = [];
-  private lastDailySummaryDate: string = '';
-  private lastLunchReminderDate: string = '';
-  private lastEndOfDayDate: string = '';
-  private lastResetDate: string = ''; // Track when we last reset alerts
-  private sentDeadlineAlerts: Set<string> = new Set(); // Track sent alerts per day
-  private sentProjectHealthAlerts: Set<string> = new Set(); // Track project health alerts per day
+  private interval: NodeJS.Timeout | null = null;
+  private isDraining = false;
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
   
   private async getAllUsers() {
     try {
@@ -46,86 +130,213 @@ class NotificationScheduler {
   }
 
   start() {
-    console.log('Starting AI notification scheduler...');
-    
-    // Check for urgent notifications every 5 minutes
-    const urgentCheck = setInterval(async () => {
-      await this.checkUrgentNotifications();
-    }, 5 * 60 * 1000);
+    if (this.interval) return;
+    console.log(`Starting AI notification scheduler (worker ${this.workerId})...`);
 
-    // Reset sent alerts daily at midnight UTC to allow daily reminders
-    const resetAlertsCheck = setInterval(() => {
-      const now = new Date();
-      const utcHour = now.getUTCHours();
-      const utcMinutes = now.getUTCMinutes();
-      
-      // Reset at midnight UTC (only once per day)
-      if (utcHour === 0 && utcMinutes >= 0 && utcMinutes < 5) {
-        const today = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}-${String(now.getUTCDate()).padStart(2, '0')}`;
-        
-        if (this.lastResetDate !== today) {
-          const previousSize = this.sentDeadlineAlerts.size;
-          this.sentDeadlineAlerts.clear();
-          this.sentProjectHealthAlerts.clear();
-          this.lastResetDate = today;
-          console.log(`🔄 Reset alert trackers for new day ${today} - cleared ${previousSize} deadline alerts`);
-        }
+    // Plan briefings straight away rather than at the next sync; planning is idempotent across instances
+    void this.scheduleAllBriefings();
+    this.interval = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.drain();
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    console.log('Stopped AI notification scheduler');
+  }
+
+  private async drain() {
+    if (this.isDraining) return;
+    this.isDraining = true;
+
+    try {
+      await storage.failAbandonedScheduledJobs();
+      await this.planRecurringJobs();
+
+      let job = await storage.claimNextScheduledJob(this.workerId, LEASE_MS);
+      while (job && this.interval) {
+        await this.runJob(job);
+        job = await storage.claimNextScheduledJob(this.workerId, LEASE_MS);
       }
-    }, 5 * 60 * 1000); // Check every 5 minutes
+      // Stopped while holding a claimed job: hand it back for another worker
+      if (job) {
+        await storage.releaseScheduledJob(job.id, this.workerId, { state: 'scheduled', attempts: job.attempts - 1 });
+      }
+    } catch (error) {
+      console.error('Notification scheduler error:', error);
+    } finally {
+      this.isDraining = false;
+    }
+  }
 
-    // Send daily briefings at the correct times matching UI: 7 AM, 12 PM, 5 PM
-    const briefingCheck = setInterval(async () => {
-      // Use Eastern Time (automatically handles EST/EDT)
-      const now = new Date();
-      const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-      const today = easternTime.toISOString().split('T')[0]; // YYYY-MM-DD format
-      const hour = easternTime.getHours();
-      const minutes = easternTime.getMinutes();
-      
-      
-      // Morning Briefing: 7:00-7:05 AM (matches UI)
-      if (hour === 7 && minutes >= 0 && minutes <= 5) {
-        if (this.lastDailySummaryDate !== today) {
-          console.log(`🌅 Triggering morning briefings for ${today} at 7 AM`);
-          this.lastDailySummaryDate = today;
-          await this.sendMorningBriefings();
+  private async planRecurringJobs() {
+    for (const { type, everyMs } of RECURRING_JOBS) {
+      const runAt = new Date(Math.ceil(Date.now() / everyMs) * everyMs);
+      // Recurring checks are not retried; the next slot runs soon enough
+      await storage.planScheduledJob({ key: `${type}:${runAt.toISOString()}`, type, runAt, maxAttempts: 1 });
+    }
+  }
+
+  private async runJob(job: ScheduledJob) {
+    console.log(`⏰ Running ${job.type} job ${job.key} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const renewal = setInterval(async () => {
+      try {
+        if (!(await storage.renewScheduledJobLease(job.id, this.workerId, LEASE_MS))) {
+          console.warn(`⚠️ Lost the lease on scheduler job ${job.key}; another worker may take it over`);
         }
+      } catch (error) {
+        console.error(`Failed to renew the lease on scheduler job ${job.key}:`, error);
       }
-      
-      // Lunch Reminder: 12:00-12:05 PM (matches UI)
-      if (hour === 12 && minutes >= 0 && minutes <= 5) {
-        if (!this.lastLunchReminderDate || this.lastLunchReminderDate !== today) {
-          console.log(`🥗 Triggering lunch reminders for ${today} at 12 PM`);
-          this.lastLunchReminderDate = today;
-          await this.sendLunchReminders();
-        }
+    }, LEASE_MS / 3);
+
+    try {
+      const outcome = await this.executeJob(job);
+      await storage.releaseScheduledJob(job.id, this.workerId, {
+        state: outcome.skipped ? 'skipped' : 'done',
+        result: outcome.result,
+        lastError: null,
+        completedAt: new Date(),
+      });
+      console.log(`✅ Scheduler job ${job.key}: ${outcome.result}`);
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+      const canRetry = job.attempts < job.maxAttempts;
+      console.error(`❌ Scheduler job ${job.key} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+      if (canRetry) {
+        const delay = RETRY_DELAYS_MS[Math.min(job.attempts, RETRY_DELAYS_MS.length) - 1];
+        await storage.releaseScheduledJob(job.id, this.workerId, {
+          state: 'scheduled',
+          lastError: message,
+          runAt: new Date(Date.now() + delay),
+        });
+      } else {
+        await storage.releaseScheduledJob(job.id, this.workerId, {
+          state: 'failed',
+          lastError: message,
+          completedAt: new Date(),
+        });
       }
-      
-      // End of Day Summary: 5:00-5:05 PM (matches UI) 
-      if (hour === 17 && minutes >= 0 && minutes <= 5) {
-        if (this.lastEndOfDayDate !== today) {
-          console.log(`🌇 Triggering end-of-day summaries for ${today} at 5 PM`);
-          this.lastEndOfDayDate = today;
-          await this.sendEndOfDaySummary();
-        }
+    } finally {
+      clearInterval(renewal);
+    }
+
+    // A finished briefing is followed by the next day's
+    if (job.userId && this.isBriefingJob(job)) {
+      await this.scheduleBriefings(job.userId);
+    }
+  }
+
+  private isBriefingJob(job: ScheduledJob): boolean {
+    return BRIEFING_KINDS.some(kind => BRIEFINGS[kind].type === job.type);
+  }
+
+  private async executeJob(job: ScheduledJob): Promise<{ result: string; skipped?: boolean }> {
+    const delivery: DeliveryRef = { key: job.key, jobId: job.id };
+
+    if (this.isBriefingJob(job)) {
+      if (!job.userId) throw new Error('Briefing job has no user');
+      if (Date.now() - job.runAt.getTime() > MISSED_BRIEFING_MS) {
+        return { result: `Missed: no worker was running at ${job.runAt.toISOString()}`, skipped: true };
       }
-    }, 60 * 1000); // Check every minute
+    }
 
-    // Check project health every hour
-    const healthCheck = setInterval(async () => {
-      await this.checkProjectHealth();
-    }, 60 * 60 * 1000);
+    switch (job.type) {
+      case 'morning-briefing':
+        return this.deliveryOutcome(await this.sendMorningBriefing(job.userId!, delivery));
+      case 'lunch-reminder':
+        return this.deliveryOutcome(await this.sendLunchReminder(job.userId!, delivery));
+      case 'end-of-day-summary':
+        return this.deliveryOutcome(await this.sendEndOfDaySummaryTo(job.userId!, delivery));
+      case 'deadline-check':
+        return { result: `${await this.checkUrgentNotifications(job.id)} deadline alerts sent` };
+      case 'project-health-check':
+        return { result: `${await this.checkProjectHealth(job.id)} project health alerts sent` };
+      case 'briefing-sync':
+        return { result: `Briefings planned for ${await this.scheduleAllBriefings()} users` };
+      case 'history-cleanup':
+        await storage.deleteSchedulerHistory(new Date(Date.now() - HISTORY_MS));
+        return { result: 'Old job and delivery history deleted' };
+      default:
+        throw new Error(`Unknown scheduler job type "${job.type}"`);
+    }
+  }
 
-    this.intervals.push(urgentCheck, resetAlertsCheck, briefingCheck, healthCheck);
+  private deliveryOutcome(sent: boolean): { result: string; skipped?: boolean } {
+    return sent
+      ? { result: 'Email sent' }
+      : { result: 'Not sent: already delivered, turned off, or no email address', skipped: true };
   }
 
-  stop() {
-    this.intervals.forEach(interval => clearInterval(interval));
-    this.intervals = [];
-    console.log('Stopped AI notification scheduler');
+  // Runs send unless this email was already delivered. Without a delivery (manual "send now" triggers)
+  // it always sends. send resolves false when there turned out to be nothing to send.
+  private async deliverOnce(delivery: DeliveryRef | undefined, type: string, userId: string, send: () => Promise<boolean>): Promise<boolean> {
+    if (!delivery) return await send();
+
+    if (!(await storage.claimNotificationDelivery({ key: delivery.key, type, userId, jobId: delivery.jobId }))) {
+      console.log(`⏭️ ${type} already delivered (${delivery.key})`);
+      return false;
+    }
+
+    try {
+      const sent = await send();
+      await storage.updateNotificationDelivery(delivery.key, sent ? { state: 'sent', sentAt: new Date() } : { state: 'skipped' });
+      return sent;
+    } catch (error: any) {
+      await storage.updateNotificationDelivery(delivery.key, { state: 'failed', error: error?.message || 'Unknown error' });
+      throw error;
+    }
   }
 
-  async checkUrgentNotifications() {
+  // Returns how many users' briefings were planned
+  async scheduleAllBriefings(): Promise<number> {
+    const userIds = await this.getAllUsers();
+    for (const userId of userIds) {
+      await this.scheduleBriefings(userId);
+    }
+    return userIds.length;
+  }
+
+  // Plans a user's next briefings as jobs keyed by the user's local date; call after their
+  // working hours, timezone or briefing preferences change
+  async scheduleBriefings(userId: string) {
+    try {
+      const settings = await storage.getUserSettings(userId);
+      const timeZone = userTimeZone(settings);
+      const times = getBriefingTimes(settings || {});
+      const now = new Date();
+
+      for (const kind of BRIEFING_KINDS) {
+        const { type, enabled } = BRIEFINGS[kind];
+        if (!enabled(settings)) {
+          await storage.cancelScheduledJobs(userId, type, '');
+          continue;
+        }
+
+        // Today's run may already have happened, e.g. when the working day was moved later
+        let at = nextZonedTime(times[kind], timeZone, now);
+        let planned: ScheduledJob | undefined;
+        for (let tries = 0; !planned && tries < 2; tries++) {
+          planned = await storage.planScheduledJob({ key: `${type}:${userId}:${zonedDate(at, timeZone)}`, type, userId, runAt: at });
+          if (!planned) at = nextZonedTime(times[kind], timeZone, at);
+        }
+
+        // Drop runs planned under the old settings, e.g. for a different date after a timezone change
+        if (planned) {
+          await storage.cancelScheduledJobs(userId, type, planned.key);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to schedule briefings for user ${userId}:`, error);
+    }
+  }
+
+  // Returns how many deadline alerts were sent
+  async checkUrgentNotifications(jobId: string | null = null): Promise<number> {
+    let alertsSent = 0;
+    const checkedTasks = new Set<string>(); // Tasks are seen once per collaborator; check each once
+
     try {
       const userIds = await this.getAllUsers();
       
@@ -134,7 +345,10 @@ class NotificationScheduler {
         const now = new Date();
         
         for (const task of tasks) {
-          if (task.dueDate && task.status !== 'completed') {
+          if (checkedTasks.has(task.id)) continue;
+          checkedTasks.add(task.id);
+
+          if (task.dueDate && !isTaskDone(task)) {
             const dueDate = new Date(task.dueDate);
             const hoursUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60);
             
@@ -143,16 +357,8 @@ class NotificationScheduler {
               // Use consistent UTC date to avoid timezone issues
               const utcDate = new Date();
               const today = `${utcDate.getUTCFullYear()}-${String(utcDate.getUTCMonth() + 1).padStart(2, '0')}-${String(utcDate.getUTCDate()).padStart(2, '0')}`;
-              // Create unique identifier for this alert per day - only use task ID and today's date
-              const alertId = `${task.id}_${today}`;
-              
-              // Skip if alert already sent today
-              if (this.sentDeadlineAlerts.has(alertId)) {
-                console.log(`⏭️ Deadline alert already sent today for task "${task.title}" (alert ID: ${alertId}, current alerts: ${this.sentDeadlineAlerts.size})`);
-                continue;
-              }
 
-              console.log(`🔍 Processing deadline alert for task "${task.title}" - hours until due: ${hoursUntilDue.toFixed(1)}, alert ID: ${alertId}`);
+              console.log(`🔍 Processing deadline alert for task "${task.title}" - hours until due: ${hoursUntilDue.toFixed(1)}`);
 
               const project = await storage.getProject(task.projectId);
               if (!project) continue;
@@ -160,8 +366,6 @@ class NotificationScheduler {
               // Get ALL project collaborators (owner + members)
               const collaboratorIds = await this.getProjectCollaborators(task.projectId);
               
-              let alertSentToAnyUser = false;
-              
               // Send alert to all collaborators who have deadline alerts enabled
               for (const collaboratorId of collaboratorIds) {
                 const settings = await storage.getUserSettings(collaboratorId);
@@ -177,42 +381,48 @@ class NotificationScheduler {
                 }
 
                 const collaborator = await storage.getUser(collaboratorId);
-                if (collaborator?.email) {
-                  // Customize message based on whether task is overdue
-                  const isOverdue = hoursUntilDue < 0;
-                  const daysOverdue = Math.abs(Math.floor(hoursUntilDue / 24));
-                  
-                  await emailService.sendTaskDeadlineAlert(
-                    collaborator.email,
-                    task.title,
-                    project.name,
-                    task.dueDate.toString(),
-                    isOverdue,
-                    daysOverdue,
-                    task.projectId,  // Pass projectId for direct link
-                    task.id         // Pass taskId for direct link
-                  );
-                  
-                  const alertType = isOverdue ? 'OVERDUE' : 'DEADLINE';
-                  console.log(`⏰ ${alertType} alert sent for task "${task.title}" to ${collaborator.email} (daily reminder)`);
-                  alertSentToAnyUser = true;
+                if (!collaborator?.email) continue;
+                const email = collaborator.email;
+
+                // One alert per task, collaborator and day (a daily reminder until the task is done)
+                const delivery = { key: `deadline-alert:${task.id}:${collaboratorId}:${today}`, jobId };
+                try {
+                  const sent = await this.deliverOnce(delivery, 'deadline-alert', collaboratorId, async () => {
+                    // Customize message based on whether task is overdue
+                    const isOverdue = hoursUntilDue < 0;
+                    const daysOverdue = Math.abs(Math.floor(hoursUntilDue / 24));
+                    
+                    await emailService.sendTaskDeadlineAlert(
+                      email,
+                      task.title,
+                      project.name,
+                      task.dueDate!.toString(),
+                      isOverdue,
+                      daysOverdue,
+                      task.projectId,  // Pass projectId for direct link
+                      task.id         // Pass taskId for direct link
+                    );
+                    
+                    const alertType = isOverdue ? 'OVERDUE' : 'DEADLINE';
+                    console.log(`⏰ ${alertType} alert sent for task "${task.title}" to ${email} (daily reminder)`);
+                    return true;
+                  });
+                  if (sent) alertsSent++;
+                } catch (error: any) {
+                  // Recorded as failed; the next check tries this collaborator again
+                  console.error(`❌ Deadline alert for task "${task.title}" to ${email} failed:`, error?.message || error);
                 }
               }
-              
-              // Mark alert as sent if at least one collaborator received it
-              if (alertSentToAnyUser) {
-                this.sentDeadlineAlerts.add(alertId);
-                console.log(`✅ Marked deadline alert as sent for today: ${alertId} (total tracked alerts: ${this.sentDeadlineAlerts.size})`);
-              } else {
-                console.log(`⚠️ No alerts sent for task "${task.title}" - no eligible collaborators found`);
-              }
             }
           }
         }
       }
     } catch (error) {
       console.error('Urgent notifications check failed:', error);
+      throw error;
     }
+
+    return alertsSent;
   }
 
   async sendMorningBriefings() {
@@ -221,56 +431,11 @@ class NotificationScheduler {
       console.log(`Daily summary check - found ${userIds.length} users`);
       
       for (const userId of userIds) {
-        const user = await storage.getUser(userId);
-        console.log(`Processing daily summary for user: ${user?.email || userId}`);
-        
-        let settings = await storage.getUserSettings(userId);
-        
-        // Create default settings if user doesn't have any
-        if (!settings) {
-          console.log(`Creating default settings for user: ${user?.email}`);
-          settings = await storage.createUserSettings({
-            userId,
-            emailNotifications: true,
-            morningBriefing: true,
-            lunchReminder: true,
-            taskDeadlineAlerts: true,
-            endOfDaySummary: true,
-            urgentOnly: false,
-            workingHoursStart: '09:00',
-            workingHoursEnd: '18:00'
-          });
-        }
-        
-        // Check if user has enabled daily email summaries
-        if (!settings?.emailNotifications || !settings?.morningBriefing) {
-          console.log(`Daily summary skipped for ${user?.email} - user preferences disabled`);
-          continue;
-        }
-
-        // Morning briefings are sent at 7 AM regardless of working hours
-        // (Working hours check is not applicable for morning briefings as they prepare you for the day)
-
-        const projects = await storage.getProjects(userId);
-        const tasks = await storage.getTasks(undefined, userId);
-        const summary = await aiService.generateSmartDailyBriefing(projects, tasks, userId, user?.name);
-        if (user?.email) {
-          console.log(`Generating daily summary for: ${user.email}`);
-          try {
-            await emailService.sendDailySummary(user.email, summary);
-            console.log(`✅ Daily summary sent successfully to: ${user.email}`);
-          } catch (error: any) {
-            console.error(`❌ Daily summary failed for ${user.email}:`, error?.message || error);
-            
-            // Log production email issues clearly
-            if (error?.message?.includes('verify a domain') || error?.message?.includes('testing emails')) {
-              console.error('🔧 PRODUCTION FIX NEEDED: Email domain not verified - check Resend dashboard');
-            }
-            
-            // Continue processing other users even if one fails
-          }
-        } else {
-          console.log(`Skipping daily summary - no email for user: ${userId}`);
+        try {
+          await this.sendMorningBriefing(userId);
+        } catch (error) {
+          // Continue processing other users even if one fails
+          console.error(`Morning briefing failed for user ${userId}:`, error);
         }
       }
       
@@ -280,6 +445,62 @@ class NotificationScheduler {
     }
   }
 
+  // Returns whether an email went out; throws if sending failed
+  async sendMorningBriefing(userId: string, delivery?: DeliveryRef): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    console.log(`Processing daily summary for user: ${user?.email || userId}`);
+    
+    let settings = await storage.getUserSettings(userId);
+    
+    // Create default settings if user doesn't have any
+    if (!settings) {
+      console.log(`Creating default settings for user: ${user?.email}`);
+      settings = await storage.createUserSettings({
+        userId,
+        emailNotifications: true,
+        morningBriefing: true,
+        lunchReminder: true,
+        taskDeadlineAlerts: true,
+        endOfDaySummary: true,
+        urgentOnly: false,
+        workingHoursStart: '09:00',
+        workingHoursEnd: '18:00'
+      });
+    }
+    
+    // Check if user has enabled daily email summaries
+    if (!settings?.emailNotifications || !settings?.morningBriefing) {
+      console.log(`Daily summary skipped for ${user?.email} - user preferences disabled`);
+      return false;
+    }
+
+    if (!user?.email) {
+      console.log(`Skipping daily summary - no email for user: ${userId}`);
+      return false;
+    }
+    const email = user.email;
+
+    return await this.deliverOnce(delivery, 'morning-briefing', userId, async () => {
+      const projects = await storage.getProjects(userId);
+      const tasks = await storage.getTasks(undefined, userId);
+      const summary = await aiService.generateSmartDailyBriefing(projects, tasks, userId, user.name);
+      console.log(`Generating daily summary for: ${email}`);
+      try {
+        await emailService.sendDailySummary(email, summary);
+        console.log(`✅ Daily summary sent successfully to: ${email}`);
+        return true;
+      } catch (error: any) {
+        console.error(`❌ Daily summary failed for ${email}:`, error?.message || error);
+        
+        // Log production email issues clearly
+        if (error?.message?.includes('verify a domain') || error?.message?.includes('testing emails')) {
+          console.error('🔧 PRODUCTION FIX NEEDED: Email domain not verified - check Resend dashboard');
+        }
+        throw error;
+      }
+    });
+  }
+
   // New lunch reminder functionality
   async sendLunchReminders() {
     try {
@@ -287,27 +508,10 @@ class NotificationScheduler {
       console.log(`Lunch reminder check - found ${userIds.length} users`);
       
       for (const userId of userIds) {
-        const settings = await storage.getUserSettings(userId);
-        
-        // Check if user has enabled lunch reminders
-        if (!settings?.emailNotifications || !settings?.lunchReminder) {
-          console.log(`Lunch briefing skipped for ${userId} - user preferences disabled`);
-          continue;
-        }
-
-        const user = await storage.getUser(userId);
-        if (user?.email) {
-          // Generate intelligent lunch briefing with afternoon preview
-          const projects = await storage.getProjects(userId);
-          const tasks = await storage.getTasks(undefined, userId);
-          const lunchBriefing = await aiService.generateLunchBriefing(projects, tasks, userId);
-          
-          try {
-            await emailService.sendLunchBriefing(user.email, lunchBriefing);
-            console.log(`✅ Lunch briefing sent successfully to: ${user.email}`);
-          } catch (error: any) {
-            console.error(`❌ Lunch briefing failed for ${user.email}:`, error?.message || error);
-          }
+        try {
+          await this.sendLunchReminder(userId);
+        } catch (error) {
+          console.error(`Lunch briefing failed for user ${userId}:`, error);
         }
       }
       
@@ -317,61 +521,46 @@ class NotificationScheduler {
     }
   }
 
+  // Returns whether an email went out; throws if sending failed
+  async sendLunchReminder(userId: string, delivery?: DeliveryRef): Promise<boolean> {
+    const settings = await storage.getUserSettings(userId);
+    
+    // Check if user has enabled lunch reminders
+    if (!settings?.emailNotifications || !settings?.lunchReminder) {
+      console.log(`Lunch briefing skipped for ${userId} - user preferences disabled`);
+      return false;
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user?.email) return false;
+    const email = user.email;
+
+    return await this.deliverOnce(delivery, 'lunch-reminder', userId, async () => {
+      // Generate intelligent lunch briefing with afternoon preview
+      const projects = await storage.getProjects(userId);
+      const tasks = await storage.getTasks(undefined, userId);
+      const lunchBriefing = await aiService.generateLunchBriefing(projects, tasks, userId);
+      
+      try {
+        await emailService.sendLunchBriefing(email, lunchBriefing);
+        console.log(`✅ Lunch briefing sent successfully to: ${email}`);
+        return true;
+      } catch (error: any) {
+        console.error(`❌ Lunch briefing failed for ${email}:`, error?.message || error);
+        throw error;
+      }
+    });
+  }
+
   async sendEndOfDaySummary() {
     try {
       const userIds = await this.getAllUsers();
       
       for (const userId of userIds) {
-        const settings = await storage.getUserSettings(userId);
-        
-        // Check if user has enabled end of day summaries
-        if (!settings?.emailNotifications || !settings?.endOfDaySummary) {
-          console.log('End of day summary skipped - user preferences disabled');
-          continue;
-        }
-
-        const stats = await storage.getDashboardStats(userId);
-        const tasks = await storage.getTasks(undefined, userId);
-        const projects = await storage.getProjects(userId);
-
-        const today = new Date();
-        const todayString = today.toDateString();
-        
-        // Get tasks completed today
-        const completedToday = tasks.filter(task => 
-          task.status === 'completed' && 
-          task.updatedAt && 
-          new Date(task.updatedAt).toDateString() === todayString
-        );
-
-        // Get pending high-priority tasks for tomorrow 
-        const tomorrowsPriorities = tasks.filter(task => 
-          task.status !== 'completed' && 
-          (task.priority === 'high' || task.priority === 'urgent')
-        ).map(task => task.title).slice(0, 3);
-
-        const summary = {
-          date: today.toLocaleDateString('en-US', { 
-            weekday: 'long', 
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          }),
-          completedTasks: completedToday.length, // Fixed field name to match email template
-          activeProjects: projects.length,
-          productivityScore: Math.round((completedToday.length / Math.max(tasks.length, 1)) * 100),
-          accomplishments: completedToday.filter(task => 
-            task.priority === 'high' || task.priority === 'urgent'
-          ).map(task => task.title).slice(0, 3),
-          tomorrowsPriorities: tomorrowsPriorities, // Added missing field
-          message: completedToday.length > 0 
-            ? `Great work today! You completed ${completedToday.length} tasks across ${projects.length} projects.`
-            : `Ready for tomorrow! You have ${projects.length} active projects to focus on.`
-        };
-        
-        const user = await storage.getUser(userId);
-        if (user?.email) {
-          await emailService.sendEndOfDaySummary(user.email, summary);
+        try {
+          await this.sendEndOfDaySummaryTo(userId);
+        } catch (error) {
+          console.error(`End of day summary failed for user ${userId}:`, error);
         }
       }
       
@@ -381,7 +570,71 @@ class NotificationScheduler {
     }
   }
 
-  async checkProjectHealth() {
+  // Returns whether an email went out; throws if sending failed
+  async sendEndOfDaySummaryTo(userId: string, delivery?: DeliveryRef): Promise<boolean> {
+    const settings = await storage.getUserSettings(userId);
+    
+    // Check if user has enabled end of day summaries
+    if (!settings?.emailNotifications || !settings?.endOfDaySummary) {
+      console.log('End of day summary skipped - user preferences disabled');
+      return false;
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user?.email) return false;
+    const email = user.email;
+
+    return await this.deliverOnce(delivery, 'end-of-day-summary', userId, async () => {
+      const tasks = await storage.getTasks(undefined, userId);
+      const projects = await storage.getProjects(userId);
+
+      // "Today" is the user's day, not the server's
+      const zone = userTimeZone(settings);
+      const today = new Date();
+      const todayString = zonedDate(today, zone);
+      
+      // Get tasks completed today
+      const completedToday = tasks.filter(task => 
+        isTaskDone(task) && 
+        task.updatedAt && 
+        zonedDate(new Date(task.updatedAt), zone) === todayString
+      );
+
+      // Get pending high-priority tasks for tomorrow 
+      const tomorrowsPriorities = tasks.filter(task => 
+        !isTaskDone(task) && 
+        (task.priority === 'high' || task.priority === 'urgent')
+      ).map(task => task.title).slice(0, 3);
+
+      const summary = {
+        date: today.toLocaleDateString('en-US', { 
+          timeZone: zone,
+          weekday: 'long', 
+          year: 'numeric', 
+          month: 'long', 
+          day: 'numeric' 
+        }),
+        completedTasks: completedToday.length, // Fixed field name to match email template
+        activeProjects: projects.length,
+        productivityScore: Math.round((completedToday.length / Math.max(tasks.length, 1)) * 100),
+        accomplishments: completedToday.filter(task => 
+          task.priority === 'high' || task.priority === 'urgent'
+        ).map(task => task.title).slice(0, 3),
+        tomorrowsPriorities: tomorrowsPriorities, // Added missing field
+        message: completedToday.length > 0 
+          ? `Great work today! You completed ${completedToday.length} tasks across ${projects.length} projects.`
+          : `Ready for tomorrow! You have ${projects.length} active projects to focus on.`
+      };
+      
+      await emailService.sendEndOfDaySummary(email, summary);
+      return true;
+    });
+  }
+
+  // Returns how many project health alerts were sent
+  async checkProjectHealth(jobId: string | null = null): Promise<number> {
+    let alertsSent = 0;
+
     try {
       const userIds = await this.getAllUsers();
       const checkedProjects = new Set<string>(); // Track projects to avoid duplicate checks
@@ -401,19 +654,10 @@ class NotificationScheduler {
           
           if (insights.healthScore < 60) {
             const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-            // Create unique identifier for this project health alert per day (allows daily reminders)
-            const healthAlertId = `${project.id}_health_${today}`;
-            
-            // Skip if health alert already sent today for this project
-            if (this.sentProjectHealthAlerts.has(healthAlertId)) {
-              continue;
-            }
             
             // Get ALL project collaborators (owner + members) 
             const collaboratorIds = await this.getProjectCollaborators(project.id);
             
-            let healthAlertSentToAnyUser = false;
-            
             // Send project health alert to all collaborators
             for (const collaboratorId of collaboratorIds) {
               const settings = await storage.getUserSettings(collaboratorId);
@@ -424,22 +668,27 @@ class NotificationScheduler {
               }
 
               const collaborator = await storage.getUser(collaboratorId);
-              if (collaborator?.email) {
-                await emailService.sendProjectAlert(
-                  collaborator.email,
-                  project.name,
-                  'health_warning',
-                  `Project health score is low (${insights.healthScore}%). ${insights.riskFactors.join(', ')} - Daily reminder until resolved.`
-                );
-                console.log(`🚨 Project health alert sent for "${project.name}" to ${collaborator.email} (daily reminder)`);
-                healthAlertSentToAnyUser = true;
+              if (!collaborator?.email) continue;
+              const email = collaborator.email;
+
+              // One alert per project, collaborator and day (a daily reminder until resolved)
+              const delivery = { key: `project-health-alert:${project.id}:${collaboratorId}:${today}`, jobId };
+              try {
+                const sent = await this.deliverOnce(delivery, 'project-health-alert', collaboratorId, async () => {
+                  await emailService.sendProjectAlert(
+                    email,
+                    project.name,
+                    'health_warning',
+                    `Project health score is low (${insights.healthScore}%). ${insights.riskFactors.join(', ')} - Daily reminder until resolved.`
+                  );
+                  console.log(`🚨 Project health alert sent for "${project.name}" to ${email} (daily reminder)`);
+                  return true;
+                });
+                if (sent) alertsSent++;
+              } catch (error: any) {
+                console.error(`❌ Project health alert for "${project.name}" to ${email} failed:`, error?.message || error);
               }
             }
-            
-            // Mark health alert as sent today if at least one collaborator received it
-            if (healthAlertSentToAnyUser) {
-              this.sentProjectHealthAlerts.add(healthAlertId);
-            }
           }
         }
       }
@@ -447,8 +696,11 @@ class NotificationScheduler {
       console.log('Project health check completed');
     } catch (error) {
       console.error('Project health check failed:', error);
+      throw error;
     }
+
+    return alertsSent;
   }
 }
 
-export const scheduler = new NotificationScheduler();
\ No newline at end of file
+export const scheduler = new NotificationScheduler();
@@ -0,0 +1,221 @@
+import { z } from "zod";
+
+// Shapes the AI prompts ask for. Every model reply is validated against one of these before it is
+// used, so malformed output is repaired or rejected instead of reaching the client or the database.
+
+// Models capitalize freely ("High"); store the lowercase priority the rest of the app uses
+const priority = z.preprocess(
+  value => typeof value === "string" ? value.trim().toLowerCase() : value,
+  z.enum(["low", "medium", "high", "urgent"])
+);
+const isoDate = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, "Expected a YYYY-MM-DD date").refine(value => !isNaN(Date.parse(value)), "Invalid date");
+const score = z.coerce.number().min(0).max(100);
+const textList = z.array(z.string().trim().min(1));
+
+export const extractedTaskSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().trim().nullish().transform(value => value || ""),
+  priority: priority.default("medium"),
+  assignee: z.string().trim().nullish(),
+  dueDate: isoDate.nullish(),
+  category: z.string().trim().nullish(),
+});
+
+export const extractedTasksResponseSchema = z.object({
+  tasks: z.array(extractedTaskSchema),
+});
+
+export const projectInsightsSchema = z.object({
+  healthScore: score,
+  completionPrediction: z.string().trim().min(1),
+  riskFactors: textList,
+  recommendations: textList,
+  workloadBalance: z.object({
+    overloaded: textList,
+    underutilized: textList,
+  }).default({ overloaded: [], underutilized: [] }),
+});
+
+export const smartNotificationSchema = z.object({
+  id: z.string(),
+  type: z.enum(["deadline_alert", "project_health", "workload_balance", "ai_suggestion", "daily_summary"]),
+  priority: z.enum(["low", "medium", "high", "urgent"]),
+  title: z.string(),
+  message: z.string(),
+  actionable: z.boolean(),
+  data: z.any().optional(),
+  createdAt: z.date(),
+});
+
+export const dailySummarySchema = z.object({
+  date: z.string(),
+  totalTasks: z.number(),
+  completedToday: z.number(),
+  upcomingDeadlines: z.number(),
+  activeProjects: z.number().optional(),
+  projectsAtRisk: z.array(z.string()),
+  keyRecommendations: z.array(z.string()),
+  productivityScore: z.number(),
+  urgentTasks: z.number().optional(),
+  contextualSuggestions: z.array(z.string()).optional(),
+  smartBriefing: z.string().optional(),
+});
+
+// Voice assistant tools. Each call is checked field by field before anything runs, and ids are
+// checked against what the user can access when the plan is prepared.
+const taskFields = {
+  title: z.string().trim().min(1).max(500),
+  description: z.string().trim().nullish(),
+  priority: priority.nullish(),
+  dueDate: isoDate.nullish(),
+};
+
+export const assistantToolCallSchema = z.discriminatedUnion("tool", [
+  z.object({
+    tool: z.literal("create_task"),
+    args: z.object({
+      ...taskFields,
+      projectId: z.string().uuid(), // tasks always belong to a project
+      assigneeId: z.string().uuid().nullish(),
+    }),
+  }),
+  z.object({
+    tool: z.literal("update_task"),
+    args: z.object({
+      taskId: z.string().uuid(),
+      title: taskFields.title.optional(),
+      description: z.string().trim().optional(),
+      priority: priority.optional(),
+      dueDate: isoDate.nullish(),
+      status: z.string().trim().min(1).optional(),
+    }),
+  }),
+  z.object({
+    tool: z.literal("complete_task"),
+    args: z.object({ taskId: z.string().uuid() }),
+  }),
+  z.object({
+    tool: z.literal("reassign_task"),
+    args: z.object({ taskId: z.string().uuid(), assigneeId: z.string().uuid().nullable() }), // null unassigns
+  }),
+  z.object({
+    tool: z.literal("schedule_meeting"),
+    args: z.object({
+      title: z.string().trim().min(1).max(500),
+      scheduledAt: z.string().trim().refine(value => !isNaN(Date.parse(value)), "Expected an ISO date and time"),
+      duration: z.coerce.number().int().min(5).max(8 * 60).default(30), // minutes
+      projectId: z.string().uuid().nullish(),
+      description: z.string().trim().nullish(),
+    }),
+  }),
+  z.object({
+    tool: z.literal("link_external_meeting"),
+    args: z.object({ externalMeetingId: z.string().uuid(), projectId: z.string().uuid().nullable() }), // null unlinks
+  }),
+  z.object({
+    tool: z.literal("query_analytics"),
+    args: z.object({
+      metric: z.enum(["project_status", "my_workload", "overdue_tasks"]),
+      projectId: z.string().uuid().nullish(), // required for project_status
+    }),
+  }),
+]);
+
+// calls is empty when the command is a question or conversation the response answers on its own
+export const assistantPlanSchema = z.object({
+  response: z.string().trim().min(1),
+  calls: z.array(assistantToolCallSchema).max(10).default([]),
+});
+
+export const voiceBriefingSchema = z.object({
+  text: z.string().trim().min(1),
+  spokenText: z.string().trim().min(1),
+  keyPoints: textList.default([]),
+  urgentItems: textList.default([]),
+});
+
+export const smartQueryResponseSchema = z.object({
+  answer: z.string().trim().min(1),
+  spokenAnswer: z.string().trim().min(1),
+  data: z.record(z.any()).nullish().transform(value => value || {}),
+  suggestions: textList.default([]),
+});
+
+const optionalText = z.string().trim().nullish().transform(value => value || null);
+
+// actionItems are the numbers of the meeting's extracted tasks that carry a decision out
+export const meetingOutcomesSchema = z.object({
+  decisions: z.array(z.object({
+    decision: z.string().trim().min(1),
+    rationale: optionalText,
+    decidedBy: optionalText,
+    actionItems: z.array(z.coerce.number().int().positive()).default([]),
+  })).default([]),
+  risks: z.array(z.object({
+    risk: z.string().trim().min(1),
+    impact: z.preprocess(
+      value => typeof value === "string" ? value.trim().toLowerCase() : value,
+      z.enum(["low", "medium", "high"])
+    ).default("medium"),
+    mitigation: optionalText,
+    owner: optionalText,
+  })).default([]),
+  openQuestions: z.array(z.object({
+    question: z.string().trim().min(1),
+    owner: optionalText,
+  })).default([]),
+});
+
+// citations are the numbers of the meeting excerpts the answer relies on
+export const meetingAnswerSchema = z.object({
+  answer: z.string().trim().min(1),
+  spokenAnswer: z.string().trim().min(1),
+  citations: z.array(z.coerce.number().int().positive()).default([]),
+});
+
+export const projectSuccessPredictionSchema = z.object({
+  successProbability: score,
+  riskFactors: textList,
+  recommendations: textList,
+  timelineConfidence: score,
+  resourceUtilization: score,
+  completionPrediction: isoDate,
+  criticalPath: textList,
+});
+
+export const workloadAnalysisSchema = z.object({
+  burnoutRisk: z.preprocess(
+    value => typeof value === "string" ? value.trim().charAt(0).toUpperCase() + value.trim().slice(1).toLowerCase() : value,
+    z.enum(["Low", "Medium", "High", "Critical"])
+  ),
+  workloadScore: score,
+  weeklyHours: z.coerce.number().min(0).max(168),
+  recommendations: textList,
+  optimalCapacity: score,
+});
+
+export const resourceOptimizationSchema = z.object({
+  overallocatedUsers: z.array(z.string()),
+  underutilizedUsers: z.array(z.string()),
+  redistributionSuggestions: z.array(z.object({
+    fromUser: z.string(),
+    toUser: z.string(),
+    taskId: z.string().optional().default(""),
+    reasoning: z.string().trim().min(1),
+  })),
+  teamEfficiencyScore: score,
+  bottlenecks: z.array(z.string()),
+});
+
+export const analyticsInsightsSchema = z.object({
+  insights: textList.min(1),
+});
+
+export type ExtractedTask = z.infer<typeof extractedTaskSchema>;
+export type ProjectInsights = z.infer<typeof projectInsightsSchema>;
+export type SmartNotification = z.infer<typeof smartNotificationSchema>;
+export type DailySummary = z.infer<typeof dailySummarySchema>;
+export type AssistantToolCall = z.infer<typeof assistantToolCallSchema>;
+export type AssistantToolName = AssistantToolCall["tool"];
+export type AssistantPlan = z.infer<typeof assistantPlanSchema>;
+export type MeetingOutcomes = z.infer<typeof meetingOutcomesSchema>;
@@ -1,7 +1,17 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { isTaskDone, getTaskCategory } from "@shared/schema";
+import { llmClient, LLMOutputError, streamJsonField } from "./llm";
+import {
+  extractedTasksResponseSchema,
+  meetingOutcomesSchema,
+  projectInsightsSchema,
+  voiceBriefingSchema,
+  smartQueryResponseSchema,
+  type ExtractedTask,
+  type MeetingOutcomes,
+  type ProjectInsights,
+  type SmartNotification,
+  type DailySummary,
+} from "./ai-schemas";
 
 // Storage will be imported dynamically when needed
 
@@ -9,51 +19,6 @@ const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 const ASSEMBLYAI_API_KEY = process.env.ASSEMBLYAI_API_KEY;
 const ASSEMBLYAI_BASE_URL = 'https://api.assemblyai.com/v2';
 
-interface ExtractedTask {
-  title: string;
-  description: string;
-  priority: "low" | "medium" | "high" | "urgent";
-  assignee?: string;
-  dueDate?: string;
-  category?: string;
-}
-
-interface ProjectInsights {
-  healthScore: number;
-  completionPrediction: string;
-  riskFactors: string[];
-  recommendations: string[];
-  workloadBalance: {
-    overloaded: string[];
-    underutilized: string[];
-  };
-}
-
-interface SmartNotification {
-  id: string;
-  type: 'deadline_alert' | 'project_health' | 'workload_balance' | 'ai_suggestion' | 'daily_summary';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  title: string;
-  message: string;
-  actionable: boolean;
-  data?: any;
-  createdAt: Date;
-}
-
-interface DailySummary {
-  date: string;
-  totalTasks: number;
-  completedToday: number;
-  upcomingDeadlines: number;
-  activeProjects?: number;
-  projectsAtRisk: string[];
-  keyRecommendations: string[];
-  productivityScore: number;
-  urgentTasks?: number;
-  contextualSuggestions?: string[];
-  smartBriefing?: string;
-}
-
 class AIService {
   async transcribeAudioFromBase64(base64Audio: string): Promise<string> {
     // Use the dedicated transcription service which prioritizes AssemblyAI
@@ -69,8 +34,7 @@ class AIService {
 
   async extractTasksFromText(text: string): Promise<ExtractedTask[]> {
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llmClient.completeStructured('taskExtraction', {
         messages: [
           {
             role: "system",
@@ -122,15 +86,12 @@ Example response:
             content: `Extract actionable tasks from this meeting transcription: ${text}`
           }
         ]
-      });
+      }, extractedTasksResponseSchema);
 
-      const responseText = completion.choices[0].message.content || "{}";
-      // Handle both JSON and markdown-wrapped JSON responses
-      const jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || [null, responseText];
-      const result = JSON.parse(jsonMatch[1]);
-      
-      return result.tasks || [];
+      return result.tasks;
     } catch (error) {
+      // Output that stayed malformed fails the caller (the processing job retries it) instead of creating guessed tasks
+      if (error instanceof LLMOutputError) throw error;
       console.error("Task extraction error:", error);
       // Return smart fallback tasks based on common meeting patterns
       return this.generateFallbackTasks(text);
@@ -171,8 +132,7 @@ Example response:
 
   async generateMeetingSummary(transcription: string): Promise<string> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await llmClient.complete('meetingSummary', {
         messages: [
           {
             role: "system",
@@ -212,7 +172,7 @@ Keep the summary professional, organized, and actionable. Focus on outcomes rath
         ],
       });
 
-      return response.choices[0].message.content || "No summary generated";
+      return response.content || "No summary generated";
     } catch (error) {
       console.error("Summary generation error:", error);
       return `**Meeting Summary**
@@ -229,6 +189,46 @@ Team members to complete assigned tasks and report back on progress.`;
     }
   }
 
+  // Decisions, risks and open questions for the project register. Decisions point at the numbered action
+  // items (the tasks extracted from the same transcript) that carry them out.
+  async extractMeetingOutcomes(transcription: string, actionItems: { title: string }[]): Promise<MeetingOutcomes> {
+    try {
+      return await llmClient.completeStructured('meetingOutcomes', {
+        messages: [
+          {
+            role: "system",
+            content: `You are an expert meeting analyst that records what a meeting settled and what it left open.
+
+INSTRUCTIONS:
+- decisions: conclusions the participants actually agreed on, not proposals still under discussion
+- risks: problems or threats to the work that were raised, with how likely they are to hurt ("impact")
+- openQuestions: questions raised but not answered in the meeting
+- Keep each item to one clear sentence; use names only as spoken in the meeting
+- Return empty arrays when the meeting had none
+
+RESPONSE FORMAT: Return JSON with:
+{
+  "decisions": [{ "decision": "What was decided", "rationale": "Why, if said", "decidedBy": "Who, if said", "actionItems": [numbers of the action items below that carry this decision out] }],
+  "risks": [{ "risk": "The risk", "impact": "low" | "medium" | "high", "mitigation": "What will be done about it, if said", "owner": "Who, if said" }],
+  "openQuestions": [{ "question": "The unanswered question", "owner": "Who will find out, if said" }]
+}`
+          },
+          {
+            role: "user",
+            content: `Action items already extracted from this meeting:
+${actionItems.length > 0 ? actionItems.map((item, index) => `${index + 1}. ${item.title}`).join('\n') : '(none)'}
+
+Meeting transcription: ${transcription}`
+          }
+        ],
+      }, meetingOutcomesSchema);
+    } catch (error) {
+      if (error instanceof LLMOutputError) throw error;
+      console.error("Meeting outcome extraction error:", error);
+      return { decisions: [], risks: [], openQuestions: [] };
+    }
+  }
+
   async generateProjectInsights(project: any, tasks: any[]): Promise<ProjectInsights> {
     try {
       const now = new Date();
@@ -238,15 +238,14 @@ Team members to complete assigned tasks and report back on progress.`;
         status: project.status,
         dueDate: project.dueDate,
         totalTasks: tasks.length,
-        completedTasks: tasks.filter(t => t.status === 'completed').length,
-        inProgressTasks: tasks.filter(t => t.status === 'in_progress').length,
-        overdueTasks: tasks.filter(t => t.dueDate && new Date(t.dueDate) < now && t.status !== 'completed').length,
+        completedTasks: tasks.filter(t => isTaskDone(t)).length,
+        inProgressTasks: tasks.filter(t => getTaskCategory(t) === 'active').length,
+        overdueTasks: tasks.filter(t => t.dueDate && new Date(t.dueDate) < now && !isTaskDone(t)).length,
         upcomingDeadlines: tasks.filter(t => t.dueDate && new Date(t.dueDate) > now && new Date(t.dueDate) <= new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)).length,
         highPriorityTasks: tasks.filter(t => t.priority === 'high' || t.priority === 'urgent').length,
       };
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmClient.completeStructured('projectInsights', {
         messages: [
           {
             role: "system",
@@ -275,23 +274,15 @@ Focus on:
             content: `Analyze this project comprehensively: ${JSON.stringify(projectData, null, 2)}`
           }
         ],
-        response_format: { type: "json_object" },
-      });
-
-      const result = JSON.parse(completion.choices[0].message.content || "{}");
-      return {
-        healthScore: result.healthScore || 75,
-        completionPrediction: result.completionPrediction || "On track for completion",
-        riskFactors: result.riskFactors || [],
-        recommendations: result.recommendations || [],
-        workloadBalance: result.workloadBalance || { overloaded: [], underutilized: [] },
-      };
+      }, projectInsightsSchema);
     } catch (error) {
+      // A malformed reply fails the request rather than showing a made-up health score as the AI's analysis
+      if (error instanceof LLMOutputError) throw error;
       console.error("Insights generation error:", error);
       // Provide intelligent fallback based on actual data
       const now = new Date();
-      const completionRate = tasks.length > 0 ? (tasks.filter(t => t.status === 'completed').length / tasks.length) * 100 : 0;
-      const overdueCount = tasks.filter(t => t.dueDate && new Date(t.dueDate) < now && t.status !== 'completed').length;
+      const completionRate = tasks.length > 0 ? (tasks.filter(t => isTaskDone(t)).length / tasks.length) * 100 : 0;
+      const overdueCount = tasks.filter(t => t.dueDate && new Date(t.dueDate) < now && !isTaskDone(t)).length;
       
       return {
         healthScore: Math.max(20, Math.min(95, Math.round(completionRate - (overdueCount * 10) + project.progress * 0.3))),
@@ -310,7 +301,7 @@ Focus on:
 
       // Deadline alerts
       tasks.forEach(task => {
-        if (task.dueDate && task.status !== 'completed') {
+        if (task.dueDate && !isTaskDone(task)) {
           const dueDate = new Date(task.dueDate);
           const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
           
@@ -343,8 +334,16 @@ Focus on:
       // Project health monitoring
       for (const project of projects) {
         const projectTasks = tasks.filter(t => t.projectId === project.id);
-        const insights = await this.generateProjectInsights(project, projectTasks);
-        
+        let insights: ProjectInsights;
+        try {
+          insights = await this.generateProjectInsights(project, projectTasks);
+        } catch (error) {
+          // Skip this project's health alerts; the deadline alerts above still go out
+          if (!(error instanceof LLMOutputError)) throw error;
+          console.error(`Skipping health alerts for ${project.name}:`, error.message);
+          continue;
+        }
+
         if (insights.healthScore < 60) {
           notifications.push({
             id: `health_${project.id}`,
@@ -409,12 +408,12 @@ Focus on:
       const todayStart = new Date(today + 'T00:00:00.000Z');
       
       const completedToday = tasks.filter(t => 
-        t.status === 'completed' && 
+        isTaskDone(t) && 
         new Date(t.updatedAt) >= todayStart
       ).length;
       
       const urgentTasks = tasks.filter(t => 
-        t.status !== 'completed' && 
+        !isTaskDone(t) && 
         (t.priority === 'urgent' || (t.dueDate && new Date(t.dueDate) <= new Date(now.getTime() + 24 * 60 * 60 * 1000)))
       );
       
@@ -427,7 +426,7 @@ Focus on:
       const projectsAtRisk = projects.filter(project => {
         const projectTasks = tasks.filter(t => t.projectId === project.id);
         const completionRate = projectTasks.length > 0 ? 
-          (projectTasks.filter(t => t.status === 'completed').length / projectTasks.length) * 100 : 100;
+          (projectTasks.filter(t => isTaskDone(t)).length / projectTasks.length) * 100 : 100;
         return completionRate < 50 || project.progress < 30;
       });
 
@@ -435,8 +434,7 @@ Focus on:
       const contextualPatterns = await this.analyzeUserPatterns(tasks, userId);
       
       // Generate intelligent briefing
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const completion = await llmClient.complete('briefing', {
         messages: [
           {
             role: "system",
@@ -475,12 +473,12 @@ ${contextualPatterns.workingOn ? `- You've been focusing on: ${contextualPattern
 ${contextualPatterns.suggestions.join('\n')}
 
 **Project Details:**
-${projects.map(p => `${p.name}: ${p.progress}% complete, ${tasks.filter(t => t.projectId === p.id && t.status !== 'completed').length} open tasks`).join('\n')}`
+${projects.map(p => `${p.name}: ${p.progress}% complete, ${tasks.filter(t => t.projectId === p.id && !isTaskDone(t)).length} open tasks`).join('\n')}`
           }
         ]
       });
 
-      const briefingMessage = completion.choices[0].message.content || "Good morning! Ready to tackle today's priorities.";
+      const briefingMessage = completion.content || "Good morning! Ready to tackle today's priorities.";
       
       const productivityScore = Math.min(100, Math.max(0, 
         (completedToday * 15) + 
@@ -535,7 +533,7 @@ ${projects.map(p => `${p.name}: ${p.progress}% complete, ${tasks.filter(t => t.p
       const afternoonTasks = tasks.filter((t: any) => {
         if (t.dueDate) {
           const taskDue = new Date(t.dueDate);
-          return taskDue >= afternoonStart && taskDue <= todayEnd && t.status !== 'completed';
+          return taskDue >= afternoonStart && taskDue <= todayEnd && !isTaskDone(t);
         }
         return false;
       });
@@ -543,12 +541,12 @@ ${projects.map(p => `${p.name}: ${p.progress}% complete, ${tasks.filter(t => t.p
       const morningProgress = tasks.filter((t: any) => {
         const todayMorning = new Date(today + 'T00:00:00.000Z');
         const noon = new Date(today + 'T12:00:00.000Z');
-        return t.updatedAt >= todayMorning && t.updatedAt <= noon && t.status === 'completed';
+        return t.updatedAt >= todayMorning && t.updatedAt <= noon && isTaskDone(t);
       });
       
       const urgentAfternoon = afternoonTasks.filter((t: any) => t.priority === 'urgent' || t.priority === 'high');
       
-      const completion = await openai.chat.completions.create({
+      const completion = await llmClient.complete('briefing', {
         messages: [
           {
             role: "system",
@@ -575,12 +573,11 @@ ${projects.map(p => `${p.name}: ${p.progress}% complete`).join('\n')}
 Provide encouraging feedback on morning progress and 2-3 specific recommendations for a productive afternoon.`
           }
         ],
-        model: "gpt-4o",
         temperature: 0.7,
-        max_tokens: 300
+        maxTokens: 300
       });
 
-      const briefingContent = completion.choices[0].message.content || "Great work this morning! Let's make the afternoon just as productive.";
+      const briefingContent = completion.content || "Great work this morning! Let's make the afternoon just as productive.";
       
       return {
         date: today,
@@ -617,9 +614,9 @@ Provide encouraging feedback on morning progress and 2-3 specific recommendation
       const pastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
       
       const recentTasks = tasks.filter((t: any) => new Date(t.updatedAt) >= pastWeek);
-      const recentCompletions = recentTasks.filter((t: any) => t.status === 'completed');
+      const recentCompletions = recentTasks.filter((t: any) => isTaskDone(t));
       const stuckTasks = tasks.filter((t: any) => 
-        t.status === 'in_progress' && 
+        getTaskCategory(t) === 'active' && 
         new Date(t.updatedAt) < new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000)
       );
       
@@ -649,7 +646,7 @@ Provide encouraging feedback on morning progress and 2-3 specific recommendation
       
       const highPriorityOld = tasks.filter((t: any) => 
         (t.priority === 'high' || t.priority === 'urgent') && 
-        t.status !== 'completed' && 
+        !isTaskDone(t) && 
         new Date(t.createdAt) < pastWeek
       );
       
@@ -782,36 +779,36 @@ Provide encouraging feedback on morning progress and 2-3 specific recommendation
       const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
       
       // Comprehensive analysis
-      const completed = tasks.filter((t: any) => t.status === 'completed');
+      const completed = tasks.filter((t: any) => isTaskDone(t));
       const recentCompleted = completed.filter((t: any) => new Date(t.updatedAt) >= lastWeek);
       const todayCompleted = completed.filter((t: any) => new Date(t.updatedAt) >= last3Days);
       
-      const inProgress = tasks.filter((t: any) => t.status === 'in_progress');
-      const todoTasks = tasks.filter((t: any) => t.status === 'todo');
+      const inProgress = tasks.filter((t: any) => getTaskCategory(t) === 'active');
+      const todoTasks = tasks.filter((t: any) => getTaskCategory(t) === 'open');
       
       // Priority analysis
-      const urgentTasks = tasks.filter((t: any) => t.priority === 'urgent' && t.status !== 'completed');
+      const urgentTasks = tasks.filter((t: any) => t.priority === 'urgent' && !isTaskDone(t));
       
       // 🎯 PRE-MEETING ACTION ITEMS ANALYSIS
       const attendeeOverdueTasks = attendeeTasks.filter((t: any) => 
-        t.dueDate && new Date(t.dueDate) < now && t.status !== 'completed'
+        t.dueDate && new Date(t.dueDate) < now && !isTaskDone(t)
       );
       
       const attendeeUrgentTasks = attendeeTasks.filter((t: any) => 
-        t.priority === 'urgent' && t.status !== 'completed'
+        t.priority === 'urgent' && !isTaskDone(t)
       );
       
       const attendeeIncompleteTasks = attendeeTasks.filter((t: any) => 
-        t.status !== 'completed'
+        !isTaskDone(t)
       );
       
       console.log(`🚨 PRE-MEETING ANALYSIS: ${attendeeOverdueTasks.length} overdue, ${attendeeUrgentTasks.length} urgent, ${attendeeIncompleteTasks.length} incomplete attendee tasks`);
-      const highPriorityTasks = tasks.filter((t: any) => t.priority === 'high' && t.status !== 'completed');
+      const highPriorityTasks = tasks.filter((t: any) => t.priority === 'high' && !isTaskDone(t));
       const overdueTasks = tasks.filter((t: any) => 
-        t.dueDate && new Date(t.dueDate) < now && t.status !== 'completed'
+        t.dueDate && new Date(t.dueDate) < now && !isTaskDone(t)
       );
       const upcomingDeadlines = tasks.filter((t: any) => 
-        t.dueDate && new Date(t.dueDate) <= nextWeek && new Date(t.dueDate) >= now && t.status !== 'completed'
+        t.dueDate && new Date(t.dueDate) <= nextWeek && new Date(t.dueDate) >= now && !isTaskDone(t)
       );
       
       // Blockers and decision points
@@ -832,14 +829,13 @@ Provide encouraging feedback on morning progress and 2-3 specific recommendation
         progress: p!.progress || 0,
         dueDate: p!.dueDate,
         taskCount: tasks.filter((t: any) => t.projectId === p!.id).length,
-        completedCount: tasks.filter((t: any) => t.projectId === p!.id && t.status === 'completed').length,
-        overdueCount: tasks.filter((t: any) => t.projectId === p!.id && t.dueDate && new Date(t.dueDate) < now && t.status !== 'completed').length
+        completedCount: tasks.filter((t: any) => t.projectId === p!.id && isTaskDone(t)).length,
+        overdueCount: tasks.filter((t: any) => t.projectId === p!.id && t.dueDate && new Date(t.dueDate) < now && !isTaskDone(t)).length
       }));
       
       console.log(`🤖 Generating comprehensive meeting prep: ${tasks.length} tasks, ${allProjects.length} projects`);
       
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const completion = await llmClient.complete('meetingPreparation', {
         messages: [
           {
             role: "system",
@@ -905,7 +901,7 @@ ${attendeeOverdueTasks.map((t: any) => `• ⏰ ${t.title} - Assigned to: ${t.re
 ${attendeeUrgentTasks.map((t: any) => `• 🚨 ${t.title} - ${t.relatedAttendee} | Status: ${t.status}`).join('\n') || '• No urgent attendee tasks'}
 
 **INCOMPLETE ATTENDEE WORK (${attendeeIncompleteTasks.length}):**
-${attendeeIncompleteTasks.map((t: any) => `• ${t.status === 'in_progress' ? '🔄' : '📝'} ${t.title} - ${t.relatedAttendee} | ${t.priority} priority`).join('\n') || '• All attendee tasks completed'}
+${attendeeIncompleteTasks.map((t: any) => `• ${getTaskCategory(t) === 'active' ? '🔄' : '📝'} ${t.title} - ${t.relatedAttendee} | ${t.priority} priority`).join('\n') || '• All attendee tasks completed'}
 
 **💡 SUGGESTED DISCUSSION POINTS:**
 ${attendeeOverdueTasks.length > 0 ? '• Address overdue items and blockers preventing completion' : ''}
@@ -934,7 +930,7 @@ ${overdueTasks.map((t: any) => `• ⏰ ${t.title} - Due: ${new Date(t.dueDate!)
 ${upcomingDeadlines.map((t: any) => `• 📅 ${t.title} - Due: ${new Date(t.dueDate!).toLocaleDateString()}${(t as any).projectName ? ` (${(t as any).projectName})` : ''} | Status: ${t.status} | Priority: ${t.priority}`).join('\n') || '• No immediate deadlines'}
 
 **📋 ALL INCOMPLETE TASKS:**
-${[...inProgress, ...todoTasks].map((t: any) => `• ${t.status === 'in_progress' ? '🔄' : '📝'} ${t.title}${(t as any).projectName ? ` (${(t as any).projectName})` : ''} - ${t.priority} priority | Status: ${t.status}${t.dueDate ? ` | Due: ${new Date(t.dueDate!).toLocaleDateString()}` : ''}`).join('\n') || '• All tasks completed! 🎉'}
+${[...inProgress, ...todoTasks].map((t: any) => `• ${getTaskCategory(t) === 'active' ? '🔄' : '📝'} ${t.title}${(t as any).projectName ? ` (${(t as any).projectName})` : ''} - ${t.priority} priority | Status: ${t.status}${t.dueDate ? ` | Due: ${new Date(t.dueDate!).toLocaleDateString()}` : ''}`).join('\n') || '• All tasks completed! 🎉'}
 
 **🎯 IMMEDIATE NEXT ACTIONS:**
 ${todoTasks.filter((t: any) => t.priority === 'high' || t.priority === 'urgent').slice(0, 5).map((t: any) => `• ${t.title}${(t as any).projectName ? ` (${(t as any).projectName})` : ''} - ${t.priority} priority`).join('\n') || '• No high-priority items in queue'}
@@ -956,7 +952,7 @@ upcomingMeeting.title?.toLowerCase().includes('weekly') ? 'Regular status update
         ]
       });
 
-      const result = completion.choices[0].message.content;
+      const result = completion.content;
       console.log(`🎉 AI generated comprehensive meeting prep: ${result ? 'SUCCESS' : 'EMPTY'}`);
       console.log(`✅ Preparation generated successfully, length: ${result?.length || 0}`);
       
@@ -972,161 +968,14 @@ upcomingMeeting.title?.toLowerCase().includes('weekly') ? 'Regular status update
   }
 
   // Voice Assistant Methods
-  async processVoiceCommand(command: string, context: {
-    userId: string;
-    projects: any[];
-    tasks: any[];
-    timestamp: Date;
-    conversationHistory: Array<{user: string, ai: string}>;
-  }) {
-    try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are an intelligent project management voice assistant. Process user voice commands and provide helpful responses.
-
-COMMAND TYPES:
-1. INFORMATION: Answer questions about projects, tasks, deadlines
-2. ACTIONS: Create tasks, update status, set priorities
-3. INSIGHTS: Provide analytics, recommendations, summaries
-4. NAVIGATION: Guide users to relevant features
-
-RESPONSE FORMAT: Return JSON with:
-{
-  "action": "information|create_task|update_task|briefing|navigation",
-  "response": "Natural language response to speak back to user",
-  "dataModified": false,
-  "data": { task/project data if action taken }
-}
-
-VOICE GUIDELINES:
-- Keep responses conversational and concise
-- Use natural speech patterns
-- Confirm actions clearly
-- Provide helpful context
-
-CURRENT CONTEXT:
-- User has ${context.projects.length} projects: ${context.projects.map(p => `"${p.name}" (${p.progress}% complete, status: ${p.status})`).join(', ') || 'none'}
-- User has ${context.tasks.length} total tasks:
-  ${context.tasks.filter(t => t.status !== 'completed').slice(0, 10).map(t => `"${t.title}" (${t.status}, priority: ${t.priority}${t.dueDate ? `, due: ${new Date(t.dueDate).toLocaleDateString()}` : ''}${t.projectId ? `, project: ${context.projects.find(p => p.id === t.projectId)?.name || 'Unknown'}` : ''})`).join('\n  ') || 'none'}
-- Completed tasks: ${context.tasks.filter(t => t.status === 'completed').length}
-- Current time: ${context.timestamp.toLocaleString()}
-
-When answering questions about "which project" or "what tasks", use the SPECIFIC project names and task titles from above. Be helpful and specific, not generic.
-
-CONVERSATION HISTORY:
-${context.conversationHistory.slice(-3).map(h => `User: ${h.user}\nAI: ${h.ai}`).join('\n\n')}
-
-IMPORTANT: Remember the conversation context and provide continuous, intelligent responses that build on previous exchanges.`
-          },
-          {
-            role: "user", 
-            content: `Process this voice command: "${command}"`
-          }
-        ]
-      });
-
-      const responseText = completion.choices[0].message.content || "{}";
-      console.log('🤖 Raw AI response:', responseText);
-      
-      // Try to extract JSON from the response
-      let result;
-      try {
-        // First try parsing the raw response as JSON
-        result = JSON.parse(responseText);
-      } catch (e1) {
-        // If that fails, try to extract JSON from markdown code block
-        const jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-        if (jsonMatch && jsonMatch[1]) {
-          try {
-            result = JSON.parse(jsonMatch[1]);
-          } catch (e2) {
-            console.error('JSON parsing failed:', e2);
-            return {
-              action: "information",
-              response: responseText || "I can help you with your projects. Could you rephrase your question?",
-              dataModified: false,
-              data: null
-            };
-          }
-        } else {
-          // If no JSON found, treat the whole response as a simple answer
-          return {
-            action: "information",
-            response: responseText || "I can help you with your projects. What would you like to know?",
-            dataModified: false,
-            data: null
-          };
-        }
-      }
-      
-      // Execute the action if needed
-      if (result.action === "create_task" && result.data?.title) {
-        const { storage } = await import('../storage');
-        const newTask = await storage.createTask({
-          title: result.data.title,
-          description: result.data.description || "",
-          priority: result.data.priority || "medium",
-          status: "todo",
-          projectId: result.data.projectId || null,
-          dueDate: result.data.dueDate || null,
-          assigneeId: context.userId
-        });
-        
-        result.dataModified = true;
-        result.data = newTask;
-      }
-      
-      // Handle task updates
-      if (result.action === "update_task" && result.data?.taskId) {
-        const { storage } = await import('../storage');
-        
-        // Get current task to verify ownership
-        const currentTask = await storage.getTask(result.data.taskId);
-        if (!currentTask || currentTask.assigneeId !== context.userId) {
-          result.response = "Sorry, I couldn't find that task or you don't have permission to update it.";
-          return result;
-        }
-        
-        // Prepare update data - only include fields that are being changed
-        const updateData: any = {};
-        if (result.data.title !== undefined) updateData.title = result.data.title;
-        if (result.data.description !== undefined) updateData.description = result.data.description;
-        if (result.data.status !== undefined) updateData.status = result.data.status;
-        if (result.data.priority !== undefined) updateData.priority = result.data.priority;
-        if (result.data.dueDate !== undefined) updateData.dueDate = result.data.dueDate;
-        if (result.data.projectId !== undefined) updateData.projectId = result.data.projectId;
-        
-        const updatedTask = await storage.updateTask(result.data.taskId, updateData);
-        
-        result.dataModified = true;
-        result.data = updatedTask;
-      }
-      
-      return result;
-
-    } catch (error) {
-      console.error("Voice command processing error:", error);
-      return {
-        action: "error",
-        response: "Sorry, I'm having trouble processing voice commands right now. Please try again later.",
-        dataModified: false,
-        data: null
-      };
-    }
-  }
-
   async generateVoiceBriefing(projects: any[], tasks: any[], userId: string) {
     try {
       const today = new Date();
       const todayTasks = tasks.filter(t => t.dueDate && new Date(t.dueDate).toDateString() === today.toDateString());
-      const overdueTasks = tasks.filter(t => t.dueDate && new Date(t.dueDate) < today && t.status !== 'completed');
-      const urgentTasks = tasks.filter(t => t.priority === 'urgent' && t.status !== 'completed');
+      const overdueTasks = tasks.filter(t => t.dueDate && new Date(t.dueDate) < today && !isTaskDone(t));
+      const urgentTasks = tasks.filter(t => t.priority === 'urgent' && !isTaskDone(t));
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmClient.completeStructured('briefing', {
         messages: [
           {
             role: "system",
@@ -1163,14 +1012,12 @@ Return JSON with:
 - ${urgentTasks.length} urgent tasks`
           }
         ]
-      });
+      }, voiceBriefingSchema);
 
-      const responseText = completion.choices[0].message.content || "{}";
-      const jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || [null, responseText];
-      
-      try {
-        return JSON.parse(jsonMatch[1]);
-      } catch (parseError) {
+    } catch (error) {
+      console.error("Voice briefing generation error:", error);
+      if (error instanceof LLMOutputError) {
+        const urgentTasks = tasks.filter(t => t.priority === 'urgent' && !isTaskDone(t));
         return {
           text: "Good morning! You have several projects in progress and tasks to focus on today.",
           spokenText: "Good morning! You have several projects in progress and tasks to focus on today. Would you like me to help you prioritize your work?",
@@ -1178,9 +1025,6 @@ Return JSON with:
           urgentItems: urgentTasks.slice(0, 3).map(t => t.title)
         };
       }
-
-    } catch (error) {
-      console.error("Voice briefing generation error:", error);
       return {
         text: "Unable to generate briefing at this time.",
         spokenText: "I'm having trouble generating your briefing right now. Would you like me to try again?",
@@ -1190,15 +1034,16 @@ Return JSON with:
     }
   }
 
+  // onAnswerText streams the written answer: it gets each new piece of text as the model writes it
   async processSmartQuery(query: string, context: {
     userId: string;
     projects: any[];
     tasks: any[];
     context: any;
-  }) {
+  }, onAnswerText?: (text: string) => void) {
+    const onPartial = onAnswerText && streamJsonField('answer', onAnswerText);
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmClient.completeStructured('voiceAssistant', {
         messages: [
           {
             role: "system",
@@ -1230,23 +1075,10 @@ Context:
 - Recent activity: ${JSON.stringify(context.context)}`
           }
         ]
-      });
-
-      const responseText = completion.choices[0].message.content || "{}";
-      const jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || [null, responseText];
-      
-      try {
-        return JSON.parse(jsonMatch[1]);
-      } catch (parseError) {
-        return {
-          answer: "I can help you with project information, but I'm having trouble processing your specific query right now.",
-          spokenAnswer: "I can help you with project information, but I'm having trouble processing your specific query right now. Could you try rephrasing your question?",
-          data: {},
-          suggestions: ["Try asking about your urgent tasks", "Ask for today's priorities"]
-        };
-      }
+      }, smartQueryResponseSchema, { onPartial });
 
     } catch (error) {
+      if (error instanceof LLMOutputError) throw error;
       console.error("Smart query processing error:", error);
       return {
         answer: "Unable to process query at this time.",
@@ -1275,12 +1107,12 @@ Context:
       console.log(`📋 Project data: ${project.name} with ${projectTasks.length} tasks`);
       
       // Calculate project metrics
-      const completedTasks = projectTasks.filter((task: any) => task.status === 'completed');
-      const inProgressTasks = projectTasks.filter((task: any) => task.status === 'in_progress');
-      const todoTasks = projectTasks.filter((task: any) => task.status === 'todo');
+      const completedTasks = projectTasks.filter((task: any) => isTaskDone(task));
+      const inProgressTasks = projectTasks.filter((task: any) => getTaskCategory(task) === 'active');
+      const todoTasks = projectTasks.filter((task: any) => getTaskCategory(task) === 'open');
       const highPriorityTasks = projectTasks.filter((task: any) => task.priority === 'high' || task.priority === 'urgent');
       const overdueTasks = projectTasks.filter((task: any) => 
-        task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'completed'
+        task.dueDate && new Date(task.dueDate) < new Date() && !isTaskDone(task)
       );
       
       const progressPercentage = projectTasks.length > 0 
@@ -1296,8 +1128,7 @@ Context:
       
       console.log(`🤖 Generating AI talking points for project: ${project.name}`);
       
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const completion = await llmClient.complete('meetingPreparation', {
         messages: [
           {
             role: "system",
@@ -1374,7 +1205,7 @@ Generate comprehensive talking points that help the project owner lead an effect
         ]
       });
 
-      const preparation = completion.choices[0].message.content || "Unable to generate meeting preparation at this time.";
+      const preparation = completion.content || "Unable to generate meeting preparation at this time.";
       console.log(`✅ Generated project meeting preparation (${preparation.length} chars)`);
       
       return preparation;
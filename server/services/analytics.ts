@@ -1,9 +1,8 @@
-import OpenAI from 'openai';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-import type { Project, Task, User } from '@shared/schema';
+import { llmClient, LLMOutputError } from './llm';
+import { projectSuccessPredictionSchema, workloadAnalysisSchema, resourceOptimizationSchema, analyticsInsightsSchema } from './ai-schemas';
+import type { Project, Sprint, SprintSummary, Task, User } from '@shared/schema';
 import type { ProjectMember } from '@shared/schema';
+import { isTaskDone, getTaskCategory } from '@shared/schema';
 
 interface ProjectSuccessPrediction {
   projectId: string;
@@ -44,6 +43,33 @@ interface ResourceOptimization {
   bottlenecks: string[];
 }
 
+interface ProjectForecast {
+  unit: 'points' | 'hours';
+  totalScope: number;
+  completedScope: number;
+  remainingScope: number;
+  unestimatedTasks: number; // counted at the project's average estimate
+  velocityPerWeek: number; // average scope completed per week over the last 3 weeks
+  weeklyVelocity: Array<{ weekStart: string; completed: number; tasksCompleted: number }>;
+  projectedCompletion: string | null; // ISO date string, null when nothing has been completed recently
+  onTrack: boolean | null; // projected completion vs project due date, null without a due date or projection
+}
+
+interface SprintReport {
+  sprintId: string;
+  state: string;
+  unit: 'points' | 'hours';
+  committedScope: number; // everything in the sprint, including work that rolled over on close
+  completedScope: number;
+  remainingScope: number;
+  totalTasks: number;
+  completedTasks: number;
+  rolledOverTasks: number;
+  daysTotal: number;
+  daysElapsed: number;
+  burndown: Array<{ date: string; remainingScope: number | null; idealScope: number }>; // remainingScope is null for days still ahead
+}
+
 interface ProjectAnalytics {
   projectId: string;
   kpis: {
@@ -56,11 +82,15 @@ interface ProjectAnalytics {
   trends: {
     productivity: Array<{ date: string; score: number }>;
     velocity: Array<{ date: string; tasksCompleted: number }>;
-    burndown: Array<{ date: string; remainingTasks: number }>;
+    burndown: Array<{ date: string; remainingTasks: number; remainingScope: number }>;
   };
+  forecast: ProjectForecast;
   insights: string[];
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VELOCITY_WEEKS = 6; // history window; velocity averages the most recent half of it
+
 class AdvancedAnalyticsService {
   
   async generateProjectSuccessPrediction(
@@ -75,9 +105,9 @@ class AdvancedAnalyticsService {
         dueDate: project.dueDate,
         createdAt: project.createdAt,
         totalTasks: tasks.length,
-        completedTasks: tasks.filter(t => t.status === 'completed').length,
-        inProgressTasks: tasks.filter(t => t.status === 'in_progress').length,
-        overdueTasks: tasks.filter(t => t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed').length,
+        completedTasks: tasks.filter(t => isTaskDone(t)).length,
+        inProgressTasks: tasks.filter(t => getTaskCategory(t) === 'active').length,
+        overdueTasks: tasks.filter(t => t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)).length,
         highPriorityTasks: tasks.filter(t => t.priority === 'high' || t.priority === 'urgent').length,
         teamSize: teamMembers.length,
         averageTaskDuration: this.calculateAverageTaskDuration(tasks),
@@ -113,8 +143,7 @@ Provide a comprehensive analysis in JSON format with:
 
 Consider factors like task completion rate, overdue items, team capacity, deadline pressure, and project complexity.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const analysis = await llmClient.completeStructured('analytics', {
         messages: [
           {
             role: "system",
@@ -122,11 +151,8 @@ Consider factors like task completion rate, overdue items, team capacity, deadli
           },
           { role: "user", content: prompt }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
+      }, projectSuccessPredictionSchema);
       
       return {
         projectId: project.id,
@@ -139,6 +165,8 @@ Consider factors like task completion rate, overdue items, team capacity, deadli
         criticalPath: analysis.criticalPath || ["Task completion", "Resource allocation"]
       };
     } catch (error) {
+      // The defaults would pass for the AI's own prediction, so a malformed reply fails the request instead
+      if (error instanceof LLMOutputError) throw error;
       console.error('Project success prediction error:', error);
       return this.getDefaultPrediction(project);
     }
@@ -147,11 +175,12 @@ Consider factors like task completion rate, overdue items, team capacity, deadli
   async analyzeWorkload(
     userId: string, 
     tasks: Task[], 
-    projects: Project[]
+    projects: Project[],
+    loggedHours?: number // hours from time entries over the last 7 days, when the user tracks time
   ): Promise<WorkloadAnalysis> {
     try {
       const userTasks = tasks.filter(t => t.assigneeId === userId);
-      const activeTasks = userTasks.filter(t => t.status !== 'completed');
+      const activeTasks = userTasks.filter(t => !isTaskDone(t));
       
       const taskDistribution = {
         urgent: activeTasks.filter(t => t.priority === 'urgent').length,
@@ -186,20 +215,20 @@ Current Workload:
 - Active Projects: ${workloadData.projectCount}
 - Tasks Completed This Week: ${workloadData.completedThisWeek}
 - Average Tasks Per Day: ${workloadData.averageTasksPerDay.toFixed(1)}
+${loggedHours !== undefined ? `- Hours Logged In The Last 7 Days: ${loggedHours}` : '- Hours Logged: no time tracking data'}
 
 Provide workload analysis in JSON format:
 {
   "burnoutRisk": "<Low|Medium|High|Critical>",
   "workloadScore": <0-100 where 100 is maximum healthy capacity>,
-  "weeklyHours": <estimated weekly hours needed>,
+  "weeklyHours": <estimated weekly hours needed; use the logged hours when provided>,
   "recommendations": [<array of specific recommendations>],
   "optimalCapacity": <0-100 recommended workload percentage>
 }
 
 Consider factors like task volume, priority distribution, overdue items, and sustainable work pace.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const analysis = await llmClient.completeStructured('analytics', {
         messages: [
           {
             role: "system", 
@@ -207,25 +236,23 @@ Consider factors like task volume, priority distribution, overdue items, and sus
           },
           { role: "user", content: prompt }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
+      }, workloadAnalysisSchema);
 
       return {
         userId,
         burnoutRisk: ['Low', 'Medium', 'High', 'Critical'].includes(analysis.burnoutRisk) 
           ? analysis.burnoutRisk : 'Medium',
         workloadScore: Math.min(100, Math.max(0, analysis.workloadScore || 50)),
-        weeklyHours: Math.max(0, analysis.weeklyHours || 40),
+        weeklyHours: loggedHours ?? Math.max(0, analysis.weeklyHours || 40),
         taskDistribution,
         recommendations: analysis.recommendations || ["Monitor workload regularly"],
         optimalCapacity: Math.min(100, Math.max(0, analysis.optimalCapacity || 80))
       };
     } catch (error) {
+      if (error instanceof LLMOutputError) throw error;
       console.error('Workload analysis error:', error);
-      return this.getDefaultWorkloadAnalysis(userId, tasks);
+      return this.getDefaultWorkloadAnalysis(userId, tasks, loggedHours);
     }
   }
 
@@ -236,7 +263,7 @@ Consider factors like task volume, priority distribution, overdue items, and sus
   ): Promise<ResourceOptimization> {
     try {
       const userWorkloads = users.map(user => {
-        const userTasks = tasks.filter(t => t.assigneeId === user.id && t.status !== 'completed');
+        const userTasks = tasks.filter(t => t.assigneeId === user.id && !isTaskDone(t));
         return {
           userId: user.id,
           email: user.email,
@@ -249,7 +276,7 @@ Consider factors like task volume, priority distribution, overdue items, and sus
 
       const resourceData = {
         totalUsers: users.length,
-        totalActiveTasks: tasks.filter(t => t.status !== 'completed').length,
+        totalActiveTasks: tasks.filter(t => !isTaskDone(t)).length,
         userWorkloads: userWorkloads,
         averageTasksPerUser: userWorkloads.reduce((sum, u) => sum + u.taskCount, 0) / users.length,
         maxWorkload: Math.max(...userWorkloads.map(u => u.taskCount)),
@@ -287,8 +314,7 @@ Provide resource optimization in JSON format:
 
 Focus on workload balance, skill utilization, and removing bottlenecks.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const analysis = await llmClient.completeStructured('analytics', {
         messages: [
           {
             role: "system",
@@ -296,11 +322,8 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
           },
           { role: "user", content: prompt }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.3
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
+      }, resourceOptimizationSchema);
 
       return {
         overallocatedUsers: analysis.overallocatedUsers || [],
@@ -310,58 +333,198 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
         bottlenecks: analysis.bottlenecks || ["No major bottlenecks identified"]
       };
     } catch (error) {
+      if (error instanceof LLMOutputError) throw error;
       console.error('Resource optimization error:', error);
       return this.getDefaultResourceOptimization();
     }
   }
 
+  // KPIs, trends and forecast are computed from task history; only the insights text comes from the AI
   async generateProjectAnalytics(
     project: Project,
     tasks: Task[],
     historicalData?: any[]
   ): Promise<ProjectAnalytics> {
-    const completedTasks = tasks.filter(t => t.status === 'completed');
+    const completedTasks = tasks.filter(t => isTaskDone(t));
     const overdueTasks = tasks.filter(t => 
-      t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed'
+      t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)
     );
     
     const completionRate = tasks.length > 0 ? (completedTasks.length / tasks.length) * 100 : 0;
     const overdueRate = tasks.length > 0 ? (overdueTasks.length / tasks.length) * 100 : 0;
 
+    const kpis = {
+      completionRate: Math.round(completionRate),
+      velocityTrend: this.calculateVelocityTrend(tasks),
+      avgTaskDuration: this.calculateAverageTaskDuration(tasks),
+      overdueRate: Math.round(overdueRate),
+      teamSatisfaction: this.estimateTeamSatisfaction(tasks)
+    };
+    const forecast = this.calculateForecast(project, tasks);
+
     return {
       projectId: project.id,
-      kpis: {
-        completionRate: Math.round(completionRate),
-        velocityTrend: this.calculateVelocityTrend(tasks),
-        avgTaskDuration: this.calculateAverageTaskDuration(tasks),
-        overdueRate: Math.round(overdueRate),
-        teamSatisfaction: this.estimateTeamSatisfaction(tasks)
-      },
+      kpis,
       trends: {
         productivity: this.generateProductivityTrend(),
-        velocity: this.generateVelocityTrend(),
+        velocity: this.generateVelocityTrend(tasks),
         burndown: this.generateBurndownChart(tasks)
       },
-      insights: await this.generateProjectInsights(project, tasks)
+      forecast,
+      insights: await this.generateProjectInsights(project, tasks, kpis, forecast)
+    };
+  }
+
+  calculateForecast(project: Project, tasks: Task[]): ProjectForecast {
+    const topLevelTasks = tasks.filter(t => !t.parentTaskId);
+    const weights = this.getTaskWeights(topLevelTasks);
+    const weeklyVelocity = this.calculateWeeklyVelocity(topLevelTasks, weights);
+
+    const totalScope = topLevelTasks.reduce((sum, t) => sum + weights.get(t.id)!, 0);
+    const completedScope = topLevelTasks
+      .filter(t => isTaskDone(t))
+      .reduce((sum, t) => sum + weights.get(t.id)!, 0);
+    const remainingScope = totalScope - completedScope;
+
+    const recentWeeks = weeklyVelocity.slice(-VELOCITY_WEEKS / 2);
+    const velocityPerWeek = recentWeeks.reduce((sum, w) => sum + w.completed, 0) / recentWeeks.length;
+
+    let projectedCompletion: string | null = null;
+    if (remainingScope === 0) {
+      projectedCompletion = new Date().toISOString();
+    } else if (velocityPerWeek > 0) {
+      projectedCompletion = new Date(Date.now() + (remainingScope / velocityPerWeek) * 7 * DAY_MS).toISOString();
+    }
+
+    return {
+      unit: project.estimateUnit === 'hours' ? 'hours' : 'points',
+      totalScope: this.round(totalScope),
+      completedScope: this.round(completedScope),
+      remainingScope: this.round(remainingScope),
+      unestimatedTasks: topLevelTasks.filter(t => t.estimate == null).length,
+      velocityPerWeek: this.round(velocityPerWeek),
+      weeklyVelocity,
+      projectedCompletion,
+      onTrack: projectedCompletion && project.dueDate
+        ? new Date(projectedCompletion) <= new Date(project.dueDate)
+        : null
+    };
+  }
+
+  // tasks: the sprint's top-level tasks plus, for a closed sprint, the ones that rolled over out of it
+  generateSprintReport(project: Project, sprint: Sprint, tasks: Task[]): SprintReport {
+    const sprintTasks = tasks.filter(t => !t.parentTaskId);
+    const weights = this.getTaskWeights(sprintTasks);
+    const summary = sprint.summary as SprintSummary | null;
+    const rolledOver = new Set(summary?.rolledOverTaskIds || []);
+
+    const start = new Date(sprint.startDate);
+    const end = new Date(sprint.endDate);
+    const cutoff = sprint.closedAt ? new Date(sprint.closedAt) : new Date();
+    // Only completions inside the sprint count towards it; rolled-over work never completed here
+    const isDoneBy = (task: Task, date: Date) => {
+      if (rolledOver.has(task.id)) return false;
+      const completedAt = this.getCompletedAt(task);
+      return !!completedAt && completedAt <= date;
+    };
+
+    const committedScope = sprintTasks.reduce((sum, t) => sum + weights.get(t.id)!, 0);
+    const completed = sprintTasks.filter(t => isDoneBy(t, cutoff));
+    const completedScope = completed.reduce((sum, t) => sum + weights.get(t.id)!, 0);
+
+    const daysTotal = Math.max(1, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+    const daysElapsed = Math.min(daysTotal, Math.max(0, Math.ceil((Math.min(cutoff.getTime(), end.getTime()) - start.getTime()) / DAY_MS)));
+
+    const burndown = [];
+    for (let day = 0; day <= daysTotal; day++) {
+      const date = new Date(start.getTime() + day * DAY_MS);
+      const idealScope = this.round(committedScope * (1 - day / daysTotal));
+      const remaining = day <= daysElapsed
+        ? this.round(sprintTasks.filter(t => !isDoneBy(t, date)).reduce((sum, t) => sum + weights.get(t.id)!, 0))
+        : null;
+      burndown.push({
+        date: date.toISOString().split('T')[0],
+        remainingScope: remaining,
+        idealScope
+      });
+    }
+
+    return {
+      sprintId: sprint.id,
+      state: sprint.state,
+      unit: project.estimateUnit === 'hours' ? 'hours' : 'points',
+      committedScope: this.round(committedScope),
+      completedScope: this.round(completedScope),
+      remainingScope: this.round(committedScope - completedScope),
+      totalTasks: sprintTasks.length,
+      completedTasks: completed.length,
+      rolledOverTasks: rolledOver.size,
+      daysTotal,
+      daysElapsed,
+      burndown
     };
   }
 
   // Helper methods
+  // Tasks completed before completedAt existed fall back to their last update
+  private getCompletedAt(task: Task): Date | null {
+    if (task.completedAt) return new Date(task.completedAt);
+    if (isTaskDone(task) && task.updatedAt) return new Date(task.updatedAt);
+    return null;
+  }
+
+  // Each task's estimate; unestimated tasks count as the average estimate (or 1 when nothing is estimated)
+  private getTaskWeights(tasks: Task[]): Map<string, number> {
+    const estimated = tasks.filter(t => t.estimate != null);
+    const fallback = estimated.length > 0
+      ? estimated.reduce((sum, t) => sum + t.estimate!, 0) / estimated.length
+      : 1;
+    return new Map(tasks.map(t => [t.id, t.estimate ?? fallback]));
+  }
+
+  // Scope completed in each of the last VELOCITY_WEEKS rolling 7-day windows, oldest first
+  private calculateWeeklyVelocity(tasks: Task[], weights: Map<string, number>) {
+    const now = Date.now();
+    const weeks = [];
+    for (let i = VELOCITY_WEEKS - 1; i >= 0; i--) {
+      const start = now - (i + 1) * 7 * DAY_MS;
+      const end = now - i * 7 * DAY_MS;
+      const completed = tasks.filter(t => {
+        const completedAt = this.getCompletedAt(t);
+        return completedAt && completedAt.getTime() > start && completedAt.getTime() <= end;
+      });
+      weeks.push({
+        weekStart: new Date(start).toISOString().split('T')[0],
+        completed: this.round(completed.reduce((sum, t) => sum + (weights.get(t.id) ?? 1), 0)),
+        tasksCompleted: completed.length
+      });
+    }
+    return weeks;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
   private calculateAverageTaskDuration(tasks: Task[]): number {
-    const completedTasks = tasks.filter(t => t.status === 'completed' && t.createdAt);
+    const completedTasks = tasks.filter(t => isTaskDone(t) && t.createdAt);
     if (completedTasks.length === 0) return 3; // Default 3 days
     
     const totalDuration = completedTasks.reduce((sum, task) => {
       const created = new Date(task.createdAt!);
-      const completed = new Date(task.updatedAt || created);
-      return sum + (completed.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
+      const completed = this.getCompletedAt(task) || created;
+      return sum + (completed.getTime() - created.getTime()) / DAY_MS;
     }, 0);
     
     return Math.round(totalDuration / completedTasks.length);
   }
 
   private predictCompletionDate(project: Project, tasks: Task[]): string {
-    const remaining = tasks.filter(t => t.status !== 'completed').length;
+    const { projectedCompletion } = this.calculateForecast(project, tasks);
+    if (projectedCompletion) return projectedCompletion;
+
+    // No recent velocity - fall back to average task duration
+    const remaining = tasks.filter(t => !isTaskDone(t)).length;
     const avgDuration = this.calculateAverageTaskDuration(tasks);
     const predictedDays = remaining * avgDuration;
     
@@ -375,23 +538,27 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
     weekStart.setDate(weekStart.getDate() - weekStart.getDay());
     weekStart.setHours(0, 0, 0, 0);
 
-    return tasks.filter(t => 
-      t.status === 'completed' && 
-      t.updatedAt && 
-      new Date(t.updatedAt) >= weekStart
-    ).length;
+    return tasks.filter(t => {
+      const completedAt = this.getCompletedAt(t);
+      return completedAt && completedAt >= weekStart;
+    }).length;
   }
 
+  // Percentage change in velocity: the last 3 weeks against the 3 weeks before
   private calculateVelocityTrend(tasks: Task[]): number {
-    // Simplified velocity calculation - in production would use historical data
-    const completedTasks = tasks.filter(t => t.status === 'completed');
-    const totalTasks = tasks.length;
-    return totalTasks > 0 ? (completedTasks.length / totalTasks) * 100 - 50 : 0;
+    const topLevelTasks = tasks.filter(t => !t.parentTaskId);
+    const weeks = this.calculateWeeklyVelocity(topLevelTasks, this.getTaskWeights(topLevelTasks));
+    const half = VELOCITY_WEEKS / 2;
+    const previous = weeks.slice(0, half).reduce((sum, w) => sum + w.completed, 0);
+    const recent = weeks.slice(half).reduce((sum, w) => sum + w.completed, 0);
+
+    if (previous === 0) return recent > 0 ? 100 : 0;
+    return Math.round(((recent - previous) / previous) * 100);
   }
 
   private estimateTeamSatisfaction(tasks: Task[]): number {
     const overdueCount = tasks.filter(t => 
-      t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed'
+      t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)
     ).length;
     const totalTasks = tasks.length;
     const overdueRate = totalTasks > 0 ? overdueCount / totalTasks : 0;
@@ -412,45 +579,93 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
     return data;
   }
 
-  private generateVelocityTrend(): Array<{ date: string; tasksCompleted: number }> {
+  private generateVelocityTrend(tasks: Task[]): Array<{ date: string; tasksCompleted: number }> {
     const data = [];
     for (let i = 14; i >= 0; i--) {
       const date = new Date();
       date.setDate(date.getDate() - i);
+      const day = date.toISOString().split('T')[0];
       data.push({
-        date: date.toISOString().split('T')[0],
-        tasksCompleted: Math.round(Math.random() * 8 + 2)
+        date: day,
+        tasksCompleted: tasks.filter(t => this.getCompletedAt(t)?.toISOString().split('T')[0] === day).length
       });
     }
     return data;
   }
 
-  private generateBurndownChart(tasks: Task[]): Array<{ date: string; remainingTasks: number }> {
-    const completedTasks = tasks.filter(t => t.status === 'completed').length;
-    const totalTasks = tasks.length;
-    const remainingTasks = totalTasks - completedTasks;
+  // Open scope at the end of each of the last 30 days, replayed from createdAt/completedAt
+  private generateBurndownChart(tasks: Task[]): Array<{ date: string; remainingTasks: number; remainingScope: number }> {
+    const topLevelTasks = tasks.filter(t => !t.parentTaskId);
+    const weights = this.getTaskWeights(topLevelTasks);
     
     const data = [];
     for (let i = 30; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const progress = (30 - i) / 30;
-      const remaining = Math.max(0, Math.round(remainingTasks * (1 - progress * 0.8)));
+      const endOfDay = new Date();
+      endOfDay.setDate(endOfDay.getDate() - i);
+      endOfDay.setHours(23, 59, 59, 999);
+
+      const open = topLevelTasks.filter(t => {
+        const createdAt = t.createdAt ? new Date(t.createdAt) : null;
+        const completedAt = this.getCompletedAt(t);
+        return (!createdAt || createdAt <= endOfDay) && (!completedAt || completedAt > endOfDay);
+      });
       
       data.push({
-        date: date.toISOString().split('T')[0],
-        remainingTasks: remaining
+        date: endOfDay.toISOString().split('T')[0],
+        remainingTasks: open.length,
+        remainingScope: this.round(open.reduce((sum, t) => sum + weights.get(t.id)!, 0))
       });
     }
     return data;
   }
 
-  private async generateProjectInsights(project: Project, tasks: Task[]): Promise<string[]> {
+  // Narrative only: the AI explains the computed numbers, it never produces them
+  private async generateProjectInsights(
+    project: Project,
+    tasks: Task[],
+    kpis: ProjectAnalytics['kpis'],
+    forecast: ProjectForecast
+  ): Promise<string[]> {
+    try {
+      const prompt = `Write 3-5 short, specific insights for a project manager based on these computed metrics. Do not invent numbers.
+
+Project: ${project.name}
+Due Date: ${project.dueDate ? new Date(project.dueDate).toISOString().split('T')[0] : 'Not set'}
+Completion Rate: ${kpis.completionRate}%
+Overdue Rate: ${kpis.overdueRate}%
+Average Task Duration: ${kpis.avgTaskDuration} days
+Scope: ${forecast.completedScope} of ${forecast.totalScope} ${forecast.unit} completed, ${forecast.remainingScope} remaining (${forecast.unestimatedTasks} tasks unestimated)
+Velocity: ${forecast.velocityPerWeek} ${forecast.unit}/week (trend ${kpis.velocityTrend}% vs the previous 3 weeks)
+Weekly Completed: ${forecast.weeklyVelocity.map(w => w.completed).join(', ')}
+Projected Completion: ${forecast.projectedCompletion ? forecast.projectedCompletion.split('T')[0] : 'Cannot project - nothing completed recently'}
+On Track For Due Date: ${forecast.onTrack === null ? 'Unknown' : forecast.onTrack ? 'Yes' : 'No'}
+
+Respond in JSON format: { "insights": [<array of strings>] }`;
+
+      const result = await llmClient.completeStructured('analytics', {
+        messages: [
+          {
+            role: "system",
+            content: "You are an AI project management analyst. Explain the provided metrics in plain language; never change or estimate numbers yourself."
+          },
+          { role: "user", content: prompt }
+        ],
+        temperature: 0.3
+      }, analyticsInsightsSchema);
+      return result.insights;
+    } catch (error) {
+      console.error('Project insights generation error:', error);
+    }
+
+    return this.getDefaultProjectInsights(project, tasks, forecast);
+  }
+
+  private getDefaultProjectInsights(project: Project, tasks: Task[], forecast: ProjectForecast): string[] {
     const insights = [];
     
-    const completionRate = tasks.length > 0 ? (tasks.filter(t => t.status === 'completed').length / tasks.length) * 100 : 0;
+    const completionRate = tasks.length > 0 ? (tasks.filter(t => isTaskDone(t)).length / tasks.length) * 100 : 0;
     const overdueCount = tasks.filter(t => 
-      t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'completed'
+      t.dueDate && new Date(t.dueDate) < new Date() && !isTaskDone(t)
     ).length;
 
     if (completionRate > 80) {
@@ -470,6 +685,10 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
       }
     }
 
+    if (forecast.onTrack === false && forecast.projectedCompletion) {
+      insights.push(`At ${forecast.velocityPerWeek} ${forecast.unit}/week the remaining work finishes around ${forecast.projectedCompletion.split('T')[0]}, after the due date`);
+    }
+
     return insights.length > 0 ? insights : ["Project is progressing normally"];
   }
 
@@ -487,13 +706,13 @@ Focus on workload balance, skill utilization, and removing bottlenecks.`;
     };
   }
 
-  private getDefaultWorkloadAnalysis(userId: string, tasks: Task[]): WorkloadAnalysis {
-    const userTasks = tasks.filter(t => t.assigneeId === userId && t.status !== 'completed');
+  private getDefaultWorkloadAnalysis(userId: string, tasks: Task[], loggedHours?: number): WorkloadAnalysis {
+    const userTasks = tasks.filter(t => t.assigneeId === userId && !isTaskDone(t));
     return {
       userId,
       burnoutRisk: userTasks.length > 15 ? 'High' : userTasks.length > 8 ? 'Medium' : 'Low',
       workloadScore: Math.min(100, userTasks.length * 8),
-      weeklyHours: Math.min(60, userTasks.length * 3),
+      weeklyHours: loggedHours ?? Math.min(60, userTasks.length * 3),
       taskDistribution: {
         urgent: userTasks.filter(t => t.priority === 'urgent').length,
         high: userTasks.filter(t => t.priority === 'high').length,
@@ -521,5 +740,7 @@ export type {
   ProjectSuccessPrediction, 
   WorkloadAnalysis, 
   ResourceOptimization, 
-  ProjectAnalytics 
+  ProjectAnalytics,
+  ProjectForecast,
+  SprintReport
 };
\ No newline at end of file
@@ -0,0 +1,565 @@
+import { storage } from '../storage';
+import { llmClient, streamJsonField } from './llm';
+import { analyticsService } from './analytics';
+import { recordActivity, diffFields } from '../activity';
+import type { ConversationContext } from './assistantConversations';
+import { assistantPlanSchema, assistantToolCallSchema, type AssistantToolCall, type AssistantToolName } from './ai-schemas';
+import {
+  getWorkflow,
+  isTaskDone,
+  type AssistantAction,
+  type AssistantStep,
+  type AssistantUndoStep,
+  type Project,
+  type Task,
+} from '@shared/schema';
+
+// A tool call that can't be carried out for this user (unknown task, no access, nothing to change);
+// the message is read back to them as the assistant's answer
+export class AssistantToolError extends Error {}
+
+// Confirm, cancel or undo asked for an action that doesn't exist or isn't in the right state for it
+export class AssistantActionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export interface AssistantReply {
+  response: string;
+  action: AssistantAction | null; // the stored plan, when the command asked for changes
+  needsConfirmation: boolean;
+  dataModified: boolean;
+}
+
+export interface AssistantToolEvent {
+  tool: AssistantToolName;
+  status: 'planned' | 'running' | 'done' | 'failed';
+  description: string;
+  summary?: string;
+}
+
+// Listeners for a streamed command: the reply as the model writes it (new text only), and each tool step
+export interface AssistantProgress {
+  onText(text: string): void;
+  onTool(event: AssistantToolEvent): void;
+}
+
+interface ToolContext {
+  userId: string;
+  projects: Project[]; // the user's projects; every id in a call must belong to one of them
+}
+
+type ArgsOf<T extends AssistantToolName> = Extract<AssistantToolCall, { tool: T }>['args'];
+
+interface AssistantTool<T extends AssistantToolName> {
+  destructive: boolean; // changes existing records, so the plan waits for confirmation
+  readOnly?: boolean; // runs as soon as it is asked for and has nothing to undo
+  // Checks the call against what the user can access and says what it will do
+  describe(args: ArgsOf<T>, context: ToolContext): Promise<string>;
+  run(args: ArgsOf<T>, context: ToolContext): Promise<{ summary: string; undo: AssistantUndoStep | null }>;
+}
+
+const MAX_CONTEXT_TASKS = 40;
+const DATE_FIELDS = ['dueDate', 'completedAt'];
+
+function formatDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString().split('T')[0] : 'no date';
+}
+
+function accessibleProject(projectId: string, context: ToolContext): Project {
+  const project = context.projects.find(p => p.id === projectId);
+  if (!project) throw new AssistantToolError("I couldn't find that project.");
+  return project;
+}
+
+async function accessibleTask(taskId: string, context: ToolContext): Promise<{ task: Task; project: Project }> {
+  const task = await storage.getTask(taskId);
+  const project = task && context.projects.find(p => p.id === task.projectId);
+  if (!task || !project) throw new AssistantToolError("I couldn't find that task.");
+  return { task, project };
+}
+
+// The project's owner and members - who its tasks can be assigned to
+async function projectPeople(project: Project): Promise<{ id: string; name: string }[]> {
+  const people = new Map<string, string>();
+  const owner = await storage.getUser(project.ownerId);
+  if (owner) people.set(owner.id, owner.name);
+  for (const member of await storage.getProjectMembers(project.id)) {
+    people.set(member.user.id, member.user.name);
+  }
+  return Array.from(people, ([id, name]) => ({ id, name }));
+}
+
+// Previous values of the fields an update touches, stored with the action so undo can put them back
+function snapshotTask(task: Task, keys: string[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = task[key as keyof Task];
+    fields[key] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return fields;
+}
+
+const STATUS_FIELDS = ['status', 'statusCategory', 'completedAt'];
+
+const tools: { [T in AssistantToolName]: AssistantTool<T> } = {
+  create_task: {
+    destructive: false,
+    async describe(args, context) {
+      const project = accessibleProject(args.projectId, context);
+      if (args.assigneeId && !(await projectPeople(project)).some(person => person.id === args.assigneeId)) {
+        throw new AssistantToolError(`That person isn't a member of ${project.name}.`);
+      }
+      return `Create task "${args.title}" in ${project.name}${args.dueDate ? `, due ${formatDate(args.dueDate)}` : ''}`;
+    },
+    async run(args, context) {
+      const project = accessibleProject(args.projectId, context);
+      const task = await storage.createTask({
+        title: args.title,
+        description: args.description || "",
+        priority: args.priority || "medium",
+        status: "todo",
+        projectId: project.id,
+        dueDate: args.dueDate ? new Date(args.dueDate) : null,
+        assigneeId: args.assigneeId ?? context.userId,
+      });
+      await recordActivity({ projectId: project.id, actorId: context.userId, entityType: "task", entityId: task.id, entityTitle: task.title, action: "created" });
+      return { summary: `Created "${task.title}" in ${project.name}.`, undo: { type: "delete_task", taskId: task.id } };
+    },
+  },
+
+  update_task: {
+    destructive: true,
+    async describe(args, context) {
+      const { task } = await accessibleTask(args.taskId, context);
+      const { taskId, ...changes } = args;
+      const parts = Object.entries(changes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key === 'dueDate' ? 'due date' : key} to ${key === 'dueDate' ? formatDate(value as string | null) : `"${value}"`}`);
+      if (parts.length === 0) throw new AssistantToolError(`What should I change about "${task.title}"?`);
+      return `Change "${task.title}": ${parts.join(', ')}`;
+    },
+    async run(args, context) {
+      const { task: before } = await accessibleTask(args.taskId, context);
+      const { taskId, dueDate, ...changes } = args;
+      const updates = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<Task>;
+      if (dueDate !== undefined) updates.dueDate = dueDate ? new Date(dueDate) : null;
+
+      const task = await storage.updateTask(taskId, updates, context.userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: context.userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: isTaskDone(task) && !isTaskDone(before) ? "completed" : "updated",
+        changes: diffFields(before, updates),
+      });
+
+      const keys = Object.keys(updates).filter(key => key !== 'status').concat(updates.status ? STATUS_FIELDS : []);
+      return { summary: `Updated "${task.title}".`, undo: { type: "restore_task", taskId, fields: snapshotTask(before, keys) } };
+    },
+  },
+
+  complete_task: {
+    destructive: true,
+    async describe(args, context) {
+      const { task } = await accessibleTask(args.taskId, context);
+      if (isTaskDone(task)) throw new AssistantToolError(`"${task.title}" is already done.`);
+      return `Mark "${task.title}" as done`;
+    },
+    async run(args, context) {
+      const { task: before, project } = await accessibleTask(args.taskId, context);
+      const done = getWorkflow(project).find(status => status.category === 'done');
+      if (!done) throw new AssistantToolError(`${project.name} has no done status.`);
+
+      const task = await storage.updateTask(before.id, { status: done.key }, context.userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: context.userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "completed",
+        changes: diffFields(before, { status: task.status }),
+      });
+      return { summary: `Marked "${task.title}" as done.`, undo: { type: "restore_task", taskId: task.id, fields: snapshotTask(before, STATUS_FIELDS) } };
+    },
+  },
+
+  reassign_task: {
+    destructive: true,
+    async describe(args, context) {
+      const { task, project } = await accessibleTask(args.taskId, context);
+      const people = await projectPeople(project);
+      const assignee = args.assigneeId ? people.find(person => person.id === args.assigneeId) : null;
+      if (args.assigneeId && !assignee) throw new AssistantToolError(`That person isn't a member of ${project.name}.`);
+      const current = people.find(person => person.id === task.assigneeId)?.name || 'nobody';
+      return assignee ? `Reassign "${task.title}" from ${current} to ${assignee.name}` : `Unassign "${task.title}" from ${current}`;
+    },
+    async run(args, context) {
+      const { task: before, project } = await accessibleTask(args.taskId, context);
+      if (args.assigneeId && !(await projectPeople(project)).some(person => person.id === args.assigneeId)) {
+        throw new AssistantToolError(`That person isn't a member of ${project.name}.`);
+      }
+
+      const task = await storage.updateTask(before.id, { assigneeId: args.assigneeId }, context.userId);
+      await recordActivity({
+        projectId: task.projectId,
+        actorId: context.userId,
+        entityType: "task",
+        entityId: task.id,
+        entityTitle: task.title,
+        action: "updated",
+        changes: diffFields(before, { assigneeId: args.assigneeId }),
+      });
+      return { summary: `Reassigned "${task.title}".`, undo: { type: "restore_task", taskId: task.id, fields: snapshotTask(before, ['assigneeId']) } };
+    },
+  },
+
+  schedule_meeting: {
+    destructive: false,
+    async describe(args, context) {
+      const project = args.projectId ? accessibleProject(args.projectId, context) : null;
+      return `Schedule "${args.title}" on ${new Date(args.scheduledAt).toLocaleString()} for ${args.duration} minutes${project ? ` in ${project.name}` : ''}`;
+    },
+    async run(args, context) {
+      const project = args.projectId ? accessibleProject(args.projectId, context) : null;
+      const meeting = await storage.createMeeting({
+        title: args.title,
+        description: args.description || null,
+        projectId: project?.id ?? null,
+        scheduledAt: new Date(args.scheduledAt),
+        duration: args.duration,
+        createdById: context.userId,
+        isRecurring: false,
+      });
+      await recordActivity({ projectId: meeting.projectId, actorId: context.userId, entityType: "meeting", entityId: meeting.id, entityTitle: meeting.title, action: "created" });
+      return { summary: `Scheduled "${meeting.title}" for ${meeting.scheduledAt.toLocaleString()}.`, undo: { type: "delete_meeting", meetingId: meeting.id } };
+    },
+  },
+
+  link_external_meeting: {
+    destructive: false,
+    async describe(args, context) {
+      const meeting = await storage.getExternalMeeting(args.externalMeetingId);
+      if (!meeting || meeting.userId !== context.userId) throw new AssistantToolError("I couldn't find that calendar meeting.");
+      const project = args.projectId ? accessibleProject(args.projectId, context) : null;
+      return project ? `Link calendar meeting "${meeting.title}" to ${project.name}` : `Unlink calendar meeting "${meeting.title}" from its project`;
+    },
+    async run(args, context) {
+      const before = await storage.getExternalMeeting(args.externalMeetingId);
+      if (!before || before.userId !== context.userId) throw new AssistantToolError("I couldn't find that calendar meeting.");
+      const project = args.projectId ? accessibleProject(args.projectId, context) : null;
+
+      const meeting = await storage.linkExternalMeetingToProject(before.id, project?.id ?? null);
+      await recordActivity({
+        projectId: meeting.projectId ?? before.projectId,
+        actorId: context.userId,
+        entityType: "meeting",
+        entityId: meeting.id,
+        entityTitle: meeting.title,
+        action: "linked",
+        changes: diffFields(before, { projectId: meeting.projectId }),
+      });
+      return {
+        summary: project ? `Linked "${meeting.title}" to ${project.name}.` : `Unlinked "${meeting.title}".`,
+        undo: { type: "relink_external_meeting", externalMeetingId: meeting.id, projectId: before.projectId },
+      };
+    },
+  },
+
+  query_analytics: {
+    destructive: false,
+    readOnly: true,
+    async describe(args, context) {
+      if (args.metric === 'project_status') {
+        if (!args.projectId) throw new AssistantToolError("Which project do you mean?");
+        return `Look up the status of ${accessibleProject(args.projectId, context).name}`;
+      }
+      return args.metric === 'my_workload' ? 'Look up your workload' : 'Look up your overdue tasks';
+    },
+    async run(args, context) {
+      const now = new Date();
+      const isOverdue = (task: Task) => !!task.dueDate && task.dueDate < now && !isTaskDone(task);
+
+      if (args.metric === 'project_status') {
+        const project = accessibleProject(args.projectId!, context);
+        const tasks = await storage.getTasksByProject(project.id);
+        const done = tasks.filter(task => isTaskDone(task)).length;
+        const percent = tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0;
+        const forecast = analyticsService.calculateForecast(project, tasks);
+        const pace = forecast.projectedCompletion
+          ? ` At the current pace it finishes around ${formatDate(forecast.projectedCompletion)}${forecast.onTrack === false ? ', after its due date' : ''}.`
+          : '';
+        return {
+          summary: `${project.name} is ${percent}% complete: ${done} of ${tasks.length} tasks done, ${tasks.filter(isOverdue).length} overdue.${pace}`,
+          undo: null,
+        };
+      }
+
+      const open = (await storage.getTasks(undefined, context.userId)).filter(task => !isTaskDone(task));
+      const overdue = open.filter(isOverdue);
+      if (args.metric === 'overdue_tasks') {
+        return {
+          summary: overdue.length === 0
+            ? "You have no overdue tasks."
+            : `You have ${overdue.length} overdue ${overdue.length === 1 ? 'task' : 'tasks'}: ${overdue.slice(0, 5).map(task => `"${task.title}"`).join(', ')}${overdue.length > 5 ? ' and more' : ''}.`,
+          undo: null,
+        };
+      }
+
+      const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      const dueThisWeek = open.filter(task => task.dueDate && task.dueDate >= now && task.dueDate <= weekAhead).length;
+      const urgent = open.filter(task => task.priority === 'urgent').length;
+      return {
+        summary: `You have ${open.length} open tasks: ${dueThisWeek} due in the next 7 days, ${overdue.length} overdue and ${urgent} urgent.`,
+        undo: null,
+      };
+    },
+  },
+};
+
+function toolFor(call: AssistantToolCall): AssistantTool<AssistantToolName> {
+  return tools[call.tool] as AssistantTool<AssistantToolName>;
+}
+
+// Stored steps are plain JSON; parse them again so each tool gets typed, validated arguments
+function callFor(step: AssistantStep): AssistantToolCall {
+  return assistantToolCallSchema.parse({ tool: step.tool, args: step.args });
+}
+
+async function runUndoStep(step: AssistantUndoStep, userId: string) {
+  switch (step.type) {
+    case 'delete_task': {
+      const task = await storage.getTask(step.taskId);
+      if (!task) return;
+      await storage.deleteTask(task.id);
+      await recordActivity({ projectId: task.projectId, actorId: userId, entityType: "task", entityId: task.id, entityTitle: task.title, action: "deleted" });
+      return;
+    }
+    case 'restore_task': {
+      const before = await storage.getTask(step.taskId);
+      if (!before) return;
+      const fields = Object.fromEntries(Object.entries(step.fields).map(([key, value]) =>
+        [key, DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value]
+      )) as Partial<Task>;
+      const task = await storage.restoreTask(step.taskId, fields, userId);
+      await recordActivity({ projectId: task.projectId, actorId: userId, entityType: "task", entityId: task.id, entityTitle: task.title, action: "updated", changes: diffFields(before, fields) });
+      return;
+    }
+    case 'delete_meeting': {
+      const meeting = await storage.getMeeting(step.meetingId);
+      if (!meeting) return;
+      await storage.deleteMeeting(meeting.id);
+      await recordActivity({ projectId: meeting.projectId, actorId: userId, entityType: "meeting", entityId: meeting.id, entityTitle: meeting.title, action: "deleted" });
+      return;
+    }
+    case 'relink_external_meeting':
+      await storage.linkExternalMeetingToProject(step.externalMeetingId, step.projectId);
+      return;
+  }
+}
+
+// The voice assistant: commands become typed tool calls. Questions are answered directly; changes are
+// stored as an action, run straight away when they only add something, and otherwise wait for the user
+// to confirm. Every executed action can be undone.
+class AssistantService {
+  async handleCommand(userId: string, command: string, conversation: ConversationContext, progress?: AssistantProgress): Promise<AssistantReply> {
+    const projects = await storage.getProjects(userId);
+    const context: ToolContext = { userId, projects };
+
+    const onPartial = progress && streamJsonField('response', text => progress.onText(text));
+    const plan = await llmClient.completeStructured('voiceAssistant', {
+      messages: [
+        { role: "system", content: await this.buildPrompt(context, conversation) },
+        { role: "user", content: `Process this voice command: "${command}"` },
+      ],
+    }, assistantPlanSchema, { onPartial });
+
+    if (plan.calls.length === 0) {
+      return { response: plan.response, action: null, needsConfirmation: false, dataModified: false };
+    }
+
+    let steps: AssistantStep[];
+    try {
+      steps = [];
+      for (const call of plan.calls) {
+        steps.push({ tool: call.tool, args: call.args, description: await toolFor(call).describe(call.args, context) });
+      }
+      for (const step of steps) {
+        progress?.onTool({ tool: step.tool as AssistantToolName, status: 'planned', description: step.description });
+      }
+    } catch (error) {
+      if (error instanceof AssistantToolError) {
+        return { response: error.message, action: null, needsConfirmation: false, dataModified: false };
+      }
+      throw error;
+    }
+
+    // Lookups only read, so they are answered straight away
+    if (plan.calls.every(call => toolFor(call).readOnly)) {
+      const summaries: string[] = [];
+      for (let index = 0; index < plan.calls.length; index++) {
+        const call = plan.calls[index];
+        const description = steps[index].description;
+        progress?.onTool({ tool: call.tool, status: 'running', description });
+        const { summary } = await toolFor(call).run(call.args, context);
+        progress?.onTool({ tool: call.tool, status: 'done', description, summary });
+        summaries.push(summary);
+      }
+      return { response: summaries.join(' '), action: null, needsConfirmation: false, dataModified: false };
+    }
+
+    const needsConfirmation = plan.calls.length > 1 || plan.calls.some(call => toolFor(call).destructive);
+    const action = await storage.createAssistantAction({
+      userId,
+      command,
+      steps,
+      status: needsConfirmation ? 'pending' : 'running',
+    });
+    if (needsConfirmation) {
+      return {
+        response: `Please confirm: ${steps.map(step => step.description).join('; ')}.`,
+        action,
+        needsConfirmation: true,
+        dataModified: false,
+      };
+    }
+    return await this.execute(action, context, progress);
+  }
+
+  async confirm(userId: string, actionId: string): Promise<AssistantReply> {
+    await this.getOwnAction(userId, actionId);
+    const action = await storage.transitionAssistantAction(actionId, 'pending', { status: 'running' });
+    if (!action) throw new AssistantActionError("This action is no longer waiting for confirmation", 409);
+    return await this.execute(action, { userId, projects: await storage.getProjects(userId) });
+  }
+
+  async cancel(userId: string, actionId: string): Promise<AssistantReply> {
+    await this.getOwnAction(userId, actionId);
+    const action = await storage.transitionAssistantAction(actionId, 'pending', { status: 'cancelled' });
+    if (!action) throw new AssistantActionError("This action is no longer waiting for confirmation", 409);
+    return { response: "Okay, I won't do that.", action, needsConfirmation: false, dataModified: false };
+  }
+
+  async undo(userId: string, actionId: string): Promise<AssistantReply> {
+    const existing = await this.getOwnAction(userId, actionId);
+    const action = await storage.transitionAssistantAction(actionId, 'executed', { status: 'running' });
+    if (!action) throw new AssistantActionError("Only actions that ran can be undone", 409);
+
+    const undoSteps = (existing.undoSteps as AssistantUndoStep[] | null) || [];
+    try {
+      for (const step of [...undoSteps].reverse()) {
+        await runUndoStep(step, userId);
+      }
+    } catch (error: any) {
+      // Leave it undoable so the user can try again; steps already reversed are no-ops the second time
+      await storage.transitionAssistantAction(actionId, 'running', { status: 'executed', error: `Undo failed: ${error.message}` });
+      throw error;
+    }
+
+    const undone = await storage.transitionAssistantAction(actionId, 'running', { status: 'undone', undoneAt: new Date(), error: null });
+    return { response: "Done, I've undone that.", action: undone || null, needsConfirmation: false, dataModified: true };
+  }
+
+  private async getOwnAction(userId: string, actionId: string): Promise<AssistantAction> {
+    const action = await storage.getAssistantAction(actionId);
+    if (!action || action.userId !== userId) throw new AssistantActionError("Action not found", 404);
+    return action;
+  }
+
+  // Runs the steps in order. If one fails, the ones before it are reversed so a plan never half-applies.
+  private async execute(action: AssistantAction, context: ToolContext, progress?: AssistantProgress): Promise<AssistantReply> {
+    const steps = action.steps as AssistantStep[];
+    const undoSteps: AssistantUndoStep[] = [];
+    const done: AssistantStep[] = [];
+
+    try {
+      for (const step of steps) {
+        const call = callFor(step);
+        progress?.onTool({ tool: call.tool, status: 'running', description: step.description });
+        const result = await toolFor(call).run(call.args, context);
+        if (result.undo) undoSteps.push(result.undo);
+        done.push({ ...step, summary: result.summary });
+        progress?.onTool({ tool: call.tool, status: 'done', description: step.description, summary: result.summary });
+      }
+    } catch (error: any) {
+      const failedStep = steps[done.length];
+      progress?.onTool({ tool: failedStep.tool as AssistantToolName, status: 'failed', description: failedStep.description });
+      for (const undoStep of [...undoSteps].reverse()) {
+        try {
+          await runUndoStep(undoStep, context.userId);
+        } catch (rollbackError) {
+          console.error(`Failed to roll back assistant action ${action.id}:`, rollbackError);
+        }
+      }
+      const failed = await storage.transitionAssistantAction(action.id, 'running', { status: 'failed', error: error.message });
+      const reason = error instanceof AssistantToolError ? error.message : "Something went wrong.";
+      return {
+        response: `I couldn't do that: ${reason}${done.length > 0 ? ' Nothing was changed.' : ''}`,
+        action: failed || null,
+        needsConfirmation: false,
+        dataModified: false,
+      };
+    }
+
+    const executed = await storage.transitionAssistantAction(action.id, 'running', {
+      status: 'executed',
+      steps: done,
+      undoSteps,
+      executedAt: new Date(),
+    });
+    return { response: done.map(step => step.summary).join(' '), action: executed || null, needsConfirmation: false, dataModified: true };
+  }
+
+  private async buildPrompt(context: ToolContext, conversation: ConversationContext): Promise<string> {
+    const { projects, userId } = context;
+    const projectTasks = await Promise.all(projects.map(project => storage.getTasksByProject(project.id)));
+    const openTasks = projectTasks.flat()
+      .filter(task => !isTaskDone(task) && !task.parentTaskId)
+      .sort((a, b) => Number(b.assigneeId === userId) - Number(a.assigneeId === userId) || (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity))
+      .slice(0, MAX_CONTEXT_TASKS);
+    const people = await Promise.all(projects.map(projectPeople));
+    const peopleNames = new Map(people.flat().map(person => [person.id, person.name]));
+    const calendarMeetings = (await storage.getExternalMeetings(userId))
+      .filter(meeting => meeting.endTime >= new Date())
+      .slice(0, 10);
+
+    return `You are an intelligent project management voice assistant. You answer questions and carry out changes by calling tools.
+
+TOOLS (use only the ids listed in the context below):
+- create_task: { "title", "projectId", "description"?, "priority"?: "low|medium|high|urgent", "dueDate"?: "YYYY-MM-DD", "assigneeId"? }
+- update_task: { "taskId", plus only the fields to change: "title"?, "description"?, "priority"?, "dueDate"?, "status"? }
+- complete_task: { "taskId" }
+- reassign_task: { "taskId", "assigneeId" } (assigneeId null to unassign; must be a person on the task's project)
+- schedule_meeting: { "title", "scheduledAt": ISO date and time, "duration": minutes, "projectId"?, "description"? }
+- link_external_meeting: { "externalMeetingId", "projectId" } (projectId null to unlink)
+- query_analytics: { "metric": "project_status|my_workload|overdue_tasks", "projectId"? } (projectId required for project_status)
+
+RESPONSE FORMAT: Return JSON with:
+{
+  "response": "What to say back to the user",
+  "calls": [{ "tool": "tool_name", "args": { ... } }]
+}
+
+Use "calls" for every change the user asks for, one call per change, and for analytics questions. Leave "calls" empty for questions you can answer from the context or plain conversation. When you call tools, "response" is a short acknowledgement said while they run (e.g. "Sure, adding that now."); the app reports what they did. If it is unclear which task, project or person is meant, ask instead of guessing.
+
+VOICE GUIDELINES:
+- Keep responses conversational and concise
+- Use the specific project names and task titles below, not generic answers
+
+CURRENT CONTEXT:
+- Current time: ${new Date().toISOString()}
+- Projects: ${projects.map((p, index) => `"${p.name}" (id: ${p.id}, ${p.progress}% complete, status: ${p.status}, people: ${people[index].map(person => `${person.name} (id: ${person.id})`).join(', ')})`).join('; ') || 'none'}
+- Open tasks:
+  ${openTasks.map(t => `"${t.title}" (id: ${t.id}, ${t.status}, priority: ${t.priority}${t.dueDate ? `, due: ${formatDate(t.dueDate)}` : ''}, project: ${projects.find(p => p.id === t.projectId)?.name || 'Unknown'}, assignee: ${t.assigneeId === userId ? 'the user' : peopleNames.get(t.assigneeId || '') || 'nobody'})`).join('\n  ') || 'none'}
+- Upcoming calendar meetings: ${calendarMeetings.map(m => `"${m.title}" (id: ${m.id}, ${m.startTime.toISOString()}${m.projectId ? `, linked to ${projects.find(p => p.id === m.projectId)?.name || 'a project'}` : ''})`).join('; ') || 'none'}
+
+CONVERSATION HISTORY:${conversation.summary ? `\nSummary of earlier turns: ${conversation.summary}\n` : ''}
+${conversation.turns.map(h => `User: ${h.user}\nAI: ${h.ai}`).join('\n\n')}`;
+  }
+}
+
+export const assistantService = new AssistantService();
@@ -0,0 +1,132 @@
+import { storage } from '../storage';
+import { llmClient } from './llm';
+import type { AssistantConversation, AssistantMessage, AssistantMessageWithAction } from '@shared/schema';
+
+const RECENT_MESSAGES = 6; // the last three turns are always given to the model word for word
+const SUMMARY_BATCH = 6; // older messages are folded into the summary this many at a time
+const TITLE_CHARS = 60;
+
+export interface ConversationTurn {
+  user: string;
+  ai: string;
+}
+
+// What the assistant is told about a conversation: a summary of the older turns plus the recent ones
+export interface ConversationContext {
+  summary: string | null;
+  turns: ConversationTurn[];
+}
+
+type NewMessage = Pick<AssistantMessage, 'content'> & Partial<Pick<AssistantMessage, 'mode' | 'citations' | 'actionId'>>;
+
+function toTurns(messages: AssistantMessage[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+  for (const message of messages) {
+    if (message.role === 'user') {
+      turns.push({ user: message.content, ai: '' });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].ai = message.content;
+    }
+  }
+  return turns;
+}
+
+export function conversationTitle(firstMessage: string): string {
+  const title = firstMessage.trim().replace(/\s+/g, ' ');
+  return title.length > TITLE_CHARS ? `${title.slice(0, TITLE_CHARS - 1)}…` : title || 'New conversation';
+}
+
+// Voice assistant conversations stored per user, so they can be resumed from any device. Each turn is
+// saved as two messages; once a conversation grows past the recent window, the older messages are
+// summarised so the assistant keeps their context without the prompt growing.
+class AssistantConversationService {
+  async list(userId: string): Promise<AssistantConversation[]> {
+    return await storage.getAssistantConversations(userId);
+  }
+
+  async get(userId: string, conversationId: string): Promise<AssistantConversation | undefined> {
+    const conversation = await storage.getAssistantConversation(conversationId);
+    return conversation && conversation.userId === userId ? conversation : undefined;
+  }
+
+  async getWithMessages(userId: string, conversationId: string): Promise<{ conversation: AssistantConversation; messages: AssistantMessageWithAction[] } | undefined> {
+    const conversation = await this.get(userId, conversationId);
+    if (!conversation) return undefined;
+    return { conversation, messages: await storage.getAssistantMessages(conversation.id) };
+  }
+
+  // The conversation a new message belongs to: the one given, or a new one named after the message.
+  // Undefined when the given conversation isn't the user's.
+  async resolve(userId: string, conversationId: unknown, firstMessage: string): Promise<AssistantConversation | undefined> {
+    if (typeof conversationId === 'string' && conversationId) {
+      return await this.get(userId, conversationId);
+    }
+    return await storage.createAssistantConversation({ userId, title: conversationTitle(firstMessage) });
+  }
+
+  async rename(userId: string, conversationId: string, title: string): Promise<AssistantConversation | undefined> {
+    if (!(await this.get(userId, conversationId))) return undefined;
+    return await storage.updateAssistantConversation(conversationId, { title: title.trim().slice(0, 200) });
+  }
+
+  async delete(userId: string, conversationId: string): Promise<boolean> {
+    if (!(await this.get(userId, conversationId))) return false;
+    await storage.deleteAssistantConversation(conversationId);
+    return true;
+  }
+
+  async context(conversation: AssistantConversation): Promise<ConversationContext> {
+    const messages = await storage.getAssistantMessages(conversation.id);
+    let { summary, summarizedCount } = conversation;
+
+    const olderEnd = Math.max(messages.length - RECENT_MESSAGES, 0);
+    if (olderEnd - summarizedCount >= SUMMARY_BATCH) {
+      // Summaries are a convenience: if the model is unavailable, carry on with the old one and try next turn
+      try {
+        summary = await this.summarize(summary, toTurns(messages.slice(summarizedCount, olderEnd)));
+        summarizedCount = olderEnd;
+        await storage.updateAssistantConversation(conversation.id, { summary, summarizedCount });
+      } catch (error) {
+        console.error(`Failed to summarise assistant conversation ${conversation.id}:`, error);
+      }
+    }
+
+    return { summary, turns: toTurns(messages.slice(summarizedCount)) };
+  }
+
+  async record(conversationId: string, userMessage: string, reply: NewMessage): Promise<void> {
+    const mode = reply.mode || 'assistant';
+    await storage.addAssistantMessages(conversationId, [
+      { role: 'user', mode, content: userMessage },
+      { role: 'assistant', mode, content: reply.content, citations: reply.citations ?? null, actionId: reply.actionId ?? null },
+    ]);
+  }
+
+  private async summarize(previous: string | null, turns: ConversationTurn[]): Promise<string> {
+    const response = await llmClient.complete('conversationSummary', {
+      messages: [
+        {
+          role: "system",
+          content: `You keep a running summary of a conversation between a user and their project management assistant.
+
+Merge the new turns into the existing summary. Keep what later turns may refer back to: projects, tasks, people, dates, decisions, and changes the assistant made or the user declined. Drop small talk. Write at most 150 words of plain prose, no headings.`
+        },
+        {
+          role: "user",
+          content: `Existing summary: ${previous || '(none yet)'}
+
+New turns:
+${turns.map(turn => `User: ${turn.user}\nAssistant: ${turn.ai}`).join('\n\n')}`
+        }
+      ],
+      temperature: 0.2,
+      maxTokens: 400,
+    });
+
+    const summary = response.content?.trim();
+    if (!summary) throw new Error('Empty conversation summary');
+    return summary;
+  }
+}
+
+export const assistantConversationService = new AssistantConversationService();
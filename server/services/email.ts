@@ -9,6 +9,7 @@ interface EmailService {
   sendTaskDeadlineAlert(email: string, taskTitle: string, projectName: string, dueDate: string, isOverdue?: boolean, daysOverdue?: number, projectId?: string, taskId?: string): Promise<void>;
   sendEndOfDaySummary(email: string, summary: any): Promise<boolean>;
   sendProjectInvitation(inviteeEmail: string, projectName: string, inviterName: string, token: string, role: string): Promise<void>;
+  sendMeetingProcessedNotification(email: string, meetingTitle: string, projectName: string, suggestedTasks: number, summaryPreview: string): Promise<boolean>;
 }
 
 class ResendEmailService implements EmailService {
@@ -671,7 +672,7 @@ Have a great evening!
     email: string, 
     meetingTitle: string, 
     projectName: string, 
-    tasksCreated: number, 
+    suggestedTasks: number, 
     summaryPreview: string
   ): Promise<boolean> {
     const subject = `📋 Meeting Processed: ${meetingTitle}`;
@@ -697,10 +698,10 @@ Have a great evening!
                 <strong>Project:</strong> ${projectName}
               </li>
               <li style="padding: 8px 0; border-bottom: 1px solid #e2e8f0;">
-                <strong>Tasks Created:</strong> ${tasksCreated} action items
+                <strong>Suggested Tasks:</strong> ${suggestedTasks} action items to review
               </li>
               <li style="padding: 8px 0;">
-                <strong>Status:</strong> <span style="color: #10b981;">Complete & Ready</span>
+                <strong>Status:</strong> <span style="color: #10b981;">Ready for Review</span>
               </li>
             </ul>
           </div>
@@ -712,7 +713,7 @@ Have a great evening!
 
           <div style="text-align: center; margin-top: 30px;">
             <p style="color: #64748b; font-size: 14px; margin: 0;">
-              🚀 Your meeting tasks are now available in your project dashboard.
+              🚀 Accept, edit or reject the suggested tasks on the Meetings page to add them to your project.
             </p>
           </div>
         </div>
@@ -726,12 +727,12 @@ AI has successfully processed your meeting recording!
 
 Results:
 - Project: ${projectName}
-- Tasks Created: ${tasksCreated} action items
-- Status: Complete & Ready
+- Suggested Tasks: ${suggestedTasks} action items to review
+- Status: Ready for Review
 
 Summary Preview: ${summaryPreview}
 
-Your meeting tasks are now available in your project dashboard.
+Accept, edit or reject the suggested tasks on the Meetings page to add them to your project.
     `;
 
     try {
@@ -802,6 +803,11 @@ class MockEmailService implements EmailService {
   async sendProjectInvitation(inviteeEmail: string, projectName: string, inviterName: string, token: string, role: string): Promise<void> {
     console.log(`Mock: Invitation email sent to ${inviteeEmail} for project ${projectName} by ${inviterName} as ${role} (token: ${token})`);
   }
+
+  async sendMeetingProcessedNotification(email: string, meetingTitle: string, projectName: string, suggestedTasks: number, summaryPreview: string): Promise<boolean> {
+    console.log(`Mock: Meeting processed email sent to ${email} - "${meetingTitle}" in ${projectName}: ${suggestedTasks} suggested tasks`);
+    return true;
+  }
 }
 
 // Use Resend if API key is available, otherwise use mock service
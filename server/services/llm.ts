@@ -0,0 +1,512 @@
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import type { z } from "zod";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+
+// Each AI feature can run on its own backend/model, e.g. cheap Groq models for briefings and a
+// stronger model for task extraction. See LLMClient.resolve() for the configuration format.
+export type LLMFeature =
+  | 'taskExtraction'
+  | 'meetingSummary'
+  | 'meetingOutcomes'
+  | 'projectInsights'
+  | 'briefing'
+  | 'meetingPreparation'
+  | 'voiceAssistant'
+  | 'conversationSummary'
+  | 'meetingQuestions'
+  | 'analytics';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  json?: boolean; // ask for a single JSON object back
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMResponse {
+  content: string | null;
+  backend: string;
+  model: string;
+}
+
+// A chat-completion backend. Register new ones with llmClient.registerBackend().
+export interface LLMBackend {
+  readonly name: string;
+  readonly defaultModel: string;
+  // Unconfigured backends (no API key) fail fast with a clear message instead of a 401 from the API
+  isConfigured(): boolean;
+  complete(model: string, request: LLMRequest, feature: LLMFeature): Promise<string | null>;
+  // Backends that can stream yield the reply's text as it is generated; the rest are completed in one go
+  stream?(model: string, request: LLMRequest, feature: LLMFeature): AsyncIterable<string>;
+  // Backends with an embeddings API set a default model and implement embed(); vectors must have
+  // EMBEDDING_DIMENSIONS entries
+  readonly defaultEmbeddingModel?: string;
+  embed?(model: string, texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_BACKEND = 'openai';
+const DEFAULT_EMBEDDING_BACKEND = 'openai';
+const MAX_REPAIR_ATTEMPTS = 2; // follow-up requests after the first reply fails validation
+const FAKE_STREAM_CHUNK = 8;
+
+// The model's reply still didn't match the expected shape after the repair attempts
+export class LLMOutputError extends Error {
+  constructor(readonly feature: LLMFeature, readonly issues: string[], readonly rawOutput: string | null) {
+    super(`AI response for ${feature} was not in the expected format: ${issues.join('; ')}`);
+  }
+}
+
+// Models wrap JSON in markdown fences or add a sentence around it; take the outermost object
+function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : trimmed;
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+// The value of a string field in JSON that is still arriving, decoded as far as it has got; null until the
+// field starts. Lets a structured reply's text be shown while the rest of the object is generated.
+function partialJsonString(content: string, field: string): string | null {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(content);
+  if (!start) return null;
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+  let value = '';
+  for (let i = start.index + start[0].length; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const next = content[i + 1];
+    if (next === undefined) break; // the rest of the escape hasn't arrived yet
+    if (next === 'u') {
+      const hex = content.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+// An onPartial listener for completeStructured that passes on the new text of one string field as it
+// arrives. A repair attempt starts the reply again, so only text extending what was already sent goes out.
+export function streamJsonField(field: string, onText: (text: string) => void): (content: string) => void {
+  let sent = '';
+  return (content) => {
+    const text = partialJsonString(content, field);
+    if (text && text.length > sent.length && text.startsWith(sent)) {
+      onText(text.slice(sent.length));
+      sent = text;
+    }
+  };
+}
+
+function validateOutput<T>(content: string | null, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { data: T } | { issues: string[] } {
+  if (!content?.trim()) return { issues: ['The response was empty'] };
+
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch {
+    return { issues: ['The response was not valid JSON'] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { data: result.data };
+  return { issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`) };
+}
+
+// OpenAI and any OpenAI-compatible API (Groq serves the same chat completions endpoint)
+class OpenAICompatibleBackend implements LLMBackend {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly defaultModel: string,
+    private readonly apiKeyVar: string,
+    private readonly baseURL?: string,
+    readonly defaultEmbeddingModel?: string, // unset when the API has no embeddings endpoint
+  ) {}
+
+  isConfigured() {
+    return !!process.env[this.apiKeyVar];
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env[this.apiKeyVar], baseURL: this.baseURL });
+    }
+    return this.client;
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS });
+    return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
+  async complete(model: string, request: LLMRequest): Promise<string | null> {
+    const completion = await this.getClient().chat.completions.create(this.params(model, request));
+    return completion.choices[0].message.content;
+  }
+
+  async *stream(model: string, request: LLMRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create({ ...this.params(model, request), stream: true });
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  private params(model: string, request: LLMRequest) {
+    return {
+      model,
+      messages: request.messages,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+    };
+  }
+}
+
+class AnthropicBackend implements LLMBackend {
+  readonly name = 'anthropic';
+  readonly defaultModel = 'claude-3-5-sonnet-latest';
+  private client: Anthropic | null = null;
+
+  isConfigured() {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  async complete(model: string, request: LLMRequest): Promise<string | null> {
+    const message = await this.getClient().messages.create(this.params(model, request));
+
+    const text = message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+    return text || null;
+  }
+
+  async *stream(model: string, request: LLMRequest): AsyncIterable<string> {
+    const stream = await this.getClient().messages.create({ ...this.params(model, request), stream: true });
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  private params(model: string, request: LLMRequest) {
+    // Anthropic takes the system prompt separately and has no JSON mode, so ask for it in the prompt
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content);
+    if (request.json) {
+      system.push('Respond with a single valid JSON object and nothing else.');
+    }
+
+    return {
+      model,
+      system: system.join('\n\n') || undefined,
+      messages: request.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+      max_tokens: request.maxTokens ?? 4096,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    };
+  }
+}
+
+// Canned replies in the shape each feature's prompt asks for, so callers parse them like real output
+const FAKE_REPLIES: Record<LLMFeature, (request: LLMRequest) => string> = {
+  taskExtraction: () => JSON.stringify({
+    tasks: [
+      {
+        title: "Update the API documentation",
+        description: "Bring the API documentation in line with the finished design review",
+        priority: "medium",
+        assignee: null,
+        category: "development",
+      },
+      {
+        title: "Draft the deployment checklist",
+        description: "The release is blocked until the deployment checklist exists",
+        priority: "urgent",
+        assignee: null,
+        category: "review",
+      },
+    ],
+  }),
+  meetingSummary: () => "**Meeting Overview**: Project status review.\n\n**Action Items**:\n- Update the API documentation\n- Draft the deployment checklist",
+  meetingOutcomes: () => JSON.stringify({
+    decisions: [
+      {
+        decision: "Ship the release once the deployment checklist is done",
+        rationale: "The design review is finished",
+        decidedBy: null,
+        actionItems: [2],
+      },
+    ],
+    risks: [
+      { risk: "The release slips if the deployment checklist is late", impact: "high", mitigation: "Draft the checklist first", owner: null },
+    ],
+    openQuestions: [
+      { question: "Who signs off the release?", owner: null },
+    ],
+  }),
+  projectInsights: () => JSON.stringify({
+    healthScore: 72,
+    completionPrediction: "On track for completion",
+    riskFactors: ["Deployment checklist is blocking the release"],
+    recommendations: ["Prioritize the deployment checklist"],
+    workloadBalance: { overloaded: [], underutilized: [] },
+  }),
+  briefing: (request) => request.messages.some(m => m.content.includes('"spokenText"'))
+    ? JSON.stringify({
+      text: "You have a few tasks due today and one urgent item.",
+      spokenText: "You have a few tasks due today and one urgent item.",
+      keyPoints: ["Finish today's tasks"],
+      urgentItems: [],
+    })
+    : "Good progress so far. Focus on your highest-priority tasks next.",
+  meetingPreparation: () => "**Talking Points**\n- Review progress since the last meeting\n- Agree on next steps and owners",
+  voiceAssistant: (request) => request.messages.some(m => m.content.includes('"spokenAnswer"'))
+    ? JSON.stringify({ answer: "Your projects are on track.", spokenAnswer: "Your projects are on track.", data: {}, suggestions: [] })
+    : JSON.stringify({ response: "Your projects are on track.", calls: [] }),
+  conversationSummary: () => "The user asked about their projects and the assistant said they are on track.",
+  meetingQuestions: (request) => request.messages.some(m => m.content.includes('[1]'))
+    ? JSON.stringify({
+      answer: "The team agreed to go ahead as discussed [1].",
+      spokenAnswer: "The team agreed to go ahead as discussed.",
+      citations: [1],
+    })
+    : JSON.stringify({ answer: "I couldn't find that in your meetings.", spokenAnswer: "I couldn't find that in your meetings.", citations: [] }),
+  // One reply for every analytics prompt; each schema keeps only the fields its prompt asked for
+  analytics: () => JSON.stringify({
+    successProbability: 70,
+    riskFactors: ["Several tasks are overdue"],
+    recommendations: ["Review overdue tasks with the team"],
+    timelineConfidence: 65,
+    resourceUtilization: 75,
+    completionPrediction: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    criticalPath: ["Overdue tasks"],
+    burnoutRisk: "Medium",
+    workloadScore: 60,
+    weeklyHours: 40,
+    optimalCapacity: 80,
+    overallocatedUsers: [],
+    underutilizedUsers: [],
+    redistributionSuggestions: [],
+    teamEfficiencyScore: 75,
+    bottlenecks: [],
+    insights: ["Progress is steady; clearing overdue tasks would improve the forecast."],
+  }),
+};
+
+// Bag-of-words vectors: texts that share words come out similar, so duplicate detection works offline
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  for (const word of words) {
+    vector[createHash('sha256').update(word).digest().readUInt32BE(0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  if (words.length === 0) vector[0] = 1; // a zero vector has no cosine distance to anything
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map(value => value / norm);
+}
+
+// Offline stand-in for tests and development (LLM_PROVIDER=fake). Replies queued with script()
+// are returned first, in order, for their feature; after that each feature gets its canned reply.
+class FakeBackend implements LLMBackend {
+  readonly name = 'fake';
+  readonly defaultModel = 'scripted';
+  readonly defaultEmbeddingModel = 'bag-of-words';
+  private scripted = new Map<LLMFeature, string[]>();
+  readonly calls: { feature: LLMFeature; request: LLMRequest }[] = [];
+
+  isConfigured() {
+    return true;
+  }
+
+  script(feature: LLMFeature, ...replies: Array<string | object>) {
+    const queue = this.scripted.get(feature) || [];
+    queue.push(...replies.map(reply => typeof reply === 'string' ? reply : JSON.stringify(reply)));
+    this.scripted.set(feature, queue);
+  }
+
+  reset() {
+    this.scripted.clear();
+    this.calls.length = 0;
+  }
+
+  async complete(_model: string, request: LLMRequest, feature: LLMFeature): Promise<string | null> {
+    this.calls.push({ feature, request });
+    return this.scripted.get(feature)?.shift() ?? FAKE_REPLIES[feature](request);
+  }
+
+  // The same replies, a few characters at a time
+  async *stream(model: string, request: LLMRequest, feature: LLMFeature): AsyncIterable<string> {
+    const reply = await this.complete(model, request, feature) || '';
+    for (let start = 0; start < reply.length; start += FAKE_STREAM_CHUNK) {
+      yield reply.slice(start, start + FAKE_STREAM_CHUNK);
+    }
+  }
+
+  async embed(_model: string, texts: string[]): Promise<number[][]> {
+    return texts.map(fakeEmbedding);
+  }
+}
+
+class LLMClient {
+  private backends = new Map<string, LLMBackend>();
+  readonly fake = new FakeBackend();
+
+  constructor() {
+    this.registerBackend(new OpenAICompatibleBackend('openai', 'gpt-4o', 'OPENAI_API_KEY', undefined, 'text-embedding-3-small'));
+    this.registerBackend(new OpenAICompatibleBackend('groq', 'llama-3.3-70b-versatile', 'GROQ_API_KEY', 'https://api.groq.com/openai/v1'));
+    this.registerBackend(new AnthropicBackend());
+    this.registerBackend(this.fake);
+  }
+
+  registerBackend(backend: LLMBackend) {
+    this.backends.set(backend.name, backend);
+  }
+
+  // LLM_PROVIDER sets the backend for every feature (default "openai"); LLM_PROVIDER_<FEATURE>
+  // overrides it for one feature, e.g. LLM_PROVIDER_TASK_EXTRACTION=anthropic. Either can name a
+  // model after a colon, e.g. LLM_PROVIDER=groq:llama-3.1-8b-instant.
+  resolve(feature: LLMFeature): { backend: LLMBackend; model: string } {
+    const featureVar = `LLM_PROVIDER_${feature.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+    const { backend, model } = this.parseSetting(process.env[featureVar] || process.env.LLM_PROVIDER || DEFAULT_BACKEND, feature);
+    return { backend, model: model || backend.defaultModel };
+  }
+
+  // EMBEDDING_PROVIDER works like LLM_PROVIDER (default "openai"), e.g. EMBEDDING_PROVIDER=openai:text-embedding-3-large
+  resolveEmbeddings(): { backend: LLMBackend; model: string } {
+    const { backend, model } = this.parseSetting(process.env.EMBEDDING_PROVIDER || DEFAULT_EMBEDDING_BACKEND, 'embeddings');
+    if (!backend.embed || !backend.defaultEmbeddingModel) {
+      throw new Error(`LLM provider "${backend.name}" does not support embeddings`);
+    }
+    return { backend, model: model || backend.defaultEmbeddingModel };
+  }
+
+  // Vectors from different models can't be compared, so stored embeddings record which one made them
+  embeddingModel(): string {
+    const { backend, model } = this.resolveEmbeddings();
+    return `${backend.name}:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { backend, model } = this.resolveEmbeddings();
+    if (!backend.isConfigured()) {
+      throw new Error(`LLM provider "${backend.name}" is not configured (missing API key) for embeddings`);
+    }
+    if (texts.length === 0) return [];
+    return await backend.embed!(model, texts);
+  }
+
+  // "backend[:model]" -> the registered backend and the model, if one was named
+  private parseSetting(setting: string, usedFor: string): { backend: LLMBackend; model: string } {
+    const [name, ...modelParts] = setting.trim().split(':');
+    const backend = this.backends.get(name.trim().toLowerCase());
+    if (!backend) {
+      throw new Error(`Unknown LLM provider "${name}" for ${usedFor}. Available: ${Array.from(this.backends.keys()).join(', ')}`);
+    }
+    return { backend, model: modelParts.join(':').trim() };
+  }
+
+  async complete(feature: LLMFeature, request: LLMRequest): Promise<LLMResponse> {
+    const { backend, model } = this.resolve(feature);
+    if (!backend.isConfigured()) {
+      throw new Error(`LLM provider "${backend.name}" is not configured (missing API key) for ${feature}`);
+    }
+
+    const content = await backend.complete(model, request, feature);
+    return { content, backend: backend.name, model };
+  }
+
+  // Like complete(), but yields the reply's text as it arrives
+  async *stream(feature: LLMFeature, request: LLMRequest): AsyncGenerator<string> {
+    const { backend, model } = this.resolve(feature);
+    if (!backend.isConfigured()) {
+      throw new Error(`LLM provider "${backend.name}" is not configured (missing API key) for ${feature}`);
+    }
+
+    if (!backend.stream) {
+      const content = await backend.complete(model, request, feature);
+      if (content) yield content;
+      return;
+    }
+    yield* backend.stream(model, request, feature);
+  }
+
+  // Complete and validate a JSON reply. When it doesn't match the schema the model is shown its reply
+  // and what was wrong, and asked again; if it still fails, LLMOutputError is thrown. With onPartial
+  // the reply is streamed, and onPartial gets the text so far of the attempt in progress.
+  async completeStructured<T>(
+    feature: LLMFeature,
+    request: LLMRequest,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: { onPartial?: (content: string) => void } = {},
+  ): Promise<T> {
+    let messages = request.messages;
+    let issues: string[] = [];
+    let content: string | null = null;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (options.onPartial) {
+        content = '';
+        for await (const text of this.stream(feature, { ...request, messages, json: true })) {
+          content += text;
+          options.onPartial(content);
+        }
+      } else {
+        ({ content } = await this.complete(feature, { ...request, messages, json: true }));
+      }
+
+      const result = validateOutput(content, schema);
+      if ('data' in result) return result.data;
+
+      issues = result.issues;
+      console.warn(`⚠️ ${feature} response failed validation (attempt ${attempt + 1}): ${issues.join('; ')}`);
+      messages = [
+        ...request.messages,
+        { role: 'assistant', content: content || '' },
+        {
+          role: 'user',
+          content: `Your previous response was not valid:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply again with only the corrected JSON object, in exactly the format requested.`,
+        },
+      ];
+    }
+
+    throw new LLMOutputError(feature, issues, content);
+  }
+}
+
+export const llmClient = new LLMClient();
@@ -0,0 +1,191 @@
+import { storage, meetingSourceHash } from '../storage';
+import { llmClient } from './llm';
+import { meetingAnswerSchema } from './ai-schemas';
+import type { Meeting, MeetingChunkSource, TranscriptSegment } from '@shared/schema';
+
+const CHUNK_CHARS = 1000; // roughly a minute of conversation
+const EMBED_BATCH_SIZE = 100;
+const MAX_EXCERPTS = 8; // passages given to the model per question
+const EXCERPT_CHARS = 300; // shown with each citation
+
+interface ChunkDraft {
+  source: MeetingChunkSource;
+  content: string;
+  startMs: number | null;
+  endMs: number | null;
+}
+
+export interface MeetingCitation {
+  meetingId: string;
+  meetingTitle: string;
+  scheduledAt: Date;
+  source: MeetingChunkSource;
+  startMs: number | null;
+  endMs: number | null;
+  excerpt: string;
+}
+
+export interface MeetingAnswer {
+  answer: string;
+  spokenAnswer: string;
+  citations: MeetingCitation[];
+}
+
+// Packs pieces of text into chunks of about CHUNK_CHARS without splitting a piece
+function packChunks<T>(pieces: T[], length: (piece: T) => number): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    if (current.length > 0 && size + length(piece) > CHUNK_CHARS) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(piece);
+    size += length(piece) + 1;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+// Diarized transcripts are cut on utterance boundaries so every chunk has a position in the recording;
+// plain transcripts are cut on sentences. The summary is one more chunk.
+export function chunkMeeting(meeting: Pick<Meeting, 'transcription' | 'transcriptSegments' | 'aiSummary'>): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
+  const segments = (Array.isArray(meeting.transcriptSegments) ? meeting.transcriptSegments : []) as TranscriptSegment[];
+
+  if (segments.length > 0) {
+    const lines = segments
+      .filter(segment => segment.text?.trim())
+      .map(segment => ({ ...segment, line: `${segment.speaker}: ${segment.text.trim()}` }));
+    for (const group of packChunks(lines, line => line.line.length)) {
+      chunks.push({
+        source: 'transcript',
+        content: group.map(line => line.line).join('\n'),
+        startMs: group[0].start,
+        endMs: group[group.length - 1].end,
+      });
+    }
+  } else if (meeting.transcription?.trim()) {
+    const sentences = meeting.transcription.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g)?.map(sentence => sentence.trim()).filter(Boolean) || [];
+    for (const group of packChunks(sentences, sentence => sentence.length)) {
+      chunks.push({ source: 'transcript', content: group.join(' '), startMs: null, endMs: null });
+    }
+  }
+
+  if (meeting.aiSummary?.trim()) {
+    chunks.push({ source: 'summary', content: meeting.aiSummary.trim(), startMs: null, endMs: null });
+  }
+  return chunks;
+}
+
+function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Answers questions about the user's meetings from their transcripts and summaries, citing the passages
+// used. Meetings are indexed (chunked and embedded) when processed; older meetings and ones edited since
+// are caught up in the background by the job worker, so a question never waits on indexing.
+class MeetingSearchService {
+  // (Re)build chunks for the given meetings whose transcript, summary or embedding model changed
+  async indexMeetings(meetingIds: string[]): Promise<number> {
+    const model = llmClient.embeddingModel();
+    return await this.index(await storage.getMeetingsNeedingChunks(model, { meetingIds }), model);
+  }
+
+  // Indexes up to `limit` meetings that have never been indexed or changed since, newest first
+  async indexPendingMeetings(limit: number): Promise<number> {
+    const model = llmClient.embeddingModel();
+    return await this.index(await storage.getMeetingsNeedingChunks(model, { limit }), model);
+  }
+
+  private async index(stale: Meeting[], model: string): Promise<number> {
+    for (const meeting of stale) {
+      const chunks = chunkMeeting(meeting);
+      const vectors: number[][] = [];
+      for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+        vectors.push(...await llmClient.embed(chunks.slice(start, start + EMBED_BATCH_SIZE).map(chunk => chunk.content)));
+      }
+
+      const sourceHash = meetingSourceHash(meeting);
+      await storage.replaceMeetingChunks(meeting.id, chunks.map((chunk, index) => ({
+        ...chunk,
+        chunkIndex: index,
+        model,
+        sourceHash,
+        embedding: vectors[index],
+      })));
+    }
+    return stale.length;
+  }
+
+  async ask(userId: string, question: string, options: { projectId?: string } = {}): Promise<MeetingAnswer> {
+    const meetingIds = Array.from(new Set((await storage.getMeetings(userId, options.projectId)).map(meeting => meeting.id)));
+
+    const [vector] = await llmClient.embed([question]);
+    const matches = await storage.findMeetingChunks(meetingIds, llmClient.embeddingModel(), vector, MAX_EXCERPTS);
+    if (matches.length === 0) {
+      const answer = "I couldn't find any meeting transcripts or summaries to answer that from.";
+      return { answer, spokenAnswer: answer, citations: [] };
+    }
+
+    const excerpts = matches.map((match, index) => {
+      const when = match.startMs !== null ? `, at ${formatTimestamp(match.startMs)}` : match.source === 'summary' ? ', summary' : '';
+      return `[${index + 1}] "${match.meetingTitle}" (${match.scheduledAt.toISOString().split('T')[0]}${when})\n${match.content}`;
+    });
+
+    const reply = await llmClient.completeStructured('meetingQuestions', {
+      messages: [
+        {
+          role: "system",
+          content: `You answer questions about the user's meetings using only the numbered excerpts from meeting transcripts and summaries you are given.
+
+RULES:
+- Base the answer only on the excerpts. If they don't contain the answer, say so plainly.
+- Cite the excerpts you used by number in the answer text, e.g. "The team chose Stripe [2]."
+- Prefer decisions and conclusions over discussion; mention which meeting and when.
+
+RESPONSE FORMAT: Return JSON with:
+{
+  "answer": "Written answer with [n] citations",
+  "spokenAnswer": "The same answer for reading aloud, without citation numbers",
+  "citations": [numbers of the excerpts the answer relies on]
+}`
+        },
+        {
+          role: "user",
+          content: `Question: "${question}"
+
+Excerpts:
+${excerpts.join('\n\n')}`
+        }
+      ],
+      temperature: 0.2,
+    }, meetingAnswerSchema);
+
+    // Models sometimes cite numbers that weren't given; keep the real ones, once each, in order
+    const cited = Array.from(new Set(reply.citations)).filter(number => number <= matches.length);
+    return {
+      answer: reply.answer,
+      spokenAnswer: reply.spokenAnswer,
+      citations: cited.map(number => {
+        const match = matches[number - 1];
+        return {
+          meetingId: match.meetingId,
+          meetingTitle: match.meetingTitle,
+          scheduledAt: match.scheduledAt,
+          source: match.source as MeetingChunkSource,
+          startMs: match.startMs,
+          endMs: match.endMs,
+          excerpt: match.content.length > EXCERPT_CHARS ? `${match.content.slice(0, EXCERPT_CHARS)}…` : match.content,
+        };
+      }),
+    };
+  }
+}
+
+export const meetingSearchService = new MeetingSearchService();
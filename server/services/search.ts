@@ -0,0 +1,183 @@
+import { defaultWorkflow, type StatusCategory } from '@shared/schema';
+import type { SearchFilters, SearchResultType } from '../storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CATEGORIES: StatusCategory[] = ['open', 'active', 'done'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const RESULT_TYPES: SearchResultType[] = ['task', 'project', 'meeting'];
+const FILTER_KEYS = ['type', 'in', 'status', 'is', 'priority', 'assignee', 'due', 'project', 'label'];
+const TASK_ONLY_KEYS = ['status', 'priority', 'assignee', 'due', 'label'];
+
+// key:value, key:"quoted value", "quoted phrase" or a bare word
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))|"[^"]*"|\S+/g;
+
+export class SearchQueryError extends Error {}
+
+class SearchService {
+  /**
+   * Parse a search box query such as `status:in_progress priority:urgent assignee:me due:<7d "api migration"`.
+   * Comma-separated values within a filter are alternatives; different filters must all match.
+   * Anything that isn't a known filter is passed to Postgres as websearch text, so quotes and -word still work.
+   */
+  parse(query: string, userId: string, now: Date = new Date()): SearchFilters {
+    const filters: SearchFilters = {
+      text: '',
+      types: [],
+      statusKeys: [],
+      statusCategories: [],
+      priorities: [],
+      assigneeIds: [],
+      assigneeNames: [],
+      unassigned: false,
+      noDueDate: false,
+      projectNames: [],
+      labelNames: [],
+    };
+    const text: string[] = [];
+    const taskOnly = new Set<string>();
+    let overdue = false;
+
+    for (const match of Array.from(query.matchAll(TOKEN_PATTERN))) {
+      const [token, rawKey, quotedValue, plainValue] = match;
+      const key = rawKey?.toLowerCase();
+      const value = quotedValue ?? plainValue;
+      if (!key || value === undefined || !this.applyFilter(filters, key, value, userId, now)) {
+        text.push(token);
+        continue;
+      }
+      if (TASK_ONLY_KEYS.includes(key)) taskOnly.add(key);
+      if (key === 'due' && value.toLowerCase() === 'overdue') overdue = true;
+    }
+
+    // Overdue means not done yet, unless the query asks for particular statuses
+    if (overdue && filters.statusKeys.length === 0 && filters.statusCategories.length === 0) {
+      filters.statusCategories = ['open', 'active'];
+    }
+    filters.text = text.join(' ').trim();
+    // Task filters only make sense for tasks, so don't pad the results with unfiltered projects and meetings
+    if (filters.types.length === 0) {
+      filters.types = taskOnly.size > 0 ? ['task'] : [...RESULT_TYPES];
+    }
+    return filters;
+  }
+
+  // Returns false for keys we don't know, so they are searched as plain text instead
+  private applyFilter(filters: SearchFilters, key: string, value: string, userId: string, now: Date): boolean {
+    if (!FILTER_KEYS.includes(key)) {
+      return false;
+    }
+
+    const values = value.split(',').map(v => v.trim()).filter(Boolean);
+    if (values.length === 0) {
+      throw new SearchQueryError(`Missing value for "${key}:"`);
+    }
+
+    switch (key) {
+      case 'type':
+      case 'in':
+        for (const v of values) {
+          const type = v.toLowerCase().replace(/s$/, '') as SearchResultType;
+          if (!RESULT_TYPES.includes(type)) {
+            throw new SearchQueryError(`Unknown type "${v}"; use task, project or meeting`);
+          }
+          filters.types.push(type);
+        }
+        return true;
+
+      case 'status':
+      case 'is':
+        for (const v of values.map(v => v.toLowerCase())) {
+          // Categories and the built-in status keys match every workflow's equivalent status
+          const builtIn = defaultWorkflow.find(status => status.key === v);
+          if (CATEGORIES.includes(v as StatusCategory)) {
+            filters.statusCategories.push(v as StatusCategory);
+          } else if (builtIn) {
+            filters.statusCategories.push(builtIn.category);
+          } else {
+            filters.statusKeys.push(v);
+          }
+        }
+        return true;
+
+      case 'priority':
+        for (const v of values.map(v => v.toLowerCase())) {
+          if (!PRIORITIES.includes(v)) {
+            throw new SearchQueryError(`Unknown priority "${v}"; use ${PRIORITIES.join(', ')}`);
+          }
+          filters.priorities.push(v);
+        }
+        return true;
+
+      case 'assignee':
+        for (const v of values) {
+          if (v.toLowerCase() === 'me') filters.assigneeIds.push(userId);
+          else if (v.toLowerCase() === 'none') filters.unassigned = true;
+          else filters.assigneeNames.push(v);
+        }
+        return true;
+
+      case 'due':
+        this.applyDueFilter(filters, value.toLowerCase(), now);
+        return true;
+
+      case 'project':
+        filters.projectNames.push(...values);
+        return true;
+
+      case 'label':
+        filters.labelNames.push(...values);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  // due:overdue | today | none | <7d | >2w | <2025-06-01 | 2025-06-01
+  private applyDueFilter(filters: SearchFilters, value: string, now: Date): void {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+
+    if (value === 'none') {
+      filters.noDueDate = true;
+      return;
+    }
+    if (value === 'overdue') {
+      filters.dueBefore = now;
+      return;
+    }
+    if (value === 'today') {
+      filters.dueAfter = startOfToday;
+      filters.dueBefore = new Date(startOfToday.getTime() + DAY_MS);
+      return;
+    }
+
+    const match = value.match(/^([<>]?)(?:(\d+)([dw])|(\d{4}-\d{2}-\d{2}))$/);
+    if (!match) {
+      throw new SearchQueryError(`Invalid due filter "${value}"; try due:<7d, due:>2w, due:2025-06-01, due:overdue or due:none`);
+    }
+
+    const [, comparison, amount, unit, isoDate] = match;
+    const date = isoDate
+      ? new Date(`${isoDate}T00:00:00`)
+      : new Date(now.getTime() + parseInt(amount) * (unit === 'w' ? 7 : 1) * DAY_MS);
+    if (isNaN(date.getTime())) {
+      throw new SearchQueryError(`Invalid date "${isoDate}"`);
+    }
+
+    if (comparison === '<') {
+      filters.dueBefore = date;
+    } else if (comparison === '>') {
+      filters.dueAfter = date;
+    } else if (isoDate) {
+      filters.dueAfter = date;
+      filters.dueBefore = new Date(date.getTime() + DAY_MS);
+    } else {
+      // A bare duration such as due:7d means "due within the next 7 days"
+      filters.dueAfter = startOfToday;
+      filters.dueBefore = date;
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,70 @@
+import { storage, taskEmbeddingContent, type DuplicateTaskPair } from '../storage';
+import { llmClient } from './llm';
+import type { SimilarTask } from '@shared/schema';
+
+// Cosine similarity thresholds. Related work ("Update API docs" / "Document the new endpoints") scores
+// around the first; rewordings of the same task score above the second.
+export const SIMILAR_TASK_THRESHOLD = 0.75;
+export const DUPLICATE_TASK_THRESHOLD = 0.85;
+
+const EMBED_BATCH_SIZE = 100;
+
+// Finds tasks that mean the same thing using stored embeddings (see taskEmbeddings in the schema).
+// Embeddings are brought up to date per project on each lookup, so tasks created or edited through
+// any path are covered without hooking every write.
+class TaskSimilarityService {
+  // Embed tasks that are new, edited or embedded by a different model
+  async refreshProjectEmbeddings(projectId: string): Promise<number> {
+    const model = llmClient.embeddingModel();
+    const stale = await storage.getTasksNeedingEmbedding(projectId, model);
+
+    for (let start = 0; start < stale.length; start += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(start, start + EMBED_BATCH_SIZE);
+      const contents = batch.map(taskEmbeddingContent);
+      const vectors = await llmClient.embed(contents.map(content => content.text));
+      await storage.saveTaskEmbeddings(batch.map((task, index) => ({
+        taskId: task.id,
+        model,
+        contentHash: contents[index].hash,
+        embedding: vectors[index],
+      })));
+    }
+    return stale.length;
+  }
+
+  // Existing tasks in the project that resemble a (possibly not yet created) task
+  async findSimilar(
+    projectId: string,
+    text: { title: string; description?: string | null },
+    options: { excludeTaskId?: string; limit?: number; minSimilarity?: number } = {},
+  ): Promise<SimilarTask[]> {
+    const [matches] = await this.findSimilarForEach(projectId, [text], options);
+    return matches;
+  }
+
+  // Batched findSimilar, e.g. for every task extracted from one meeting
+  async findSimilarForEach(
+    projectId: string,
+    texts: { title: string; description?: string | null }[],
+    options: { excludeTaskId?: string; limit?: number; minSimilarity?: number } = {},
+  ): Promise<SimilarTask[][]> {
+    if (texts.length === 0) return [];
+    await this.refreshProjectEmbeddings(projectId);
+
+    const model = llmClient.embeddingModel();
+    const vectors = await llmClient.embed(texts.map(text => taskEmbeddingContent(text).text));
+    return await Promise.all(vectors.map(vector => storage.findSimilarTasks(projectId, model, vector, {
+      minSimilarity: options.minSimilarity ?? SIMILAR_TASK_THRESHOLD,
+      limit: options.limit ?? 5,
+      excludeTaskId: options.excludeTaskId,
+    })));
+  }
+
+  // Likely duplicate pairs for the project report; pairs where both tasks are finished don't need attention
+  async findDuplicates(projectId: string, limit = 50): Promise<DuplicateTaskPair[]> {
+    await this.refreshProjectEmbeddings(projectId);
+    return storage.findDuplicateTaskPairs(projectId, llmClient.embeddingModel(), DUPLICATE_TASK_THRESHOLD, limit);
+  }
+}
+
+export const taskSimilarityService = new TaskSimilarityService();
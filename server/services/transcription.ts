@@ -1,10 +1,10 @@
+import { createHash } from "crypto";
+import { MAX_RECORDING_UPLOAD_BYTES, type TranscriptSegment } from "@shared/schema";
+
 interface TranscriptionResult {
   text: string;
-  speakers?: Array<{
-    speaker: string;
-    text: string;
-    confidence: number;
-  }>;
+  provider: string; // name of the provider that produced the transcript, stored on the meeting
+  speakers?: TranscriptSegment[];
   chapters?: Array<{
     start: number;
     end: number;
@@ -16,61 +16,37 @@ interface TranscriptionResult {
   }>;
 }
 
-class TranscriptionService {
-  private readonly assemblyAI = {
-    apiKey: process.env.ASSEMBLYAI_API_KEY,
-    baseUrl: 'https://api.assemblyai.com/v2'
-  };
+// A speech-to-text backend. Register new ones with transcriptionService.registerProvider()
+// and enable them by name in TRANSCRIPTION_PROVIDERS.
+interface TranscriptionProvider {
+  readonly name: string;
+  // Unconfigured providers (e.g. no API key) are skipped rather than tried and failed
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, mimeType: string): Promise<Omit<TranscriptionResult, 'provider'>>;
+}
 
-  async transcribeAudio(audioDataBase64: string): Promise<TranscriptionResult> {
-    try {
-      // Try AssemblyAI first (much better for mobile and meeting recordings)
-      if (this.assemblyAI.apiKey) {
-        console.log("Using AssemblyAI for professional mobile transcription...");
-        return await this.transcribeWithAssemblyAI(audioDataBase64);
-      }
-      
-      // Fallback to OpenAI Whisper if AssemblyAI not available
-      if (process.env.OPENAI_API_KEY) {
-        console.log("AssemblyAI not configured, falling back to OpenAI Whisper...");
-        return await this.transcribeWithOpenAI(audioDataBase64);
-      }
-      
-      // No transcription service available
-      throw new Error("No transcription service configured. Please provide ASSEMBLYAI_API_KEY (recommended) or OPENAI_API_KEY to process voice recordings.");
-    } catch (error: any) {
-      console.error("Transcription service error:", error);
-      
-      // If AssemblyAI failed, try OpenAI as backup
-      if (this.assemblyAI.apiKey && process.env.OPENAI_API_KEY && !error.message.includes('OpenAI')) {
-        console.log("AssemblyAI failed, attempting OpenAI Whisper fallback...");
-        try {
-          return await this.transcribeWithOpenAI(audioDataBase64);
-        } catch (openaiError: any) {
-          console.error("OpenAI Whisper fallback also failed:", openaiError);
-          throw new Error("Both transcription services failed. Please check your API keys and try again.");
-        }
-      }
-      
-      throw new Error("Voice transcription failed. Please ensure you have valid API keys and try again.");
-    }
+// Tried in order until one succeeds
+const DEFAULT_PROVIDERS = 'assemblyai,openai';
+
+// Much better than Whisper for mobile and meeting recordings, and labels speakers
+class AssemblyAIProvider implements TranscriptionProvider {
+  readonly name = 'assemblyai';
+  private readonly baseUrl = 'https://api.assemblyai.com/v2';
+
+  private get apiKey() {
+    return process.env.ASSEMBLYAI_API_KEY;
   }
 
-  private async transcribeWithAssemblyAI(audioDataBase64: string): Promise<TranscriptionResult> {
-    const audioBuffer = Buffer.from(audioDataBase64, 'base64');
-    
-    console.log(`Processing audio file: ${Math.round(audioBuffer.length / 1024 / 1024 * 100) / 100} MB`);
-    
-    // Check file size limit (50MB max for our system)
-    if (audioBuffer.length > 50 * 1024 * 1024) {
-      throw new Error('Audio file too large. Maximum size is 50MB. Please record shorter sessions.');
-    }
-    
+  isConfigured() {
+    return !!this.apiKey;
+  }
+
+  async transcribe(audioBuffer: Buffer): Promise<Omit<TranscriptionResult, 'provider'>> {
     // Step 1: Upload audio to AssemblyAI with timeout
-    const uploadResponse = await fetch(`${this.assemblyAI.baseUrl}/upload`, {
+    const uploadResponse = await fetch(`${this.baseUrl}/upload`, {
       method: 'POST',
       headers: {
-        'Authorization': this.assemblyAI.apiKey!,
+        'Authorization': this.apiKey!,
         'Content-Type': 'application/octet-stream'
       },
       body: audioBuffer
@@ -83,10 +59,10 @@ class TranscriptionService {
     const { upload_url } = await uploadResponse.json();
 
     // Step 2: Create transcription with mobile-optimized settings
-    const transcriptResponse = await fetch(`${this.assemblyAI.baseUrl}/transcript`, {
+    const transcriptResponse = await fetch(`${this.baseUrl}/transcript`, {
       method: 'POST',
       headers: {
-        'Authorization': this.assemblyAI.apiKey!,
+        'Authorization': this.apiKey!,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
@@ -115,6 +91,8 @@ class TranscriptionService {
       speakers: result.utterances?.map((utterance: any) => ({
         speaker: `Speaker ${utterance.speaker}`,
         text: utterance.text,
+        start: utterance.start,
+        end: utterance.end,
         confidence: utterance.confidence
       })) || [],
       chapters: result.chapters?.map((chapter: any) => ({
@@ -129,16 +107,71 @@ class TranscriptionService {
     };
   }
 
-  private async transcribeWithOpenAI(audioDataBase64: string): Promise<TranscriptionResult> {
+  private async pollForCompletion(transcriptId: string): Promise<any> {
+    const maxAttempts = 60; // 5 minutes max
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
+      
+      const response = await fetch(`${this.baseUrl}/transcript/${transcriptId}`, {
+        headers: {
+          'Authorization': this.apiKey!
+        }
+      });
+
+      const data = await response.json();
+      
+      if (data.status === 'completed') {
+        return data;
+      }
+      
+      if (data.status === 'error') {
+        throw new Error(`AssemblyAI error: ${data.error}`);
+      }
+      
+      attempts++;
+      console.log(`AssemblyAI processing... attempt ${attempts}/${maxAttempts}`);
+    }
+    
+    throw new Error('AssemblyAI transcription timed out');
+  }
+}
+
+
+// Whisper file extensions for the recorders' MIME types
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/aac': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+// "audio/webm;codecs=opus" -> "webm"
+function audioExtension(mimeType: string): string {
+  return AUDIO_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] || 'webm';
+}
+
+// Fallback when AssemblyAI is unavailable; no speaker labels
+class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+
+  isConfigured() {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async transcribe(audioBuffer: Buffer, mimeType: string): Promise<Omit<TranscriptionResult, 'provider'>> {
     const { default: OpenAI } = await import('openai');
     const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     
     try {
-      // Convert base64 to buffer
-      const audioBuffer = Buffer.from(audioDataBase64, 'base64');
-      
       // Create a File-like object for OpenAI Whisper API
-      const audioFile = new File([audioBuffer], 'recording.webm', { type: 'audio/webm' });
+      // Whisper goes by the file extension to work out the format
+      const audioFile = new File([audioBuffer], `recording.${audioExtension(mimeType)}`, { type: mimeType });
 
       const transcription = await openai.audio.transcriptions.create({
         file: audioFile,
@@ -159,37 +192,118 @@ class TranscriptionService {
       throw new Error("OpenAI Whisper transcription failed. Please check your API key.");
     }
   }
+}
 
-  private async pollForCompletion(transcriptId: string): Promise<any> {
-    const maxAttempts = 60; // 5 minutes max
-    let attempts = 0;
+// Scripted meeting lines for the local provider; the first and last are always used
+const LOCAL_SCRIPT = [
+  { speaker: "Speaker A", text: "Thanks for joining. Let's go through where the project stands." },
+  { speaker: "Speaker B", text: "The design review is finished, but the API documentation is out of date." },
+  { speaker: "Speaker A", text: "Can you update the API documentation by Friday?" },
+  { speaker: "Speaker B", text: "Yes, I'll have the documentation updated by Friday." },
+  { speaker: "Speaker A", text: "We still need to schedule user testing with the pilot customers next week." },
+  { speaker: "Speaker B", text: "I'll send the user testing invitations tomorrow." },
+  { speaker: "Speaker A", text: "The deployment checklist is blocking the release, so that one is urgent." },
+  { speaker: "Speaker B", text: "I'll draft the deployment checklist today and share it for review." },
+  { speaker: "Speaker A", text: "Great, that covers everything. Thanks, everyone." },
+];
+const LOCAL_BYTES_PER_SECOND = 4000; // roughly 32 kbps Opus, what MediaRecorder produces
 
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-      
-      const response = await fetch(`${this.assemblyAI.baseUrl}/transcript/${transcriptId}`, {
-        headers: {
-          'Authorization': this.assemblyAI.apiKey!
-        }
-      });
+// Offline stand-in for development and end-to-end tests (TRANSCRIPTION_PROVIDERS=local).
+// The same audio always produces the same transcript; different audio picks different lines.
+class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
 
-      const data = await response.json();
-      
-      if (data.status === 'completed') {
-        return data;
+  isConfigured() {
+    return true;
+  }
+
+  async transcribe(audio: Buffer): Promise<Omit<TranscriptionResult, 'provider'>> {
+    const digest = createHash('sha256').update(audio).digest();
+    const lines = LOCAL_SCRIPT.filter((_, index) =>
+      index === 0 || index === LOCAL_SCRIPT.length - 1 || digest[index] % 4 !== 0
+    );
+
+    // Spread the lines evenly over the recording's estimated length
+    const durationMs = Math.max(lines.length * 1000, Math.round(audio.length / LOCAL_BYTES_PER_SECOND * 1000));
+    const segmentMs = Math.floor(durationMs / lines.length);
+    const speakers: TranscriptSegment[] = lines.map((line, index) => ({
+      speaker: line.speaker,
+      text: line.text,
+      start: index * segmentMs,
+      end: (index + 1) * segmentMs,
+      confidence: 1,
+    }));
+
+    return {
+      text: lines.map(line => line.text).join(' '),
+      speakers,
+      chapters: [],
+      highlights: [],
+    };
+  }
+}
+
+class TranscriptionService {
+  private providers = new Map<string, TranscriptionProvider>();
+
+  constructor() {
+    this.registerProvider(new AssemblyAIProvider());
+    this.registerProvider(new OpenAIWhisperProvider());
+    this.registerProvider(new LocalTranscriptionProvider());
+  }
+
+  registerProvider(provider: TranscriptionProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  // TRANSCRIPTION_PROVIDERS is a comma-separated list in order of preference, e.g. "assemblyai,openai" or "local"
+  getProviderChain(): TranscriptionProvider[] {
+    const names = (process.env.TRANSCRIPTION_PROVIDERS || DEFAULT_PROVIDERS)
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    return names.map(name => {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        throw new Error(`Unknown transcription provider "${name}" in TRANSCRIPTION_PROVIDERS. Available: ${Array.from(this.providers.keys()).join(', ')}`);
       }
-      
-      if (data.status === 'error') {
-        throw new Error(`AssemblyAI error: ${data.error}`);
+      return provider;
+    });
+  }
+
+  // Takes raw audio, or base64 from the single-request upload routes
+  async transcribeAudio(audio: Buffer | string, mimeType: string = 'audio/webm'): Promise<TranscriptionResult> {
+    const audioBuffer = typeof audio === 'string' ? Buffer.from(audio, 'base64') : audio;
+    
+    console.log(`Processing audio file: ${Math.round(audioBuffer.length / 1024 / 1024 * 100) / 100} MB`);
+    
+    // Same limit as chunked recording uploads
+    if (audioBuffer.length > MAX_RECORDING_UPLOAD_BYTES) {
+      throw new Error(`Audio file too large. Maximum size is ${MAX_RECORDING_UPLOAD_BYTES / 1024 / 1024}MB. Please record shorter sessions.`);
+    }
+
+    const providers = this.getProviderChain().filter(provider => provider.isConfigured());
+    if (providers.length === 0) {
+      throw new Error("No transcription service configured. Please provide ASSEMBLYAI_API_KEY (recommended) or OPENAI_API_KEY to process voice recordings, or set TRANSCRIPTION_PROVIDERS=local for offline development.");
+    }
+
+    // Fall through to the next provider when one fails
+    const failures: string[] = [];
+    for (const provider of providers) {
+      try {
+        console.log(`Transcribing with ${provider.name}...`);
+        const result = await provider.transcribe(audioBuffer, mimeType);
+        return { ...result, provider: provider.name };
+      } catch (error: any) {
+        console.error(`${provider.name} transcription failed:`, error);
+        failures.push(`${provider.name}: ${error.message}`);
       }
-      
-      attempts++;
-      console.log(`AssemblyAI processing... attempt ${attempts}/${maxAttempts}`);
     }
     
-    throw new Error('AssemblyAI transcription timed out');
+    throw new Error(`Voice transcription failed (${failures.join('; ')}). Please ensure you have valid API keys and try again.`);
   }
 }
 
 export const transcriptionService = new TranscriptionService();
-export type { TranscriptionResult };
\ No newline at end of file
+export type { TranscriptionResult, TranscriptionProvider };
\ No newline at end of file
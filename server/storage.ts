@@ -2,6 +2,12 @@ import {
   users,
   projects,
   tasks,
+  sprints,
+  labels,
+  taskLabels,
+  taskDependencies,
+  taskComments,
+  timeEntries,
   meetings,
   projectMembers,
   meetingParticipants,
@@ -11,14 +17,47 @@ import {
   authenticators,
   loginEvents,
   externalMeetings,
+  activityEvents,
+  processingJobs,
+  scheduledJobs,
+  notificationDeliveries,
+  recordingUploads,
+  recordingUploadChunks,
+  suggestedTasks,
+  taskEmbeddings,
+  meetingChunks,
+  meetingDecisions,
+  meetingRisks,
+  meetingOpenQuestions,
+  assistantActions,
+  assistantConversations,
+  assistantMessages,
   type User,
   type InsertUser,
   type Project,
   type InsertProject,
   type Task,
   type InsertTask,
+  type Sprint,
+  type InsertSprint,
+  type SprintSummary,
+  type StatusCategory,
+  type Label,
+  type InsertLabel,
+  searchDocument,
+  type TaskDependency,
+  type SimilarTask,
+  type TaskComment,
+  type InsertTaskComment,
+  type TimeEntry,
+  type InsertTimeEntry,
+  MAX_TIME_ENTRY_MINUTES,
   type Meeting,
   type InsertMeeting,
+  type MeetingChunk,
+  type MeetingChunkMatch,
+  type TranscriptSegment,
+  type SpeakerMap,
   type ProjectMember,
   type InsertProjectMember,
   type Notification,
@@ -33,9 +72,238 @@ import {
   type InsertLoginEvent,
   type ExternalMeeting,
   type InsertExternalMeeting,
+  type ActivityEvent,
+  type InsertActivityEvent,
+  type ProcessingJob,
+  type InsertProcessingJob,
+  type ScheduledJob,
+  type InsertScheduledJob,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type SchedulerOverview,
+  type RecordingUpload,
+  type InsertRecordingUpload,
+  type SuggestedTask,
+  type InsertSuggestedTask,
+  type SuggestedTaskStatus,
+  type AcceptedTask,
+  type InsertMeetingDecision,
+  type InsertMeetingRisk,
+  type InsertMeetingOpenQuestion,
+  type RegisterEntry,
+  type AssistantAction,
+  type InsertAssistantAction,
+  type AssistantActionStatus,
+  type AssistantConversation,
+  type InsertAssistantConversation,
+  type InsertAssistantMessage,
+  type AssistantMessageWithAction,
+  type RegisterEntryKind,
+  type WorkflowStatus,
+  getWorkflow,
+  resolveWorkflowStatus,
+  getTaskCategory,
+  isTaskDone,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, count, sql, gte, lt, asc, inArray } from "drizzle-orm";
+import { eq, ne, desc, and, or, count, sql, gte, lt, asc, inArray, isNull, isNotNull, notExists, ilike, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createHash } from "crypto";
+
+// Project progress weighted by subtasks: a top-level task counts as done when completed,
+// otherwise as the fraction of its subtasks that are completed
+export function calculateWeightedProgress(projectTasks: Task[]): number {
+  const topLevelTasks = projectTasks.filter(task => !task.parentTaskId);
+  if (topLevelTasks.length === 0) return 0;
+
+  const subtasksByParent = new Map<string, Task[]>();
+  for (const task of projectTasks) {
+    if (!task.parentTaskId) continue;
+    const siblings = subtasksByParent.get(task.parentTaskId) || [];
+    siblings.push(task);
+    subtasksByParent.set(task.parentTaskId, siblings);
+  }
+
+  const completedWeight = topLevelTasks.reduce((sum, task) => {
+    if (isTaskDone(task)) return sum + 1;
+    const subtasks = subtasksByParent.get(task.id) || [];
+    if (subtasks.length === 0) return sum;
+    return sum + subtasks.filter(isTaskDone).length / subtasks.length;
+  }, 0);
+
+  return Math.round((completedWeight / topLevelTasks.length) * 100);
+}
+
+export type TimeEntryWithDetails = TimeEntry & {
+  task: Pick<Task, 'id' | 'title'>;
+  user: Pick<User, 'id' | 'name'>;
+};
+
+export type SearchResultType = 'task' | 'project' | 'meeting';
+
+// Parsed form of a search box query; see searchService.parse for the syntax
+export interface SearchFilters {
+  text: string; // Postgres websearch syntax; empty = match everything the filters allow
+  types: SearchResultType[];
+  statusKeys: string[];
+  statusCategories: StatusCategory[];
+  priorities: string[];
+  assigneeIds: string[];
+  assigneeNames: string[]; // matched against user name, username and email
+  unassigned: boolean;
+  dueAfter?: Date;
+  dueBefore?: Date;
+  noDueDate: boolean;
+  projectNames: string[];
+  labelNames: string[];
+}
+
+// What a task's embedding is made from. The hash must match taskContentHashSql so stale
+// embeddings (the task was edited since) can be found in the database.
+export function taskEmbeddingContent(task: { title: string; description?: string | null }): { text: string; hash: string } {
+  const text = `${task.title}\n${task.description || ''}`;
+  return { text, hash: createHash('md5').update(text).digest('hex') };
+}
+const taskContentHashSql = sql`md5(${tasks.title} || chr(10) || coalesce(${tasks.description}, ''))`;
+
+// What a meeting's chunks are cut from; like taskEmbeddingContent, the hash must match meetingSourceHashSql
+export function meetingSourceHash(meeting: Pick<Meeting, 'transcription' | 'aiSummary'>): string {
+  return createHash('md5').update(`${meeting.transcription || ''}\n${meeting.aiSummary || ''}`).digest('hex');
+}
+const meetingSourceHashSql = sql`md5(coalesce(${meetings.transcription}, '') || chr(10) || coalesce(${meetings.aiSummary}, ''))`;
+
+export type RegisterFilters = {
+  kinds?: RegisterEntryKind[];
+  meetingId?: string;
+  search?: string; // matched against the entry's text and detail, and the meeting title
+};
+
+export type DuplicateTaskPair = { task: Task; duplicate: Task; similarity: number };
+
+export type TaskSearchResult = Task & { projectName: string; rank: number };
+export type ProjectSearchResult = Project & { rank: number };
+export type MeetingSearchResult = Pick<Meeting, 'id' | 'title' | 'projectId' | 'scheduledAt'> & { snippet: string; rank: number };
+
+// Monday 00:00 (server local time) of the week containing the given date
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Group finished time entries into one row per user and task, with minutes for each day of the week
+export function buildWeeklyTimesheet(entries: TimeEntryWithDetails[], weekStart: Date) {
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(weekStart);
+    day.setDate(day.getDate() + i);
+    return day;
+  });
+
+  const rows = new Map<string, {
+    userId: string;
+    userName: string;
+    taskId: string;
+    taskTitle: string;
+    projectId: string;
+    minutesByDay: number[];
+    totalMinutes: number;
+  }>();
+
+  for (const entry of entries) {
+    if (!entry.durationMinutes) continue; // running timers are not on the timesheet until stopped
+    const entryDay = new Date(entry.startedAt);
+    entryDay.setHours(0, 0, 0, 0);
+    // Rounded so a daylight-saving change inside the week doesn't shift the day
+    const dayIndex = Math.round((entryDay.getTime() - weekStart.getTime()) / (24 * 60 * 60 * 1000));
+    if (dayIndex < 0 || dayIndex > 6) continue;
+
+    const key = `${entry.userId}:${entry.taskId}`;
+    const row = rows.get(key) || {
+      userId: entry.userId,
+      userName: entry.user.name,
+      taskId: entry.taskId,
+      taskTitle: entry.task.title,
+      projectId: entry.projectId,
+      minutesByDay: [0, 0, 0, 0, 0, 0, 0],
+      totalMinutes: 0,
+    };
+    row.minutesByDay[dayIndex] += entry.durationMinutes;
+    row.totalMinutes += entry.durationMinutes;
+    rows.set(key, row);
+  }
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) => b.totalMinutes - a.totalMinutes);
+  return {
+    weekStart: weekStart.toISOString(),
+    days: days.map(day => day.toISOString()),
+    rows: sortedRows,
+    dailyTotals: days.map((_, i) => sortedRows.reduce((sum, row) => sum + row.minutesByDay[i], 0)),
+    totalMinutes: sortedRows.reduce((sum, row) => sum + row.totalMinutes, 0),
+  };
+}
+
+// Past-tense wording for activity_events.action in the dashboard feed
+const activityVerbs: Record<string, string> = {
+  created: 'created',
+  updated: 'updated',
+  completed: 'completed',
+  deleted: 'deleted',
+  commented: 'commented on',
+  processed: 'recorded',
+  linked: 'linked',
+  invited: 'invited a member to',
+  joined: 'joined',
+  member_removed: 'removed a member from',
+  dependency_added: 'added a dependency to',
+  dependency_removed: 'removed a dependency from',
+  timer_started: 'started a timer on',
+  time_logged: 'logged time on',
+  started: 'started',
+  closed: 'closed',
+};
+
+// Colors handed out to labels created without one, e.g. from AI-extracted task categories
+const labelColors = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+function pickLabelColor(name: string): string {
+  const hash = Array.from(name.toLowerCase()).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return labelColors[hash % labelColors.length];
+}
+
+// "Sprint 4" -> "Sprint 5"; names without a trailing number get a suffix instead
+function nextSprintName(name: string): string {
+  const match = name.match(/^(.*?)(\d+)$/);
+  return match ? `${match[1]}${parseInt(match[2], 10) + 1}` : `${name} (continued)`;
+}
+
+// Thrown when a task is moved to in_progress while tasks it depends on are still open
+export class TaskBlockedError extends Error {
+  constructor(public blockers: Task[]) {
+    super(`Task is blocked by ${blockers.length} unfinished task${blockers.length === 1 ? '' : 's'}: ${blockers.map(t => t.title).join(', ')}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
+// Thrown when a task is moved to a status its current status does not allow as a next step
+export class WorkflowTransitionError extends Error {
+  constructor(from: WorkflowStatus, to: WorkflowStatus) {
+    super(`Tasks in "${from.name}" cannot move to "${to.name}"`);
+    this.name = 'WorkflowTransitionError';
+  }
+}
+
+// Task category in SQL, matching getTaskCategory for rows saved before statusCategory existed.
+// Takes the columns so aliased task tables can use it too.
+function taskCategoryOf(task: { status: AnyPgColumn; statusCategory: AnyPgColumn }) {
+  return sql<string>`coalesce(${task.statusCategory}, case ${task.status} when 'completed' then 'done' when 'in_progress' then 'active' else 'open' end)`;
+}
+const taskCategorySql = taskCategoryOf(tasks);
+
+// ilike pattern matching the text anywhere, with its %, _ and \ taken literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
 
 export interface IStorage {
   // Users
@@ -53,21 +321,145 @@ export interface IStorage {
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
   deleteProject(id: string): Promise<void>;
+  updateProjectWorkflow(id: string, workflow: WorkflowStatus[]): Promise<Project>;
 
   // Tasks
   getTasks(projectId?: string, userId?: string): Promise<Task[]>;
   getTasksByProject(projectId: string): Promise<Task[]>;
   getTask(id: string): Promise<Task | undefined>;
+  getSubtasks(parentTaskId: string): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: string, updates: Partial<InsertTask>, userId?: string): Promise<Task>;
+  restoreTask(id: string, fields: Partial<Task>, userId?: string): Promise<Task>;
   deleteTask(id: string): Promise<void>;
   deleteTasks(ids: string[]): Promise<void>;
 
+  // Sprints
+  getSprints(projectId: string): Promise<Sprint[]>;
+  getSprint(id: string): Promise<Sprint | undefined>;
+  getSprintTasks(sprintId: string): Promise<Task[]>;
+  createSprint(sprint: InsertSprint): Promise<Sprint>;
+  updateSprint(id: string, updates: Partial<InsertSprint>): Promise<Sprint>;
+  startSprint(id: string): Promise<Sprint>;
+  closeSprint(id: string): Promise<{ sprint: Sprint; nextSprint: Sprint | null; rolledOverTaskIds: string[] }>;
+  deleteSprint(id: string): Promise<void>;
+
+  // Task Dependencies
+  getTaskDependencies(taskId: string): Promise<(TaskDependency & { dependsOn: Task })[]>;
+  getTaskDependents(taskId: string): Promise<(TaskDependency & { task: Task })[]>;
+  getDependenciesForTasks(taskIds: string[]): Promise<TaskDependency[]>;
+  getUnfinishedBlockers(taskId: string): Promise<Task[]>;
+  addTaskDependency(taskId: string, dependsOnTaskId: string, createdById?: string): Promise<TaskDependency>;
+  removeTaskDependency(taskId: string, dependsOnTaskId: string): Promise<void>;
+
+  // Labels
+  getLabels(projectId: string): Promise<Label[]>;
+  getLabel(id: string): Promise<Label | undefined>;
+  createLabel(label: InsertLabel): Promise<Label>;
+  updateLabel(id: string, updates: Partial<InsertLabel>): Promise<Label>;
+  deleteLabel(id: string): Promise<void>;
+  findOrCreateLabel(projectId: string, name: string): Promise<Label>;
+  getLabelsForTasks(taskIds: string[]): Promise<Map<string, Label[]>>;
+  setTaskLabels(taskId: string, labelIds: string[]): Promise<Label[]>;
+
+  // Task Embeddings
+  getTasksNeedingEmbedding(projectId: string, model: string): Promise<Task[]>;
+  saveTaskEmbeddings(embeddings: { taskId: string; model: string; contentHash: string; embedding: number[] }[]): Promise<void>;
+  findSimilarTasks(projectId: string, model: string, embedding: number[], options: { minSimilarity: number; limit: number; excludeTaskId?: string }): Promise<SimilarTask[]>;
+  // Pairs where both tasks are done are left out
+  findDuplicateTaskPairs(projectId: string, model: string, minSimilarity: number, limit: number): Promise<DuplicateTaskPair[]>;
+
+  // Search
+  searchTasks(projectIds: string[], filters: SearchFilters, limit: number): Promise<TaskSearchResult[]>;
+  searchProjects(projectIds: string[], filters: SearchFilters, limit: number): Promise<ProjectSearchResult[]>;
+  searchMeetings(userId: string, filters: SearchFilters, limit: number): Promise<MeetingSearchResult[]>;
+
+  // Task Comments
+  getTaskComments(taskId: string): Promise<(TaskComment & { author: Pick<User, 'id' | 'name' | 'username' | 'avatar'> })[]>;
+  getTaskComment(id: string): Promise<TaskComment | undefined>;
+  createTaskComment(comment: InsertTaskComment): Promise<TaskComment>;
+  updateTaskComment(id: string, body: string, mentionedUserIds: string[]): Promise<TaskComment>;
+  deleteTaskComment(id: string): Promise<void>;
+
+  // Time Tracking
+  getTimeEntries(filters: { taskId?: string; userId?: string; projectId?: string; from?: Date; to?: Date }): Promise<TimeEntryWithDetails[]>;
+  getTimeEntry(id: string): Promise<TimeEntry | undefined>;
+  getRunningTimer(userId: string): Promise<TimeEntry | undefined>;
+  startTimer(taskId: string, userId: string): Promise<TimeEntry>;
+  stopTimer(userId: string): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: string, updates: Partial<InsertTimeEntry>): Promise<TimeEntry>;
+  deleteTimeEntry(id: string): Promise<void>;
+  getLoggedMinutes(userId: string, from: Date, to: Date): Promise<number>;
+
   // Meetings
   getMeetings(userId: string, projectId?: string): Promise<Meeting[]>;
   getMeeting(id: string): Promise<Meeting | undefined>;
   createMeeting(meeting: InsertMeeting): Promise<Meeting>;
   updateMeeting(id: string, updates: Partial<InsertMeeting>): Promise<Meeting>;
+  updateMeetingTranscript(id: string, updates: { transcriptionProvider?: string; transcriptSegments?: TranscriptSegment[] | null; speakerMap?: SpeakerMap }): Promise<Meeting>;
+
+  // Meeting Chunks
+  getMeetingsNeedingChunks(model: string, filter: { meetingIds?: string[]; limit?: number }): Promise<Meeting[]>;
+  replaceMeetingChunks(meetingId: string, chunks: Omit<MeetingChunk, 'id' | 'meetingId' | 'createdAt'>[]): Promise<void>;
+  findMeetingChunks(meetingIds: string[], model: string, embedding: number[], limit: number): Promise<MeetingChunkMatch[]>;
+
+  // Processing Jobs
+  createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
+  getProcessingJob(id: string): Promise<ProcessingJob | undefined>;
+  getActiveJobForMeeting(meetingId: string): Promise<ProcessingJob | undefined>;
+  claimNextProcessingJob(): Promise<ProcessingJob | undefined>;
+  updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob>;
+  requeueStaleProcessingJobs(lockedBefore: Date): Promise<number>;
+
+  // Scheduled Jobs
+  planScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob | undefined>;
+  cancelScheduledJobs(userId: string, type: string, exceptKey: string): Promise<number>;
+  claimNextScheduledJob(workerId: string, leaseMs: number): Promise<ScheduledJob | undefined>;
+  renewScheduledJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  releaseScheduledJob(id: string, workerId: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined>;
+  failAbandonedScheduledJobs(): Promise<number>;
+  deleteSchedulerHistory(before: Date): Promise<void>;
+  getSchedulerOverview(limit: number): Promise<SchedulerOverview>;
+
+  // Notification Deliveries
+  claimNotificationDelivery(delivery: InsertNotificationDelivery): Promise<boolean>;
+  updateNotificationDelivery(key: string, updates: Partial<NotificationDelivery>): Promise<void>;
+
+  // Recording Uploads
+  createRecordingUpload(upload: InsertRecordingUpload): Promise<RecordingUpload>;
+  getRecordingUpload(id: string): Promise<RecordingUpload | undefined>;
+  appendRecordingUploadChunk(id: string, startByte: number, data: Buffer): Promise<RecordingUpload | undefined>;
+  completeRecordingUpload(id: string): Promise<ProcessingJob>;
+  readRecordingUploadAudio(id: string): Promise<Buffer | undefined>;
+  deleteRecordingUploadAudio(id: string): Promise<void>;
+  deleteAbandonedRecordingUploads(updatedBefore: Date): Promise<number>;
+
+  // Suggested Tasks
+  replacePendingSuggestedTasks(meetingId: string, suggestions: InsertSuggestedTask[]): Promise<SuggestedTask[]>;
+  getSuggestedTask(id: string): Promise<SuggestedTask | undefined>;
+  getSuggestedTasksForMeeting(meetingId: string): Promise<SuggestedTask[]>;
+  getPendingSuggestedTasks(userId: string): Promise<(SuggestedTask & { meetingTitle: string })[]>;
+  reviewSuggestedTask(id: string, review: { status: Exclude<SuggestedTaskStatus, 'pending'>; accepted: AcceptedTask | null; taskId: string | null; reviewedById: string }): Promise<SuggestedTask | undefined>;
+
+  // Meeting Outcomes (decisions, risks and open questions)
+  replaceMeetingOutcomes(meetingId: string, outcomes: { decisions: InsertMeetingDecision[]; risks: InsertMeetingRisk[]; openQuestions: InsertMeetingOpenQuestion[] }): Promise<void>;
+  getProjectRegister(projectId: string, filters: RegisterFilters): Promise<RegisterEntry[]>;
+
+  // Assistant Actions
+  createAssistantAction(action: InsertAssistantAction & { status?: AssistantActionStatus }): Promise<AssistantAction>;
+  getAssistantAction(id: string): Promise<AssistantAction | undefined>;
+  transitionAssistantAction(id: string, from: AssistantActionStatus, updates: Partial<AssistantAction> & { status: AssistantActionStatus }): Promise<AssistantAction | undefined>;
+
+  // Assistant Conversations
+  getAssistantConversations(userId: string): Promise<AssistantConversation[]>;
+  getAssistantConversation(id: string): Promise<AssistantConversation | undefined>;
+  createAssistantConversation(conversation: InsertAssistantConversation): Promise<AssistantConversation>;
+  updateAssistantConversation(id: string, updates: Partial<Pick<AssistantConversation, 'title' | 'summary' | 'summarizedCount'>>): Promise<AssistantConversation>;
+  deleteAssistantConversation(id: string): Promise<void>;
+  getAssistantMessages(conversationId: string): Promise<AssistantMessageWithAction[]>;
+  addAssistantMessages(conversationId: string, messages: Omit<InsertAssistantMessage, 'conversationId'>[]): Promise<void>;
+  updateAssistantActionMessage(actionId: string, content: string): Promise<void>;
 
   // External Meetings (Outlook, Google Calendar, etc.)
   getExternalMeetings(userId: string, projectId?: string): Promise<ExternalMeeting[]>;
@@ -115,6 +507,13 @@ export interface IStorage {
     createdAt: Date;
   }[]>;
   
+  // Activity / audit log
+  createActivityEvent(event: InsertActivityEvent): Promise<ActivityEvent>;
+  getProjectActivity(projectId: string, limit?: number, offset?: number): Promise<{
+    events: (ActivityEvent & { actor: { id: string; name: string } })[];
+    total: number;
+  }>;
+  
   // Today's Schedule
   getTodaysMeetings(userId: string): Promise<(Meeting & { 
     project?: { name: string }; 
@@ -247,10 +646,20 @@ export class DatabaseStorage implements IStorage {
   async deleteProject(id: string): Promise<void> {
     // Delete all related data in the correct order (child tables first)
     
-    // 1. Delete all tasks associated with this project
+    // 1. Delete all tasks (and their dependency links) associated with this project, subtasks first
+    const projectTaskIds = (await this.getTasksByProject(id)).map(t => t.id);
+    await this.deleteTaskLinks(projectTaskIds);
+    await db.delete(tasks).where(and(eq(tasks.projectId, id), sql`${tasks.parentTaskId} IS NOT NULL`));
     await db.delete(tasks).where(eq(tasks.projectId, id));
+    await db.delete(sprints).where(eq(sprints.projectId, id));
+    await db.delete(labels).where(eq(labels.projectId, id));
     
-    // 2. Delete all meetings associated with this project
+    // 2. Delete all meetings associated with this project, and the suggested tasks nobody reviewed
+    await db.delete(suggestedTasks).where(and(eq(suggestedTasks.projectId, id), eq(suggestedTasks.status, 'pending')));
+    await db.delete(meetingChunks).where(inArray(meetingChunks.meetingId, db.select({ id: meetings.id }).from(meetings).where(eq(meetings.projectId, id))));
+    await db.delete(meetingDecisions).where(eq(meetingDecisions.projectId, id));
+    await db.delete(meetingRisks).where(eq(meetingRisks.projectId, id));
+    await db.delete(meetingOpenQuestions).where(eq(meetingOpenQuestions.projectId, id));
     await db.delete(meetings).where(eq(meetings.projectId, id));
     
     // 3. Delete all project members
@@ -263,6 +672,39 @@ export class DatabaseStorage implements IStorage {
     await db.delete(projects).where(eq(projects.id, id));
   }
 
+  async updateProjectWorkflow(id: string, workflow: WorkflowStatus[]): Promise<Project> {
+    const existing = await this.getProject(id);
+    if (!existing) {
+      throw new Error('Project not found');
+    }
+
+    // Tasks in a removed status move to the first status of the same category
+    for (const removed of getWorkflow(existing).filter(old => !workflow.some(status => status.key === old.key))) {
+      const replacement = workflow.find(status => status.category === removed.category) || workflow[0];
+      await db.update(tasks)
+        .set({ status: replacement.key, updatedAt: new Date() })
+        .where(and(eq(tasks.projectId, id), eq(tasks.status, removed.key)));
+    }
+
+    // Keep the copied category and completion time in step with the new mapping
+    for (const status of workflow) {
+      await db.update(tasks)
+        .set({
+          statusCategory: status.category,
+          completedAt: status.category === 'done' ? sql`coalesce(${tasks.completedAt}, now())` : null,
+        })
+        .where(and(eq(tasks.projectId, id), eq(tasks.status, status.key)));
+    }
+
+    const [project] = await db
+      .update(projects)
+      .set({ workflow, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    await this.updateProjectProgress(id);
+    return project;
+  }
+
   async getTasks(projectId?: string, userId?: string): Promise<Task[]> {
     if (projectId && userId) {
       return await db.select().from(tasks)
@@ -287,68 +729,931 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(tasks.createdAt));
   }
 
-  async getTask(id: string): Promise<Task | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
-    return task || undefined;
+  async getTask(id: string): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    return task || undefined;
+  }
+
+  async getSubtasks(parentTaskId: string): Promise<Task[]> {
+    return await db.select().from(tasks)
+      .where(eq(tasks.parentTaskId, parentTaskId))
+      .orderBy(asc(tasks.createdAt));
+  }
+
+  async createTask(task: InsertTask): Promise<Task> {
+    // Subtasks live in their parent's project and only nest one level deep
+    if (task.parentTaskId) {
+      const parent = await this.getTask(task.parentTaskId);
+      if (!parent) {
+        throw new Error('Parent task not found');
+      }
+      if (parent.parentTaskId) {
+        throw new Error('Subtasks cannot have their own subtasks');
+      }
+      task = { ...task, projectId: parent.projectId };
+    }
+    if (task.sprintId) {
+      await this.assertSprintAssignable(task.sprintId, task.projectId);
+    }
+
+    // New tasks start in the workflow's first status unless one is given
+    const workflow = getWorkflow(await this.getProject(task.projectId));
+    const status = task.status ? resolveWorkflowStatus(workflow, task.status) : workflow[0];
+    if (!status) {
+      throw new Error(`Unknown status "${task.status}" for this project`);
+    }
+
+    const [newTask] = await db
+      .insert(tasks)
+      .values({
+        ...task,
+        status: status.key,
+        statusCategory: status.category,
+        completedAt: status.category === 'done' ? new Date() : null,
+      })
+      .returning();
+    
+    // Update project progress when new task is created
+    if (newTask.projectId) {
+      await this.updateProjectProgress(newTask.projectId);
+    }
+    
+    return newTask;
+  }
+
+  async updateTask(id: string, updates: Partial<InsertTask>, userId?: string): Promise<Task> {
+    const current = updates.status || updates.sprintId || updates.parentTaskId ? await this.getTask(id) : undefined;
+
+    if (updates.sprintId && current) {
+      await this.assertSprintAssignable(updates.sprintId, current.projectId);
+    }
+    if (updates.parentTaskId && current && updates.parentTaskId !== current.parentTaskId) {
+      await this.assertParentAssignable(current, updates.parentTaskId, updates.projectId || current.projectId);
+    }
+
+    let statusChange = {};
+    if (updates.status && current) {
+      const workflow = getWorkflow(await this.getProject(current.projectId));
+      const next = resolveWorkflowStatus(workflow, updates.status);
+      if (!next) {
+        throw new Error(`Unknown status "${updates.status}" for this project`);
+      }
+
+      if (next.key !== current.status) {
+        const from = workflow.find(status => status.key === current.status);
+        if (from?.transitions && !from.transitions.includes(next.key)) {
+          throw new WorkflowTransitionError(from, next);
+        }
+
+        // A task cannot be started while anything it depends on is still open
+        if (next.category === 'active' && getTaskCategory(current) !== 'active') {
+          const blockers = await this.getUnfinishedBlockers(id);
+          if (blockers.length > 0) {
+            throw new TaskBlockedError(blockers);
+          }
+        }
+      }
+
+      // completedAt records when the task was finished, which velocity and burndown are computed from
+      const wasDone = isTaskDone(current);
+      statusChange = {
+        status: next.key,
+        statusCategory: next.category,
+        ...(next.category === 'done' && !wasDone ? { completedAt: new Date() } : {}),
+        ...(next.category !== 'done' ? { completedAt: null } : {}),
+      };
+    }
+
+    const [task] = await db
+      .update(tasks)
+      .set({ 
+        ...updates, 
+        ...statusChange,
+        updatedAt: new Date(),
+        updatedBy: userId || updates.updatedBy
+      })
+      .where(eq(tasks.id, id))
+      .returning();
+    
+    // Update project progress when task status changes
+    if (updates.status && task.projectId) {
+      await this.updateProjectProgress(task.projectId);
+    }
+    
+    return task;
+  }
+
+  // Put back earlier values exactly as they were (undo), without the workflow and dependency checks of updateTask
+  async restoreTask(id: string, fields: Partial<Task>, userId?: string): Promise<Task> {
+    const [task] = await db
+      .update(tasks)
+      .set({ ...fields, updatedAt: new Date(), updatedBy: userId })
+      .where(eq(tasks.id, id))
+      .returning();
+    if (task && fields.status !== undefined) {
+      await this.updateProjectProgress(task.projectId);
+    }
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    // Get task before deleting to access projectId
+    const taskToDelete = await this.getTask(id);
+    const subtaskIds = (await this.getSubtasks(id)).map(t => t.id);
+    await this.deleteTaskLinks([id, ...subtaskIds]);
+    if (subtaskIds.length > 0) {
+      await db.delete(tasks).where(inArray(tasks.id, subtaskIds));
+    }
+    await db.delete(tasks).where(eq(tasks.id, id));
+    
+    // Update project progress when task is deleted
+    if (taskToDelete?.projectId) {
+      await this.updateProjectProgress(taskToDelete.projectId);
+    }
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    
+    // Get tasks before deleting to access projectIds
+    const tasksToDelete = await Promise.all(ids.map(id => this.getTask(id)));
+    
+    // Delete all tasks along with any subtasks they own
+    const subtaskIds = (await db.select({ id: tasks.id }).from(tasks)
+      .where(inArray(tasks.parentTaskId, ids))).map(t => t.id);
+    const allIds = Array.from(new Set([...ids, ...subtaskIds]));
+    await this.deleteTaskLinks(allIds);
+    await db.delete(tasks).where(and(inArray(tasks.id, allIds), sql`${tasks.parentTaskId} IS NOT NULL`));
+    await db.delete(tasks).where(inArray(tasks.id, allIds));
+    
+    // Update project progress for affected projects
+    const projectIds = Array.from(new Set(tasksToDelete
+      .filter(task => task?.projectId)
+      .map(task => task!.projectId)
+    ));
+    
+    await Promise.all(projectIds.map(projectId => this.updateProjectProgress(projectId)));
+  }
+
+  // Moving a task under a parent follows the same rules as creating a subtask
+  private async assertParentAssignable(task: Task, parentTaskId: string, projectId: string): Promise<void> {
+    if (parentTaskId === task.id) {
+      throw new Error('A task cannot be its own parent');
+    }
+    const parent = await this.getTask(parentTaskId);
+    if (!parent || parent.projectId !== projectId) {
+      throw new Error('Parent task not found in this project');
+    }
+    if (parent.parentTaskId) {
+      throw new Error('Subtasks cannot have their own subtasks');
+    }
+    const [subtask] = await db.select({ id: tasks.id }).from(tasks).where(eq(tasks.parentTaskId, task.id)).limit(1);
+    if (subtask) {
+      throw new Error('A task with subtasks cannot become a subtask');
+    }
+  }
+
+  // Tasks can only join an open sprint of their own project
+  private async assertSprintAssignable(sprintId: string, projectId: string): Promise<void> {
+    const sprint = await this.getSprint(sprintId);
+    if (!sprint || sprint.projectId !== projectId) {
+      throw new Error('Sprint not found in this project');
+    }
+    if (sprint.state === 'closed') {
+      throw new Error('Tasks cannot be added to a closed sprint');
+    }
+  }
+
+  // Sprints Implementation
+  async getSprints(projectId: string): Promise<Sprint[]> {
+    return await db.select().from(sprints)
+      .where(eq(sprints.projectId, projectId))
+      .orderBy(asc(sprints.startDate));
+  }
+
+  async getSprint(id: string): Promise<Sprint | undefined> {
+    const [sprint] = await db.select().from(sprints).where(eq(sprints.id, id));
+    return sprint || undefined;
+  }
+
+  async getSprintTasks(sprintId: string): Promise<Task[]> {
+    return await db.select().from(tasks)
+      .where(eq(tasks.sprintId, sprintId))
+      .orderBy(asc(tasks.createdAt));
+  }
+
+  async createSprint(sprint: InsertSprint): Promise<Sprint> {
+    if (sprint.endDate <= sprint.startDate) {
+      throw new Error('Sprint end date must be after its start date');
+    }
+    const [newSprint] = await db.insert(sprints).values(sprint).returning();
+    return newSprint;
+  }
+
+  async updateSprint(id: string, updates: Partial<InsertSprint>): Promise<Sprint> {
+    const existing = await this.getSprint(id);
+    if (!existing) {
+      throw new Error('Sprint not found');
+    }
+    const startDate = updates.startDate || existing.startDate;
+    const endDate = updates.endDate || existing.endDate;
+    if (endDate <= startDate) {
+      throw new Error('Sprint end date must be after its start date');
+    }
+
+    const [sprint] = await db
+      .update(sprints)
+      .set({ ...updates, projectId: existing.projectId, updatedAt: new Date() })
+      .where(eq(sprints.id, id))
+      .returning();
+    return sprint;
+  }
+
+  async startSprint(id: string): Promise<Sprint> {
+    const sprint = await this.getSprint(id);
+    if (!sprint) {
+      throw new Error('Sprint not found');
+    }
+    if (sprint.state !== 'planned') {
+      throw new Error('Only a planned sprint can be started');
+    }
+
+    const [active] = await db.select().from(sprints)
+      .where(and(eq(sprints.projectId, sprint.projectId), eq(sprints.state, 'active')));
+    if (active) {
+      throw new Error(`Close "${active.name}" before starting another sprint`);
+    }
+
+    const [started] = await db
+      .update(sprints)
+      .set({ state: 'active', updatedAt: new Date() })
+      .where(eq(sprints.id, id))
+      .returning();
+    return started;
+  }
+
+  async closeSprint(id: string): Promise<{ sprint: Sprint; nextSprint: Sprint | null; rolledOverTaskIds: string[] }> {
+    const sprint = await this.getSprint(id);
+    if (!sprint) {
+      throw new Error('Sprint not found');
+    }
+    if (sprint.state !== 'active') {
+      throw new Error('Only an active sprint can be closed');
+    }
+
+    const sprintTasks = (await this.getSprintTasks(id)).filter(t => !t.parentTaskId);
+    const unfinished = sprintTasks.filter(t => !isTaskDone(t));
+
+    // Unfinished work rolls over to the next planned sprint, creating one of the same length if needed
+    let nextSprint: Sprint | null = null;
+    if (unfinished.length > 0) {
+      const [planned] = await db.select().from(sprints)
+        .where(and(eq(sprints.projectId, sprint.projectId), eq(sprints.state, 'planned')))
+        .orderBy(asc(sprints.startDate))
+        .limit(1);
+      nextSprint = planned || await this.createSprint({
+        projectId: sprint.projectId,
+        name: nextSprintName(sprint.name),
+        goal: null,
+        startDate: sprint.endDate,
+        endDate: new Date(sprint.endDate.getTime() + (sprint.endDate.getTime() - sprint.startDate.getTime())),
+      });
+
+      await db
+        .update(tasks)
+        .set({ sprintId: nextSprint.id, updatedAt: new Date() })
+        .where(inArray(tasks.id, unfinished.map(t => t.id)));
+    }
+
+    const summary: SprintSummary = {
+      completedTaskIds: sprintTasks.filter(isTaskDone).map(t => t.id),
+      rolledOverTaskIds: unfinished.map(t => t.id),
+      nextSprintId: nextSprint?.id || null,
+    };
+    const [closed] = await db
+      .update(sprints)
+      .set({ state: 'closed', summary, closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(sprints.id, id))
+      .returning();
+
+    return { sprint: closed, nextSprint, rolledOverTaskIds: summary.rolledOverTaskIds };
+  }
+
+  async deleteSprint(id: string): Promise<void> {
+    const sprint = await this.getSprint(id);
+    if (!sprint) return;
+    if (sprint.state !== 'planned') {
+      throw new Error('Only a planned sprint can be deleted');
+    }
+
+    // Its tasks go back to the project backlog
+    await db.update(tasks).set({ sprintId: null }).where(eq(tasks.sprintId, id));
+    await db.delete(sprints).where(eq(sprints.id, id));
+  }
+
+  // Task Dependencies Implementation
+  async getTaskDependencies(taskId: string): Promise<(TaskDependency & { dependsOn: Task })[]> {
+    const result = await db
+      .select({ dependency: taskDependencies, dependsOn: tasks })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.dependsOnTaskId, tasks.id))
+      .where(eq(taskDependencies.taskId, taskId))
+      .orderBy(asc(taskDependencies.createdAt));
+
+    return result.map(r => ({ ...r.dependency, dependsOn: r.dependsOn }));
+  }
+
+  async getTaskDependents(taskId: string): Promise<(TaskDependency & { task: Task })[]> {
+    const result = await db
+      .select({ dependency: taskDependencies, task: tasks })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.taskId, tasks.id))
+      .where(eq(taskDependencies.dependsOnTaskId, taskId))
+      .orderBy(asc(taskDependencies.createdAt));
+
+    return result.map(r => ({ ...r.dependency, task: r.task }));
+  }
+
+  async getDependenciesForTasks(taskIds: string[]): Promise<TaskDependency[]> {
+    if (taskIds.length === 0) return [];
+    return await db.select().from(taskDependencies)
+      .where(inArray(taskDependencies.taskId, taskIds));
+  }
+
+  async getUnfinishedBlockers(taskId: string): Promise<Task[]> {
+    const result = await db
+      .select({ blocker: tasks })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.dependsOnTaskId, tasks.id))
+      .where(and(eq(taskDependencies.taskId, taskId), sql`${taskCategorySql} <> 'done'`));
+
+    return result.map(r => r.blocker);
+  }
+
+  async addTaskDependency(taskId: string, dependsOnTaskId: string, createdById?: string): Promise<TaskDependency> {
+    if (taskId === dependsOnTaskId) {
+      throw new Error('A task cannot depend on itself');
+    }
+
+    const [task, dependsOn] = await Promise.all([this.getTask(taskId), this.getTask(dependsOnTaskId)]);
+    if (!task || !dependsOn) {
+      throw new Error('Task not found');
+    }
+    if (task.projectId !== dependsOn.projectId) {
+      throw new Error('Dependencies must be between tasks in the same project');
+    }
+
+    const [existing] = await db.select().from(taskDependencies)
+      .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)));
+    if (existing) {
+      return existing;
+    }
+
+    // Walk everything dependsOnTaskId already waits on; reaching taskId means the new edge closes a cycle
+    const visited = new Set<string>();
+    let frontier = [dependsOnTaskId];
+    while (frontier.length > 0) {
+      const edges = await this.getDependenciesForTasks(frontier);
+      const next: string[] = [];
+      for (const edge of edges) {
+        if (edge.dependsOnTaskId === taskId) {
+          throw new Error(`Adding this dependency would create a cycle: "${dependsOn.title}" already waits on "${task.title}"`);
+        }
+        if (!visited.has(edge.dependsOnTaskId)) {
+          visited.add(edge.dependsOnTaskId);
+          next.push(edge.dependsOnTaskId);
+        }
+      }
+      frontier = next;
+    }
+
+    const [dependency] = await db.insert(taskDependencies)
+      .values({ taskId, dependsOnTaskId, createdById })
+      .returning();
+    return dependency;
+  }
+
+  async removeTaskDependency(taskId: string, dependsOnTaskId: string): Promise<void> {
+    await db.delete(taskDependencies).where(
+      and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId))
+    );
+  }
+
+  // Removes rows that reference the given tasks (dependency links, comments, time entries) so the tasks can be deleted
+  private async deleteTaskLinks(taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) return;
+    await db.delete(taskEmbeddings).where(inArray(taskEmbeddings.taskId, taskIds));
+    await db.delete(timeEntries).where(inArray(timeEntries.taskId, taskIds));
+    await db.delete(taskLabels).where(inArray(taskLabels.taskId, taskIds));
+    await db.delete(taskComments).where(
+      and(inArray(taskComments.taskId, taskIds), sql`${taskComments.parentCommentId} IS NOT NULL`)
+    );
+    await db.delete(taskComments).where(inArray(taskComments.taskId, taskIds));
+    await db.delete(taskDependencies).where(
+      or(inArray(taskDependencies.taskId, taskIds), inArray(taskDependencies.dependsOnTaskId, taskIds))
+    );
+  }
+
+  // Labels Implementation
+  async getLabels(projectId: string): Promise<Label[]> {
+    return await db.select().from(labels)
+      .where(eq(labels.projectId, projectId))
+      .orderBy(asc(labels.name));
+  }
+
+  async getLabel(id: string): Promise<Label | undefined> {
+    const [label] = await db.select().from(labels).where(eq(labels.id, id));
+    return label || undefined;
+  }
+
+  private async getLabelByName(projectId: string, name: string): Promise<Label | undefined> {
+    const [label] = await db.select().from(labels)
+      .where(and(eq(labels.projectId, projectId), sql`lower(${labels.name}) = ${name.trim().toLowerCase()}`));
+    return label || undefined;
+  }
+
+  async createLabel(label: InsertLabel): Promise<Label> {
+    if (await this.getLabelByName(label.projectId, label.name)) {
+      throw new Error(`A label named "${label.name}" already exists in this project`);
+    }
+    const [newLabel] = await db
+      .insert(labels)
+      .values({ ...label, color: label.color || pickLabelColor(label.name) })
+      .returning();
+    return newLabel;
+  }
+
+  async updateLabel(id: string, updates: Partial<InsertLabel>): Promise<Label> {
+    const existing = await this.getLabel(id);
+    if (!existing) {
+      throw new Error('Label not found');
+    }
+    if (updates.name) {
+      const clash = await this.getLabelByName(existing.projectId, updates.name);
+      if (clash && clash.id !== id) {
+        throw new Error(`A label named "${updates.name}" already exists in this project`);
+      }
+    }
+
+    const [label] = await db
+      .update(labels)
+      .set({ ...updates, projectId: existing.projectId })
+      .where(eq(labels.id, id))
+      .returning();
+    return label;
+  }
+
+  async deleteLabel(id: string): Promise<void> {
+    await db.delete(taskLabels).where(eq(taskLabels.labelId, id));
+    await db.delete(labels).where(eq(labels.id, id));
+  }
+
+  async findOrCreateLabel(projectId: string, name: string): Promise<Label> {
+    return await this.getLabelByName(projectId, name) || await this.createLabel({ projectId, name: name.trim() });
+  }
+
+  async getLabelsForTasks(taskIds: string[]): Promise<Map<string, Label[]>> {
+    const labelsByTask = new Map<string, Label[]>();
+    if (taskIds.length === 0) return labelsByTask;
+
+    const rows = await db
+      .select({ taskId: taskLabels.taskId, label: labels })
+      .from(taskLabels)
+      .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+      .where(inArray(taskLabels.taskId, taskIds))
+      .orderBy(asc(labels.name));
+
+    for (const row of rows) {
+      const existing = labelsByTask.get(row.taskId) || [];
+      existing.push(row.label);
+      labelsByTask.set(row.taskId, existing);
+    }
+    return labelsByTask;
+  }
+
+  // Replaces a task's labels; every label must belong to the task's project
+  async setTaskLabels(taskId: string, labelIds: string[]): Promise<Label[]> {
+    const task = await this.getTask(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const uniqueIds = Array.from(new Set(labelIds));
+    const projectLabels = uniqueIds.length > 0
+      ? await db.select().from(labels).where(and(inArray(labels.id, uniqueIds), eq(labels.projectId, task.projectId)))
+      : [];
+    if (projectLabels.length !== uniqueIds.length) {
+      throw new Error('Labels must belong to the task\'s project');
+    }
+
+    await db.delete(taskLabels).where(eq(taskLabels.taskId, taskId));
+    if (uniqueIds.length > 0) {
+      await db.insert(taskLabels).values(uniqueIds.map(labelId => ({ taskId, labelId })));
+    }
+    return projectLabels.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Task Embeddings Implementation
+  // Top-level tasks with no embedding yet, or one from another model or made before the task was edited
+  async getTasksNeedingEmbedding(projectId: string, model: string): Promise<Task[]> {
+    const rows = await db.select({ task: tasks })
+      .from(tasks)
+      .leftJoin(taskEmbeddings, eq(taskEmbeddings.taskId, tasks.id))
+      .where(and(
+        eq(tasks.projectId, projectId),
+        isNull(tasks.parentTaskId),
+        or(
+          isNull(taskEmbeddings.taskId),
+          ne(taskEmbeddings.model, model),
+          ne(taskEmbeddings.contentHash, taskContentHashSql),
+        ),
+      ));
+    return rows.map(row => row.task);
+  }
+
+  async saveTaskEmbeddings(embeddings: { taskId: string; model: string; contentHash: string; embedding: number[] }[]): Promise<void> {
+    if (embeddings.length === 0) return;
+    await db.insert(taskEmbeddings)
+      .values(embeddings.map(row => ({ ...row, updatedAt: new Date() })))
+      .onConflictDoUpdate({
+        target: taskEmbeddings.taskId,
+        set: {
+          model: sql`excluded.model`,
+          contentHash: sql`excluded.content_hash`,
+          embedding: sql`excluded.embedding`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+  }
+
+  // Nearest tasks in the project by cosine similarity, most similar first
+  async findSimilarTasks(projectId: string, model: string, embedding: number[], options: { minSimilarity: number; limit: number; excludeTaskId?: string }): Promise<SimilarTask[]> {
+    const distance = sql`${taskEmbeddings.embedding} <=> ${JSON.stringify(embedding)}::vector`;
+    const similarity = sql<number>`1 - (${distance})`.mapWith(Number);
+
+    const rows = await db.select({ task: tasks, similarity })
+      .from(taskEmbeddings)
+      .innerJoin(tasks, eq(tasks.id, taskEmbeddings.taskId))
+      .where(and(
+        eq(tasks.projectId, projectId),
+        isNull(tasks.parentTaskId),
+        eq(taskEmbeddings.model, model),
+        gte(similarity, options.minSimilarity),
+        options.excludeTaskId ? ne(tasks.id, options.excludeTaskId) : undefined,
+      ))
+      .orderBy(distance)
+      .limit(options.limit);
+    return rows.map(row => ({ ...row.task, similarity: row.similarity }));
+  }
+
+  // Every pair of tasks in the project at least this similar, each pair once, most similar first
+  async findDuplicateTaskPairs(projectId: string, model: string, minSimilarity: number, limit: number): Promise<DuplicateTaskPair[]> {
+    const otherEmbedding = alias(taskEmbeddings, "other_embedding");
+    const otherTask = alias(tasks, "other_task");
+    const similarity = sql<number>`1 - (${taskEmbeddings.embedding} <=> ${otherEmbedding.embedding})`.mapWith(Number);
+
+    const rows = await db.select({ task: tasks, duplicate: otherTask, similarity })
+      .from(taskEmbeddings)
+      .innerJoin(tasks, eq(tasks.id, taskEmbeddings.taskId))
+      .innerJoin(otherEmbedding, and(
+        sql`${otherEmbedding.taskId} > ${taskEmbeddings.taskId}`,
+        eq(otherEmbedding.model, taskEmbeddings.model),
+      ))
+      .innerJoin(otherTask, eq(otherTask.id, otherEmbedding.taskId))
+      .where(and(
+        eq(tasks.projectId, projectId),
+        eq(otherTask.projectId, projectId),
+        isNull(tasks.parentTaskId),
+        isNull(otherTask.parentTaskId),
+        eq(taskEmbeddings.model, model),
+        gte(similarity, minSimilarity),
+        // Two finished tasks aren't worth merging; filtered here so they don't use up the limit
+        or(sql`${taskCategorySql} <> 'done'`, sql`${taskCategoryOf(otherTask)} <> 'done'`),
+      ))
+      .orderBy(desc(similarity))
+      .limit(limit);
+    return rows;
+  }
+
+  // Search Implementation
+  private projectsNamed(names: string[]) {
+    return db.select({ id: projects.id }).from(projects)
+      .where(or(...names.map(name => ilike(projects.name, containsPattern(name)))));
+  }
+
+  async searchTasks(projectIds: string[], filters: SearchFilters, limit: number): Promise<TaskSearchResult[]> {
+    if (projectIds.length === 0) return [];
+
+    const document = searchDocument(tasks.title, tasks.description);
+    const query = sql`websearch_to_tsquery('english', ${filters.text})`;
+    const conditions: (SQL | undefined)[] = [inArray(tasks.projectId, projectIds)];
+
+    if (filters.text) {
+      conditions.push(sql`${document} @@ ${query}`);
+    }
+    if (filters.statusKeys.length > 0 || filters.statusCategories.length > 0) {
+      conditions.push(or(
+        filters.statusKeys.length > 0 ? inArray(tasks.status, filters.statusKeys) : undefined,
+        filters.statusCategories.length > 0 ? inArray(taskCategorySql, filters.statusCategories) : undefined,
+      ));
+    }
+    if (filters.priorities.length > 0) {
+      conditions.push(inArray(tasks.priority, filters.priorities));
+    }
+    if (filters.assigneeIds.length > 0 || filters.assigneeNames.length > 0 || filters.unassigned) {
+      const namedUsers = db.select({ id: users.id }).from(users)
+        .where(or(...filters.assigneeNames.flatMap(name => [
+          ilike(users.name, containsPattern(name)),
+          ilike(users.username, containsPattern(name)),
+          ilike(users.email, containsPattern(name)),
+        ])));
+      conditions.push(or(
+        filters.assigneeIds.length > 0 ? inArray(tasks.assigneeId, filters.assigneeIds) : undefined,
+        filters.assigneeNames.length > 0 ? inArray(tasks.assigneeId, namedUsers) : undefined,
+        filters.unassigned ? isNull(tasks.assigneeId) : undefined,
+      ));
+    }
+    if (filters.noDueDate) {
+      conditions.push(isNull(tasks.dueDate));
+    }
+    if (filters.dueAfter) {
+      conditions.push(gte(tasks.dueDate, filters.dueAfter));
+    }
+    if (filters.dueBefore) {
+      conditions.push(lt(tasks.dueDate, filters.dueBefore));
+    }
+    if (filters.projectNames.length > 0) {
+      conditions.push(inArray(tasks.projectId, this.projectsNamed(filters.projectNames)));
+    }
+    if (filters.labelNames.length > 0) {
+      const labelledTasks = db.select({ id: taskLabels.taskId }).from(taskLabels)
+        .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+        .where(inArray(sql`lower(${labels.name})`, filters.labelNames.map(name => name.toLowerCase())));
+      conditions.push(inArray(tasks.id, labelledTasks));
+    }
+
+    const rank = filters.text ? sql<number>`ts_rank(${document}, ${query})` : sql<number>`0`;
+    const rows = await db
+      .select({ task: tasks, projectName: projects.name, rank })
+      .from(tasks)
+      .innerJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(tasks.updatedAt))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.task, projectName: row.projectName, rank: Number(row.rank) }));
+  }
+
+  async searchProjects(projectIds: string[], filters: SearchFilters, limit: number): Promise<ProjectSearchResult[]> {
+    if (projectIds.length === 0) return [];
+
+    const document = searchDocument(projects.name, projects.description);
+    const query = sql`websearch_to_tsquery('english', ${filters.text})`;
+    const conditions: (SQL | undefined)[] = [inArray(projects.id, projectIds)];
+
+    if (filters.text) {
+      conditions.push(sql`${document} @@ ${query}`);
+    }
+    if (filters.projectNames.length > 0) {
+      conditions.push(or(...filters.projectNames.map(name => ilike(projects.name, containsPattern(name)))));
+    }
+
+    const rank = filters.text ? sql<number>`ts_rank(${document}, ${query})` : sql<number>`0`;
+    const rows = await db
+      .select({ project: projects, rank })
+      .from(projects)
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(projects.updatedAt))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.project, rank: Number(row.rank) }));
+  }
+
+  // Same visibility as getMeetings: meetings the user created or was invited to
+  async searchMeetings(userId: string, filters: SearchFilters, limit: number): Promise<MeetingSearchResult[]> {
+    const document = searchDocument(meetings.title, meetings.description, meetings.transcription, meetings.aiSummary);
+    const query = sql`websearch_to_tsquery('english', ${filters.text})`;
+    const invitedTo = db.select({ id: meetingParticipants.meetingId }).from(meetingParticipants)
+      .where(eq(meetingParticipants.userId, userId));
+    const conditions: (SQL | undefined)[] = [
+      or(eq(meetings.createdById, userId), inArray(meetings.id, invitedTo)),
+    ];
+
+    if (filters.text) {
+      conditions.push(sql`${document} @@ ${query}`);
+    }
+    if (filters.projectNames.length > 0) {
+      conditions.push(inArray(meetings.projectId, this.projectsNamed(filters.projectNames)));
+    }
+
+    // Transcriptions are long, so return the matching fragments rather than the whole text
+    const rank = filters.text ? sql<number>`ts_rank(${document}, ${query})` : sql<number>`0`;
+    const snippet = filters.text
+      ? sql<string>`ts_headline('english', coalesce(${meetings.aiSummary}, '') || ' ' || coalesce(${meetings.transcription}, ''), ${query}, 'MaxFragments=2, MaxWords=20, MinWords=8')`
+      : sql<string>`left(coalesce(${meetings.aiSummary}, ${meetings.description}, ''), 200)`;
+
+    const rows = await db
+      .select({
+        id: meetings.id,
+        title: meetings.title,
+        projectId: meetings.projectId,
+        scheduledAt: meetings.scheduledAt,
+        snippet,
+        rank,
+      })
+      .from(meetings)
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(meetings.scheduledAt))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row, rank: Number(row.rank) }));
+  }
+
+  // Task Comments Implementation
+  async getTaskComments(taskId: string): Promise<(TaskComment & { author: Pick<User, 'id' | 'name' | 'username' | 'avatar'> })[]> {
+    const result = await db
+      .select({
+        comment: taskComments,
+        author: { id: users.id, name: users.name, username: users.username, avatar: users.avatar },
+      })
+      .from(taskComments)
+      .innerJoin(users, eq(taskComments.authorId, users.id))
+      .where(eq(taskComments.taskId, taskId))
+      .orderBy(asc(taskComments.createdAt));
+
+    return result.map(r => ({ ...r.comment, author: r.author }));
+  }
+
+  async getTaskComment(id: string): Promise<TaskComment | undefined> {
+    const [comment] = await db.select().from(taskComments).where(eq(taskComments.id, id));
+    return comment || undefined;
+  }
+
+  async createTaskComment(comment: InsertTaskComment): Promise<TaskComment> {
+    // Threads are one level deep: replying to a reply attaches to the thread's top-level comment
+    if (comment.parentCommentId) {
+      const parent = await this.getTaskComment(comment.parentCommentId);
+      if (!parent || parent.taskId !== comment.taskId) {
+        throw new Error('Parent comment not found');
+      }
+      comment = { ...comment, parentCommentId: parent.parentCommentId || parent.id };
+    }
+
+    const [newComment] = await db.insert(taskComments).values(comment).returning();
+    return newComment;
+  }
+
+  async updateTaskComment(id: string, body: string, mentionedUserIds: string[]): Promise<TaskComment> {
+    const [comment] = await db
+      .update(taskComments)
+      .set({ body, mentionedUserIds, updatedAt: new Date() })
+      .where(eq(taskComments.id, id))
+      .returning();
+    return comment;
+  }
+
+  async deleteTaskComment(id: string): Promise<void> {
+    await db.delete(taskComments).where(eq(taskComments.parentCommentId, id));
+    await db.delete(taskComments).where(eq(taskComments.id, id));
+  }
+
+  // Time Tracking Implementation
+  async getTimeEntries(filters: { taskId?: string; userId?: string; projectId?: string; from?: Date; to?: Date }): Promise<TimeEntryWithDetails[]> {
+    const conditions = [];
+    if (filters.taskId) conditions.push(eq(timeEntries.taskId, filters.taskId));
+    if (filters.userId) conditions.push(eq(timeEntries.userId, filters.userId));
+    if (filters.projectId) conditions.push(eq(timeEntries.projectId, filters.projectId));
+    if (filters.from) conditions.push(gte(timeEntries.startedAt, filters.from));
+    if (filters.to) conditions.push(lt(timeEntries.startedAt, filters.to));
+
+    const result = await db
+      .select({
+        entry: timeEntries,
+        task: { id: tasks.id, title: tasks.title },
+        user: { id: users.id, name: users.name },
+      })
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .innerJoin(users, eq(timeEntries.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(timeEntries.startedAt));
+
+    return result.map(r => ({ ...r.entry, task: r.task, user: r.user }));
+  }
+
+  async getTimeEntry(id: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getRunningTimer(userId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)));
+    return entry || undefined;
+  }
+
+  async startTimer(taskId: string, userId: string): Promise<TimeEntry> {
+    const task = await this.getTask(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    // A user has at most one running timer - starting a new one stops the previous one
+    await this.stopTimer(userId);
+
+    const [entry] = await db
+      .insert(timeEntries)
+      .values({ taskId, projectId: task.projectId, userId, startedAt: new Date(), source: 'timer' })
+      .returning();
+    return entry;
+  }
+
+  async stopTimer(userId: string): Promise<TimeEntry | undefined> {
+    const running = await this.getRunningTimer(userId);
+    if (!running) return undefined;
+
+    const endedAt = new Date();
+    const durationMinutes = Math.max(1, Math.round((endedAt.getTime() - running.startedAt.getTime()) / 60000));
+    const [entry] = await db
+      .update(timeEntries)
+      .set({ endedAt, durationMinutes })
+      .where(eq(timeEntries.id, running.id))
+      .returning();
+    return entry;
+  }
+
+  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    if (!entry.durationMinutes && !entry.endedAt) {
+      throw new Error('A manual time entry needs a duration or an end time');
+    }
+
+    const durationMinutes = entry.durationMinutes || this.durationBetween(entry.startedAt, entry.endedAt!);
+    const endedAt = entry.endedAt || new Date(entry.startedAt.getTime() + durationMinutes * 60000);
+    const [newEntry] = await db
+      .insert(timeEntries)
+      .values({ ...entry, endedAt, durationMinutes, source: 'manual' })
+      .returning();
+    return newEntry;
   }
 
-  async createTask(task: InsertTask): Promise<Task> {
-    const [newTask] = await db.insert(tasks).values(task).returning();
-    
-    // Update project progress when new task is created
-    if (newTask.projectId) {
-      await this.updateProjectProgress(newTask.projectId);
+  async updateTimeEntry(id: string, updates: Partial<InsertTimeEntry>): Promise<TimeEntry> {
+    const existing = await this.getTimeEntry(id);
+    if (!existing) {
+      throw new Error('Time entry not found');
     }
-    
-    return newTask;
-  }
 
-  async updateTask(id: string, updates: Partial<InsertTask>, userId?: string): Promise<Task> {
-    const [task] = await db
-      .update(tasks)
-      .set({ 
-        ...updates, 
-        updatedAt: new Date(),
-        updatedBy: userId || updates.updatedBy
+    // Keep endedAt consistent with the start time and duration; a new end time without a duration sets the duration
+    const startedAt = updates.startedAt || existing.startedAt;
+    let durationMinutes = updates.durationMinutes ?? existing.durationMinutes;
+    if (updates.endedAt && !updates.durationMinutes) {
+      if (!existing.endedAt) {
+        throw new Error('Stop the timer before changing its end time');
+      }
+      durationMinutes = this.durationBetween(startedAt, updates.endedAt);
+    }
+    const endedAt = durationMinutes ? new Date(startedAt.getTime() + durationMinutes * 60000) : existing.endedAt;
+
+    const [entry] = await db
+      .update(timeEntries)
+      .set({
+        startedAt,
+        durationMinutes,
+        endedAt,
+        ...(updates.note !== undefined && { note: updates.note }),
       })
-      .where(eq(tasks.id, id))
+      .where(eq(timeEntries.id, id))
       .returning();
-    
-    // Update project progress when task status changes
-    if (updates.status && task.projectId) {
-      await this.updateProjectProgress(task.projectId);
-    }
-    
-    return task;
+    return entry;
   }
 
-  async deleteTask(id: string): Promise<void> {
-    // Get task before deleting to access projectId
-    const taskToDelete = await this.getTask(id);
-    await db.delete(tasks).where(eq(tasks.id, id));
-    
-    // Update project progress when task is deleted
-    if (taskToDelete?.projectId) {
-      await this.updateProjectProgress(taskToDelete.projectId);
+  // Minutes from start to end of a manually entered time, held to the same bounds as a given duration
+  private durationBetween(startedAt: Date, endedAt: Date): number {
+    const durationMinutes = Math.round((endedAt.getTime() - startedAt.getTime()) / 60000);
+    if (durationMinutes <= 0) {
+      throw new Error('End time must be after start time');
+    }
+    if (durationMinutes > MAX_TIME_ENTRY_MINUTES) {
+      throw new Error(`A time entry can be at most ${MAX_TIME_ENTRY_MINUTES / 60} hours`);
     }
+    return durationMinutes;
   }
 
-  async deleteTasks(ids: string[]): Promise<void> {
-    if (ids.length === 0) return;
-    
-    // Get tasks before deleting to access projectIds
-    const tasksToDelete = await Promise.all(ids.map(id => this.getTask(id)));
-    
-    // Delete all tasks
-    await db.delete(tasks).where(inArray(tasks.id, ids));
-    
-    // Update project progress for affected projects
-    const projectIds = Array.from(new Set(tasksToDelete
-      .filter(task => task?.projectId)
-      .map(task => task!.projectId)
-    ));
-    
-    await Promise.all(projectIds.map(projectId => this.updateProjectProgress(projectId)));
+  async deleteTimeEntry(id: string): Promise<void> {
+    await db.delete(timeEntries).where(eq(timeEntries.id, id));
+  }
+
+  async getLoggedMinutes(userId: string, from: Date, to: Date): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)::int` })
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.userId, userId),
+        gte(timeEntries.startedAt, from),
+        lt(timeEntries.startedAt, to)
+      ));
+    return result?.total || 0;
   }
 
   async getMeetings(userId: string, projectId?: string): Promise<Meeting[]> {
@@ -482,10 +1787,646 @@ export class DatabaseStorage implements IStorage {
     return meeting;
   }
 
+  async updateMeetingTranscript(id: string, updates: { transcriptionProvider?: string; transcriptSegments?: TranscriptSegment[] | null; speakerMap?: SpeakerMap }): Promise<Meeting> {
+    const [meeting] = await db
+      .update(meetings)
+      .set(updates)
+      .where(eq(meetings.id, id))
+      .returning();
+    return meeting;
+  }
+
+  // Reviewed suggestions are kept as history; pending ones can no longer be reviewed
   async deleteMeeting(id: string): Promise<void> {
+    await db.delete(suggestedTasks).where(and(eq(suggestedTasks.meetingId, id), eq(suggestedTasks.status, 'pending')));
+    await db.delete(meetingChunks).where(eq(meetingChunks.meetingId, id));
+    await db.delete(meetingDecisions).where(eq(meetingDecisions.meetingId, id));
+    await db.delete(meetingRisks).where(eq(meetingRisks.meetingId, id));
+    await db.delete(meetingOpenQuestions).where(eq(meetingOpenQuestions.meetingId, id));
     await db.delete(meetings).where(eq(meetings.id, id));
   }
 
+  // Meeting Chunks Implementation
+  // Meetings (all, or just the given ones) with no chunks for this model or chunks cut from an older transcript
+  async getMeetingsNeedingChunks(model: string, filter: { meetingIds?: string[]; limit?: number }): Promise<Meeting[]> {
+    if (filter.meetingIds && filter.meetingIds.length === 0) return [];
+    const query = db.select().from(meetings).where(and(
+      filter.meetingIds ? inArray(meetings.id, filter.meetingIds) : undefined,
+      // Blank ones have nothing to chunk, so they would never stop showing up here
+      sql`(coalesce(trim(${meetings.transcription}), '') <> '' or coalesce(trim(${meetings.aiSummary}), '') <> '')`,
+      notExists(
+        db.select({ id: meetingChunks.id }).from(meetingChunks).where(and(
+          eq(meetingChunks.meetingId, meetings.id),
+          eq(meetingChunks.model, model),
+          eq(meetingChunks.sourceHash, meetingSourceHashSql),
+        ))
+      ),
+    )).orderBy(desc(meetings.scheduledAt));
+    return filter.limit ? await query.limit(filter.limit) : await query;
+  }
+
+  async replaceMeetingChunks(meetingId: string, chunks: Omit<MeetingChunk, 'id' | 'meetingId' | 'createdAt'>[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(meetingChunks).where(eq(meetingChunks.meetingId, meetingId));
+      if (chunks.length > 0) {
+        await tx.insert(meetingChunks).values(chunks.map(chunk => ({ ...chunk, meetingId })));
+      }
+    });
+  }
+
+  // Nearest chunks across the given meetings by cosine similarity, most similar first
+  async findMeetingChunks(meetingIds: string[], model: string, embedding: number[], limit: number): Promise<MeetingChunkMatch[]> {
+    if (meetingIds.length === 0) return [];
+    const distance = sql`${meetingChunks.embedding} <=> ${JSON.stringify(embedding)}::vector`;
+    const similarity = sql<number>`1 - (${distance})`.mapWith(Number);
+
+    const rows = await db.select({ chunk: meetingChunks, meetingTitle: meetings.title, scheduledAt: meetings.scheduledAt, similarity })
+      .from(meetingChunks)
+      .innerJoin(meetings, eq(meetings.id, meetingChunks.meetingId))
+      .where(and(
+        inArray(meetingChunks.meetingId, meetingIds),
+        eq(meetingChunks.model, model),
+      ))
+      .orderBy(distance)
+      .limit(limit);
+    return rows.map(row => ({ ...row.chunk, meetingTitle: row.meetingTitle, scheduledAt: row.scheduledAt, similarity: row.similarity }));
+  }
+
+  // Processing Jobs Implementation
+  async createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob> {
+    const [newJob] = await db.insert(processingJobs).values(job).returning();
+    return newJob;
+  }
+
+  async getProcessingJob(id: string): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job || undefined;
+  }
+
+  async getActiveJobForMeeting(meetingId: string): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select().from(processingJobs)
+      .where(and(eq(processingJobs.meetingId, meetingId), sql`${processingJobs.state} not in ('done', 'failed')`))
+      .orderBy(desc(processingJobs.createdAt))
+      .limit(1);
+    return job || undefined;
+  }
+
+  // Atomically take the oldest due job; SKIP LOCKED keeps two workers from picking the same one
+  async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+    const [job] = await db
+      .update(processingJobs)
+      .set({
+        state: 'transcribing',
+        attempts: sql`${processingJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(processingJobs.id, sql`(
+        select ${processingJobs.id} from ${processingJobs}
+        where ${processingJobs.state} = 'queued' and ${processingJobs.runAt} <= now()
+        order by ${processingJobs.createdAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  async updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob> {
+    const [job] = await db
+      .update(processingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Jobs still marked running after a crash or restart go back in the queue, or fail if out of attempts
+  async requeueStaleProcessingJobs(lockedBefore: Date): Promise<number> {
+    const stale = and(
+      inArray(processingJobs.state, ['transcribing', 'extracting']),
+      lt(processingJobs.lockedAt, lockedBefore),
+    );
+
+    const failed = await db
+      .update(processingJobs)
+      .set({
+        state: 'failed',
+        lastError: 'Processing was interrupted too many times',
+        audioData: null,
+        lockedAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(stale, sql`${processingJobs.attempts} >= ${processingJobs.maxAttempts}`))
+      .returning({ id: processingJobs.id, uploadId: processingJobs.uploadId });
+    for (const job of failed) {
+      if (job.uploadId) await this.deleteRecordingUploadAudio(job.uploadId);
+    }
+
+    const requeued = await db
+      .update(processingJobs)
+      .set({ state: 'queued', lockedAt: null, runAt: new Date(), updatedAt: new Date() })
+      .where(stale)
+      .returning({ id: processingJobs.id });
+
+    return failed.length + requeued.length;
+  }
+
+  // Scheduled Jobs Implementation
+
+  // Plans a run, or moves it if it hasn't been attempted yet. Undefined when that run has already
+  // started, finished or is waiting to retry, so callers can plan the following one instead.
+  async planScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob | undefined> {
+    const [planned] = await db
+      .insert(scheduledJobs)
+      .values(job)
+      .onConflictDoUpdate({
+        target: scheduledJobs.key,
+        set: { runAt: job.runAt, state: 'scheduled', updatedAt: new Date() },
+        setWhere: and(inArray(scheduledJobs.state, ['scheduled', 'cancelled']), eq(scheduledJobs.attempts, 0)),
+      })
+      .returning();
+    return planned || undefined;
+  }
+
+  // Cancels a user's future runs of a job type; runs already due or waiting to retry are left for a worker
+  async cancelScheduledJobs(userId: string, type: string, exceptKey: string): Promise<number> {
+    const cancelled = await db
+      .update(scheduledJobs)
+      .set({ state: 'cancelled', completedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(scheduledJobs.userId, userId),
+        eq(scheduledJobs.type, type),
+        eq(scheduledJobs.state, 'scheduled'),
+        ne(scheduledJobs.key, exceptKey),
+        eq(scheduledJobs.attempts, 0),
+        sql`${scheduledJobs.runAt} > now()`,
+      ))
+      .returning({ id: scheduledJobs.id });
+    return cancelled.length;
+  }
+
+  // Atomically lease the earliest due job, or one whose lease ran out while its worker was running it.
+  // Leases are measured on the database clock so instances with drifting clocks still agree.
+  async claimNextScheduledJob(workerId: string, leaseMs: number): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({
+        state: 'running',
+        attempts: sql`${scheduledJobs.attempts} + 1`,
+        lockedBy: workerId,
+        lockedUntil: sql`now() + make_interval(secs => ${leaseMs / 1000})`,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(scheduledJobs.id, sql`(
+        select ${scheduledJobs.id} from ${scheduledJobs}
+        where (${scheduledJobs.state} = 'scheduled' and ${scheduledJobs.runAt} <= now())
+          or (${scheduledJobs.state} = 'running' and ${scheduledJobs.lockedUntil} < now() and ${scheduledJobs.attempts} < ${scheduledJobs.maxAttempts})
+        order by ${scheduledJobs.runAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  // False once the lease has been lost to another worker
+  async renewScheduledJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await db
+      .update(scheduledJobs)
+      .set({ lockedUntil: sql`now() + make_interval(secs => ${leaseMs / 1000})`, updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, workerId), eq(scheduledJobs.state, 'running')))
+      .returning({ id: scheduledJobs.id });
+    return renewed.length > 0;
+  }
+
+  // Records the outcome and gives up the lease; undefined if the lease had already passed to another worker
+  async releaseScheduledJob(id: string, workerId: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ ...updates, lockedBy: null, lockedUntil: null, updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, workerId), eq(scheduledJobs.state, 'running')))
+      .returning();
+    return job || undefined;
+  }
+
+  // Jobs whose worker died on every attempt are not tried again
+  async failAbandonedScheduledJobs(): Promise<number> {
+    const failed = await db
+      .update(scheduledJobs)
+      .set({
+        state: 'failed',
+        lastError: 'The worker running this job stopped before it finished',
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(scheduledJobs.state, 'running'),
+        lt(scheduledJobs.lockedUntil, sql`now()`),
+        sql`${scheduledJobs.attempts} >= ${scheduledJobs.maxAttempts}`,
+      ))
+      .returning({ id: scheduledJobs.id });
+    return failed.length;
+  }
+
+  async deleteSchedulerHistory(before: Date): Promise<void> {
+    await db.delete(scheduledJobs).where(and(
+      inArray(scheduledJobs.state, ['done', 'skipped', 'failed', 'cancelled']),
+      lt(scheduledJobs.updatedAt, before),
+    ));
+    await db.delete(notificationDeliveries).where(lt(notificationDeliveries.createdAt, before));
+  }
+
+  async getSchedulerOverview(limit: number): Promise<SchedulerOverview> {
+    const jobColumns = { job: scheduledJobs, userName: users.name };
+    const toJob = (row: { job: ScheduledJob; userName: string | null }) => ({ ...row.job, userName: row.userName });
+
+    const upcoming = await db.select(jobColumns)
+      .from(scheduledJobs)
+      .leftJoin(users, eq(users.id, scheduledJobs.userId))
+      .where(inArray(scheduledJobs.state, ['scheduled', 'running']))
+      .orderBy(asc(scheduledJobs.runAt))
+      .limit(limit);
+
+    const recent = await db.select(jobColumns)
+      .from(scheduledJobs)
+      .leftJoin(users, eq(users.id, scheduledJobs.userId))
+      .where(inArray(scheduledJobs.state, ['done', 'skipped', 'failed', 'cancelled']))
+      .orderBy(desc(scheduledJobs.updatedAt))
+      .limit(limit);
+
+    const deliveries = await db.select({ delivery: notificationDeliveries, userName: users.name })
+      .from(notificationDeliveries)
+      .leftJoin(users, eq(users.id, notificationDeliveries.userId))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+
+    return {
+      upcoming: upcoming.map(toJob),
+      recent: recent.map(toJob),
+      deliveries: deliveries.map(row => ({ ...row.delivery, userName: row.userName })),
+    };
+  }
+
+  // Notification Deliveries Implementation
+
+  // True if the caller should send: the email hasn't been sent or attempted yet, or the last attempt failed.
+  // One that is still "sending" belongs to a worker that may have sent it before dying, so it is not retried.
+  async claimNotificationDelivery(delivery: InsertNotificationDelivery): Promise<boolean> {
+    const claimed = await db
+      .insert(notificationDeliveries)
+      .values(delivery)
+      .onConflictDoUpdate({
+        target: notificationDeliveries.key,
+        set: { state: 'sending', error: null, jobId: delivery.jobId ?? null },
+        setWhere: eq(notificationDeliveries.state, 'failed'),
+      })
+      .returning({ id: notificationDeliveries.id });
+    return claimed.length > 0;
+  }
+
+  async updateNotificationDelivery(key: string, updates: Partial<NotificationDelivery>): Promise<void> {
+    await db.update(notificationDeliveries).set(updates).where(eq(notificationDeliveries.key, key));
+  }
+
+  // Recording Uploads Implementation
+  async createRecordingUpload(upload: InsertRecordingUpload): Promise<RecordingUpload> {
+    const [newUpload] = await db.insert(recordingUploads).values(upload).returning();
+    return newUpload;
+  }
+
+  async getRecordingUpload(id: string): Promise<RecordingUpload | undefined> {
+    const [upload] = await db.select().from(recordingUploads).where(eq(recordingUploads.id, id));
+    return upload || undefined;
+  }
+
+  // Store a chunk only if it starts exactly where the upload left off; returns undefined when it doesn't
+  // (a resent or out-of-order chunk), so the caller can tell the client the real offset
+  async appendRecordingUploadChunk(id: string, startByte: number, data: Buffer): Promise<RecordingUpload | undefined> {
+    return await db.transaction(async (tx) => {
+      const [upload] = await tx
+        .update(recordingUploads)
+        .set({ receivedBytes: sql`${recordingUploads.receivedBytes} + ${data.length}`, updatedAt: new Date() })
+        .where(and(
+          eq(recordingUploads.id, id),
+          eq(recordingUploads.receivedBytes, startByte),
+          isNull(recordingUploads.completedAt),
+          sql`${recordingUploads.receivedBytes} + ${data.length} <= ${recordingUploads.size}`,
+        ))
+        .returning();
+      if (!upload) return undefined;
+
+      await tx.insert(recordingUploadChunks).values({ uploadId: id, startByte, data });
+      return upload;
+    });
+  }
+
+  // Reassemble the chunks into a processing job. Completing twice returns the same job.
+  async completeRecordingUpload(id: string): Promise<ProcessingJob> {
+    return await db.transaction(async (tx) => {
+      const [upload] = await tx.select().from(recordingUploads).where(eq(recordingUploads.id, id)).for('update');
+      if (!upload) throw new Error('Upload not found');
+
+      if (upload.jobId) {
+        const [existingJob] = await tx.select().from(processingJobs).where(eq(processingJobs.id, upload.jobId));
+        return existingJob;
+      }
+
+      // The audio stays in its chunks until the job has transcribed it; only its size is checked here
+      const [{ storedBytes }] = await tx.select({ storedBytes: sql<number>`coalesce(sum(octet_length(${recordingUploadChunks.data})), 0)::int` })
+        .from(recordingUploadChunks)
+        .where(eq(recordingUploadChunks.uploadId, id));
+      if (upload.receivedBytes !== upload.size || storedBytes !== upload.size) {
+        throw new Error(`Upload is incomplete: ${storedBytes} of ${upload.size} bytes received`);
+      }
+
+      const [job] = await tx.insert(processingJobs).values({
+        type: 'process-recording',
+        userId: upload.userId,
+        meetingId: upload.meetingId,
+        projectId: upload.projectId,
+        mimeType: upload.mimeType,
+        uploadId: upload.id,
+      }).returning();
+
+      await tx.update(recordingUploads)
+        .set({ jobId: job.id, completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(recordingUploads.id, id));
+      return job;
+    });
+  }
+
+  // Reassembles a completed upload into a single buffer, reading a few chunks at a time so the
+  // recording is held in memory only once
+  async readRecordingUploadAudio(id: string): Promise<Buffer | undefined> {
+    const upload = await this.getRecordingUpload(id);
+    if (!upload) return undefined;
+
+    const audio = Buffer.alloc(upload.size);
+    let offset = 0;
+    while (offset < upload.size) {
+      const chunks = await db.select().from(recordingUploadChunks)
+        .where(and(eq(recordingUploadChunks.uploadId, id), gte(recordingUploadChunks.startByte, offset)))
+        .orderBy(asc(recordingUploadChunks.startByte))
+        .limit(16);
+      if (chunks.length === 0 || chunks[0].startByte !== offset) return undefined;
+
+      for (const chunk of chunks) {
+        if (chunk.startByte !== offset || offset + chunk.data.length > upload.size) return undefined;
+        chunk.data.copy(audio, offset);
+        offset += chunk.data.length;
+      }
+    }
+    return audio;
+  }
+
+  async deleteRecordingUploadAudio(id: string): Promise<void> {
+    await db.delete(recordingUploadChunks).where(eq(recordingUploadChunks.uploadId, id));
+  }
+
+  // Uploads the client gave up on (e.g. the recording was deleted locally) would otherwise keep their chunks forever
+  async deleteAbandonedRecordingUploads(updatedBefore: Date): Promise<number> {
+    const abandoned = and(isNull(recordingUploads.completedAt), lt(recordingUploads.updatedAt, updatedBefore));
+    const staleIds = db.select({ id: recordingUploads.id }).from(recordingUploads).where(abandoned);
+
+    await db.delete(recordingUploadChunks).where(inArray(recordingUploadChunks.uploadId, staleIds));
+    const deleted = await db.delete(recordingUploads).where(abandoned).returning({ id: recordingUploads.id });
+    return deleted.length;
+  }
+
+  // Suggested Tasks Implementation
+  // Reprocessing a meeting swaps out its unreviewed suggestions; ones already reviewed are left alone
+  async replacePendingSuggestedTasks(meetingId: string, suggestions: InsertSuggestedTask[]): Promise<SuggestedTask[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(suggestedTasks).where(and(eq(suggestedTasks.meetingId, meetingId), eq(suggestedTasks.status, 'pending')));
+      if (suggestions.length === 0) return [];
+      return await tx.insert(suggestedTasks).values(suggestions).returning();
+    });
+  }
+
+  async getSuggestedTask(id: string): Promise<SuggestedTask | undefined> {
+    const [suggestion] = await db.select().from(suggestedTasks).where(eq(suggestedTasks.id, id));
+    return suggestion || undefined;
+  }
+
+  async getSuggestedTasksForMeeting(meetingId: string): Promise<SuggestedTask[]> {
+    return await db.select().from(suggestedTasks)
+      .where(eq(suggestedTasks.meetingId, meetingId))
+      .orderBy(asc(suggestedTasks.createdAt));
+  }
+
+  async getPendingSuggestedTasks(userId: string): Promise<(SuggestedTask & { meetingTitle: string })[]> {
+    const rows = await db.select({ suggestion: suggestedTasks, meetingTitle: meetings.title })
+      .from(suggestedTasks)
+      .innerJoin(meetings, eq(suggestedTasks.meetingId, meetings.id))
+      .where(and(eq(suggestedTasks.userId, userId), eq(suggestedTasks.status, 'pending')))
+      .orderBy(desc(meetings.scheduledAt), asc(suggestedTasks.createdAt));
+    return rows.map(row => ({ ...row.suggestion, meetingTitle: row.meetingTitle }));
+  }
+
+  // Only a pending suggestion can be reviewed, so two people reviewing at once can't both act on it
+  async reviewSuggestedTask(id: string, review: { status: Exclude<SuggestedTaskStatus, 'pending'>; accepted: AcceptedTask | null; taskId: string | null; reviewedById: string }): Promise<SuggestedTask | undefined> {
+    const [suggestion] = await db
+      .update(suggestedTasks)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(eq(suggestedTasks.id, id), eq(suggestedTasks.status, 'pending')))
+      .returning();
+    return suggestion || undefined;
+  }
+
+  // Meeting Outcomes Implementation
+  // Reprocessing a meeting replaces everything extracted from it before
+  async replaceMeetingOutcomes(meetingId: string, outcomes: { decisions: InsertMeetingDecision[]; risks: InsertMeetingRisk[]; openQuestions: InsertMeetingOpenQuestion[] }): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(meetingDecisions).where(eq(meetingDecisions.meetingId, meetingId));
+      await tx.delete(meetingRisks).where(eq(meetingRisks.meetingId, meetingId));
+      await tx.delete(meetingOpenQuestions).where(eq(meetingOpenQuestions.meetingId, meetingId));
+      if (outcomes.decisions.length > 0) await tx.insert(meetingDecisions).values(outcomes.decisions);
+      if (outcomes.risks.length > 0) await tx.insert(meetingRisks).values(outcomes.risks);
+      if (outcomes.openQuestions.length > 0) await tx.insert(meetingOpenQuestions).values(outcomes.openQuestions);
+    });
+  }
+
+  // Decisions, risks and open questions from all of the project's meetings, newest meeting first
+  async getProjectRegister(projectId: string, filters: RegisterFilters): Promise<RegisterEntry[]> {
+    const wanted = (kind: RegisterEntryKind) => !filters.kinds?.length || filters.kinds.includes(kind);
+    const pattern = filters.search ? containsPattern(filters.search) : undefined;
+    const matches = (...columns: Parameters<typeof ilike>[0][]) => pattern
+      ? or(...columns.map(column => ilike(column, pattern)), ilike(meetings.title, pattern))
+      : undefined;
+    const meetingColumns = { meetingTitle: meetings.title, meetingScheduledAt: meetings.scheduledAt };
+
+    const [decisionRows, riskRows, questionRows] = await Promise.all([
+      wanted('decision')
+        ? db.select({ item: meetingDecisions, ...meetingColumns }).from(meetingDecisions)
+          .innerJoin(meetings, eq(meetings.id, meetingDecisions.meetingId))
+          .where(and(
+            eq(meetingDecisions.projectId, projectId),
+            filters.meetingId ? eq(meetingDecisions.meetingId, filters.meetingId) : undefined,
+            matches(meetingDecisions.decision, meetingDecisions.rationale),
+          ))
+        : [],
+      wanted('risk')
+        ? db.select({ item: meetingRisks, ...meetingColumns }).from(meetingRisks)
+          .innerJoin(meetings, eq(meetings.id, meetingRisks.meetingId))
+          .where(and(
+            eq(meetingRisks.projectId, projectId),
+            filters.meetingId ? eq(meetingRisks.meetingId, filters.meetingId) : undefined,
+            matches(meetingRisks.risk, meetingRisks.mitigation),
+          ))
+        : [],
+      wanted('open_question')
+        ? db.select({ item: meetingOpenQuestions, ...meetingColumns }).from(meetingOpenQuestions)
+          .innerJoin(meetings, eq(meetings.id, meetingOpenQuestions.meetingId))
+          .where(and(
+            eq(meetingOpenQuestions.projectId, projectId),
+            filters.meetingId ? eq(meetingOpenQuestions.meetingId, filters.meetingId) : undefined,
+            matches(meetingOpenQuestions.question),
+          ))
+        : [],
+    ]);
+
+    // A decision's tasks are the ones its action items were accepted as or merged into
+    const suggestionIds = decisionRows.flatMap(row => (row.item.suggestedTaskIds as string[] | null) || []);
+    const reviewed = suggestionIds.length > 0
+      ? await db.select({ suggestionId: suggestedTasks.id, id: tasks.id, title: tasks.title, status: tasks.status, statusCategory: tasks.statusCategory })
+        .from(suggestedTasks)
+        .innerJoin(tasks, eq(tasks.id, suggestedTasks.taskId))
+        .where(and(inArray(suggestedTasks.id, suggestionIds), inArray(suggestedTasks.status, ['accepted', 'merged'])))
+      : [];
+
+    const entries: RegisterEntry[] = [
+      ...decisionRows.map(({ item, ...meeting }) => ({
+        kind: 'decision' as const,
+        id: item.id,
+        meetingId: item.meetingId,
+        ...meeting,
+        text: item.decision,
+        detail: item.rationale,
+        owner: item.decidedBy,
+        impact: null,
+        tasks: reviewed
+          .filter(task => ((item.suggestedTaskIds as string[] | null) || []).includes(task.suggestionId))
+          .map(({ suggestionId, ...task }) => task)
+          .filter((task, index, list) => list.findIndex(other => other.id === task.id) === index),
+        createdAt: item.createdAt,
+      })),
+      ...riskRows.map(({ item, ...meeting }) => ({
+        kind: 'risk' as const,
+        id: item.id,
+        meetingId: item.meetingId,
+        ...meeting,
+        text: item.risk,
+        detail: item.mitigation,
+        owner: item.owner,
+        impact: item.impact,
+        tasks: [],
+        createdAt: item.createdAt,
+      })),
+      ...questionRows.map(({ item, ...meeting }) => ({
+        kind: 'open_question' as const,
+        id: item.id,
+        meetingId: item.meetingId,
+        ...meeting,
+        text: item.question,
+        detail: null,
+        owner: item.owner,
+        impact: null,
+        tasks: [],
+        createdAt: item.createdAt,
+      })),
+    ];
+    return entries.sort((a, b) => b.meetingScheduledAt.getTime() - a.meetingScheduledAt.getTime());
+  }
+
+  // Assistant Actions Implementation
+  async createAssistantAction(action: InsertAssistantAction & { status?: AssistantActionStatus }): Promise<AssistantAction> {
+    const [created] = await db.insert(assistantActions).values(action).returning();
+    return created;
+  }
+
+  async getAssistantAction(id: string): Promise<AssistantAction | undefined> {
+    const [action] = await db.select().from(assistantActions).where(eq(assistantActions.id, id));
+    return action || undefined;
+  }
+
+  // Only moves on from the expected status, so a double-clicked confirm or undo runs once
+  async transitionAssistantAction(id: string, from: AssistantActionStatus, updates: Partial<AssistantAction> & { status: AssistantActionStatus }): Promise<AssistantAction | undefined> {
+    const [action] = await db.update(assistantActions)
+      .set(updates)
+      .where(and(eq(assistantActions.id, id), eq(assistantActions.status, from)))
+      .returning();
+    return action || undefined;
+  }
+
+  // Assistant Conversations Implementation
+  async getAssistantConversations(userId: string): Promise<AssistantConversation[]> {
+    return await db.select().from(assistantConversations)
+      .where(eq(assistantConversations.userId, userId))
+      .orderBy(desc(assistantConversations.updatedAt));
+  }
+
+  async getAssistantConversation(id: string): Promise<AssistantConversation | undefined> {
+    const [conversation] = await db.select().from(assistantConversations).where(eq(assistantConversations.id, id));
+    return conversation || undefined;
+  }
+
+  async createAssistantConversation(conversation: InsertAssistantConversation): Promise<AssistantConversation> {
+    const [created] = await db.insert(assistantConversations).values(conversation).returning();
+    return created;
+  }
+
+  async updateAssistantConversation(id: string, updates: Partial<Pick<AssistantConversation, 'title' | 'summary' | 'summarizedCount'>>): Promise<AssistantConversation> {
+    const [conversation] = await db.update(assistantConversations)
+      .set(updates)
+      .where(eq(assistantConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteAssistantConversation(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(assistantMessages).where(eq(assistantMessages.conversationId, id));
+      await tx.delete(assistantConversations).where(eq(assistantConversations.id, id));
+    });
+  }
+
+  async getAssistantMessages(conversationId: string): Promise<AssistantMessageWithAction[]> {
+    const rows = await db.select({ message: assistantMessages, action: assistantActions })
+      .from(assistantMessages)
+      .leftJoin(assistantActions, eq(assistantMessages.actionId, assistantActions.id))
+      .where(eq(assistantMessages.conversationId, conversationId))
+      .orderBy(asc(assistantMessages.createdAt));
+    return rows.map(row => ({ ...row.message, action: row.action }));
+  }
+
+  // Saves a turn (the user's message and the reply) and moves the conversation to the top of the list.
+  // The user's message is stamped a moment earlier so the two always sort in order.
+  async addAssistantMessages(conversationId: string, messages: Omit<InsertAssistantMessage, 'conversationId'>[]): Promise<void> {
+    const now = Date.now();
+    await db.transaction(async (tx) => {
+      await tx.insert(assistantMessages).values(messages.map((message, index) => ({
+        ...message,
+        conversationId,
+        createdAt: new Date(now - (messages.length - 1 - index)),
+      })));
+      await tx.update(assistantConversations)
+        .set({ updatedAt: new Date(now) })
+        .where(eq(assistantConversations.id, conversationId));
+    });
+  }
+
+  // After an action is confirmed, cancelled or undone, its reply says what finally happened
+  async updateAssistantActionMessage(actionId: string, content: string): Promise<void> {
+    await db.update(assistantMessages)
+      .set({ content })
+      .where(eq(assistantMessages.actionId, actionId));
+  }
+
   // External Meetings Implementation
   async getExternalMeetings(userId: string, projectId?: string): Promise<ExternalMeeting[]> {
     if (projectId) {
@@ -630,7 +2571,7 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(tasks.assigneeId, userId),
-            or(eq(tasks.status, 'todo'), eq(tasks.status, 'in_progress'))
+            sql`${taskCategorySql} <> 'done'`
           )
         ),
       
@@ -641,7 +2582,7 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(tasks.assigneeId, userId),
-            eq(tasks.status, 'completed')
+            sql`${taskCategorySql} = 'done'`
           )
         )
     ]);
@@ -695,8 +2636,6 @@ export class DatabaseStorage implements IStorage {
     time: Date;
     createdAt: Date;
   }[]> {
-    const activities: any[] = [];
-
     // Get user's projects for filtering
     const userProjects = await db
       .select({ id: projects.id })
@@ -704,100 +2643,63 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(projectMembers, eq(projects.id, projectMembers.projectId))
       .where(or(eq(projects.ownerId, userId), eq(projectMembers.userId, userId)));
     
-    const projectIds = userProjects.map(p => p.id);
-
-    if (projectIds.length === 0) {
-      return [];
-    }
+    const projectIds = Array.from(new Set(userProjects.map(p => p.id)));
+
+    // Events on the user's projects, plus the user's own events that have no project (e.g. standalone meetings)
+    const visibility = projectIds.length > 0
+      ? or(inArray(activityEvents.projectId, projectIds), and(isNull(activityEvents.projectId), eq(activityEvents.actorId, userId)))
+      : and(isNull(activityEvents.projectId), eq(activityEvents.actorId, userId));
+
+    const events = await db
+      .select({ event: activityEvents, actorName: users.name })
+      .from(activityEvents)
+      .leftJoin(users, eq(activityEvents.actorId, users.id))
+      .where(visibility)
+      .orderBy(desc(activityEvents.createdAt))
+      .limit(limit);
 
-    // Get recent project creations
-    const recentProjects = await db
-      .select({
-        id: projects.id,
-        name: projects.name,
-        createdAt: projects.createdAt,
-        ownerId: projects.ownerId
-      })
-      .from(projects)
-      .leftJoin(projectMembers, eq(projects.id, projectMembers.projectId))
-      .where(or(eq(projects.ownerId, userId), eq(projectMembers.userId, userId)))
-      .orderBy(desc(projects.createdAt))
-      .limit(5);
-
-    for (const project of recentProjects) {
-      const owner = await this.getUser(project.ownerId);
-      activities.push({
-        id: `project_${project.id}`,
-        type: 'created',
-        user: owner?.name || 'Someone',
-        action: 'created project',
-        target: project.name,
-        time: project.createdAt,
-        createdAt: project.createdAt,
-      });
-    }
+    return events.map(({ event, actorName }) => ({
+      id: event.id,
+      type: event.action === 'processed' ? 'ai' : event.action === 'created' ? 'created' : event.action === 'completed' ? 'completed' : 'updated',
+      user: actorName || 'Someone',
+      action: `${activityVerbs[event.action] || event.action} ${event.entityType.replace('_', ' ')}`,
+      target: event.entityTitle,
+      time: event.createdAt!,
+      createdAt: event.createdAt!,
+    }));
+  }
 
-    // Get recent task updates
-    const recentTasks = await db
-      .select({
-        id: tasks.id,
-        title: tasks.title,
-        status: tasks.status,
-        updatedAt: tasks.updatedAt,
-        assigneeId: tasks.assigneeId,
-        projectId: tasks.projectId
-      })
-      .from(tasks)
-      .where(sql`${tasks.projectId} IN (${sql.join(projectIds.map(id => sql`${id}`), sql`, `)})`)
-      .orderBy(desc(tasks.updatedAt))
-      .limit(5);
-
-    for (const task of recentTasks) {
-      const assignee = task.assigneeId ? await this.getUser(task.assigneeId) : null;
-      const action = task.status === 'completed' ? 'completed task' : 'updated task';
-      const type = task.status === 'completed' ? 'completed' : 'updated';
-      
-      activities.push({
-        id: `task_${task.id}`,
-        type,
-        user: assignee?.name || 'Someone',
-        action,
-        target: task.title,
-        time: task.updatedAt,
-        createdAt: task.updatedAt,
-      });
-    }
+  async createActivityEvent(event: InsertActivityEvent): Promise<ActivityEvent> {
+    const [newEvent] = await db.insert(activityEvents).values(event).returning();
+    return newEvent;
+  }
 
-    // Get recent meetings
-    const recentMeetings = await db
-      .select({
-        id: meetings.id,
-        title: meetings.title,
-        createdAt: meetings.createdAt,
-        createdById: meetings.createdById
-      })
-      .from(meetings)
-      .where(sql`${meetings.projectId} IN (${sql.join(projectIds.map(id => sql`${id}`), sql`, `)})`)
-      .orderBy(desc(meetings.createdAt))
-      .limit(3);
-
-    for (const meeting of recentMeetings) {
-      const creator = await this.getUser(meeting.createdById);
-      activities.push({
-        id: `meeting_${meeting.id}`,
-        type: 'ai',
-        user: creator?.name || 'Someone',
-        action: 'recorded meeting',
-        target: meeting.title,
-        time: meeting.createdAt,
-        createdAt: meeting.createdAt,
-      });
-    }
+  async getProjectActivity(projectId: string, limit: number = 20, offset: number = 0): Promise<{
+    events: (ActivityEvent & { actor: { id: string; name: string } })[];
+    total: number;
+  }> {
+    const [rows, [totalResult]] = await Promise.all([
+      db
+        .select({ event: activityEvents, actorId: users.id, actorName: users.name })
+        .from(activityEvents)
+        .leftJoin(users, eq(activityEvents.actorId, users.id))
+        .where(eq(activityEvents.projectId, projectId))
+        .orderBy(desc(activityEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: count() })
+        .from(activityEvents)
+        .where(eq(activityEvents.projectId, projectId)),
+    ]);
 
-    // Sort all activities by creation time and limit
-    return activities
-      .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
-      .slice(0, limit);
+    return {
+      events: rows.map(r => ({
+        ...r.event,
+        actor: { id: r.actorId || r.event.actorId, name: r.actorName || 'Someone' },
+      })),
+      total: totalResult?.count || 0,
+    };
   }
 
   async getTodaysMeetings(userId: string): Promise<(Meeting & { 
@@ -1101,14 +3003,13 @@ export class DatabaseStorage implements IStorage {
         return;
       }
       
-      const completedTasks = projectTasks.filter(task => task.status === 'completed').length;
-      const progressPercentage = Math.round((completedTasks / projectTasks.length) * 100);
+      const progressPercentage = calculateWeightedProgress(projectTasks);
       
       await db.update(projects)
         .set({ progress: progressPercentage, updatedAt: new Date() })
         .where(eq(projects.id, projectId));
         
-      console.log(`Updated project ${projectId} progress: ${completedTasks}/${projectTasks.length} tasks = ${progressPercentage}%`);
+      console.log(`Updated project ${projectId} progress: ${projectTasks.length} tasks (subtask-weighted) = ${progressPercentage}%`);
     } catch (error) {
       console.error(`Failed to update project progress for ${projectId}:`, error);
     }
@@ -1,8 +1,14 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, boolean, jsonb, uuid, index, uniqueIndex, customType, vector, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Full-text document over the given columns. Search queries must build it the same way
+// as the GIN indexes below so Postgres can use them.
+export function searchDocument(...columns: AnyPgColumn[]) {
+  return sql`to_tsvector('english', ${sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `)})`;
+}
+
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -20,26 +26,122 @@ export const projects = pgTable("projects", {
   description: text("description"),
   status: text("status").notNull().default("active"), // active, completed, paused
   progress: integer("progress").notNull().default(0), // 0-100
+  estimateUnit: text("estimate_unit").notNull().default("points"), // points, hours - unit of tasks.estimate
+  workflow: jsonb("workflow"), // Ordered WorkflowStatus[]; null = defaultWorkflow
   ownerId: uuid("owner_id").references(() => users.id).notNull(),
   dueDate: timestamp("due_date"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("projects_search_idx").using("gin", searchDocument(table.name, table.description)),
+]);
 
 export const tasks = pgTable("tasks", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("todo"), // todo, in_progress, completed
+  status: text("status").notNull().default("todo"), // Key of a status in the project's workflow
+  statusCategory: text("status_category"), // open, active, done - copied from the workflow; null on tasks saved before workflows
   priority: text("priority").notNull().default("medium"), // low, medium, high, urgent
   projectId: uuid("project_id").references(() => projects.id).notNull(),
+  parentTaskId: uuid("parent_task_id").references((): AnyPgColumn => tasks.id), // Set for subtasks / checklist items
   assigneeId: uuid("assignee_id").references(() => users.id),
+  sprintId: uuid("sprint_id").references((): AnyPgColumn => sprints.id), // null = project backlog
   updatedBy: uuid("updated_by").references(() => users.id),
   dueDate: timestamp("due_date"),
+  estimate: real("estimate"), // Story points or hours, per the project's estimateUnit
+  completedAt: timestamp("completed_at"), // Set when the task moves into a done status, cleared if reopened
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("tasks_search_idx").using("gin", searchDocument(table.title, table.description)),
+]);
+
+// Time-boxed iterations within a project; at most one sprint per project is active at a time
+export const sprints = pgTable("sprints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: uuid("project_id").references(() => projects.id).notNull(),
+  name: text("name").notNull(),
+  goal: text("goal"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  state: text("state").notNull().default("planned"), // planned, active, closed
+  summary: jsonb("summary"), // SprintSummary snapshot written on close: completed and rolled-over task ids
+  closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Project-scoped labels; names are unique per project, ignoring case
+export const labels = pgTable("labels", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: uuid("project_id").references(() => projects.id).notNull(),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6b7280"), // Hex color
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const taskLabels = pgTable("task_labels", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id).notNull(),
+  labelId: uuid("label_id").references(() => labels.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Length of every stored embedding; the embeddings backend is asked for vectors of this size
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// One embedding per task, for finding duplicates by meaning rather than spelling. Needs the pgvector
+// extension (CREATE EXTENSION IF NOT EXISTS vector) before db:push. Rows are refreshed when the task's
+// text (contentHash) or the embedding model changes; see server/services/similarity.ts.
+export const taskEmbeddings = pgTable("task_embeddings", {
+  taskId: uuid("task_id").primaryKey().references(() => tasks.id),
+  model: text("model").notNull(), // backend:model that produced the vector
+  contentHash: text("content_hash").notNull(), // md5 of the embedded title + description
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("task_embeddings_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
+
+// Blocking relationships between tasks: taskId cannot start until dependsOnTaskId is completed
+export const taskDependencies = pgTable("task_dependencies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id).notNull(),
+  dependsOnTaskId: uuid("depends_on_task_id").references(() => tasks.id).notNull(),
+  createdById: uuid("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Discussion on a task; replies point at a top-level comment through parentCommentId
+export const taskComments = pgTable("task_comments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id).notNull(),
+  authorId: uuid("author_id").references(() => users.id).notNull(),
+  parentCommentId: uuid("parent_comment_id").references((): AnyPgColumn => taskComments.id),
+  body: text("body").notNull(),
+  mentionedUserIds: jsonb("mentioned_user_ids"), // Array of user IDs resolved from @username mentions
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Longest single manual time entry
+export const MAX_TIME_ENTRY_MINUTES = 24 * 60;
+
+// Time logged against a task, either from a start/stop timer or entered manually
+export const timeEntries = pgTable("time_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id).notNull(),
+  projectId: uuid("project_id").references(() => projects.id).notNull(), // Copied from the task for project timesheets
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // null while the timer is running
+  durationMinutes: integer("duration_minutes"), // null while the timer is running
+  note: text("note"),
+  source: text("source").notNull().default("manual"), // timer, manual
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const meetings = pgTable("meetings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -50,6 +152,9 @@ export const meetings = pgTable("meetings", {
   recordingUrl: text("recording_url"),
   transcription: text("transcription"),
   aiSummary: text("ai_summary"),
+  transcriptionProvider: text("transcription_provider"), // assemblyai, openai, local, ... - whichever produced the transcript
+  transcriptSegments: jsonb("transcript_segments"), // TranscriptSegment[]; null when the provider returned no speaker labels
+  speakerMap: jsonb("speaker_map"), // SpeakerMap - "Speaker A" -> user id, set by users after processing
   extractedTasks: jsonb("extracted_tasks"),
   createdById: uuid("created_by_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -60,7 +165,29 @@ export const meetings = pgTable("meetings", {
   recurrenceEndDate: timestamp("recurrence_end_date"),
   recurringParentId: uuid("recurring_parent_id"), // Links to parent recurring series
   recurrencePattern: text("recurrence_pattern"), // Additional pattern info (e.g., weekdays, specific dates)
-});
+}, (table) => [
+  index("meetings_search_idx").using("gin", searchDocument(table.title, table.description, table.transcription, table.aiSummary)),
+]);
+
+// Passages of a meeting's transcript and summary, embedded for answering questions about meetings (needs
+// pgvector, like taskEmbeddings). A meeting's chunks are rebuilt together when its text (sourceHash) or
+// the embedding model changes; see server/services/meetingSearch.ts.
+export const meetingChunks = pgTable("meeting_chunks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: uuid("meeting_id").references(() => meetings.id).notNull(),
+  chunkIndex: integer("chunk_index").notNull(), // order within the meeting
+  source: text("source").notNull(), // transcript, summary
+  content: text("content").notNull(),
+  startMs: integer("start_ms"), // position in the recording; null for the summary and transcripts without timestamps
+  endMs: integer("end_ms"),
+  model: text("model").notNull(), // backend:model that produced the vector
+  sourceHash: text("source_hash").notNull(), // md5 of the transcript + summary the chunks were cut from
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("meeting_chunks_meeting_idx").on(table.meetingId),
+  index("meeting_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
 
 export const projectMembers = pgTable("project_members", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -113,12 +240,220 @@ export const userSettings = pgTable("user_settings", {
   aiInsights: boolean("ai_insights").notNull().default(true),
   workingHoursStart: text("working_hours_start").notNull().default("09:00"),
   workingHoursEnd: text("working_hours_end").notNull().default("18:00"),
+  timezone: text("timezone").notNull().default("America/New_York"), // IANA zone the working hours and briefings are in
   urgentOnly: boolean("urgent_only").notNull().default(false),
   outlookCalendarUrl: text("outlook_calendar_url"),
   outlookCalendarEnabled: boolean("outlook_calendar_enabled").notNull().default(false),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Audit trail of who changed what on projects, tasks and meetings.
+// projectId/entityId are deliberately not foreign keys so history survives deletions.
+export const activityEvents = pgTable("activity_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: uuid("project_id"),
+  actorId: uuid("actor_id").references(() => users.id).notNull(),
+  entityType: text("entity_type").notNull(), // project, task, meeting, label, suggested_task, ...
+  entityId: uuid("entity_id").notNull(),
+  entityTitle: text("entity_title"),
+  action: text("action").notNull(), // created, updated, completed, deleted, commented, processed, ...
+  changes: jsonb("changes"), // { field: { from, to } } for updates
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Background work queued by the API and run by the worker in server/jobs.ts.
+// meetingId/projectId are not foreign keys so deleting a meeting never blocks on its job history.
+export const processingJobs = pgTable("processing_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // process-recording
+  state: text("state").notNull().default("queued"), // queued, transcribing, extracting, done, failed
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  meetingId: uuid("meeting_id"),
+  projectId: uuid("project_id"),
+  audioData: text("audio_data"), // base64 recording from a single-request upload; cleared once the job finishes
+  mimeType: text("mime_type"), // of the recording; null is treated as audio/webm
+  uploadId: uuid("upload_id"), // chunked upload whose recording_upload_chunks hold the audio; deleted once the job finishes
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lastError: text("last_error"),
+  result: jsonb("result"), // ProcessRecordingResult when done
+  runAt: timestamp("run_at").notNull().defaultNow(), // not picked up before this; pushed back between retries
+  lockedAt: timestamp("locked_at"), // set while a worker is running the job
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// One run of the notification scheduler in server/scheduler.ts: a user's briefing or a recurring check.
+// The key names the run (e.g. morning-briefing:<userId>:2026-10-19), so every instance that plans it
+// lands on the same row; workers take a time-limited lease on a row before running it.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  type: text("type").notNull(), // ScheduledJobType
+  userId: uuid("user_id").references(() => users.id), // null for checks that cover everyone
+  state: text("state").notNull().default("scheduled"), // scheduled, running, done, skipped, failed, cancelled
+  runAt: timestamp("run_at").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lockedBy: text("locked_by"), // worker holding the lease
+  lockedUntil: timestamp("locked_until"), // lease expiry; after this another worker may take the job over
+  lastError: text("last_error"),
+  result: text("result"), // short outcome for the admin view, e.g. "4 deadline alerts sent"
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("scheduled_jobs_state_run_at_idx").on(table.state, table.runAt),
+]);
+
+// Every scheduled email, recorded before it is sent. The key is unique per recipient and occasion
+// (e.g. deadline-alert:<taskId>:<userId>:2026-10-19), so a retried job or a second instance
+// never sends the same email twice.
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  type: text("type").notNull(), // morning-briefing, lunch-reminder, end-of-day-summary, deadline-alert, project-health-alert
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  jobId: uuid("job_id"), // the scheduled job that sent it; not a foreign key so job history can be pruned
+  state: text("state").notNull().default("sending"), // sending, sent, skipped, failed
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  index("notification_deliveries_created_at_idx").on(table.createdAt),
+]);
+
+// node-postgres reads and writes bytea as Buffers
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Largest recording accepted by a chunked upload, and the largest single chunk
+export const MAX_RECORDING_UPLOAD_BYTES = 500 * 1024 * 1024;
+export const MAX_UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+
+// Resumable recording uploads: raw audio arrives in byte-range chunks and is reassembled
+// into a processing job when the client completes the upload
+export const recordingUploads = pgTable("recording_uploads", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  meetingId: uuid("meeting_id").notNull(),
+  projectId: uuid("project_id"),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // total bytes the client will send
+  receivedBytes: integer("received_bytes").notNull().default(0), // acknowledged so far; the next chunk must start here
+  jobId: uuid("job_id"), // set once completed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const recordingUploadChunks = pgTable("recording_upload_chunks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  uploadId: uuid("upload_id").references(() => recordingUploads.id).notNull(),
+  startByte: integer("start_byte").notNull(),
+  data: bytea("data").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("recording_upload_chunks_upload_start_idx").on(table.uploadId, table.startByte),
+]);
+
+// Action items extracted from a meeting recording, waiting for someone to accept, edit, merge or reject them.
+// proposed is never changed after extraction so it can be compared with what was accepted. Ids are not
+// foreign keys so the review history survives deleting the meeting or the resulting task.
+export const suggestedTasks = pgTable("suggested_tasks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: uuid("meeting_id").notNull(),
+  projectId: uuid("project_id"), // The meeting's project; reviewers can accept into another one
+  userId: uuid("user_id").references(() => users.id).notNull(), // Who recorded the meeting
+  status: text("status").notNull().default("pending"), // pending, accepted, merged, rejected
+  proposed: jsonb("proposed").notNull(), // ProposedTask, as the AI extracted it
+  accepted: jsonb("accepted"), // AcceptedTask, as the reviewer accepted or merged it
+  possibleDuplicateOfTaskId: uuid("possible_duplicate_of_task_id"), // Existing task with a very similar title or description
+  taskId: uuid("task_id"), // Task created on accept, or merged into
+  reviewedById: uuid("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Decisions, risks and open questions extracted from a processed meeting, for the project register.
+// A meeting's outcomes are replaced together when its recording is processed again.
+export const meetingDecisions = pgTable("meeting_decisions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: uuid("meeting_id").references(() => meetings.id).notNull(),
+  projectId: uuid("project_id").references(() => projects.id), // The meeting's project
+  decision: text("decision").notNull(),
+  rationale: text("rationale"),
+  decidedBy: text("decided_by"), // Names as spoken in the meeting, not user ids
+  suggestedTaskIds: jsonb("suggested_task_ids"), // Suggested tasks (action items) that carry the decision out
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const meetingRisks = pgTable("meeting_risks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: uuid("meeting_id").references(() => meetings.id).notNull(),
+  projectId: uuid("project_id").references(() => projects.id),
+  risk: text("risk").notNull(),
+  impact: text("impact").notNull().default("medium"), // low, medium, high
+  mitigation: text("mitigation"),
+  owner: text("owner"), // Name as spoken in the meeting
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const meetingOpenQuestions = pgTable("meeting_open_questions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: uuid("meeting_id").references(() => meetings.id).notNull(),
+  projectId: uuid("project_id").references(() => projects.id),
+  question: text("question").notNull(),
+  owner: text("owner"), // Who was asked to find out, as spoken in the meeting
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What the voice assistant planned for a command, as typed tool calls. Plans that change existing records
+// or do more than one thing wait for the user to confirm them. Executed plans keep how to reverse each step.
+export const assistantActions = pgTable("assistant_actions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  command: text("command").notNull(), // What the user said or typed
+  status: text("status").notNull().default("pending"), // pending (awaiting confirmation), running, executed, failed, cancelled, undone
+  steps: jsonb("steps").notNull(), // AssistantStep[]
+  undoSteps: jsonb("undo_steps"), // AssistantUndoStep[] for the steps that ran, in the order they ran
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  executedAt: timestamp("executed_at"),
+  undoneAt: timestamp("undone_at"),
+});
+
+// Saved voice assistant conversations. Older turns are folded into summary so long conversations keep their context.
+export const assistantConversations = pgTable("assistant_conversations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  summary: text("summary"),
+  summarizedCount: integer("summarized_count").notNull().default(0), // Messages (oldest first) covered by summary
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("assistant_conversations_user_idx").on(table.userId),
+]);
+
+export const assistantMessages = pgTable("assistant_messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: uuid("conversation_id").references(() => assistantConversations.id).notNull(),
+  role: text("role").notNull(), // user, assistant
+  mode: text("mode").notNull().default("assistant"), // assistant (commands) or meetings (questions about meetings)
+  content: text("content").notNull(),
+  citations: jsonb("citations"), // Meeting passages a meetings answer was based on
+  actionId: uuid("action_id").references(() => assistantActions.id), // Set on replies that planned changes
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("assistant_messages_conversation_idx").on(table.conversationId),
+]);
+
 // External meetings from calendar systems (Outlook, Google, etc.)
 export const externalMeetings = pgTable("external_meetings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -154,22 +489,75 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const projectsRelations = relations(projects, ({ one, many }) => ({
   owner: one(users, { fields: [projects.ownerId], references: [users.id] }),
   tasks: many(tasks),
+  sprints: many(sprints),
+  labels: many(labels),
   meetings: many(meetings),
   members: many(projectMembers),
   invitations: many(invitations),
   externalMeetings: many(externalMeetings),
 }));
 
-export const tasksRelations = relations(tasks, ({ one }) => ({
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
   project: one(projects, { fields: [tasks.projectId], references: [projects.id] }),
   assignee: one(users, { fields: [tasks.assigneeId], references: [users.id] }),
   updatedByUser: one(users, { fields: [tasks.updatedBy], references: [users.id] }),
+  sprint: one(sprints, { fields: [tasks.sprintId], references: [sprints.id] }),
+  parentTask: one(tasks, { fields: [tasks.parentTaskId], references: [tasks.id], relationName: "subtasks" }),
+  subtasks: many(tasks, { relationName: "subtasks" }),
+  comments: many(taskComments),
+  timeEntries: many(timeEntries),
+  labels: many(taskLabels),
+  dependencies: many(taskDependencies, { relationName: "taskDependencies" }),
+  dependents: many(taskDependencies, { relationName: "taskDependents" }),
+}));
+
+export const sprintsRelations = relations(sprints, ({ one, many }) => ({
+  project: one(projects, { fields: [sprints.projectId], references: [projects.id] }),
+  tasks: many(tasks),
+}));
+
+export const labelsRelations = relations(labels, ({ one, many }) => ({
+  project: one(projects, { fields: [labels.projectId], references: [projects.id] }),
+  tasks: many(taskLabels),
+}));
+
+export const taskLabelsRelations = relations(taskLabels, ({ one }) => ({
+  task: one(tasks, { fields: [taskLabels.taskId], references: [tasks.id] }),
+  label: one(labels, { fields: [taskLabels.labelId], references: [labels.id] }),
+}));
+
+export const taskEmbeddingsRelations = relations(taskEmbeddings, ({ one }) => ({
+  task: one(tasks, { fields: [taskEmbeddings.taskId], references: [tasks.id] }),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  task: one(tasks, { fields: [taskDependencies.taskId], references: [tasks.id], relationName: "taskDependencies" }),
+  dependsOn: one(tasks, { fields: [taskDependencies.dependsOnTaskId], references: [tasks.id], relationName: "taskDependents" }),
+  createdBy: one(users, { fields: [taskDependencies.createdById], references: [users.id] }),
+}));
+
+export const taskCommentsRelations = relations(taskComments, ({ one, many }) => ({
+  task: one(tasks, { fields: [taskComments.taskId], references: [tasks.id] }),
+  author: one(users, { fields: [taskComments.authorId], references: [users.id] }),
+  parentComment: one(taskComments, { fields: [taskComments.parentCommentId], references: [taskComments.id], relationName: "commentReplies" }),
+  replies: many(taskComments, { relationName: "commentReplies" }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  task: one(tasks, { fields: [timeEntries.taskId], references: [tasks.id] }),
+  project: one(projects, { fields: [timeEntries.projectId], references: [projects.id] }),
+  user: one(users, { fields: [timeEntries.userId], references: [users.id] }),
 }));
 
 export const meetingsRelations = relations(meetings, ({ one, many }) => ({
   project: one(projects, { fields: [meetings.projectId], references: [projects.id] }),
   createdBy: one(users, { fields: [meetings.createdById], references: [users.id] }),
   participants: many(meetingParticipants),
+  chunks: many(meetingChunks),
+}));
+
+export const meetingChunksRelations = relations(meetingChunks, ({ one }) => ({
+  meeting: one(meetings, { fields: [meetingChunks.meetingId], references: [meetings.id] }),
 }));
 
 export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
@@ -195,6 +583,65 @@ export const invitationsRelations = relations(invitations, ({ one }) => ({
   inviter: one(users, { fields: [invitations.inviterUserId], references: [users.id] }),
 }));
 
+export const activityEventsRelations = relations(activityEvents, ({ one }) => ({
+  actor: one(users, { fields: [activityEvents.actorId], references: [users.id] }),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  user: one(users, { fields: [processingJobs.userId], references: [users.id] }),
+}));
+
+export const scheduledJobsRelations = relations(scheduledJobs, ({ one }) => ({
+  user: one(users, { fields: [scheduledJobs.userId], references: [users.id] }),
+}));
+
+export const notificationDeliveriesRelations = relations(notificationDeliveries, ({ one }) => ({
+  user: one(users, { fields: [notificationDeliveries.userId], references: [users.id] }),
+}));
+
+export const recordingUploadsRelations = relations(recordingUploads, ({ one, many }) => ({
+  user: one(users, { fields: [recordingUploads.userId], references: [users.id] }),
+  chunks: many(recordingUploadChunks),
+}));
+
+export const recordingUploadChunksRelations = relations(recordingUploadChunks, ({ one }) => ({
+  upload: one(recordingUploads, { fields: [recordingUploadChunks.uploadId], references: [recordingUploads.id] }),
+}));
+
+export const suggestedTasksRelations = relations(suggestedTasks, ({ one }) => ({
+  user: one(users, { fields: [suggestedTasks.userId], references: [users.id] }),
+  reviewedBy: one(users, { fields: [suggestedTasks.reviewedById], references: [users.id] }),
+}));
+
+export const meetingDecisionsRelations = relations(meetingDecisions, ({ one }) => ({
+  meeting: one(meetings, { fields: [meetingDecisions.meetingId], references: [meetings.id] }),
+  project: one(projects, { fields: [meetingDecisions.projectId], references: [projects.id] }),
+}));
+
+export const meetingRisksRelations = relations(meetingRisks, ({ one }) => ({
+  meeting: one(meetings, { fields: [meetingRisks.meetingId], references: [meetings.id] }),
+  project: one(projects, { fields: [meetingRisks.projectId], references: [projects.id] }),
+}));
+
+export const meetingOpenQuestionsRelations = relations(meetingOpenQuestions, ({ one }) => ({
+  meeting: one(meetings, { fields: [meetingOpenQuestions.meetingId], references: [meetings.id] }),
+  project: one(projects, { fields: [meetingOpenQuestions.projectId], references: [projects.id] }),
+}));
+
+export const assistantActionsRelations = relations(assistantActions, ({ one }) => ({
+  user: one(users, { fields: [assistantActions.userId], references: [users.id] }),
+}));
+
+export const assistantConversationsRelations = relations(assistantConversations, ({ one, many }) => ({
+  user: one(users, { fields: [assistantConversations.userId], references: [users.id] }),
+  messages: many(assistantMessages),
+}));
+
+export const assistantMessagesRelations = relations(assistantMessages, ({ one }) => ({
+  conversation: one(assistantConversations, { fields: [assistantMessages.conversationId], references: [assistantConversations.id] }),
+  action: one(assistantActions, { fields: [assistantMessages.actionId], references: [assistantActions.id] }),
+}));
+
 export const externalMeetingsRelations = relations(externalMeetings, ({ one }) => ({
   user: one(users, { fields: [externalMeetings.userId], references: [users.id] }),
   project: one(projects, { fields: [externalMeetings.projectId], references: [projects.id] }),
@@ -245,24 +692,99 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
+  workflow: true, // Changed through PUT /api/projects/:id/workflow so existing tasks are kept in step
   createdAt: true,
   updatedAt: true,
 }).extend({
   dueDate: z.string().optional().nullable().transform(val => val ? new Date(val) : null),
+  estimateUnit: z.enum(["points", "hours"]).optional(),
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
+  statusCategory: true,
+  completedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   dueDate: z.string().optional().nullable().transform(val => val ? new Date(val) : null),
+  estimate: z.number().min(0).max(1000).optional().nullable(),
 }).partial({ dueDate: true });
 
+export const workflowStatusSchema = z.object({
+  key: z.string().trim().min(1).max(40).regex(/^[a-z0-9_]+$/, "Status keys may only contain lowercase letters, digits and underscores"),
+  name: z.string().trim().min(1, "Status name is required").max(60),
+  category: z.enum(["open", "active", "done"]),
+  transitions: z.array(z.string()).nullable().optional(), // Keys a task may move to next; null = any status
+});
+
+export const workflowSchema = z.array(workflowStatusSchema).min(1).max(20).superRefine((statuses, ctx) => {
+  const keys = new Set(statuses.map(status => status.key));
+  if (keys.size !== statuses.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Status keys must be unique" });
+  }
+  if (!statuses.some(status => status.category === "done")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A workflow needs at least one done status" });
+  }
+  for (const status of statuses) {
+    const unknown = (status.transitions || []).filter(key => !keys.has(key));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${status.name}" allows moving to unknown statuses: ${unknown.join(", ")}` });
+    }
+  }
+});
+
+export const insertSprintSchema = createInsertSchema(sprints).omit({
+  id: true,
+  state: true,
+  summary: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Sprint name is required").max(200),
+  startDate: z.union([z.string(), z.date()]).transform(val => new Date(val)),
+  endDate: z.union([z.string(), z.date()]).transform(val => new Date(val)),
+});
+
+export const insertLabelSchema = createInsertSchema(labels).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Label name is required").max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6").optional(),
+});
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+});
+
+export const insertTimeEntrySchema = createInsertSchema(timeEntries).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().optional().nullable(),
+  durationMinutes: z.number().int().min(1).max(MAX_TIME_ENTRY_MINUTES).optional().nullable(),
+  note: z.string().trim().max(1000).optional().nullable(),
+});
+
 export const insertMeetingSchema = createInsertSchema(meetings).omit({
   id: true,
   createdAt: true,
   recurringParentId: true, // This gets set automatically
+  transcriptionProvider: true, // Set when a recording is processed
+  transcriptSegments: true, // Set when a recording is processed
+  speakerMap: true, // Changed through PUT /api/meetings/:id/speakers
 }).extend({
   // Transform date fields for form handling
   scheduledAt: z.date(),
@@ -284,9 +806,15 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
   updatedAt: true,
+}).extend({
+  workingHoursStart: timeOfDaySchema.optional(),
+  workingHoursEnd: timeOfDaySchema.optional(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
 });
 
 export const insertInvitationSchema = createInsertSchema(invitations).omit({
@@ -308,6 +836,118 @@ export const insertLoginEventSchema = createInsertSchema(loginEvents).omit({
   createdAt: true,
 });
 
+export const insertActivityEventSchema = createInsertSchema(activityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
+  id: true,
+  state: true,
+  attempts: true,
+  lastError: true,
+  result: true,
+  runAt: true,
+  lockedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  state: true,
+  attempts: true,
+  lockedBy: true,
+  lockedUntil: true,
+  lastError: true,
+  result: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  state: true,
+  error: true,
+  createdAt: true,
+  sentAt: true,
+});
+
+export const insertRecordingUploadSchema = createInsertSchema(recordingUploads).omit({
+  id: true,
+  receivedBytes: true,
+  jobId: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export const insertSuggestedTaskSchema = createInsertSchema(suggestedTasks).omit({
+  id: true,
+  status: true,
+  accepted: true,
+  taskId: true,
+  reviewedById: true,
+  reviewedAt: true,
+  createdAt: true,
+});
+
+// The reviewer's version of a suggested task; sent when accepting it, or merging it into an existing task
+export const suggestedTaskReviewSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(500),
+  description: z.string().trim().max(5000).optional().nullable(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
+  projectId: z.string().uuid("Choose a project"),
+  assigneeId: z.string().uuid().optional().nullable(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be YYYY-MM-DD").optional().nullable(),
+});
+
+// Merging goes into the existing task's project, so the reviewer picks the task instead of a project
+export const suggestedTaskMergeSchema = suggestedTaskReviewSchema.omit({ projectId: true }).extend({
+  taskId: z.string().uuid("Choose a task to merge into"),
+});
+
+export const insertMeetingDecisionSchema = createInsertSchema(meetingDecisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMeetingRiskSchema = createInsertSchema(meetingRisks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMeetingOpenQuestionSchema = createInsertSchema(meetingOpenQuestions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAssistantActionSchema = createInsertSchema(assistantActions).omit({
+  id: true,
+  status: true,
+  undoSteps: true,
+  error: true,
+  createdAt: true,
+  executedAt: true,
+  undoneAt: true,
+});
+
+export const insertAssistantConversationSchema = createInsertSchema(assistantConversations).omit({
+  id: true,
+  summary: true,
+  summarizedCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAssistantMessageSchema = createInsertSchema(assistantMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertExternalMeetingSchema = createInsertSchema(externalMeetings).omit({
   id: true,
   createdAt: true,
@@ -323,9 +963,42 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Task = typeof tasks.$inferSelect;
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>;
+export type StatusCategory = WorkflowStatus["category"];
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+export type Sprint = typeof sprints.$inferSelect;
+export type InsertSprint = z.infer<typeof insertSprintSchema>;
+export type Label = typeof labels.$inferSelect;
+export type InsertLabel = z.infer<typeof insertLabelSchema>;
+export type TaskLabel = typeof taskLabels.$inferSelect;
+export type TaskEmbedding = typeof taskEmbeddings.$inferSelect;
+export type SimilarTask = Task & { similarity: number }; // similarity: cosine similarity, 0-1
+export type SprintSummary = {
+  completedTaskIds: string[];
+  rolledOverTaskIds: string[];
+  nextSprintId: string | null;
+};
+export type TaskComment = typeof taskComments.$inferSelect;
+export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
 export type Meeting = typeof meetings.$inferSelect;
 export type InsertMeeting = z.infer<typeof insertMeetingSchema>;
+// One utterance of a diarized transcript; start/end are milliseconds from the start of the recording
+export type TranscriptSegment = {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+};
+export type SpeakerMap = Record<string, string>;
+export type MeetingChunk = typeof meetingChunks.$inferSelect;
+export type MeetingChunkSource = "transcript" | "summary";
+// A chunk found for a question, with the meeting it came from; similarity: cosine similarity, 0-1
+export type MeetingChunkMatch = MeetingChunk & { meetingTitle: string; scheduledAt: Date; similarity: number };
 export type ProjectMember = typeof projectMembers.$inferSelect;
 export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
 export type Notification = typeof notifications.$inferSelect;
@@ -340,3 +1013,154 @@ export type LoginEvent = typeof loginEvents.$inferSelect;
 export type InsertLoginEvent = z.infer<typeof insertLoginEventSchema>;
 export type ExternalMeeting = typeof externalMeetings.$inferSelect;
 export type InsertExternalMeeting = z.infer<typeof insertExternalMeetingSchema>;
+export type ActivityEvent = typeof activityEvents.$inferSelect;
+export type InsertActivityEvent = z.infer<typeof insertActivityEventSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type JobState = "queued" | "transcribing" | "extracting" | "done" | "failed";
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJobType = "morning-briefing" | "lunch-reminder" | "end-of-day-summary" | "deadline-check" | "project-health-check" | "briefing-sync" | "history-cleanup";
+export type ScheduledJobState = "scheduled" | "running" | "done" | "skipped" | "failed" | "cancelled";
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationDeliveryState = "sending" | "sent" | "skipped" | "failed";
+// What the admin scheduler view shows
+export type SchedulerOverview = {
+  upcoming: (ScheduledJob & { userName: string | null })[];
+  recent: (ScheduledJob & { userName: string | null })[];
+  deliveries: (NotificationDelivery & { userName: string | null })[];
+};
+export type RecordingUpload = typeof recordingUploads.$inferSelect;
+export type InsertRecordingUpload = z.infer<typeof insertRecordingUploadSchema>;
+export type ProcessRecordingResult = {
+  meetingId: string;
+  suggestedTaskCount: number;
+  extractedTaskCount: number;
+};
+export type SuggestedTask = typeof suggestedTasks.$inferSelect;
+export type InsertSuggestedTask = z.infer<typeof insertSuggestedTaskSchema>;
+export type SuggestedTaskStatus = "pending" | "accepted" | "merged" | "rejected";
+export type ProposedTask = {
+  title: string;
+  description: string;
+  priority: string;
+  assignee?: string | null; // Name as spoken in the meeting, not a user id
+  dueDate?: string | null;
+  category?: string | null;
+};
+export type SuggestedTaskReview = z.infer<typeof suggestedTaskReviewSchema>;
+export type AcceptedTask = Required<SuggestedTaskReview>;
+export type MeetingDecision = typeof meetingDecisions.$inferSelect;
+export type InsertMeetingDecision = z.infer<typeof insertMeetingDecisionSchema>;
+export type MeetingRisk = typeof meetingRisks.$inferSelect;
+export type InsertMeetingRisk = z.infer<typeof insertMeetingRiskSchema>;
+export type MeetingOpenQuestion = typeof meetingOpenQuestions.$inferSelect;
+export type InsertMeetingOpenQuestion = z.infer<typeof insertMeetingOpenQuestionSchema>;
+export type AssistantAction = typeof assistantActions.$inferSelect;
+export type InsertAssistantAction = z.infer<typeof insertAssistantActionSchema>;
+export type AssistantActionStatus = "pending" | "running" | "executed" | "failed" | "cancelled" | "undone";
+// One tool call of a plan; description is what the user is asked to confirm, summary what happened
+export type AssistantStep = {
+  tool: string;
+  args: Record<string, unknown>;
+  description: string;
+  summary?: string;
+};
+// How to reverse an executed step. fields holds the task's previous values (dates as ISO strings).
+export type AssistantUndoStep =
+  | { type: "delete_task"; taskId: string }
+  | { type: "restore_task"; taskId: string; fields: Record<string, unknown> }
+  | { type: "delete_meeting"; meetingId: string }
+  | { type: "relink_external_meeting"; externalMeetingId: string; projectId: string | null };
+export type AssistantConversation = typeof assistantConversations.$inferSelect;
+export type InsertAssistantConversation = z.infer<typeof insertAssistantConversationSchema>;
+export type AssistantMessage = typeof assistantMessages.$inferSelect;
+export type InsertAssistantMessage = z.infer<typeof insertAssistantMessageSchema>;
+export type AssistantMessageRole = "user" | "assistant";
+export type AssistantMessageWithAction = AssistantMessage & { action: AssistantAction | null };
+export type RegisterEntryKind = "decision" | "risk" | "open_question";
+// One row of a project's cross-meeting register. detail is a decision's rationale or a risk's mitigation;
+// tasks are the ones created from (or merged with) a decision's action items.
+export type RegisterEntry = {
+  kind: RegisterEntryKind;
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  meetingScheduledAt: Date;
+  text: string;
+  detail: string | null;
+  owner: string | null;
+  impact: string | null;
+  tasks: Pick<Task, "id" | "title" | "status" | "statusCategory">[];
+  createdAt: Date | null;
+};
+
+// Briefings
+export const DEFAULT_TIMEZONE = "America/New_York";
+
+export type BriefingKind = "morning" | "lunch" | "endOfDay";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutesOfDay(time: string | null | undefined, fallback: number): number {
+  const match = time?.match(/^(\d{2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+}
+
+function formatTimeOfDay(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+}
+
+// When each daily briefing goes out, as "HH:MM" in the user's timezone: the morning briefing as the
+// working day starts, the lunch briefing halfway through it (on the half hour) and the end-of-day
+// summary as it ends. Working days that run past midnight are handled.
+export function getBriefingTimes(settings: { workingHoursStart?: string | null; workingHoursEnd?: string | null }): Record<BriefingKind, string> {
+  const start = minutesOfDay(settings.workingHoursStart, 9 * 60);
+  const end = minutesOfDay(settings.workingHoursEnd, 18 * 60);
+  const length = (end - start + 1440) % 1440 || 1440;
+  return {
+    morning: formatTimeOfDay(start),
+    lunch: formatTimeOfDay(start + Math.floor(length / 2 / 30) * 30),
+    endOfDay: formatTimeOfDay(end),
+  };
+}
+
+// Workflows
+// Projects without a custom workflow use the original fixed statuses
+export const defaultWorkflow: WorkflowStatus[] = [
+  { key: "todo", name: "To Do", category: "open" },
+  { key: "in_progress", name: "In Progress", category: "active" },
+  { key: "completed", name: "Completed", category: "done" },
+];
+
+export function getWorkflow(project?: { workflow?: unknown } | null): WorkflowStatus[] {
+  const workflow = project?.workflow as WorkflowStatus[] | null | undefined;
+  return workflow && workflow.length > 0 ? workflow : defaultWorkflow;
+}
+
+// Finds a status by key; the built-in keys (todo, in_progress, completed) also resolve to the
+// first status of their category so callers that predate custom workflows keep working
+export function resolveWorkflowStatus(workflow: WorkflowStatus[], key: string): WorkflowStatus | undefined {
+  const exact = workflow.find(status => status.key === key);
+  if (exact) return exact;
+  const builtIn = defaultWorkflow.find(status => status.key === key);
+  return builtIn && workflow.find(status => status.category === builtIn.category);
+}
+
+export function getTaskCategory(task: { status: string; statusCategory?: string | null }): StatusCategory {
+  if (task.statusCategory) return task.statusCategory as StatusCategory;
+  return resolveWorkflowStatus(defaultWorkflow, task.status)?.category || "open";
+}
+
+export function isTaskDone(task: { status: string; statusCategory?: string | null }): boolean {
+  return getTaskCategory(task) === "done";
+}